@@ -1,11 +1,18 @@
 const { createDefaultPreset } = require("ts-jest");
 
-const tsJestTransformCfg = createDefaultPreset().transform;
+const tsJestTransformCfg = createDefaultPreset({
+  // El módulo node16 del tsconfig se compila a CommonJS (package.json no declara "type")
+  diagnostics: { ignoreCodes: ["TS151002"] },
+}).transform;
 
 /** @type {import("jest").Config} **/
 module.exports = {
   testEnvironment: "node",
+  roots: ["<rootDir>/tests"],
+  setupFiles: ["<rootDir>/tests/setup.ts"],
+  // Igual que baseUrl en tsconfig.json: permite imports como 'src/enums/jsonResponse'
+  moduleDirectories: ["node_modules", "<rootDir>"],
   transform: {
     ...tsJestTransformCfg,
   },
-};
\ No newline at end of file
+};
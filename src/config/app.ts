@@ -12,6 +12,7 @@ import * as Sentry from "@sentry/node";
 import { RouteManager } from '../routes/index.routes';
 import { Database } from './database'
 import InitializationRelationship from './relationships'
+import { StreamingUpload } from '../helpers/streaming'
 
 /**
  * Clase principal para la configuración y arranque del servidor Express.
@@ -129,7 +130,7 @@ class App {
    * @returns {void}
    * 
    * @security
-   * - Límite de archivos: 100MB
+   * - Límite de archivos: 100MB (las rutas de `StreamingUpload` usan el límite de cada categoría)
    * - Límite de JSON: 50MB
    * - CSP configurado para prevenir XSS
    * - Nombres de archivos seguros activados
@@ -143,14 +144,21 @@ class App {
    */
   private config(): void {
     InitializationRelationship.init();
+    // Detrás de un balanceador, req.ip debe ser la IP del cliente y no la del proxy (contadores de LoginThrottle)
+    if (process.env.TRUST_PROXY) {
+      const hops = Number(process.env.TRUST_PROXY);
+      this.app.set('trust proxy', isNaN(hops) ? process.env.TRUST_PROXY : hops);
+    }
     this.app.use(cors());
     this.app.use(useragent.express());
-    this.app.use(fileUpload({
+    const uploads = fileUpload({
       limits: { fileSize: 100 * 1024 * 1024 }, // 100MB
       abortOnLimit: true,
       safeFileNames: true,
       preserveExtension: true
-    }));
+    });
+    // Las cargas en streaming leen el cuerpo por su cuenta; express-fileupload lo consumiría completo en memoria
+    this.app.use(RouteManager.PREFIX, StreamingUpload.bypass(uploads));
     this.app.use(helmet());
     this.app.use(helmet.contentSecurityPolicy({
       directives: {
@@ -0,0 +1,229 @@
+import fs from 'fs';
+import { MimeSniffer } from '../helpers/mime';
+import { Scanner } from '../helpers/scanner';
+
+/**
+ * Categoría de documentos administrada por `FileManager`.
+ *
+ * @interface DocumentCategory
+ * @property {string} code - Identificador usado por el código y las peticiones (ej. 'CONTRACT')
+ * @property {string} name - Nombre legible para formularios
+ * @property {string} [description] - Texto de ayuda opcional
+ * @property {string} prefix - Prefijo de clave en el almacenamiento, terminado en '/'
+ * @property {string[]} mime_types - Tipos MIME aceptados; deben ser detectables por `MimeSniffer`
+ * @property {number} max_size_bytes - Tamaño máximo por archivo
+ * @property {number | null} retention_days - Días que se conservan los archivos; null para conservarlos indefinidamente
+ * @property {'delete' | 'archive'} retention_action - Qué hace `RetentionSweeper` con un documento vencido
+ * @property {boolean} deduplicate - Reutilizar el objeto almacenado cuando se sube contenido idéntico (mismo SHA-256)
+ * @property {number | null} max_versions - Versiones que se conservan por documento; null para usar DOCUMENT_MAX_VERSIONS
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface DocumentCategory {
+    code: string;
+    name: string;
+    description?: string;
+    prefix: string;
+    mime_types: string[];
+    max_size_bytes: number;
+    retention_days: number | null;
+    retention_action: 'delete' | 'archive';
+    deduplicate: boolean;
+    max_versions: number | null;
+}
+
+/**
+ * Catálogo de categorías de documentos.
+ *
+ * Sustituye el `switch` fijo de `FileManager.getPath`: cada categoría define
+ * su prefijo de almacenamiento, los tipos MIME aceptados, el tamaño máximo y
+ * la retención. Agregar una categoría ya no requiere cambiar código, solo el
+ * archivo JSON indicado en DOCUMENT_CATEGORIES_PATH (un arreglo de
+ * `DocumentCategory`). Sin esa variable se usan las tres categorías históricas.
+ *
+ * El archivo se valida al cargarse; un catálogo mal formado detiene el
+ * arranque en lugar de aceptar archivos en rutas inesperadas.
+ *
+ * @class DocumentCategories
+ * @description Catálogo estático de categorías de documentos leído de configuración
+ * @version 1.0.0
+ * @author OmarGo96
+ *
+ * @environment
+ * - **DOCUMENT_CATEGORIES_PATH**: Archivo JSON con las categorías (opcional)
+ * - **RETENTION_ARCHIVE_PREFIX**: Prefijo donde se archivan los documentos vencidos (default 'archive/')
+ *
+ * @example
+ * // categories.json
+ * // [{ "code": "INVOICE", "name": "Facturas", "prefix": "invoices/",
+ * //    "mime_types": ["application/pdf"], "max_size_bytes": 5242880, "retention_days": 1825, "retention_action": "archive", "deduplicate": true,
+ * //    "max_versions": 5 }]
+ * const category = DocumentCategories.find('INVOICE');
+ *
+ * @since 1.3.0
+ */
+export class DocumentCategories {
+    /** Categorías cargadas, indexadas por código */
+    private static categories: Map<string, DocumentCategory> | null = null;
+
+    /** Categorías disponibles cuando no se define DOCUMENT_CATEGORIES_PATH */
+    private static readonly DEFAULTS: DocumentCategory[] = [
+        { code: 'CONTRACT', name: 'Contratos', prefix: 'contracts/', mime_types: ['application/pdf'], max_size_bytes: 100 * 1024 * 1024, retention_days: null, retention_action: 'delete', deduplicate: false, max_versions: null },
+        { code: 'DOCUMENTATION', name: 'Documentación', prefix: 'documentation/', mime_types: ['application/pdf'], max_size_bytes: 100 * 1024 * 1024, retention_days: null, retention_action: 'delete', deduplicate: false, max_versions: null },
+        { code: 'MEMBERSHIP', name: 'Membresías', prefix: 'memberships/', mime_types: ['application/pdf'], max_size_bytes: 100 * 1024 * 1024, retention_days: null, retention_action: 'delete', deduplicate: false, max_versions: null }
+    ];
+
+    /**
+     * Carga el catálogo si aún no está en memoria.
+     *
+     * @private
+     * @static
+     * @method load
+     * @returns {Map<string, DocumentCategory>} Categorías por código
+     * @throws {Error} Si el archivo no existe o alguna categoría es inválida
+     */
+    private static load(): Map<string, DocumentCategory> {
+        if (this.categories) return this.categories;
+
+        const file = process.env.DOCUMENT_CATEGORIES_PATH;
+        const source: any = file ? JSON.parse(fs.readFileSync(file, 'utf8')) : this.DEFAULTS;
+        if (!Array.isArray(source) || source.length === 0) {
+            throw new Error('DOCUMENT_CATEGORIES_PATH debe contener un arreglo de categorías.');
+        }
+
+        const categories = new Map<string, DocumentCategory>();
+        const prefixes = new Set<string>();
+        for (const entry of source) {
+            const category = this.validate(entry);
+            if (categories.has(category.code)) {
+                throw new Error(`Categoría duplicada: ${category.code}`);
+            }
+            if (prefixes.has(category.prefix)) {
+                throw new Error(`Prefijo duplicado en la categoría ${category.code}: ${category.prefix}`);
+            }
+            categories.set(category.code, category);
+            prefixes.add(category.prefix);
+        }
+
+        this.categories = categories;
+        return categories;
+    }
+
+    /**
+     * Valida y normaliza una categoría del catálogo.
+     *
+     * @private
+     * @static
+     * @method validate
+     * @param {any} entry - Categoría tal como viene del JSON
+     * @returns {DocumentCategory} Categoría normalizada
+     * @throws {Error} Si algún campo es inválido
+     */
+    private static validate(entry: any): DocumentCategory {
+        const code = entry?.code;
+        if (typeof code !== 'string' || !/^[A-Z][A-Z0-9_]{0,49}$/.test(code)) {
+            throw new Error(`Código de categoría inválido: ${code}`);
+        }
+        if (typeof entry.name !== 'string' || !entry.name.trim()) {
+            throw new Error(`La categoría ${code} no tiene nombre.`);
+        }
+        if (typeof entry.prefix !== 'string' || !/^([a-z0-9_-]+\/)+$/.test(entry.prefix)) {
+            throw new Error(`Prefijo inválido en la categoría ${code}: ${entry.prefix}`);
+        }
+        if (entry.prefix.startsWith(Scanner.quarantinePrefix())) {
+            throw new Error(`El prefijo de la categoría ${code} no puede estar dentro de la cuarentena: ${entry.prefix}`);
+        }
+        if (entry.prefix.startsWith(this.archivePrefix())) {
+            throw new Error(`El prefijo de la categoría ${code} no puede estar dentro del archivo de retención: ${entry.prefix}`);
+        }
+        if (!Array.isArray(entry.mime_types) || entry.mime_types.length === 0
+            || !entry.mime_types.every((mime: any) => typeof mime === 'string' && MimeSniffer.supports(mime))) {
+            throw new Error(`Tipos MIME inválidos o no soportados en la categoría ${code}.`);
+        }
+        if (!Number.isInteger(entry.max_size_bytes) || entry.max_size_bytes <= 0) {
+            throw new Error(`Tamaño máximo inválido en la categoría ${code}.`);
+        }
+        const retention = entry.retention_days ?? null;
+        if (retention !== null && (!Number.isInteger(retention) || retention <= 0)) {
+            throw new Error(`Retención inválida en la categoría ${code}.`);
+        }
+        const action = entry.retention_action ?? 'delete';
+        if (action !== 'delete' && action !== 'archive') {
+            throw new Error(`retention_action debe ser 'delete' o 'archive' en la categoría ${code}.`);
+        }
+        if (entry.deduplicate !== undefined && typeof entry.deduplicate !== 'boolean') {
+            throw new Error(`deduplicate debe ser booleano en la categoría ${code}.`);
+        }
+        const maxVersions = entry.max_versions ?? null;
+        if (maxVersions !== null && (!Number.isInteger(maxVersions) || maxVersions < 1)) {
+            throw new Error(`max_versions inválido en la categoría ${code}.`);
+        }
+
+        return {
+            code,
+            name: entry.name.trim(),
+            description: typeof entry.description === 'string' ? entry.description : undefined,
+            prefix: entry.prefix,
+            mime_types: entry.mime_types,
+            max_size_bytes: entry.max_size_bytes,
+            retention_days: retention,
+            retention_action: action,
+            deduplicate: entry.deduplicate === true,
+            max_versions: maxVersions
+        };
+    }
+
+    /**
+     * Prefijo bajo el que `RetentionSweeper` guarda los documentos archivados.
+     *
+     * Ninguna categoría puede usarlo, para que un archivo archivado no se
+     * confunda con uno vigente.
+     *
+     * @public
+     * @static
+     * @method archivePrefix
+     * @returns {string} Terminado en '/'
+     */
+    public static archivePrefix(): string {
+        const prefix = process.env.RETENTION_ARCHIVE_PREFIX || 'archive/';
+        return prefix.endsWith('/') ? prefix : `${prefix}/`;
+    }
+
+    /**
+     * Descarta el catálogo en memoria para releerlo en el siguiente uso.
+     *
+     * @public
+     * @static
+     * @method reload
+     * @returns {void}
+     */
+    public static reload(): void {
+        this.categories = null;
+    }
+
+    /**
+     * Busca una categoría por código.
+     *
+     * @public
+     * @static
+     * @method find
+     * @param {string} code - Código de la categoría (sensible a mayúsculas)
+     * @returns {DocumentCategory | undefined} Categoría o undefined si no existe
+     */
+    public static find(code: string): DocumentCategory | undefined {
+        return this.load().get(code);
+    }
+
+    /**
+     * Lista todas las categorías en el orden del catálogo.
+     *
+     * @public
+     * @static
+     * @method all
+     * @returns {DocumentCategory[]} Categorías configuradas
+     */
+    public static all(): DocumentCategory[] {
+        return [...this.load().values()];
+    }
+}
@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import { Algorithm, SignOptions, VerifyOptions } from 'jsonwebtoken';
+
+/**
+ * Configuración de los claims estándar de JWT por despliegue.
+ *
+ * Centraliza las opciones que comparten la emisión (`Payload.createToken`)
+ * y la verificación (`CheckHeaders`), para que un token solo sea aceptado
+ * por el servicio y la audiencia para los que fue emitido, aun cuando otros
+ * servicios compartan la misma clave.
+ *
+ * **Claims emitidos:**
+ * - `iss`: JWT_ISSUER, si está definido
+ * - `aud`: JWT_AUDIENCE (lista separada por comas), si está definido
+ * - `sub`: identificador seudónimo estable (`user:` / `client:` + HMAC del id),
+ *   que no revela el id que viaja cifrado en `user_id` / `client_id`
+ * - `iat` y `nbf`: momento de emisión
+ *
+ * **Verificación:** se fijan los algoritmos permitidos (JWT_ALGORITHMS,
+ * por defecto solo RS256), se exigen `iss`/`aud` cuando están configurados y
+ * se tolera un desfase de reloj de JWT_CLOCK_TOLERANCE segundos en `exp` y `nbf`.
+ * `CheckHeaders` exige además `sub` y lo coteja con el id descifrado.
+ *
+ * @class JwtConfig
+ * @description Opciones de firma y verificación de JWT leídas del entorno
+ * @version 1.0.0
+ * @author OmarGo96
+ *
+ * @environment
+ * - **JWT_ISSUER**: Emisor de los tokens (ej. 'https://api.empresa.com')
+ * - **JWT_AUDIENCE**: Audiencias aceptadas, separadas por comas
+ * - **JWT_ALGORITHMS**: Algoritmos aceptados al verificar (default 'RS256')
+ * - **JWT_CLOCK_TOLERANCE**: Segundos de tolerancia de reloj (default 30)
+ * - **JWT_SUBJECT_KEY**: Clave del HMAC de `sub` (default CRYPTR_KEY)
+ *
+ * @example
+ * jwt.sign(payload, privateKey, { ...JwtConfig.signOptions(), algorithm: 'RS256' });
+ * jwt.verify(token, publicKey, JwtConfig.verifyOptions());
+ *
+ * @since 1.3.0
+ */
+export class JwtConfig {
+    /**
+     * Emisor configurado.
+     *
+     * @static
+     * @method issuer
+     * @returns {string | undefined} Valor de JWT_ISSUER
+     */
+    static issuer(): string | undefined {
+        return process.env.JWT_ISSUER || undefined;
+    }
+
+    /**
+     * Audiencias configuradas.
+     *
+     * @static
+     * @method audience
+     * @returns {string[]} Audiencias de JWT_AUDIENCE (vacío si no está definida)
+     */
+    static audience(): string[] {
+        return (process.env.JWT_AUDIENCE || '').split(',').map(value => value.trim()).filter(Boolean);
+    }
+
+    /**
+     * Algoritmos aceptados al verificar y al firmar.
+     *
+     * @static
+     * @method algorithms
+     * @returns {Algorithm[]} Algoritmos de JWT_ALGORITHMS, por defecto ['RS256']
+     */
+    static algorithms(): Algorithm[] {
+        const configured = (process.env.JWT_ALGORITHMS || '').split(',').map(value => value.trim()).filter(Boolean);
+        return (configured.length > 0 ? configured : ['RS256']) as Algorithm[];
+    }
+
+    /**
+     * Tolerancia de desfase de reloj.
+     *
+     * @static
+     * @method clockTolerance
+     * @returns {number} Segundos de tolerancia
+     */
+    static clockTolerance(): number {
+        const value = parseInt(process.env.JWT_CLOCK_TOLERANCE, 10);
+        return isNaN(value) ? 30 : value;
+    }
+
+    /**
+     * Calcula el claim `sub` para un usuario o cliente.
+     *
+     * @static
+     * @method subject
+     * @param {'user' | 'client'} type - Tipo de token
+     * @param {string | number} id - Identificador sin cifrar
+     * @returns {string} Sujeto seudónimo, estable para el mismo id
+     */
+    static subject(type: 'user' | 'client', id: string | number): string {
+        const key = process.env.JWT_SUBJECT_KEY || process.env.CRYPTR_KEY;
+        const digest = crypto.createHmac('sha256', key).update(`${type}:${id}`).digest('base64url');
+        return `${type}:${digest}`;
+    }
+
+    /**
+     * Opciones de `jwt.sign` para los claims estándar.
+     * `jsonwebtoken` agrega `iat`; `notBefore: 0` fija `nbf` en el mismo instante.
+     *
+     * @static
+     * @method signOptions
+     * @returns {SignOptions} issuer, audience y notBefore
+     */
+    static signOptions(): SignOptions {
+        const options: SignOptions = { notBefore: 0 };
+        const issuer = this.issuer();
+        const audience = this.audience();
+        if (issuer) options.issuer = issuer;
+        if (audience.length > 0) options.audience = audience.length === 1 ? audience[0] : audience;
+        return options;
+    }
+
+    /**
+     * Opciones de `jwt.verify`: algoritmos fijados, emisor/audiencia y tolerancia de reloj.
+     *
+     * @static
+     * @method verifyOptions
+     * @returns {VerifyOptions} Opciones de verificación
+     */
+    static verifyOptions(): VerifyOptions {
+        const options: VerifyOptions = {
+            algorithms: this.algorithms(),
+            clockTolerance: this.clockTolerance()
+        };
+        const issuer = this.issuer();
+        const audience = this.audience();
+        if (issuer) options.issuer = issuer;
+        if (audience.length > 0) options.audience = audience as [string, ...string[]];
+        return options;
+    }
+}
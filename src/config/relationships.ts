@@ -2,11 +2,56 @@
  * De igual forma, en este espacio vamos a declarar cada una de las llaves foreneas.
  *  import { ExampleModel } from '../models/example.model'
  */
+import { RoleModel } from '../models/role.model'
+import { PermissionModel } from '../models/permission.model'
+import { RolePermissionModel } from '../models/role_permission.model'
+import { UserRoleModel } from '../models/user_role.model'
+import { UserModel } from '../models/user.model'
+import { RefreshTokenModel } from '../models/refresh_token.model'
+import { PasswordResetModel } from '../models/password_reset.model'
+import { MfaChallengeModel } from '../models/mfa_challenge.model'
+import { MfaRecoveryCodeModel } from '../models/mfa_recovery_code.model'
+import { ApiKeyModel } from '../models/api_key.model'
+import { UploadIntentModel } from '../models/upload_intent.model'
+import { DocumentModel } from '../models/document.model'
+import { DocumentVersionModel } from '../models/document_version.model'
+import { MalwareDetectionModel } from '../models/malware_detection.model'
+import { DocumentContentModel } from '../models/document_content.model'
+import { CertificateModel } from '../models/certificate.model'
 
 export default class Relationship {
     static init() {
         /**
          * Example.belongsTo(Foreign_Model_Name, { foreignKey: 'foreign_key_id', as: 'NameModel' })
          */
+
+        /** Roles y permisos */
+        RoleModel.belongsToMany(PermissionModel, { through: RolePermissionModel, foreignKey: 'role_id', otherKey: 'permission_id', as: 'permissions' })
+        PermissionModel.belongsToMany(RoleModel, { through: RolePermissionModel, foreignKey: 'permission_id', otherKey: 'role_id', as: 'roles' })
+        UserRoleModel.belongsTo(RoleModel, { foreignKey: 'role_id', as: 'role' })
+
+        /** Usuarios */
+        UserModel.belongsToMany(RoleModel, { through: UserRoleModel, foreignKey: 'user_id', otherKey: 'role_id', as: 'roles' })
+        UserRoleModel.belongsTo(UserModel, { foreignKey: 'user_id', as: 'user' })
+        RefreshTokenModel.belongsTo(UserModel, { foreignKey: 'user_id', as: 'user' })
+        PasswordResetModel.belongsTo(UserModel, { foreignKey: 'user_id', as: 'user' })
+        MfaChallengeModel.belongsTo(UserModel, { foreignKey: 'user_id', as: 'user' })
+        MfaRecoveryCodeModel.belongsTo(UserModel, { foreignKey: 'user_id', as: 'user' })
+        ApiKeyModel.belongsTo(UserModel, { foreignKey: 'created_by', as: 'creator' })
+
+        /** Documentos */
+        UploadIntentModel.belongsTo(UserModel, { foreignKey: 'user_id', as: 'user' })
+        DocumentModel.belongsTo(UserModel, { foreignKey: 'user_id', as: 'owner' })
+        DocumentModel.hasMany(DocumentVersionModel, { foreignKey: 'document_id', as: 'versions' })
+        DocumentVersionModel.belongsTo(DocumentModel, { foreignKey: 'document_id', as: 'document' })
+        DocumentVersionModel.belongsTo(UserModel, { foreignKey: 'user_id', as: 'uploader' })
+        MalwareDetectionModel.belongsTo(UserModel, { foreignKey: 'user_id', as: 'user' })
+        DocumentModel.hasOne(DocumentContentModel, { foreignKey: 'document_id', as: 'content' })
+        DocumentContentModel.belongsTo(DocumentModel, { foreignKey: 'document_id', as: 'document' })
+
+        /** Certificados */
+        CertificateModel.belongsTo(UserModel, { foreignKey: 'issued_by', as: 'issuer' })
+        CertificateModel.belongsTo(UserModel, { foreignKey: 'user_id', as: 'holder' })
+        CertificateModel.belongsTo(DocumentModel, { foreignKey: 'document_id', as: 'document' })
     }
-}
\ No newline at end of file
+}
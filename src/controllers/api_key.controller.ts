@@ -0,0 +1,64 @@
+import { Response, Request } from 'express'
+import { JsonResponse } from '../enums/jsonResponse'
+import { ApiKeyManager } from '../helpers/api_keys'
+import { AuthenticatedRequest } from '../middlewares/headers'
+
+export class ApiKeyController {
+    static apiKeys: ApiKeyManager = new ApiKeyManager()
+
+    public async index(req: Request, res: Response) {
+        let result = await ApiKeyController.apiKeys.list()
+        if (!result.ok) {
+            return res.status(JsonResponse.INTERNAL_SERVER_ERROR).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            api_keys: result.apiKeys
+        })
+    }
+
+    public async store(req: Request, res: Response) {
+        let result = await ApiKeyController.apiKeys.create({
+            name: req.body?.name,
+            client_id: req.body?.client_id,
+            scopes: req.body?.scopes,
+            expires_at: req.body?.expires_at,
+            created_by: (req as AuthenticatedRequest).userId
+        })
+        if (!result.ok) {
+            return res.status(result.reason === 'invalid' ? JsonResponse.BAD_REQUEST : JsonResponse.INTERNAL_SERVER_ERROR).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.CREATED).json({
+            ok: true,
+            message: 'Guarde la llave en un lugar seguro; no volverá a mostrarse.',
+            key: result.key,
+            api_key: result.apiKey
+        })
+    }
+
+    public async revoke(req: Request, res: Response) {
+        let result = await ApiKeyController.apiKeys.revoke(Number(req.params.id))
+        if (!result.ok) {
+            const status = result.reason === 'not_found' ? JsonResponse.NOT_FOUND
+                : result.reason === 'invalid' ? JsonResponse.BAD_REQUEST
+                : JsonResponse.INTERNAL_SERVER_ERROR
+            return res.status(status).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            message: 'La llave de API fue revocada.'
+        })
+    }
+}
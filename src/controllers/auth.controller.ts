@@ -0,0 +1,212 @@
+import { Response, Request } from 'express'
+import { JsonResponse } from '../enums/jsonResponse'
+import { SessionManager } from '../helpers/session'
+import { AccountManager } from '../helpers/accounts'
+import { MfaManager } from '../helpers/mfa'
+import { LoginThrottle } from '../helpers/throttle'
+import { KeyRing } from '../helpers/keyring'
+import { AuthenticatedRequest } from '../middlewares/headers'
+
+export class AuthController {
+    static session: SessionManager = new SessionManager()
+    static accounts: AccountManager = new AccountManager()
+    static mfa: MfaManager = new MfaManager()
+    static throttle: LoginThrottle = new LoginThrottle()
+
+    public async login(req: Request, res: Response) {
+        const { email, password } = req.body || {}
+        if (!email || !password) {
+            return res.status(JsonResponse.BAD_REQUEST).json({
+                ok: false,
+                errors: [{ message: 'Favor de proporcionar correo y contraseña.' }]
+            })
+        }
+
+        let gate = await AuthController.throttle.check(email, req.ip)
+        if (!gate.ok) {
+            return res.status(JsonResponse.INTERNAL_SERVER_ERROR).json({
+                ok: false,
+                errors: [{ message: gate.error }]
+            })
+        }
+        if (!gate.allowed) {
+            return res.status(JsonResponse.TOO_MANY_REQUESTS)
+                .set('Retry-After', String(gate.retry_after))
+                .json({
+                    ok: false,
+                    locked: gate.locked || false,
+                    retry_after: gate.retry_after,
+                    errors: [{ message: gate.error }]
+                })
+        }
+
+        let account = await AuthController.accounts.authenticate(email, password)
+        if (!account.ok && account.reason === 'invalid') {
+            await AuthController.throttle.registerFailure(email, req.ip)
+        }
+        if (!account.ok) {
+            const status = account.reason === 'failed' ? JsonResponse.INTERNAL_SERVER_ERROR
+                : account.reason === 'inactive' ? JsonResponse.FORBIDDEN
+                : JsonResponse.UNAUTHORIZED
+            return res.status(status).json({
+                ok: false,
+                errors: [{ message: account.error }]
+            })
+        }
+
+        // Con segundo factor activo, la contraseña solo habilita el reto; el contador se reinicia al superarlo
+        if (account.user.mfa_enabled_at) {
+            let challenge = await AuthController.mfa.challenge(account.user.id)
+            if (!challenge.ok) {
+                return res.status(JsonResponse.INTERNAL_SERVER_ERROR).json({
+                    ok: false,
+                    errors: [{ message: challenge.error }]
+                })
+            }
+
+            return res.status(JsonResponse.OK).json({
+                ok: true,
+                mfa_required: true,
+                mfa_token: challenge.mfa_token
+            })
+        }
+
+        let result = await AuthController.session.issue(account.user.id)
+        if (!result.ok) {
+            return res.status(JsonResponse.INTERNAL_SERVER_ERROR).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        await AuthController.throttle.registerSuccess(email)
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            token: result.token,
+            refresh_token: result.refresh_token
+        })
+    }
+
+    public async forgotPassword(req: Request, res: Response) {
+        let result = await AuthController.accounts.requestPasswordReset(req.body?.email)
+        if (!result.ok) {
+            return res.status(result.reason === 'invalid' ? JsonResponse.BAD_REQUEST : JsonResponse.INTERNAL_SERVER_ERROR).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            message: 'Si el correo está registrado, recibirá un enlace para restablecer su contraseña.'
+        })
+    }
+
+    public async resetPassword(req: Request, res: Response) {
+        let result = await AuthController.accounts.resetPassword(req.body?.token, req.body?.password)
+        if (!result.ok) {
+            return res.status(result.reason === 'invalid' ? JsonResponse.BAD_REQUEST : JsonResponse.INTERNAL_SERVER_ERROR).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        // Quien tuviera la contraseña anterior pierde sus sesiones
+        await AuthController.session.revokeAll(result.user.id)
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            message: 'La contraseña se restableció correctamente, inicie sesión nuevamente.'
+        })
+    }
+
+    public async unlock(req: Request, res: Response) {
+        let result = await AuthController.throttle.unlock(req.body?.token)
+        if (!result.ok) {
+            return res.status(result.reason === 'invalid' ? JsonResponse.BAD_REQUEST : JsonResponse.INTERNAL_SERVER_ERROR).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            message: 'La cuenta se desbloqueó correctamente.'
+        })
+    }
+
+    public async refresh(req: Request, res: Response) {
+        const refresh_token = req.body?.refresh_token
+        if (!refresh_token || typeof refresh_token !== 'string') {
+            return res.status(JsonResponse.BAD_REQUEST).json({
+                ok: false,
+                errors: [{ message: 'Favor de proporcionar el refresh token.' }]
+            })
+        }
+
+        let result = await AuthController.session.rotate(refresh_token)
+        if (!result.ok) {
+            return res.status(JsonResponse.UNAUTHORIZED).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            token: result.token,
+            refresh_token: result.refresh_token
+        })
+    }
+
+    public async logout(req: Request, res: Response) {
+        const auth = req as AuthenticatedRequest
+
+        let result = await AuthController.session.logout({
+            user_id: auth.userId,
+            jti: auth.tokenId,
+            expires_at: auth.tokenExpiresAt,
+            refresh_token: req.body?.refresh_token
+        })
+        if (!result.ok) {
+            return res.status(JsonResponse.INTERNAL_SERVER_ERROR).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            message: 'Sesión cerrada correctamente.'
+        })
+    }
+
+    public async revokeAll(req: Request, res: Response) {
+        let result = await AuthController.session.revokeAll((req as AuthenticatedRequest).userId)
+        if (!result.ok) {
+            return res.status(JsonResponse.INTERNAL_SERVER_ERROR).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            message: 'Se cerraron todas las sesiones activas.'
+        })
+    }
+
+    public async jwks(req: Request, res: Response) {
+        try {
+            return res.status(JsonResponse.OK)
+                .set('Cache-Control', 'public, max-age=300')
+                .json(KeyRing.jwks())
+        } catch {
+            return res.status(JsonResponse.INTERNAL_SERVER_ERROR).json({
+                ok: false,
+                errors: [{ message: 'No fue posible obtener las claves públicas.' }]
+            })
+        }
+    }
+}
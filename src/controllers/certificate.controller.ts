@@ -0,0 +1,130 @@
+import { Response, Request } from 'express'
+import { JsonResponse } from '../enums/jsonResponse'
+import { CertificateManager } from '../helpers/certificates'
+import { AuthenticatedRequest } from '../middlewares/headers'
+
+export class CertificateController {
+    static certificates: CertificateManager = new CertificateManager()
+
+    /** Código HTTP para el `reason` de un fallo */
+    static status(reason?: string): number {
+        switch (reason) {
+            case 'invalid': return JsonResponse.BAD_REQUEST
+            case 'not_found': return JsonResponse.NOT_FOUND
+            case 'revoked': return JsonResponse.CONFLICT
+            case 'quota_exceeded': return JsonResponse.UNPROCESSABLE_ENTITY
+            default: return JsonResponse.INTERNAL_SERVER_ERROR
+        }
+    }
+
+    public async verify(req: Request, res: Response) {
+        let result = await CertificateController.certificates.verify(req.params.code)
+        if (!result.ok) {
+            return res.status(CertificateController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            certificate: result.verification
+        })
+    }
+
+    public async index(req: Request, res: Response) {
+        let result = await CertificateController.certificates.list({
+            user_id: req.query.user_id,
+            search: req.query.search,
+            revoked: req.query.revoked,
+            page: req.query.page,
+            limit: req.query.limit
+        })
+        if (!result.ok) {
+            return res.status(CertificateController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            certificates: result.certificates,
+            total: result.total,
+            page: req.query.page === undefined ? 1 : Number(req.query.page)
+        })
+    }
+
+    public async show(req: Request, res: Response) {
+        let result = await CertificateController.certificates.show(Number(req.params.id))
+        if (!result.ok) {
+            return res.status(CertificateController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            certificate: result.certificate
+        })
+    }
+
+    public async store(req: Request, res: Response) {
+        let result = await CertificateController.certificates.issue({
+            holder_name: req.body?.holder_name,
+            title: req.body?.title,
+            user_id: req.body?.user_id,
+            expires_at: req.body?.expires_at,
+            data: req.body?.data,
+            template: req.body?.template
+        }, (req as AuthenticatedRequest).userId)
+        if (!result.ok) {
+            return res.status(CertificateController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.CREATED).json({
+            ok: true,
+            certificate: result.certificate
+        })
+    }
+
+    public async download(req: Request, res: Response) {
+        let result = await CertificateController.certificates.download(Number(req.params.id))
+        if (!result.ok) {
+            return res.status(CertificateController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK)
+            .attachment(result.document.original_name || result.document.name)
+            .contentType(result.document.mimetype)
+            .set('X-Checksum-SHA256', result.document.checksum)
+            .end(Buffer.from(result.file))
+    }
+
+    public async revoke(req: Request, res: Response) {
+        let result = await CertificateController.certificates.revoke(
+            Number(req.params.id),
+            (req as AuthenticatedRequest).userId,
+            req.body?.reason
+        )
+        if (!result.ok) {
+            return res.status(CertificateController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            message: 'El certificado fue revocado.',
+            certificate: result.certificate
+        })
+    }
+}
@@ -0,0 +1,423 @@
+import { Response, Request } from 'express'
+import { DateTime } from 'luxon'
+import { JsonResponse } from '../enums/jsonResponse'
+import { DocumentCategories } from '../config/categories'
+import { UploadManager } from '../helpers/uploads'
+import { DocumentManager } from '../helpers/documents'
+import { StreamingUpload } from '../helpers/streaming'
+import { UploadProgress, UploadStatus } from '../helpers/progress'
+import { DocumentArchive } from '../helpers/archive'
+import { RetentionSweeper } from '../helpers/retention'
+import { DocumentOwner } from '../helpers/quotas'
+import { AuthenticatedRequest } from '../middlewares/headers'
+
+export class DocumentController {
+    static uploads: UploadManager = new UploadManager()
+    static documents: DocumentManager = new DocumentManager()
+    static streaming: StreamingUpload = new StreamingUpload()
+    static archives: DocumentArchive = new DocumentArchive()
+    static retention: RetentionSweeper = new RetentionSweeper()
+
+    /** Código HTTP para el `reason` de un fallo */
+    static status(reason?: string): number {
+        switch (reason) {
+            case 'invalid': return JsonResponse.BAD_REQUEST
+            case 'not_found': return JsonResponse.NOT_FOUND
+            case 'held': return JsonResponse.CONFLICT
+            case 'busy': return JsonResponse.CONFLICT
+            case 'unsupported': return JsonResponse.NOT_IMPLEMENTED
+            case 'infected': return JsonResponse.UNPROCESSABLE_ENTITY
+            case 'quota_exceeded': return JsonResponse.UNPROCESSABLE_ENTITY
+            default: return JsonResponse.INTERNAL_SERVER_ERROR
+        }
+    }
+
+    /** Dueño de lo que se sube en la petición: el usuario o el cliente del token */
+    static owner(req: Request): DocumentOwner {
+        let auth = req as AuthenticatedRequest
+        return { user_id: auth.userId ?? null, client_id: auth.clientId ?? null }
+    }
+
+    public async categories(req: Request, res: Response) {
+        // El prefijo de almacenamiento es un detalle interno; no se expone
+        const categories = DocumentCategories.all().map(({ prefix, ...category }) => category)
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            categories
+        })
+    }
+
+    public async downloadUrl(req: Request, res: Response) {
+        let result = await DocumentController.documents.downloadUrl(Number(req.params.id))
+        if (!result.ok) {
+            return res.status(DocumentController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            url: result.url,
+            expires_at: result.expires_at
+        })
+    }
+
+    public async beginUpload(req: Request, res: Response) {
+        let result = await DocumentController.uploads.begin((req as AuthenticatedRequest).userId, req.body?.category, {
+            name: req.body?.filename,
+            mimetype: req.body?.mimetype,
+            size: req.body?.size
+        })
+        if (!result.ok) {
+            return res.status(DocumentController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.CREATED).json({
+            ok: true,
+            upload: result.upload
+        })
+    }
+
+    public async completeUpload(req: Request, res: Response) {
+        let result = await DocumentController.uploads.complete((req as AuthenticatedRequest).userId, Number(req.params.id))
+        if (!result.ok) {
+            return res.status(DocumentController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.CREATED).json({
+            ok: true,
+            document: result.document
+        })
+    }
+
+    public async index(req: Request, res: Response) {
+        let page = req.query.page === undefined ? 1 : Number(req.query.page)
+        let limit = req.query.limit === undefined ? undefined : Number(req.query.limit)
+        let result = await DocumentController.documents.list({
+            category: req.query.category,
+            user_id: req.query.user_id,
+            search: req.query.search,
+            from: req.query.from,
+            to: req.query.to,
+            page,
+            limit
+        })
+        if (!result.ok) {
+            return res.status(DocumentController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            documents: result.documents,
+            total: result.total,
+            page
+        })
+    }
+
+    public async search(req: Request, res: Response) {
+        let page = req.query.page === undefined ? 1 : Number(req.query.page)
+        let limit = req.query.limit === undefined ? undefined : Number(req.query.limit)
+        let result = await DocumentController.documents.search({
+            q: req.query.q,
+            category: req.query.category,
+            page,
+            limit
+        })
+        if (!result.ok) {
+            return res.status(DocumentController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            matches: result.matches,
+            total: result.total,
+            page
+        })
+    }
+
+    public async show(req: Request, res: Response) {
+        let result = await DocumentController.documents.show(Number(req.params.id))
+        if (!result.ok) {
+            return res.status(DocumentController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            document: result.document
+        })
+    }
+
+    public async store(req: Request, res: Response) {
+        let result = await DocumentController.documents.upload(DocumentController.owner(req), req, req.body?.category)
+        if (!result.ok) {
+            return res.status(DocumentController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.CREATED).json({
+            ok: true,
+            document: result.document
+        })
+    }
+
+    public async archive(req: Request, res: Response) {
+        let result = await DocumentController.archives.prepare({
+            ids: req.body?.ids,
+            category: req.body?.category,
+            user_id: req.body?.user_id,
+            search: req.body?.search,
+            from: req.body?.from,
+            to: req.body?.to
+        })
+        if (!result.ok) {
+            return res.status(DocumentController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        // A partir de aquí ya no hay respuesta JSON: un error corta la descarga
+        res.status(JsonResponse.OK)
+            .attachment(`documentos-${DateTime.now().toFormat('yyyyLLdd-HHmmss')}.zip`)
+            .contentType('application/zip')
+            .set('X-Archive-Files', String(result.documents.length))
+        await DocumentController.archives.write(result.documents, res)
+    }
+
+    public async storeStream(req: Request, res: Response) {
+        let documentId = req.params.id === undefined ? undefined : Number(req.params.id)
+        let result = await DocumentController.streaming.receive(req, DocumentController.owner(req), req.query.category, documentId)
+        if (!result.ok) {
+            // El cliente puede seguir enviando el archivo; cerrar la conexión evita recibirlo completo
+            return res.status(DocumentController.status(result.reason)).set('Connection', 'close').json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.CREATED).json({
+            ok: true,
+            document: result.document
+        })
+    }
+
+    public async uploadProgress(req: Request, res: Response) {
+        let owner = DocumentController.owner(req)
+        let uploadId = req.params.upload_id
+        if (!StreamingUpload.isUploadId(uploadId)) {
+            return res.status(JsonResponse.BAD_REQUEST).json({
+                ok: false,
+                errors: [{ message: 'El id de la carga debe ser un UUID.' }]
+            })
+        }
+
+        if (req.accepts(['json', 'text/event-stream']) !== 'text/event-stream') {
+            let progress = UploadProgress.get(uploadId, owner)
+            if (!progress) {
+                return res.status(JsonResponse.NOT_FOUND).json({
+                    ok: false,
+                    errors: [{ message: 'La carga no existe o ya expiró.' }]
+                })
+            }
+            return res.status(JsonResponse.OK).json({
+                ok: true,
+                progress
+            })
+        }
+
+        // Server-Sent Events: un evento por cambio hasta que la carga termina o el cliente se desconecta
+        res.status(JsonResponse.OK).set({
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no'
+        }).flushHeaders()
+
+        let unsubscribe = () => {}
+        let send = (progress: UploadStatus) => {
+            res.write(`data: ${JSON.stringify(progress)}\n\n`)
+            if (progress.status !== 'receiving') {
+                unsubscribe()
+                res.end()
+            }
+        }
+        unsubscribe = UploadProgress.subscribe(uploadId, owner, send)
+        req.on('close', () => unsubscribe())
+
+        let current = UploadProgress.get(uploadId, owner)
+        if (current) send(current)
+    }
+
+    public async download(req: Request, res: Response) {
+        let result = await DocumentController.documents.download(Number(req.params.id))
+        if (!result.ok) {
+            return res.status(DocumentController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        // attachment() codifica nombres con caracteres fuera de ASCII (filename*)
+        return res.status(JsonResponse.OK)
+            .attachment(result.document.original_name || result.document.name)
+            .contentType(result.document.mimetype)
+            .set('X-Checksum-SHA256', result.document.checksum)
+            .end(Buffer.from(result.file))
+    }
+
+    public async storeVersion(req: Request, res: Response) {
+        let result = await DocumentController.documents.addVersion(Number(req.params.id), DocumentController.owner(req), req)
+        if (!result.ok) {
+            return res.status(DocumentController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.CREATED).json({
+            ok: true,
+            document: result.document
+        })
+    }
+
+    public async versions(req: Request, res: Response) {
+        let result = await DocumentController.documents.versions(Number(req.params.id))
+        if (!result.ok) {
+            return res.status(DocumentController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            current: result.document.version,
+            versions: result.versions
+        })
+    }
+
+    public async downloadVersion(req: Request, res: Response) {
+        let result = await DocumentController.documents.downloadVersion(Number(req.params.id), Number(req.params.version))
+        if (!result.ok) {
+            return res.status(DocumentController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK)
+            .attachment(result.version.original_name || result.version.name)
+            .contentType(result.version.mimetype)
+            .set('X-Checksum-SHA256', result.version.checksum)
+            .end(Buffer.from(result.file))
+    }
+
+    public async restoreVersion(req: Request, res: Response) {
+        let result = await DocumentController.documents.restore(Number(req.params.id), Number(req.params.version), (req as AuthenticatedRequest).userId)
+        if (!result.ok) {
+            return res.status(DocumentController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.CREATED).json({
+            ok: true,
+            document: result.document
+        })
+    }
+
+    public async destroy(req: Request, res: Response) {
+        let result = await DocumentController.documents.remove(Number(req.params.id))
+        if (!result.ok) {
+            return res.status(DocumentController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            message: 'El documento fue eliminado.'
+        })
+    }
+
+    public async hold(req: Request, res: Response) {
+        let result = await DocumentController.documents.hold(Number(req.params.id), (req as AuthenticatedRequest).userId, req.body?.reason)
+        if (!result.ok) {
+            return res.status(DocumentController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            document: result.document
+        })
+    }
+
+    public async releaseHold(req: Request, res: Response) {
+        let result = await DocumentController.documents.releaseHold(Number(req.params.id))
+        if (!result.ok) {
+            return res.status(DocumentController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            document: result.document
+        })
+    }
+
+    public async retentionReport(req: Request, res: Response) {
+        let result = await DocumentController.retention.run({ dry_run: true, category: req.query.category })
+        if (!result.ok) {
+            return res.status(DocumentController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            report: result.report
+        })
+    }
+
+    public async retentionSweep(req: Request, res: Response) {
+        let result = await DocumentController.retention.run({ dry_run: false, category: req.body?.category })
+        if (!result.ok) {
+            return res.status(DocumentController.status(result.reason)).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            report: result.report
+        })
+    }
+}
@@ -23,7 +23,14 @@ export class ExampleController {
     public async awsS3Download(req: Request, res: Response) {
         let result = await ExampleController.fileManager.download('example.pdf', 'CONTRACT')
 
-        return res.status(JsonResponse.OK).contentType('application/pdf').end(result, 'binary')
+        if (!result.ok) {
+            return res.status(JsonResponse.BAD_REQUEST).json({
+                ok: false,
+                errors: [{ message: result.message }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).contentType(result.mimetype).end(Buffer.from(result.file))
     }
 
     public async example(req: Request, res: Response) {
@@ -33,19 +40,6 @@ export class ExampleController {
         })
     }
 
-    public async users(req: Request, res: Response) {
-        return res.status(JsonResponse.OK).json({
-            ok: true,
-            users: [
-                { 'name': 'Xavier', 'password': 'Xavier123--' },
-                { 'name': 'Peter', 'password': 'Peter123--' },
-                { 'name': 'María', 'password': 'Maria123--' },
-                { 'name': 'Jhon', 'password': 'Jhon123--' },
-                { 'name': 'Adele', 'password': 'Adele123--' },
-            ]
-        })
-    }
-
     public async readExcel(req: Request, res: Response) {
         let info = []
         let excel = fs.createReadStream('./files/excel/example.csv')
@@ -0,0 +1,128 @@
+import { Response, Request } from 'express'
+import { JsonResponse } from '../enums/jsonResponse'
+import { MfaManager } from '../helpers/mfa'
+import { SessionManager } from '../helpers/session'
+import { LoginThrottle } from '../helpers/throttle'
+import { AuthenticatedRequest } from '../middlewares/headers'
+
+export class MfaController {
+    static mfa: MfaManager = new MfaManager()
+    static session: SessionManager = new SessionManager()
+    static throttle: LoginThrottle = new LoginThrottle()
+
+    public async enroll(req: Request, res: Response) {
+        let result = await MfaController.mfa.enroll((req as AuthenticatedRequest).userId)
+        if (!result.ok) {
+            return res.status(result.reason === 'conflict' ? JsonResponse.CONFLICT : JsonResponse.INTERNAL_SERVER_ERROR).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            secret: result.secret,
+            otpauth_url: result.otpauth_url
+        })
+    }
+
+    public async confirm(req: Request, res: Response) {
+        const user_id = (req as AuthenticatedRequest).userId
+
+        let result = await MfaController.mfa.confirm(user_id, req.body?.code)
+        if (!result.ok) {
+            const status = result.reason === 'conflict' ? JsonResponse.CONFLICT
+                : result.reason === 'invalid' ? JsonResponse.BAD_REQUEST
+                : JsonResponse.INTERNAL_SERVER_ERROR
+            return res.status(status).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        // El usuario acaba de demostrar el segundo factor: su nueva sesión ya lo acredita
+        let session = await MfaController.session.issue(user_id, { mfa: true })
+        if (!session.ok) {
+            return res.status(JsonResponse.INTERNAL_SERVER_ERROR).json({
+                ok: false,
+                errors: [{ message: session.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            recovery_codes: result.recovery_codes,
+            token: session.token,
+            refresh_token: session.refresh_token
+        })
+    }
+
+    public async verify(req: Request, res: Response) {
+        let result = await MfaController.mfa.verifyChallenge(req.body?.mfa_token, {
+            code: req.body?.code,
+            recovery_code: req.body?.recovery_code
+        })
+        if (!result.ok && result.email) {
+            await MfaController.throttle.registerFailure(result.email, req.ip)
+        }
+        if (!result.ok) {
+            const status = result.reason === 'failed' ? JsonResponse.INTERNAL_SERVER_ERROR : JsonResponse.UNAUTHORIZED
+            return res.status(status).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        let session = await MfaController.session.issue(result.user_id, { mfa: true })
+        if (!session.ok) {
+            return res.status(JsonResponse.INTERNAL_SERVER_ERROR).json({
+                ok: false,
+                errors: [{ message: session.error }]
+            })
+        }
+
+        await MfaController.throttle.registerSuccess(result.email)
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            token: session.token,
+            refresh_token: session.refresh_token
+        })
+    }
+
+    public async recoveryCodes(req: Request, res: Response) {
+        let result = await MfaController.mfa.regenerateRecoveryCodes((req as AuthenticatedRequest).userId)
+        if (!result.ok) {
+            return res.status(JsonResponse.INTERNAL_SERVER_ERROR).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            recovery_codes: result.recovery_codes
+        })
+    }
+
+    public async disable(req: Request, res: Response) {
+        let result = await MfaController.mfa.disable((req as AuthenticatedRequest).userId, {
+            code: req.body?.code,
+            recovery_code: req.body?.recovery_code
+        })
+        if (!result.ok && result.email) {
+            await MfaController.throttle.registerFailure(result.email, req.ip)
+        }
+        if (!result.ok) {
+            return res.status(result.reason === 'invalid' ? JsonResponse.BAD_REQUEST : JsonResponse.INTERNAL_SERVER_ERROR).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            message: 'La verificación en dos pasos se desactivó.'
+        })
+    }
+}
@@ -0,0 +1,47 @@
+import { Response, Request } from 'express'
+import { JsonResponse } from '../enums/jsonResponse'
+import { QuotaManager } from '../helpers/quotas'
+import { AuthenticatedRequest } from '../middlewares/headers'
+
+export class QuotaController {
+    static quotas: QuotaManager = new QuotaManager()
+
+    public async usage(req: Request, res: Response) {
+        let auth = req as AuthenticatedRequest
+        let result = await QuotaController.quotas.usage({ user_id: auth.userId ?? null, client_id: auth.clientId ?? null })
+        if (!result.ok) {
+            return res.status(JsonResponse.INTERNAL_SERVER_ERROR).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            usage: result.usage
+        })
+    }
+
+    public async update(req: Request, res: Response) {
+        let result = await QuotaController.quotas.setLimit({
+            scope: req.body?.scope,
+            subject: req.body?.subject,
+            max_bytes: req.body?.max_bytes,
+            max_files: req.body?.max_files
+        })
+        if (!result.ok) {
+            const status = result.reason === 'not_found' ? JsonResponse.NOT_FOUND
+                : result.reason === 'invalid' ? JsonResponse.BAD_REQUEST
+                : JsonResponse.INTERNAL_SERVER_ERROR
+            return res.status(status).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            quota: result.quota ?? null
+        })
+    }
+}
@@ -0,0 +1,69 @@
+import { Response, Request } from 'express'
+import { JsonResponse } from '../enums/jsonResponse'
+import { AccountManager } from '../helpers/accounts'
+import { SessionManager } from '../helpers/session'
+import { UserQueries } from '../queries/user.queries'
+import { AuthenticatedRequest } from '../middlewares/headers'
+
+export class UserController {
+    static accounts: AccountManager = new AccountManager()
+    static session: SessionManager = new SessionManager()
+    static userQueries: UserQueries = new UserQueries()
+
+    public async index(req: Request, res: Response) {
+        let result = await UserController.userQueries.index()
+        if (!result.ok) {
+            return res.status(JsonResponse.INTERNAL_SERVER_ERROR).json({
+                ok: false,
+                errors: [{ message: 'No fue posible obtener los usuarios.' }]
+            })
+        }
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            users: result.users
+        })
+    }
+
+    public async register(req: Request, res: Response) {
+        let result = await UserController.accounts.register({
+            name: req.body?.name,
+            email: req.body?.email,
+            password: req.body?.password
+        })
+        if (!result.ok) {
+            const status = result.reason === 'conflict' ? JsonResponse.CONFLICT
+                : result.reason === 'invalid' ? JsonResponse.BAD_REQUEST
+                : JsonResponse.INTERNAL_SERVER_ERROR
+            return res.status(status).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        return res.status(JsonResponse.CREATED).json({
+            ok: true,
+            user: result.user
+        })
+    }
+
+    public async changePassword(req: Request, res: Response) {
+        const user_id = (req as AuthenticatedRequest).userId
+
+        let result = await UserController.accounts.changePassword(user_id, req.body?.current_password, req.body?.password)
+        if (!result.ok) {
+            return res.status(result.reason === 'invalid' ? JsonResponse.BAD_REQUEST : JsonResponse.INTERNAL_SERVER_ERROR).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            })
+        }
+
+        // Todas las sesiones, incluida la actual, deben iniciarse con la nueva contraseña
+        await UserController.session.revokeAll(user_id)
+
+        return res.status(JsonResponse.OK).json({
+            ok: true,
+            message: 'La contraseña se actualizó correctamente, inicie sesión nuevamente.'
+        })
+    }
+}
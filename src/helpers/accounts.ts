@@ -0,0 +1,391 @@
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import validator from 'validator';
+import { DateTime } from 'luxon';
+import * as Sentry from "@sentry/node";
+import { UserModel } from '../models/user.model';
+import { UserQueries } from '../queries/user.queries';
+import { PasswordResetQueries } from '../queries/password_reset.queries';
+import { Mailer } from './mailer';
+
+/**
+ * Motivo de fallo de una operación de cuenta, usado por los controladores
+ * para elegir el código HTTP.
+ *
+ * - `invalid`: datos de entrada o credenciales incorrectas
+ * - `inactive`: la cuenta está deshabilitada
+ * - `conflict`: el correo ya está registrado
+ * - `failed`: error interno (base de datos, hashing, etc.)
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export type AccountFailure = 'invalid' | 'inactive' | 'conflict' | 'failed';
+
+/**
+ * Resultado normalizado de las operaciones de cuenta.
+ *
+ * @interface AccountResult
+ * @property {boolean} ok - Indica si la operación fue exitosa
+ * @property {UserModel} [user] - Usuario afectado (sin hash de contraseña)
+ * @property {AccountFailure} [reason] - Motivo del fallo
+ * @property {string} [error] - Mensaje listo para mostrarse al usuario
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface AccountResult {
+    ok: boolean;
+    user?: UserModel;
+    reason?: AccountFailure;
+    error?: string;
+}
+
+/**
+ * Gestor de cuentas de usuario: registro, verificación de credenciales y
+ * manejo de contraseñas.
+ *
+ * Las contraseñas se guardan únicamente como hash bcrypt. Cuando el correo
+ * no existe se compara contra un hash ficticio para que el tiempo de
+ * respuesta no revele qué cuentas están registradas.
+ *
+ * **Restablecimiento de contraseña:**
+ * Se genera un token aleatorio de un solo uso que se envía por correo con la
+ * plantilla `password_reset.hbs`; en base de datos solo se guarda su hash
+ * SHA-256. La solicitud responde igual exista o no la cuenta.
+ *
+ * @class AccountManager
+ * @description Alta de usuarios y ciclo de vida de contraseñas con bcrypt
+ * @version 1.0.0
+ * @author OmarGo96
+ *
+ * @environment
+ * - **BCRYPT_ROUNDS**: Costo de bcrypt (default 12)
+ * - **PASSWORD_RESET_MINUTES**: Vigencia del enlace de restablecimiento (default 60)
+ * - **APP_URL**: URL pública del frontend para construir el enlace
+ *
+ * @example
+ * const accounts = new AccountManager();
+ * const result = await accounts.authenticate('ana@empresa.com', 'S3creta!');
+ * if (result.ok) await session.issue(result.user.id);
+ *
+ * @since 1.3.0
+ */
+export class AccountManager {
+    /** Acceso a la tabla users */
+    private queries: UserQueries = new UserQueries();
+
+    /** Acceso a la tabla password_resets */
+    private resetQueries: PasswordResetQueries = new PasswordResetQueries();
+
+    /** Hash ficticio para igualar el tiempo de respuesta con correos inexistentes; se genera en el primer uso */
+    private static dummyHash: Promise<string> | null = null;
+
+    /** Longitud mínima de contraseña */
+    static readonly MIN_PASSWORD_LENGTH = 8;
+
+    /**
+     * Reporta el error a Sentry y lo registra en consola con timestamp.
+     *
+     * @private
+     * @method handleError
+     * @param {any} error - Error capturado
+     * @returns {void}
+     */
+    private handleError(error: any): void {
+        Sentry.captureException(error);
+        console.log(`Error accounts a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${error}`);
+    }
+
+    /**
+     * Genera el hash bcrypt de una contraseña.
+     *
+     * @private
+     * @async
+     * @method hashPassword
+     * @param {string} password - Contraseña en texto plano
+     * @returns {Promise<string>} Hash bcrypt
+     */
+    private hashPassword(password: string): Promise<string> {
+        return bcrypt.hash(password, Number(process.env.BCRYPT_ROUNDS) || 12);
+    }
+
+    /**
+     * Hash contra el que se compara la contraseña cuando el correo no existe.
+     *
+     * Usa el mismo costo que `hashPassword`: con uno menor, la respuesta para
+     * correos inexistentes sería más rápida y revelaría qué cuentas existen.
+     *
+     * @private
+     * @method dummy
+     * @returns {Promise<string>} Hash bcrypt de un valor aleatorio
+     */
+    private dummy(): Promise<string> {
+        AccountManager.dummyHash ??= this.hashPassword(crypto.randomBytes(16).toString('hex'));
+        return AccountManager.dummyHash;
+    }
+
+    /**
+     * Valida la política mínima de contraseñas.
+     *
+     * @private
+     * @method checkPassword
+     * @param {any} password - Valor recibido en la petición
+     * @returns {string | null} Mensaje de error o null si es válida
+     */
+    private checkPassword(password: any): string | null {
+        if (typeof password !== 'string' || password.length < AccountManager.MIN_PASSWORD_LENGTH) {
+            return `La contraseña debe tener al menos ${AccountManager.MIN_PASSWORD_LENGTH} caracteres.`;
+        }
+        // bcrypt solo considera los primeros 72 bytes
+        if (Buffer.byteLength(password) > 72) {
+            return 'La contraseña no puede exceder 72 bytes.';
+        }
+        return null;
+    }
+
+    /**
+     * Registra un nuevo usuario.
+     *
+     * @public
+     * @async
+     * @method register
+     * @param {object} data - Datos de registro
+     * @param {string} data.name - Nombre del usuario
+     * @param {string} data.email - Correo electrónico (se normaliza a minúsculas)
+     * @param {string} data.password - Contraseña en texto plano
+     * @returns {Promise<AccountResult>} Usuario creado o motivo del fallo
+     */
+    public async register(data: { name: any, email: any, password: any }): Promise<AccountResult> {
+        if (typeof data.name !== 'string' || validator.isEmpty(data.name.trim())) {
+            return { ok: false, reason: 'invalid', error: 'Favor de proporcionar el nombre.' };
+        }
+        if (typeof data.email !== 'string' || !validator.isEmail(data.email)) {
+            return { ok: false, reason: 'invalid', error: 'Favor de proporcionar un correo electrónico válido.' };
+        }
+        const passwordError = this.checkPassword(data.password);
+        if (passwordError) {
+            return { ok: false, reason: 'invalid', error: passwordError };
+        }
+
+        try {
+            const email = data.email.trim().toLowerCase();
+            const existing = await this.queries.showByEmailWithPassword(email);
+            if (!existing.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible registrar al usuario.' };
+            }
+            if (existing.user) {
+                return { ok: false, reason: 'conflict', error: 'El correo electrónico ya está registrado.' };
+            }
+
+            const stored = await this.queries.store({
+                name: data.name.trim(),
+                email,
+                password: await this.hashPassword(data.password)
+            });
+            if (!stored.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible registrar al usuario.' };
+            }
+
+            const { password, ...user } = stored.user.get({ plain: true });
+            return { ok: true, user: user as UserModel };
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, reason: 'failed', error: 'Error al registrar al usuario.' };
+        }
+    }
+
+    /**
+     * Verifica las credenciales de un usuario.
+     *
+     * @public
+     * @async
+     * @method authenticate
+     * @param {string} email - Correo electrónico
+     * @param {string} password - Contraseña en texto plano
+     * @returns {Promise<AccountResult>} Usuario autenticado o motivo del fallo
+     */
+    public async authenticate(email: any, password: any): Promise<AccountResult> {
+        if (typeof email !== 'string' || typeof password !== 'string') {
+            return { ok: false, reason: 'invalid', error: 'Favor de proporcionar correo y contraseña.' };
+        }
+
+        try {
+            const found = await this.queries.showByEmailWithPassword(email.trim().toLowerCase());
+            if (!found.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible iniciar sesión.' };
+            }
+
+            const user = found.user;
+            const matches = await bcrypt.compare(password, user ? user.password : await this.dummy());
+            if (!user || !matches) {
+                return { ok: false, reason: 'invalid', error: 'Correo o contraseña incorrectos.' };
+            }
+            if (!user.active) {
+                return { ok: false, reason: 'inactive', error: 'La cuenta se encuentra deshabilitada.' };
+            }
+
+            return { ok: true, user };
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, reason: 'failed', error: 'Error al iniciar sesión.' };
+        }
+    }
+
+    /**
+     * Cambia la contraseña de un usuario autenticado previa verificación de la actual.
+     *
+     * @public
+     * @async
+     * @method changePassword
+     * @param {number} user_id - Usuario autenticado
+     * @param {string} current - Contraseña actual
+     * @param {string} next - Nueva contraseña
+     * @returns {Promise<AccountResult>} Resultado de la operación
+     */
+    public async changePassword(user_id: number, current: any, next: any): Promise<AccountResult> {
+        if (typeof current !== 'string') {
+            return { ok: false, reason: 'invalid', error: 'Favor de proporcionar la contraseña actual.' };
+        }
+        const passwordError = this.checkPassword(next);
+        if (passwordError) {
+            return { ok: false, reason: 'invalid', error: passwordError };
+        }
+
+        try {
+            const found = await this.queries.showWithPassword(user_id);
+            if (!found.ok || !found.user) {
+                return { ok: false, reason: 'failed', error: 'No fue posible actualizar la contraseña.' };
+            }
+            if (!(await bcrypt.compare(current, found.user.password))) {
+                return { ok: false, reason: 'invalid', error: 'La contraseña actual es incorrecta.' };
+            }
+
+            const updated = await this.queries.updatePassword(user_id, await this.hashPassword(next));
+            if (!updated.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible actualizar la contraseña.' };
+            }
+
+            // Un enlace de restablecimiento pendiente ya no debe servir
+            await this.resetQueries.consumeForUser(user_id);
+            return { ok: true };
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, reason: 'failed', error: 'Error al actualizar la contraseña.' };
+        }
+    }
+
+    /**
+     * Genera un token de restablecimiento y lo envía por correo.
+     *
+     * Devuelve `ok: true` aunque el correo no exista; solo los errores
+     * internos se reportan como fallo.
+     *
+     * @public
+     * @async
+     * @method requestPasswordReset
+     * @param {string} email - Correo de la cuenta
+     * @returns {Promise<AccountResult>} Resultado de la operación
+     */
+    public async requestPasswordReset(email: any): Promise<AccountResult> {
+        if (typeof email !== 'string' || !validator.isEmail(email)) {
+            return { ok: false, reason: 'invalid', error: 'Favor de proporcionar un correo electrónico válido.' };
+        }
+
+        try {
+            const found = await this.queries.showByEmailWithPassword(email.trim().toLowerCase());
+            if (!found.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible procesar la solicitud.' };
+            }
+            if (!found.user || !found.user.active) {
+                return { ok: true };
+            }
+
+            const token = crypto.randomBytes(32).toString('base64url');
+            const minutes = Number(process.env.PASSWORD_RESET_MINUTES) || 60;
+
+            const stored = await this.resetQueries.store({
+                user_id: found.user.id,
+                token_hash: crypto.createHash('sha256').update(token).digest('hex'),
+                expires_at: DateTime.now().plus({ minutes }).toJSDate()
+            });
+            if (!stored.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible procesar la solicitud.' };
+            }
+
+            const sent = await new Mailer().send({
+                email: found.user.email,
+                subject: 'Restablecimiento de contraseña',
+                template: 'password_reset',
+                context: {
+                    data: {
+                        name: found.user.name,
+                        url: `${process.env.APP_URL}/reset-password?token=${token}`,
+                        minutes
+                    }
+                }
+            });
+            if (!sent.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible enviar el correo de restablecimiento.' };
+            }
+
+            return { ok: true };
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, reason: 'failed', error: 'Error al procesar la solicitud.' };
+        }
+    }
+
+    /**
+     * Establece una nueva contraseña a partir de un token de restablecimiento.
+     *
+     * El token se invalida junto con cualquier otro pendiente del usuario.
+     *
+     * @public
+     * @async
+     * @method resetPassword
+     * @param {string} token - Token recibido por correo
+     * @param {string} password - Nueva contraseña
+     * @returns {Promise<AccountResult>} Usuario afectado (solo `id`) o motivo del fallo
+     */
+    public async resetPassword(token: any, password: any): Promise<AccountResult> {
+        if (typeof token !== 'string' || !token) {
+            return { ok: false, reason: 'invalid', error: 'Favor de proporcionar el token de restablecimiento.' };
+        }
+        const passwordError = this.checkPassword(password);
+        if (passwordError) {
+            return { ok: false, reason: 'invalid', error: passwordError };
+        }
+
+        try {
+            const found = await this.resetQueries.showActiveByHash(crypto.createHash('sha256').update(token).digest('hex'));
+            if (!found.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible restablecer la contraseña.' };
+            }
+            if (!found.passwordReset) {
+                return { ok: false, reason: 'invalid', error: 'El enlace de restablecimiento no es válido o ha expirado.' };
+            }
+
+            // El token es de un solo uso incluso ante peticiones simultáneas
+            const consumed = await this.resetQueries.consume(found.passwordReset.id);
+            if (!consumed.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible restablecer la contraseña.' };
+            }
+            if (consumed.affected === 0) {
+                return { ok: false, reason: 'invalid', error: 'El enlace de restablecimiento no es válido o ha expirado.' };
+            }
+
+            const user_id = found.passwordReset.user_id;
+            const updated = await this.queries.updatePassword(user_id, await this.hashPassword(password));
+            if (!updated.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible restablecer la contraseña.' };
+            }
+            await this.resetQueries.consumeForUser(user_id);
+
+            return { ok: true, user: { id: user_id } as UserModel };
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, reason: 'failed', error: 'Error al restablecer la contraseña.' };
+        }
+    }
+}
@@ -0,0 +1,232 @@
+import crypto from 'crypto';
+import { DateTime } from 'luxon';
+import * as Sentry from "@sentry/node";
+import { ApiKeyModel } from '../models/api_key.model';
+import { ApiKeyQueries } from '../queries/api_key.queries';
+
+/**
+ * Resultado normalizado de las operaciones con llaves de API.
+ *
+ * @interface ApiKeyResult
+ * @property {boolean} ok - Indica si la operación fue exitosa
+ * @property {'invalid' | 'not_found' | 'failed'} [reason] - Motivo del fallo
+ * @property {string} [error] - Mensaje listo para mostrarse
+ * @property {ApiKeyModel} [apiKey] - Registro de la llave (sin hash)
+ * @property {string} [key] - Llave completa en claro; solo se devuelve al crearla
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface ApiKeyResult {
+    ok: boolean;
+    reason?: 'invalid' | 'not_found' | 'failed';
+    error?: string;
+    apiKey?: ApiKeyModel;
+    key?: string;
+}
+
+/**
+ * Llaves de API para integraciones servidor a servidor.
+ *
+ * Cada llave tiene el formato `gsk_<prefix>_<secret>`. El prefijo es
+ * público y permite localizar el registro sin recorrer la tabla; de la
+ * llave completa solo se guarda su hash SHA-256, de modo que una fuga de la
+ * base de datos no expone credenciales utilizables. La llave en claro se
+ * entrega una única vez, al crearla.
+ *
+ * Las llaves autentican como tokens de tipo `client` (con el `client_id`
+ * de la integración) y sus `scopes` se evalúan con `Authorization`.
+ *
+ * @class ApiKeyManager
+ * @description Emisión, verificación y revocación de llaves de API
+ * @version 1.0.0
+ * @author OmarGo96
+ *
+ * @example
+ * const created = await new ApiKeyManager().create({
+ *     name: 'ERP Contable', client_id: 'erp-contable', scopes: ['documents:read'], created_by: 1
+ * });
+ * // created.key → 'gsk_a1b2c3d4_Xy...'
+ *
+ * @since 1.3.0
+ */
+export class ApiKeyManager {
+    /** Acceso a la tabla api_keys */
+    private queries: ApiKeyQueries = new ApiKeyQueries();
+
+    /** Formato de la llave presentada en `x-api-key` */
+    private static readonly FORMAT = /^gsk_([a-f0-9]{12})_([A-Za-z0-9_-]{43})$/;
+
+    /** Formato de un permiso: '*', 'recurso:*' o 'recurso:acción' */
+    private static readonly SCOPE = /^(\*|[a-z_]+:(\*|[a-z_]+))$/;
+
+    /** Intervalo mínimo entre actualizaciones de `last_used_at`, para no escribir en cada petición */
+    private static readonly TOUCH_INTERVAL_MS = 60 * 1000;
+
+    /**
+     * Reporta el error a Sentry y lo registra en consola con timestamp.
+     *
+     * @private
+     * @method handleError
+     * @param {any} error - Error capturado
+     * @returns {void}
+     */
+    private handleError(error: any): void {
+        Sentry.captureException(error);
+        console.log(`Error api keys a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${error}`);
+    }
+
+    /**
+     * Hash con el que se persiste una llave.
+     *
+     * @private
+     * @method hash
+     * @param {string} key - Llave completa
+     * @returns {string} Hash SHA-256 en hexadecimal
+     */
+    private hash(key: string): string {
+        return crypto.createHash('sha256').update(key).digest('hex');
+    }
+
+    /**
+     * Crea una llave nueva.
+     *
+     * @public
+     * @async
+     * @method create
+     * @param {object} data - Datos de la llave
+     * @param {string} data.name - Nombre descriptivo
+     * @param {string} data.client_id - Identificador de la integración
+     * @param {string[]} data.scopes - Permisos concedidos
+     * @param {string} [data.expires_at] - Fecha de expiración ISO 8601 (sin expiración si se omite)
+     * @param {number} [data.created_by] - Administrador que la crea
+     * @returns {Promise<ApiKeyResult>} `key` en claro y el registro creado
+     */
+    public async create(data: { name: any, client_id: any, scopes: any, expires_at?: any, created_by?: number }): Promise<ApiKeyResult> {
+        if (typeof data.name !== 'string' || !data.name.trim()) {
+            return { ok: false, reason: 'invalid', error: 'Favor de proporcionar el nombre de la llave.' };
+        }
+        if (typeof data.client_id !== 'string' || !/^[A-Za-z0-9._-]{1,100}$/.test(data.client_id)) {
+            return { ok: false, reason: 'invalid', error: 'Favor de proporcionar un client_id válido (letras, números, punto, guion o guion bajo).' };
+        }
+        if (!Array.isArray(data.scopes) || data.scopes.length === 0 || !data.scopes.every((scope: any) => typeof scope === 'string' && ApiKeyManager.SCOPE.test(scope))) {
+            return { ok: false, reason: 'invalid', error: "Favor de proporcionar los permisos con formato 'recurso:acción'." };
+        }
+
+        let expires_at: Date | null = null;
+        if (data.expires_at !== undefined && data.expires_at !== null) {
+            const parsed = DateTime.fromISO(String(data.expires_at));
+            if (!parsed.isValid || parsed.toMillis() <= Date.now()) {
+                return { ok: false, reason: 'invalid', error: 'La fecha de expiración debe ser una fecha ISO 8601 futura.' };
+            }
+            expires_at = parsed.toJSDate();
+        }
+
+        try {
+            const prefix = crypto.randomBytes(6).toString('hex');
+            const key = `gsk_${prefix}_${crypto.randomBytes(32).toString('base64url')}`;
+
+            const stored = await this.queries.store({
+                name: data.name.trim(),
+                client_id: data.client_id,
+                prefix,
+                key_hash: this.hash(key),
+                scopes: [...new Set<string>(data.scopes)],
+                expires_at,
+                created_by: data.created_by || null
+            });
+            if (!stored.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible crear la llave de API.' };
+            }
+
+            const { key_hash, ...apiKey } = stored.apiKey.get({ plain: true });
+            return { ok: true, key, apiKey: apiKey as ApiKeyModel };
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, reason: 'failed', error: 'Error al crear la llave de API.' };
+        }
+    }
+
+    /**
+     * Verifica una llave presentada en `x-api-key`.
+     *
+     * @public
+     * @async
+     * @method verify
+     * @param {string} key - Llave completa
+     * @returns {Promise<ApiKeyResult>} Registro de la llave si es válida, vigente y no revocada
+     */
+    public async verify(key: string): Promise<ApiKeyResult> {
+        const match = ApiKeyManager.FORMAT.exec(key);
+        if (!match) {
+            return { ok: false, reason: 'invalid', error: 'La llave de API no es válida.' };
+        }
+
+        try {
+            const found = await this.queries.showByPrefix(match[1]);
+            if (!found.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible validar la llave de API.' };
+            }
+
+            const apiKey = found.apiKey;
+            const valid = apiKey
+                && crypto.timingSafeEqual(Buffer.from(apiKey.key_hash, 'hex'), Buffer.from(this.hash(key), 'hex'));
+            if (!valid) {
+                return { ok: false, reason: 'invalid', error: 'La llave de API no es válida.' };
+            }
+            if (apiKey.revoked_at) {
+                return { ok: false, reason: 'invalid', error: 'La llave de API fue revocada.' };
+            }
+            if (apiKey.expires_at && apiKey.expires_at.getTime() <= Date.now()) {
+                return { ok: false, reason: 'invalid', error: 'La llave de API ha expirado.' };
+            }
+
+            if (!apiKey.last_used_at || Date.now() - apiKey.last_used_at.getTime() > ApiKeyManager.TOUCH_INTERVAL_MS) {
+                // No se espera: registrar el uso no debe retrasar la petición
+                this.queries.touch(apiKey.id);
+            }
+
+            return { ok: true, apiKey };
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, reason: 'failed', error: 'Error al validar la llave de API.' };
+        }
+    }
+
+    /**
+     * Lista las llaves registradas, sin hash.
+     *
+     * @public
+     * @async
+     * @method list
+     * @returns {Promise<{ ok: boolean, apiKeys?: ApiKeyModel[], error?: string }>} Llaves registradas
+     */
+    public async list(): Promise<{ ok: boolean, apiKeys?: ApiKeyModel[], error?: string }> {
+        const result = await this.queries.index();
+        return result.ok ? { ok: true, apiKeys: result.apiKeys } : { ok: false, error: 'No fue posible obtener las llaves de API.' };
+    }
+
+    /**
+     * Revoca una llave; deja de aceptarse de inmediato.
+     *
+     * @public
+     * @async
+     * @method revoke
+     * @param {number} id - Id de la llave
+     * @returns {Promise<ApiKeyResult>} Resultado de la operación
+     */
+    public async revoke(id: number): Promise<ApiKeyResult> {
+        if (!Number.isInteger(id) || id <= 0) {
+            return { ok: false, reason: 'invalid', error: 'El id de la llave no es válido.' };
+        }
+
+        const revoked = await this.queries.revoke(id);
+        if (!revoked.ok) {
+            return { ok: false, reason: 'failed', error: 'No fue posible revocar la llave de API.' };
+        }
+        if (revoked.affected === 0) {
+            return { ok: false, reason: 'not_found', error: 'La llave de API no existe o ya estaba revocada.' };
+        }
+        return { ok: true };
+    }
+}
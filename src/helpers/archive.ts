@@ -0,0 +1,192 @@
+import path from 'path';
+import archiver from 'archiver';
+import { once } from 'events';
+import { Writable } from 'stream';
+import { DateTime } from 'luxon';
+import * as Sentry from "@sentry/node";
+import { FileManager } from './files';
+import { DocumentManager, DocumentResult } from './documents';
+import { DocumentModel } from '../models/document.model';
+
+/**
+ * Descarga de varios documentos en un solo ZIP.
+ *
+ * El archivo se arma al vuelo: cada documento se lee del backend como stream
+ * y se escribe en el ZIP mientras se envía, uno a la vez, así que ni la
+ * memoria ni las conexiones al almacenamiento crecen con el tamaño de la
+ * selección. Como el encabezado HTTP ya se envió cuando empieza el ZIP, los
+ * límites (`BULK_DOWNLOAD_MAX_FILES`, `BULK_DOWNLOAD_MAX_BYTES`) y la
+ * existencia de los documentos se validan antes con `prepare`. Si un archivo
+ * falla o su checksum no coincide a mitad de camino, la respuesta se
+ * interrumpe y el cliente recibe un ZIP incompleto que no podrá abrir.
+ *
+ * Las entradas llevan el nombre original del archivo; los repetidos se
+ * numeran (`contrato (2).pdf`).
+ *
+ * @class DocumentArchive
+ * @description ZIP en streaming de una selección de documentos
+ * @version 1.0.0
+ * @author OmarGo96
+ *
+ * @environment
+ * - **BULK_DOWNLOAD_MAX_FILES**: Documentos por ZIP (default 500)
+ * - **BULK_DOWNLOAD_MAX_BYTES**: Suma de tamaños por ZIP (default 2 GB)
+ *
+ * @example
+ * const prepared = await archive.prepare({ category: 'CONTRACT', user_id: 15, from: '2025-01-01' });
+ * if (prepared.ok) await archive.write(prepared.documents, res);
+ *
+ * @since 1.3.0
+ */
+export class DocumentArchive {
+    /** Operaciones sobre el almacenamiento */
+    private files: FileManager = new FileManager();
+
+    /** Registro de documentos */
+    private documents: DocumentManager = new DocumentManager();
+
+    /** Límites por defecto de una descarga */
+    private static readonly DEFAULT_MAX_FILES = 500;
+    private static readonly DEFAULT_MAX_BYTES = 2 * 1024 * 1024 * 1024;
+
+    /** Tipos que ya vienen comprimidos; se guardan sin volver a comprimir */
+    private static readonly COMPRESSED = [
+        'application/pdf', 'image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/zip',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+    ];
+
+    /**
+     * Reporta el error a Sentry y lo registra en consola con timestamp.
+     *
+     * @private
+     * @method handleError
+     * @param {any} error - Error capturado
+     * @returns {void}
+     */
+    private handleError(error: any): void {
+        Sentry.captureException(error);
+        console.log(`Error archive a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${error}`);
+    }
+
+    /**
+     * Lee un límite numérico positivo de una variable de entorno.
+     *
+     * @private
+     * @method limit
+     * @param {string} name - Variable de entorno
+     * @param {number} fallback - Valor por defecto
+     * @returns {number}
+     */
+    private limit(name: string, fallback: number): number {
+        const value = Number(process.env[name]);
+        return Number.isInteger(value) && value > 0 ? value : fallback;
+    }
+
+    /**
+     * Valida la selección y obtiene los documentos a empaquetar.
+     *
+     * @public
+     * @async
+     * @method prepare
+     * @param {object} criteria - `ids` o filtros (`category`, `user_id`, `search`, `from`, `to`)
+     * @returns {Promise<DocumentResult>} `documents` en orden de alta
+     */
+    public async prepare(criteria: { ids?: any, category?: any, user_id?: any, search?: any, from?: any, to?: any }): Promise<DocumentResult> {
+        const maxFiles = this.limit('BULK_DOWNLOAD_MAX_FILES', DocumentArchive.DEFAULT_MAX_FILES);
+        const maxBytes = this.limit('BULK_DOWNLOAD_MAX_BYTES', DocumentArchive.DEFAULT_MAX_BYTES);
+
+        const selected = await this.documents.select(criteria, maxFiles);
+        if (!selected.ok) return selected;
+        if (selected.total > maxFiles) {
+            return { ok: false, reason: 'invalid', error: `La selección incluye ${selected.total} documentos y el máximo por descarga es ${maxFiles}; acote los filtros.` };
+        }
+        if (selected.documents.length === 0) {
+            return { ok: false, reason: 'not_found', error: 'Ningún documento cumple los filtros.' };
+        }
+
+        const bytes = selected.documents.reduce((sum, document) => sum + Number(document.size), 0);
+        if (bytes > maxBytes) {
+            return { ok: false, reason: 'invalid', error: `La selección suma ${Math.ceil(bytes / (1024 * 1024))} MB y el máximo por descarga es ${Math.floor(maxBytes / (1024 * 1024))} MB; acote los filtros.` };
+        }
+        return selected;
+    }
+
+    /**
+     * Asigna a cada documento un nombre de entrada único dentro del ZIP.
+     *
+     * @private
+     * @method entryNames
+     * @param {DocumentModel[]} documents - Documentos a empaquetar
+     * @returns {string[]} Nombres en el mismo orden
+     */
+    private entryNames(documents: DocumentModel[]): string[] {
+        const used = new Set<string>();
+        return documents.map(document => {
+            // Sin rutas ni caracteres de control: la entrada debe quedar en la raíz del ZIP
+            const original = (document.original_name || document.name).replace(/[\u0000-\u001f\\/]/g, '_').trim() || document.name;
+            const ext = path.extname(original);
+            const base = original.slice(0, original.length - ext.length);
+            let name = original;
+            for (let copy = 2; used.has(name.toLowerCase()); copy++) {
+                name = `${base} (${copy})${ext}`;
+            }
+            used.add(name.toLowerCase());
+            return name;
+        });
+    }
+
+    /**
+     * Escribe el ZIP con los documentos en `output`.
+     *
+     * Cada archivo se verifica contra su checksum mientras se lee. Ante
+     * cualquier error `output` se destruye para que el cliente no reciba
+     * un ZIP aparentemente completo.
+     *
+     * @public
+     * @async
+     * @method write
+     * @param {DocumentModel[]} documents - Documentos devueltos por `prepare`
+     * @param {Writable} output - Destino, normalmente la respuesta HTTP
+     * @returns {Promise<{ ok: boolean }>} false si el ZIP quedó incompleto
+     */
+    public async write(documents: DocumentModel[], output: Writable): Promise<{ ok: boolean }> {
+        const zip = archiver('zip', { zlib: { level: 6 } });
+        const failed = new Promise<never>((resolve, reject) => {
+            zip.on('error', reject);
+            zip.on('warning', reject);
+            output.once('close', () => {
+                if (!output.writableFinished) reject(new Error('La conexión se cerró antes de terminar el ZIP'));
+            });
+        });
+        failed.catch(() => undefined);
+        zip.pipe(output);
+
+        try {
+            const names = this.entryNames(documents);
+            for (const [index, document] of documents.entries()) {
+                const opened = await Promise.race([this.files.streamKey(document.key, document.checksum), failed]);
+                if (!opened.ok) {
+                    throw new Error(`No fue posible leer el documento ${document.id}: ${opened.message}`);
+                }
+                opened.stream.on('error', (e) => zip.emit('error', e));
+                zip.append(opened.stream, {
+                    name: names[index],
+                    date: document.createdAt,
+                    store: DocumentArchive.COMPRESSED.includes(document.mimetype)
+                });
+                // Una entrada a la vez: el siguiente archivo se abre cuando el anterior terminó de escribirse
+                await Promise.race([once(zip, 'entry'), failed]);
+            }
+
+            await Promise.race([zip.finalize(), failed]);
+            return { ok: true };
+        } catch (e) {
+            this.handleError(e);
+            zip.abort();
+            output.destroy();
+            return { ok: false };
+        }
+    }
+}
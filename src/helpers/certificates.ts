@@ -0,0 +1,466 @@
+import crypto from 'crypto';
+import { DateTime } from 'luxon';
+import * as Sentry from "@sentry/node";
+import { PdfRenderer } from './renderer';
+import { DocumentManager } from './documents';
+import { DocumentModel } from '../models/document.model';
+import { CertificateModel } from '../models/certificate.model';
+import { CertificateQueries } from '../queries/certificate.queries';
+
+/**
+ * Estado público de un certificado, tal como lo ve quien lo verifica.
+ *
+ * @interface CertificateVerification
+ * @property {string} code - Código de verificación con guiones
+ * @property {'valid' | 'expired' | 'revoked'} status - Vigente, vencido o revocado
+ * @property {string} holder_name - Titular
+ * @property {string} title - Lo que acredita
+ * @property {Date} issued_at - Fecha de emisión
+ * @property {Date | null} expires_at - Fin de la vigencia; null si no vence
+ * @property {Date | null} revoked_at - Fecha de revocación
+ * @property {string | null} checksum - SHA-256 del PDF emitido, para comparar con una copia
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface CertificateVerification {
+    code: string;
+    status: 'valid' | 'expired' | 'revoked';
+    holder_name: string;
+    title: string;
+    issued_at: Date;
+    expires_at: Date | null;
+    revoked_at: Date | null;
+    checksum: string | null;
+}
+
+/**
+ * Resultado normalizado de las operaciones con certificados.
+ *
+ * @interface CertificateResult
+ * @property {'invalid' | 'not_found' | 'revoked' | 'quota_exceeded' | 'failed'} [reason] - Motivo del fallo
+ * @property {CertificateModel} [certificate] - Certificado afectado
+ * @property {CertificateVerification} [verification] - Estado público
+ * @property {Uint8Array} [file] - PDF del certificado
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface CertificateResult {
+    ok: boolean;
+    reason?: 'invalid' | 'not_found' | 'revoked' | 'quota_exceeded' | 'failed';
+    error?: string;
+    certificate?: CertificateModel;
+    certificates?: CertificateModel[];
+    total?: number;
+    verification?: CertificateVerification;
+    document?: DocumentModel;
+    file?: Uint8Array;
+}
+
+/**
+ * Emisión, verificación y revocación de certificados de membresía.
+ *
+ * Cada certificado recibe un código de verificación aleatorio de 12
+ * caracteres en base32 de Crockford (`7KQ2-M9XD-4TBA`): sin letras que se
+ * confundan (I, L, O, U), y al verificar se aceptan minúsculas, espacios y
+ * las confusiones comunes (O por 0, I o L por 1). El PDF se genera con
+ * `PdfRenderer` y se registra como documento de CERTIFICATE_CATEGORY; su
+ * SHA-256 queda en el certificado para que quien verifica pueda comprobar
+ * que su copia no fue modificada. El documento queda bajo retención legal a
+ * nombre de quien emite: ni `DELETE /documents/:id` ni la retención de la
+ * categoría pueden borrar el PDF de un certificado que se sigue verificando.
+ *
+ * Un certificado no se elimina: se revoca con un motivo, que solo ven los
+ * usuarios internos. La verificación pública responde el estado (vigente,
+ * vencido o revocado) y los datos impresos en el PDF.
+ *
+ * @class CertificateManager
+ * @description Certificados con código de verificación público
+ * @version 1.0.0
+ * @author OmarGo96
+ *
+ * @environment
+ * - **CERTIFICATE_TEMPLATE**: Plantilla por defecto (default 'membership_certificate')
+ * - **CERTIFICATE_CATEGORY**: Categoría donde se registran los PDFs (default 'MEMBERSHIP')
+ * - **CERTIFICATE_VERIFY_URL**: URL impresa en el PDF, a la que se agrega el código (default `${APP_URL}/certificates/verify`)
+ *
+ * @example
+ * const issued = await new CertificateManager().issue({ holder_name: 'Ana Pérez', title: 'Membresía Platino', expires_at: '2027-12-31' }, 1);
+ * const checked = await new CertificateManager().verify('7kq2 m9xd 4tba');
+ * // checked.verification.status → 'valid'
+ *
+ * @since 1.3.0
+ */
+export class CertificateManager {
+    /** Acceso a la tabla certificates */
+    private queries: CertificateQueries = new CertificateQueries();
+
+    /** Generación del PDF */
+    private renderer: PdfRenderer = new PdfRenderer();
+
+    /** Registro de documentos, para proteger, descargar y retirar el PDF */
+    private documents: DocumentManager = new DocumentManager();
+
+    /** Alfabeto base32 de Crockford */
+    private static readonly ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+    /** Longitud del código sin guiones (60 bits) */
+    private static readonly CODE_LENGTH = 12;
+
+    /** Tamaño de página por defecto y máximo de `list` */
+    private static readonly PAGE_SIZE = 20;
+    private static readonly MAX_PAGE_SIZE = 100;
+
+    /**
+     * Reporta el error a Sentry y lo registra en consola con timestamp.
+     *
+     * @private
+     * @method handleError
+     * @param {any} error - Error capturado
+     * @returns {void}
+     */
+    private handleError(error: any): void {
+        Sentry.captureException(error);
+        console.log(`Error certificates a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${error}`);
+    }
+
+    /**
+     * Genera un código de verificación aleatorio.
+     *
+     * @private
+     * @method generateCode
+     * @returns {string} 12 caracteres sin guiones
+     */
+    private generateCode(): string {
+        let code = '';
+        for (let i = 0; i < CertificateManager.CODE_LENGTH; i++) {
+            code += CertificateManager.ALPHABET[crypto.randomInt(CertificateManager.ALPHABET.length)];
+        }
+        return code;
+    }
+
+    /**
+     * Normaliza un código capturado por una persona.
+     *
+     * @private
+     * @method normalizeCode
+     * @param {any} code - Código tal como llega
+     * @returns {string | null} Código sin guiones, o null si no tiene el formato
+     */
+    private normalizeCode(code: any): string | null {
+        if (typeof code !== 'string') return null;
+        const normalized = code.toUpperCase().replace(/[\s-]/g, '').replace(/O/g, '0').replace(/[IL]/g, '1');
+        const valid = normalized.length === CertificateManager.CODE_LENGTH
+            && [...normalized].every(char => CertificateManager.ALPHABET.includes(char));
+        return valid ? normalized : null;
+    }
+
+    /**
+     * Presenta un código en grupos de cuatro (`7KQ2-M9XD-4TBA`).
+     *
+     * @private
+     * @method formatCode
+     * @param {string} code - Código sin guiones
+     * @returns {string}
+     */
+    private formatCode(code: string): string {
+        return code.match(/.{1,4}/g).join('-');
+    }
+
+    /**
+     * Estado de un certificado en este momento.
+     *
+     * @private
+     * @method status
+     * @param {CertificateModel} certificate - Certificado
+     * @returns {'valid' | 'expired' | 'revoked'}
+     */
+    private status(certificate: CertificateModel): 'valid' | 'expired' | 'revoked' {
+        if (certificate.revoked_at) return 'revoked';
+        if (certificate.expires_at && certificate.expires_at.getTime() <= Date.now()) return 'expired';
+        return 'valid';
+    }
+
+    /**
+     * Elimina un certificado cuyo PDF no llegó a emitirse.
+     *
+     * @private
+     * @async
+     * @method discard
+     * @param {number} id - Id del certificado
+     * @returns {Promise<void>}
+     */
+    private async discard(id: number): Promise<void> {
+        const removed = await this.queries.destroy(id);
+        if (!removed.ok) {
+            this.handleError(new Error(`No fue posible eliminar el certificado ${id} sin PDF`));
+        }
+    }
+
+    /**
+     * Emite un certificado y genera su PDF.
+     *
+     * Si el PDF no puede generarse o registrarse, el certificado no se
+     * conserva: un código no debe verificar como válido sin documento emitido.
+     *
+     * @public
+     * @async
+     * @method issue
+     * @param {object} data - Datos del certificado
+     * @param {string} data.holder_name - Titular
+     * @param {string} data.title - Lo que acredita (ej. 'Membresía Platino')
+     * @param {number} [data.user_id] - Usuario titular, si tiene cuenta
+     * @param {string} [data.expires_at] - Fin de la vigencia (ISO 8601); sin ella no vence
+     * @param {object} [data.data] - Datos adicionales para la plantilla
+     * @param {string} [data.template] - Plantilla (default CERTIFICATE_TEMPLATE)
+     * @param {number} issued_by - Usuario que emite
+     * @returns {Promise<CertificateResult>} `certificate` emitido
+     */
+    public async issue(data: { holder_name: any, title: any, user_id?: any, expires_at?: any, data?: any, template?: any }, issued_by: number): Promise<CertificateResult> {
+        if (typeof data.holder_name !== 'string' || !data.holder_name.trim() || data.holder_name.length > 255) {
+            return { ok: false, reason: 'invalid', error: 'Favor de proporcionar el nombre del titular (máximo 255 caracteres).' };
+        }
+        if (typeof data.title !== 'string' || !data.title.trim() || data.title.length > 255) {
+            return { ok: false, reason: 'invalid', error: 'Favor de proporcionar lo que acredita el certificado (máximo 255 caracteres).' };
+        }
+        const user_id = data.user_id === undefined || data.user_id === null ? null : Number(data.user_id);
+        if (user_id !== null && (!Number.isInteger(user_id) || user_id <= 0)) {
+            return { ok: false, reason: 'invalid', error: 'El usuario titular no es válido.' };
+        }
+        let expires_at: Date | null = null;
+        if (data.expires_at !== undefined && data.expires_at !== null) {
+            const parsed = DateTime.fromISO(String(data.expires_at));
+            if (!parsed.isValid || parsed.toMillis() <= Date.now()) {
+                return { ok: false, reason: 'invalid', error: 'La fecha de vencimiento debe ser una fecha ISO 8601 futura.' };
+            }
+            // Una fecha sin hora cubre el día completo
+            expires_at = (/^\d{4}-\d{2}-\d{2}$/.test(String(data.expires_at)) ? parsed.endOf('day') : parsed).toJSDate();
+        }
+        if (data.data !== undefined && data.data !== null && (typeof data.data !== 'object' || Array.isArray(data.data))) {
+            return { ok: false, reason: 'invalid', error: 'data debe ser un objeto.' };
+        }
+        const template = data.template ?? (process.env.CERTIFICATE_TEMPLATE || 'membership_certificate');
+
+        // El código es único en la tabla; una colisión (improbable) se resuelve con otro intento
+        let stored: Awaited<ReturnType<CertificateQueries['store']>> = { ok: false };
+        for (let attempt = 0; attempt < 3 && !stored.ok; attempt++) {
+            stored = await this.queries.store({
+                code: this.generateCode(),
+                template: String(template),
+                user_id,
+                holder_name: data.holder_name.trim(),
+                title: data.title.trim(),
+                data: data.data ?? null,
+                issued_by,
+                expires_at
+            });
+        }
+        if (!stored.ok) {
+            return { ok: false, reason: 'failed', error: 'No fue posible registrar el certificado.' };
+        }
+
+        const certificate = stored.certificate;
+        const code = this.formatCode(certificate.code);
+        const verifyBase = process.env.CERTIFICATE_VERIFY_URL || (process.env.APP_URL ? `${process.env.APP_URL}/certificates/verify` : '');
+        const rendered = await this.renderer.store(certificate.template, {
+            certificate: {
+                code,
+                holder_name: certificate.holder_name,
+                title: certificate.title,
+                issued_at: certificate.createdAt,
+                expires_at: certificate.expires_at,
+                verify_url: verifyBase ? `${verifyBase}/${code}` : null
+            },
+            data: certificate.data ?? {}
+        }, {
+            owner: { user_id: issued_by, client_id: null },
+            category: process.env.CERTIFICATE_CATEGORY || 'MEMBERSHIP',
+            filename: `certificado-${code}.pdf`
+        });
+
+        if (!rendered.ok) {
+            await this.discard(certificate.id);
+            const reason = rendered.reason === 'invalid' || rendered.reason === 'quota_exceeded' ? rendered.reason : 'failed';
+            return { ok: false, reason, error: rendered.error };
+        }
+
+        const held = await this.documents.hold(rendered.document.id, issued_by, `Certificado ${code}`);
+        if (!held.ok) {
+            await this.documents.remove(rendered.document.id);
+            await this.discard(certificate.id);
+            return { ok: false, reason: 'failed', error: 'No fue posible proteger el PDF del certificado.' };
+        }
+
+        const attached = await this.queries.attachDocument(certificate.id, rendered.document.id, rendered.document.checksum);
+        if (!attached.ok) {
+            await this.documents.releaseHold(rendered.document.id);
+            await this.documents.remove(rendered.document.id);
+            await this.discard(certificate.id);
+            return { ok: false, reason: 'failed', error: 'No fue posible registrar el PDF del certificado.' };
+        }
+
+        certificate.document_id = rendered.document.id;
+        certificate.checksum = rendered.document.checksum;
+        return { ok: true, certificate };
+    }
+
+    /**
+     * Verifica un código; es la consulta pública, sin autenticación.
+     *
+     * @public
+     * @async
+     * @method verify
+     * @param {string} code - Código de verificación, con o sin guiones
+     * @returns {Promise<CertificateResult>} `verification` con el estado
+     */
+    public async verify(code: any): Promise<CertificateResult> {
+        const normalized = this.normalizeCode(code);
+        if (!normalized) {
+            return { ok: false, reason: 'invalid', error: 'El código de verificación no tiene un formato válido.' };
+        }
+
+        const found = await this.queries.showByCode(normalized);
+        if (!found.ok) {
+            return { ok: false, reason: 'failed', error: 'No fue posible verificar el certificado.' };
+        }
+        // Un certificado cuyo PDF sigue generándose todavía no existe para el público
+        if (!found.certificate || !found.certificate.document_id) {
+            return { ok: false, reason: 'not_found', error: 'No existe un certificado con ese código.' };
+        }
+
+        const certificate = found.certificate;
+        return {
+            ok: true,
+            verification: {
+                code: this.formatCode(certificate.code),
+                status: this.status(certificate),
+                holder_name: certificate.holder_name,
+                title: certificate.title,
+                issued_at: certificate.createdAt,
+                expires_at: certificate.expires_at,
+                revoked_at: certificate.revoked_at,
+                checksum: certificate.checksum
+            }
+        };
+    }
+
+    /**
+     * Revoca un certificado; desde ese momento la verificación lo reporta revocado.
+     *
+     * @public
+     * @async
+     * @method revoke
+     * @param {number} id - Id del certificado
+     * @param {number} user_id - Usuario que revoca
+     * @param {string} reason - Motivo de la revocación
+     * @returns {Promise<CertificateResult>} Certificado revocado
+     */
+    public async revoke(id: number, user_id: number, reason: any): Promise<CertificateResult> {
+        if (typeof reason !== 'string' || !reason.trim() || reason.length > 255) {
+            return { ok: false, reason: 'invalid', error: 'Indique el motivo de la revocación (máximo 255 caracteres).' };
+        }
+        const found = await this.show(id);
+        if (!found.ok) return found;
+        if (found.certificate.revoked_at) {
+            return { ok: false, reason: 'revoked', error: 'El certificado ya estaba revocado.' };
+        }
+
+        const revoked = await this.queries.revoke(id, user_id, reason.trim());
+        if (!revoked.ok) {
+            return { ok: false, reason: 'failed', error: 'No fue posible revocar el certificado.' };
+        }
+        if (revoked.affected === 0) {
+            return { ok: false, reason: 'revoked', error: 'El certificado ya estaba revocado.' };
+        }
+        return this.show(id);
+    }
+
+    /**
+     * Busca certificados emitidos.
+     *
+     * @public
+     * @async
+     * @method list
+     * @param {object} filters - Filtros de búsqueda
+     * @param {number} [filters.user_id] - Usuario titular
+     * @param {string} [filters.search] - Texto contenido en el nombre del titular
+     * @param {string} [filters.revoked] - 'true' solo revocados, 'false' solo no revocados
+     * @param {number} [filters.page=1] - Página
+     * @param {number} [filters.limit=20] - Resultados por página (máximo 100)
+     * @returns {Promise<CertificateResult>} `certificates` y `total`
+     */
+    public async list(filters: { user_id?: any, search?: any, revoked?: any, page?: any, limit?: any }): Promise<CertificateResult> {
+        const page = filters.page === undefined ? 1 : Number(filters.page);
+        const limit = filters.limit === undefined ? CertificateManager.PAGE_SIZE : Number(filters.limit);
+        if (!Number.isInteger(page) || page < 1 || !Number.isInteger(limit) || limit < 1 || limit > CertificateManager.MAX_PAGE_SIZE) {
+            return { ok: false, reason: 'invalid', error: `La página debe ser un entero positivo y el límite estar entre 1 y ${CertificateManager.MAX_PAGE_SIZE}.` };
+        }
+        const user_id = filters.user_id === undefined ? undefined : Number(filters.user_id);
+        if (user_id !== undefined && (!Number.isInteger(user_id) || user_id <= 0)) {
+            return { ok: false, reason: 'invalid', error: 'El usuario proporcionado no es válido.' };
+        }
+        if (filters.revoked !== undefined && filters.revoked !== 'true' && filters.revoked !== 'false') {
+            return { ok: false, reason: 'invalid', error: "revoked debe ser 'true' o 'false'." };
+        }
+
+        const result = await this.queries.index({
+            user_id,
+            search: typeof filters.search === 'string' && filters.search.trim() ? filters.search.trim() : undefined,
+            revoked: filters.revoked === undefined ? undefined : filters.revoked === 'true',
+            limit,
+            offset: (page - 1) * limit
+        });
+        if (!result.ok) {
+            return { ok: false, reason: 'failed', error: 'No fue posible obtener los certificados.' };
+        }
+        return { ok: true, certificates: result.certificates, total: result.count };
+    }
+
+    /**
+     * Obtiene el detalle de un certificado, incluido el motivo de revocación.
+     *
+     * @public
+     * @async
+     * @method show
+     * @param {number} id - Id del certificado
+     * @returns {Promise<CertificateResult>} Certificado con los datos de quien lo emitió
+     */
+    public async show(id: number): Promise<CertificateResult> {
+        if (!Number.isInteger(id) || id <= 0) {
+            return { ok: false, reason: 'invalid', error: 'El id del certificado no es válido.' };
+        }
+
+        const found = await this.queries.show(id);
+        if (!found.ok) {
+            return { ok: false, reason: 'failed', error: 'No fue posible obtener el certificado.' };
+        }
+        if (!found.certificate) {
+            return { ok: false, reason: 'not_found', error: 'El certificado no existe.' };
+        }
+        return { ok: true, certificate: found.certificate };
+    }
+
+    /**
+     * Descarga el PDF emitido de un certificado, verificando su integridad.
+     *
+     * @public
+     * @async
+     * @method download
+     * @param {number} id - Id del certificado
+     * @returns {Promise<CertificateResult>} `certificate`, `document` y `file`
+     */
+    public async download(id: number): Promise<CertificateResult> {
+        const found = await this.show(id);
+        if (!found.ok) return found;
+        if (!found.certificate.document_id) {
+            return { ok: false, reason: 'not_found', error: 'El certificado no tiene PDF emitido.' };
+        }
+
+        const downloaded = await this.documents.download(found.certificate.document_id);
+        if (!downloaded.ok) {
+            return { ok: false, reason: downloaded.reason === 'not_found' ? 'not_found' : 'failed', error: downloaded.reason === 'not_found' ? 'El PDF del certificado ya no existe.' : downloaded.error };
+        }
+        return { ok: true, certificate: found.certificate, document: downloaded.document, file: downloaded.file };
+    }
+}
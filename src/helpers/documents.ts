@@ -0,0 +1,950 @@
+import { DateTime } from 'luxon';
+import * as Sentry from "@sentry/node";
+import { Transaction } from 'sequelize';
+import { FileManager } from './files';
+import { ServerLogger } from '../utils/logger';
+import { QuotaManager, QuotaResult, DocumentOwner } from './quotas';
+import { PdfInspector, PdfInfo } from './pdf';
+import { DocumentCategories } from '../config/categories';
+import { DocumentModel } from '../models/document.model';
+import { DocumentVersionModel } from '../models/document_version.model';
+import { DocumentQueries } from '../queries/document.queries';
+import { DocumentVersionQueries } from '../queries/document_version.queries';
+
+/**
+ * Resultado normalizado de las operaciones del registro de documentos.
+ *
+ * @interface DocumentResult
+ * @property {boolean} ok - Indica si la operación fue exitosa
+ * @property {'invalid' | 'not_found' | 'held' | 'infected' | 'quota_exceeded' | 'corrupted' | 'unsupported' | 'failed'} [reason] - Motivo del fallo
+ * @property {string} [error] - Mensaje listo para mostrarse
+ * @property {DocumentModel} [document] - Documento afectado
+ * @property {DocumentModel[]} [documents] - Página de resultados de una búsqueda
+ * @property {number} [total] - Total de documentos que cumplen los filtros
+ * @property {DocumentVersionModel[]} [versions] - Historial de versiones de un documento
+ * @property {DocumentVersionModel} [version] - Versión consultada
+ * @property {DocumentMatch[]} [matches] - Resultados de la búsqueda en el contenido
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface DocumentResult {
+    ok: boolean;
+    reason?: 'invalid' | 'not_found' | 'held' | 'infected' | 'quota_exceeded' | 'corrupted' | 'unsupported' | 'failed';
+    error?: string;
+    document?: DocumentModel;
+    documents?: DocumentModel[];
+    total?: number;
+    versions?: DocumentVersionModel[];
+    version?: DocumentVersionModel;
+    matches?: DocumentMatch[];
+}
+
+/**
+ * Documento encontrado por la búsqueda de texto completo.
+ *
+ * @interface DocumentMatch
+ * @property {DocumentModel} document - Documento encontrado
+ * @property {number} score - Relevancia calculada por MariaDB; mayor es más relevante
+ * @property {string} snippet - Fragmento del texto cercano a la primera coincidencia
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface DocumentMatch {
+    document: DocumentModel;
+    score: number;
+    snippet: string;
+}
+
+/**
+ * Registro de los archivos almacenados.
+ *
+ * Cada archivo que entra al almacenamiento (por `FileManager.upload` o por
+ * una carga directa confirmada) queda registrado en `documents` con quién lo
+ * subió, su nombre original, tamaño, tipo, checksum, categoría y clave. El
+ * registro es la fuente de verdad: un archivo sin registro es un huérfano y
+ * un registro sin archivo es un error. Por eso la eliminación confirma primero
+ * el registro y después borra los objetos que quedaron sin uso (un borrado
+ * fallido solo deja un huérfano, que se reporta), y la carga elimina el
+ * archivo si no logra registrarlo.
+ *
+ * En las categorías con `deduplicate`, el contenido idéntico (mismo SHA-256 y
+ * tamaño) se guarda una sola vez y varios documentos comparten la clave; el
+ * objeto se elimina del almacenamiento al borrar el último de ellos.
+ *
+ * Un documento es una cadena de versiones: subir una versión nueva o
+ * restaurar una anterior agrega un eslabón y el documento refleja siempre el
+ * último. Nada se sobrescribe; las versiones más antiguas se depuran al
+ * superar el máximo de la categoría (`max_versions`) o DOCUMENT_MAX_VERSIONS,
+ * y su objeto solo se borra si ninguna otra versión lo usa.
+ *
+ * Un documento bajo retención legal (`hold`) no puede eliminarse ni pierde
+ * versiones por depuración hasta que la retención se retire.
+ *
+ * El dueño de un documento es un usuario o un cliente (`DocumentOwner`). Cada
+ * alta o versión nueva se verifica contra las cuotas de `QuotaManager`; una
+ * versión cuenta para el dueño del documento, no para quien la sube.
+ *
+ * Cuando la versión vigente es un PDF se extraen sus páginas, metadatos y
+ * texto (`PdfInspector`); el texto alimenta la búsqueda de contenido (`search`).
+ * La extracción corre después de responder, un PDF a la vez, porque pdf.js
+ * ocupa el hilo principal mientras lee: el documento se entrega con `pages` y
+ * `pdf_info` en null y se completan segundos después. Los PDFs mayores a
+ * `PDF_INSPECT_MAX_BYTES` no se leen. Si el PDF no puede leerse el documento
+ * queda registrado igual, sin esos datos.
+ *
+ * @class DocumentManager
+ * @description Alta, búsqueda, consulta y eliminación de documentos registrados
+ * @version 1.0.0
+ * @author OmarGo96
+ *
+ * @environment
+ * - **DOCUMENT_MAX_VERSIONS**: Versiones conservadas por documento cuando la categoría no define `max_versions` (default 10)
+ * - **PDF_INSPECT_MAX_BYTES**: Tamaño máximo de un PDF para extraer su contenido (default 25 MB)
+ *
+ * @example
+ * const stored = await new DocumentManager().upload({ user_id: userId, client_id: null }, req, 'CONTRACT');
+ * const replaced = await new DocumentManager().addVersion(stored.document.id, { user_id: userId, client_id: null }, req);
+ * const page = await new DocumentManager().list({ category: 'CONTRACT', search: 'arrendamiento', page: 1 });
+ *
+ * @since 1.3.0
+ */
+export class DocumentManager {
+    /** Acceso a la tabla documents */
+    private queries: DocumentQueries = new DocumentQueries();
+
+    /** Acceso a la tabla document_versions */
+    private versionQueries: DocumentVersionQueries = new DocumentVersionQueries();
+
+    /** Operaciones sobre el almacenamiento */
+    private files: FileManager = new FileManager();
+
+    /** Cuotas de almacenamiento */
+    private quotas: QuotaManager = new QuotaManager();
+
+    /** Lectura de PDFs */
+    private pdf: PdfInspector = new PdfInspector();
+
+    /** Extracciones de PDFs pendientes; se encadenan para leer uno a la vez */
+    private static analysis: Promise<void> = Promise.resolve();
+
+    /** Tamaño máximo de un PDF a leer cuando PDF_INSPECT_MAX_BYTES no lo indica */
+    private static readonly DEFAULT_INSPECT_MAX_BYTES = 25 * 1024 * 1024;
+
+    /** Tamaño de página por defecto y máximo de `list` */
+    private static readonly PAGE_SIZE = 20;
+    private static readonly MAX_PAGE_SIZE = 100;
+
+    /** Versiones conservadas cuando ni la categoría ni DOCUMENT_MAX_VERSIONS lo indican */
+    private static readonly DEFAULT_MAX_VERSIONS = 10;
+
+    /**
+     * Reporta el error a Sentry y lo registra en consola con timestamp.
+     *
+     * @private
+     * @method handleError
+     * @param {any} error - Error capturado
+     * @returns {void}
+     */
+    private handleError(error: any): void {
+        Sentry.captureException(error);
+        console.log(`Error documents a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${error}`);
+    }
+
+    /**
+     * Busca un documento con el mismo contenido cuando la categoría deduplica.
+     *
+     * @private
+     * @async
+     * @method findDuplicate
+     * @param {string} category - Código de la categoría
+     * @param {string} checksum - SHA-256 del contenido
+     * @param {number} size - Tamaño en bytes
+     * @returns {Promise<DocumentModel | null>} Documento existente o null
+     */
+    private async findDuplicate(category: string, checksum: string, size: number): Promise<DocumentModel | null> {
+        if (!DocumentCategories.find(category)?.deduplicate) return null;
+        const found = await this.queries.showDuplicate(category, checksum, size);
+        return found.ok ? found.document : null;
+    }
+
+    /**
+     * Número de versiones que se conservan por documento de una categoría.
+     *
+     * @private
+     * @method maxVersions
+     * @param {string} category - Código de la categoría
+     * @returns {number} Máximo de versiones (al menos 1)
+     */
+    private maxVersions(category: string): number {
+        const configured = DocumentCategories.find(category)?.max_versions;
+        if (configured) return configured;
+        const env = Number(process.env.DOCUMENT_MAX_VERSIONS);
+        return Number.isInteger(env) && env >= 1 ? env : DocumentManager.DEFAULT_MAX_VERSIONS;
+    }
+
+    /**
+     * Borra del almacenamiento los objetos que dejaron de usarse.
+     *
+     * Se invoca después de confirmar la transacción que eliminó sus registros;
+     * un objeto que no pudo borrarse se reporta con `ServerLogger` para
+     * eliminarlo a mano, sin afectar el resultado de la operación.
+     *
+     * @private
+     * @async
+     * @method deleteOrphans
+     * @param {string[]} keys - Claves de los objetos
+     * @returns {Promise<void>}
+     */
+    private async deleteOrphans(keys: string[]): Promise<void> {
+        for (const key of keys) {
+            const deleted = await this.files.destroy({ key });
+            if (!deleted.ok) {
+                this.handleError(new Error(`No fue posible eliminar ${key} del almacenamiento`));
+                ServerLogger.log({ type: 'warn', port: Number(process.env.LISTEN_PORT), message: `Objeto huérfano pendiente de eliminar: ${key}` });
+            }
+        }
+    }
+
+    /**
+     * Depura las versiones que exceden el máximo de la categoría.
+     *
+     * Un fallo no invalida la versión recién agregada; se reporta y la
+     * depuración se reintenta con la siguiente versión.
+     *
+     * @private
+     * @async
+     * @method prune
+     * @param {DocumentModel} document - Documento recién actualizado
+     * @returns {Promise<void>}
+     */
+    private async prune(document: DocumentModel): Promise<void> {
+        const pruned = await this.queries.prune(document.id, this.maxVersions(document.category));
+        if (!pruned.ok) {
+            this.handleError(new Error(`No fue posible depurar las versiones del documento ${document.id}`));
+            return;
+        }
+        await this.deleteOrphans(pruned.orphans);
+    }
+
+    /**
+     * Programa la extracción de la versión vigente sin esperarla.
+     *
+     * @private
+     * @method queueAnalysis
+     * @param {DocumentModel} document - Documento recién registrado o actualizado
+     * @returns {DocumentModel} El mismo documento, para responder de inmediato
+     */
+    private queueAnalysis(document: DocumentModel): DocumentModel {
+        DocumentManager.analysis = DocumentManager.analysis
+            .then(() => this.analyze(document))
+            .then(() => undefined, (e) => this.handleError(e));
+        return document;
+    }
+
+    /**
+     * Extrae páginas, metadatos y texto de la versión vigente si es un PDF.
+     *
+     * Si la versión vigente no es PDF, o excede PDF_INSPECT_MAX_BYTES, se
+     * limpia lo extraído de la anterior. Si mientras tanto se registró otra
+     * versión, `saveContent` descarta el resultado. Un fallo no invalida el
+     * registro: el documento queda sin esos datos y se reporta.
+     *
+     * @private
+     * @async
+     * @method analyze
+     * @param {DocumentModel} document - Documento recién registrado o actualizado
+     * @returns {Promise<void>}
+     */
+    private async analyze(document: DocumentModel): Promise<void> {
+        const maxBytes = Number(process.env.PDF_INSPECT_MAX_BYTES) || DocumentManager.DEFAULT_INSPECT_MAX_BYTES;
+        let extracted: { pages: number | null, pdf_info: PdfInfo | null, text: string | null } = { pages: null, pdf_info: null, text: null };
+        if (document.mimetype === 'application/pdf' && Number(document.size) <= maxBytes) {
+            const downloaded = await this.files.downloadKey(document.key, document.checksum);
+            if (!downloaded.ok) {
+                this.handleError(new Error(`No fue posible leer el PDF del documento ${document.id}: ${downloaded.message}`));
+                return;
+            }
+            const inspected = await this.pdf.inspect(downloaded.file);
+            if (inspected.ok) {
+                extracted = { pages: inspected.pages, pdf_info: inspected.info, text: inspected.text || null };
+            }
+        } else if (document.version === 1) {
+            return;
+        }
+
+        const saved = await this.queries.saveContent(document.id, document.version, extracted);
+        if (!saved.ok) {
+            this.handleError(new Error(`No fue posible guardar el contenido del documento ${document.id}`));
+        }
+    }
+
+    /**
+     * Verifica las cuotas del dueño antes de agregar un archivo.
+     *
+     * Con `document_id` el archivo es una versión: no suma documentos y los
+     * bytes cuentan para el dueño del documento.
+     *
+     * @private
+     * @async
+     * @method checkQuota
+     * @param {DocumentOwner} owner - Quien sube el archivo
+     * @param {string} category - Código de la categoría
+     * @param {number} size - Tamaño en bytes
+     * @param {number} [document_id] - Documento al que se agrega una versión
+     * @returns {Promise<DocumentResult>} ok, o el motivo del rechazo
+     */
+    private async checkQuota(owner: DocumentOwner, category: string, size: number, document_id?: number): Promise<DocumentResult> {
+        let holder = owner;
+        if (document_id !== undefined) {
+            const found = await this.show(document_id);
+            if (!found.ok) return found;
+            holder = { user_id: found.document.user_id, client_id: found.document.client_id };
+        }
+
+        const allowed = await this.quotas.check(holder, category, { bytes: Number(size), files: document_id === undefined ? 1 : 0 });
+        return allowed.ok ? { ok: true } : this.quotaRejection(allowed);
+    }
+
+    /**
+     * Convierte el rechazo de `QuotaManager` en el resultado del registro.
+     *
+     * @private
+     * @method quotaRejection
+     * @param {QuotaResult} rejected - Resultado de `QuotaManager.check`
+     * @returns {DocumentResult}
+     */
+    private quotaRejection(rejected: QuotaResult): DocumentResult {
+        return { ok: false, reason: rejected.reason === 'quota_exceeded' ? 'quota_exceeded' : 'failed', error: rejected.error };
+    }
+
+    /**
+     * Verificación de cuotas de una versión, para la transacción que la registra.
+     *
+     * Recibe el documento ya bloqueado: los bytes cuentan para su dueño y dos
+     * versiones simultáneas del mismo documento se verifican una tras otra.
+     *
+     * @private
+     * @method versionQuota
+     * @param {number} size - Tamaño de la versión en bytes
+     * @returns {Function} Guarda para `DocumentQueries.appendVersion`
+     */
+    private versionQuota(size: number): (document: DocumentModel, transaction: Transaction) => Promise<QuotaResult> {
+        return (document, transaction) => this.quotas.check(
+            { user_id: document.user_id, client_id: document.client_id },
+            document.category,
+            { bytes: Number(size), files: 0 },
+            transaction
+        );
+    }
+
+    /**
+     * Sube un archivo recibido en la petición y lo registra.
+     *
+     * Si la categoría deduplica y ya existe un documento con el mismo
+     * contenido, no se sube nada: el nuevo registro apunta al objeto existente.
+     *
+     * @public
+     * @async
+     * @method upload
+     * @param {DocumentOwner} owner - Usuario o cliente que sube el archivo
+     * @param {any} data - Objeto con archivos recibidos (formato req.files, campo `file`)
+     * @param {string} category - Código de la categoría
+     * @param {number} [document_id] - Documento al que se agrega el archivo como nueva versión
+     * @returns {Promise<DocumentResult>} Documento registrado
+     */
+    public async upload(owner: DocumentOwner, data: any, category: any, document_id?: number): Promise<DocumentResult> {
+        const fileObj = data?.files?.file;
+        const code = String(category ?? '');
+        const original_name = typeof fileObj?.name === 'string' ? fileObj.name : null;
+
+        const inspected = this.files.inspect(data, code);
+        if (!inspected.ok) {
+            return { ok: false, reason: 'invalid', error: inspected.message };
+        }
+
+        // Se rechaza antes de subir; `register` lo vuelve a verificar al insertar, con los límites bloqueados
+        const allowed = await this.checkQuota(owner, code, inspected.size, document_id);
+        if (!allowed.ok) return allowed;
+
+        const duplicate = await this.findDuplicate(code, inspected.checksum, inspected.size);
+        if (duplicate) {
+            return this.register({
+                document_id,
+                ...owner,
+                category: code,
+                key: duplicate.key,
+                name: duplicate.name,
+                original_name,
+                mimetype: duplicate.mimetype,
+                size: duplicate.size,
+                checksum: duplicate.checksum
+            });
+        }
+
+        const uploaded = await this.files.upload(data, code, undefined, owner.user_id ?? undefined);
+        if (!uploaded.ok) {
+            return { ok: false, reason: uploaded.reason, error: uploaded.message };
+        }
+
+        const key = uploaded.response.key;
+        const registered = await this.register({
+            document_id,
+            ...owner,
+            category: code,
+            key,
+            name: uploaded.nameFile,
+            original_name,
+            mimetype: uploaded.mimetype,
+            size: uploaded.size,
+            checksum: uploaded.checksum
+        });
+        if (!registered.ok) {
+            // Sin registro el archivo quedaría huérfano
+            await this.files.destroy({ key });
+        }
+        return registered;
+    }
+
+    /**
+     * Registra un archivo que ya está en el almacenamiento.
+     *
+     * Con deduplicación, si existe otro documento con el mismo contenido en
+     * la categoría, el registro apunta a su objeto y el recién subido se elimina.
+     * Con `document_id` el archivo se agrega como la versión más reciente de ese
+     * documento en lugar de crear uno nuevo. Si excede una cuota se responde
+     * `quota_exceeded` y el llamador debe eliminar el archivo.
+     *
+     * @public
+     * @async
+     * @method register
+     * @param {object} data - Datos del archivo
+     * @returns {Promise<DocumentResult>} Documento registrado
+     */
+    public async register(data: { document_id?: number, user_id: number | null, client_id?: string | null, category: string, key: string, name: string, original_name: string | null, mimetype: string, size: number, checksum: string }): Promise<DocumentResult> {
+        const { document_id, category, client_id = null, ...file } = data;
+        const duplicate = await this.findDuplicate(category, file.checksum, file.size);
+        const target = duplicate && duplicate.key !== file.key ? { key: duplicate.key, name: duplicate.name } : { key: file.key, name: file.name };
+        const record = {
+            ...file,
+            client_id,
+            ...target,
+            original_name: file.original_name ? file.original_name.slice(0, 255) : null
+        };
+
+        if (document_id === undefined) {
+            const stored = await this.queries.store({ ...record, category }, (transaction) =>
+                this.quotas.check({ user_id: file.user_id, client_id }, category, { bytes: Number(file.size), files: 1 }, transaction));
+            if (!stored.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible registrar el documento.' };
+            }
+            if (stored.rejected) return this.quotaRejection(stored.rejected);
+            if (target.key !== file.key) {
+                await this.files.destroy({ key: file.key });
+            }
+            return { ok: true, document: this.queueAnalysis(stored.document) };
+        }
+
+        const appended = await this.queries.appendVersion(document_id, record, this.versionQuota(file.size));
+        if (!appended.ok) {
+            return { ok: false, reason: 'failed', error: 'No fue posible registrar la versión.' };
+        }
+        if (appended.rejected) return this.quotaRejection(appended.rejected);
+        if (!appended.document) {
+            return { ok: false, reason: 'not_found', error: 'El documento no existe.' };
+        }
+        if (target.key !== file.key) {
+            await this.files.destroy({ key: file.key });
+        }
+        await this.prune(appended.document);
+        return { ok: true, document: this.queueAnalysis(appended.document) };
+    }
+
+    /**
+     * Sube un archivo como nueva versión de un documento existente.
+     *
+     * La versión anterior se conserva y puede descargarse o restaurarse.
+     *
+     * @public
+     * @async
+     * @method addVersion
+     * @param {number} id - Id del documento
+     * @param {DocumentOwner} owner - Usuario o cliente que sube la versión
+     * @param {any} data - Objeto con archivos recibidos (formato req.files, campo `file`)
+     * @returns {Promise<DocumentResult>} Documento con la nueva versión vigente
+     */
+    public async addVersion(id: number, owner: DocumentOwner, data: any): Promise<DocumentResult> {
+        const found = await this.show(id);
+        if (!found.ok) return found;
+        return this.upload(owner, data, found.document.category, id);
+    }
+
+    /**
+     * Obtiene el historial de versiones de un documento.
+     *
+     * @public
+     * @async
+     * @method versions
+     * @param {number} id - Id del documento
+     * @returns {Promise<DocumentResult>} `versions`, la más reciente primero
+     */
+    public async versions(id: number): Promise<DocumentResult> {
+        const found = await this.show(id);
+        if (!found.ok) return found;
+
+        const result = await this.versionQueries.index(id);
+        if (!result.ok) {
+            return { ok: false, reason: 'failed', error: 'No fue posible obtener las versiones.' };
+        }
+        return { ok: true, document: found.document, versions: result.versions };
+    }
+
+    /**
+     * Busca una versión concreta de un documento.
+     *
+     * @private
+     * @async
+     * @method findVersion
+     * @param {number} id - Id del documento
+     * @param {number} version - Número de versión
+     * @returns {Promise<DocumentResult>} `document` y `version`
+     */
+    private async findVersion(id: number, version: number): Promise<DocumentResult> {
+        if (!Number.isInteger(version) || version <= 0) {
+            return { ok: false, reason: 'invalid', error: 'El número de versión no es válido.' };
+        }
+        const found = await this.show(id);
+        if (!found.ok) return found;
+
+        const result = await this.versionQueries.show(id, version);
+        if (!result.ok) {
+            return { ok: false, reason: 'failed', error: 'No fue posible obtener la versión.' };
+        }
+        if (!result.documentVersion) {
+            return { ok: false, reason: 'not_found', error: 'La versión no existe o ya fue depurada.' };
+        }
+        return { ok: true, document: found.document, version: result.documentVersion };
+    }
+
+    /**
+     * Descarga el contenido de una versión verificando su integridad.
+     *
+     * @public
+     * @async
+     * @method downloadVersion
+     * @param {number} id - Id del documento
+     * @param {number} version - Número de versión
+     * @returns {Promise<DocumentResult & { file?: Uint8Array }>} Versión y contenido
+     */
+    public async downloadVersion(id: number, version: number): Promise<DocumentResult & { file?: Uint8Array }> {
+        const found = await this.findVersion(id, version);
+        if (!found.ok) return found;
+
+        const downloaded = await this.files.downloadKey(found.version.key, found.version.checksum);
+        if (!downloaded.ok) {
+            return { ok: false, reason: downloaded.reason === 'corrupted' ? 'corrupted' : 'failed', error: downloaded.message };
+        }
+        return { ok: true, document: found.document, version: found.version, file: downloaded.file };
+    }
+
+    /**
+     * Restaura una versión anterior.
+     *
+     * No reescribe el historial: agrega una versión nueva con el contenido de
+     * la indicada (sin copiar el objeto, ambas comparten la clave) y registra
+     * en `restored_from` de cuál proviene.
+     *
+     * @public
+     * @async
+     * @method restore
+     * @param {number} id - Id del documento
+     * @param {number} version - Número de la versión a restaurar
+     * @param {number} user_id - Usuario que restaura
+     * @returns {Promise<DocumentResult>} Documento con la versión restaurada vigente
+     */
+    public async restore(id: number, version: number, user_id: number): Promise<DocumentResult> {
+        const found = await this.findVersion(id, version);
+        if (!found.ok) return found;
+        if (found.version.version === found.document.version) {
+            return { ok: false, reason: 'invalid', error: 'La versión indicada ya es la vigente.' };
+        }
+
+        const source = found.version;
+        const appended = await this.queries.appendVersion(id, {
+            user_id,
+            client_id: null,
+            key: source.key,
+            name: source.name,
+            original_name: source.original_name,
+            mimetype: source.mimetype,
+            size: source.size,
+            checksum: source.checksum,
+            restored_from: source.version
+        }, this.versionQuota(source.size));
+        if (!appended.ok) {
+            return { ok: false, reason: 'failed', error: 'No fue posible restaurar la versión.' };
+        }
+        if (appended.rejected) return this.quotaRejection(appended.rejected);
+        if (!appended.document) {
+            return { ok: false, reason: 'not_found', error: 'El documento no existe.' };
+        }
+        await this.prune(appended.document);
+        return { ok: true, document: this.queueAnalysis(appended.document) };
+    }
+
+    /**
+     * Valida y normaliza los filtros de búsqueda recibidos en la petición.
+     *
+     * Las fechas se aceptan en ISO 8601; una fecha sin hora en `to` incluye
+     * todo ese día.
+     *
+     * @private
+     * @method parseFilters
+     * @param {object} filters - Filtros tal como llegan
+     * @returns {{ ok: boolean, error?: string, filters?: object }} Filtros listos para `DocumentQueries.index`
+     */
+    private parseFilters(filters: { category?: any, user_id?: any, search?: any, from?: any, to?: any }): { ok: boolean, error?: string, filters?: { category?: string, user_id?: number, search?: string, from?: Date, to?: Date } } {
+        const user_id = filters.user_id === undefined ? undefined : Number(filters.user_id);
+        if (user_id !== undefined && (!Number.isInteger(user_id) || user_id <= 0)) {
+            return { ok: false, error: 'El usuario proporcionado no es válido.' };
+        }
+
+        const dates: { from?: Date, to?: Date } = {};
+        for (const field of ['from', 'to'] as const) {
+            if (filters[field] === undefined) continue;
+            const value = typeof filters[field] === 'string' ? DateTime.fromISO(filters[field]) : null;
+            if (!value || !value.isValid) {
+                return { ok: false, error: `La fecha ${field} debe tener formato ISO 8601 (ej. 2025-01-31).` };
+            }
+            const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(filters[field]);
+            dates[field] = (field === 'to' && dateOnly ? value.endOf('day') : value).toJSDate();
+        }
+        if (dates.from && dates.to && dates.from > dates.to) {
+            return { ok: false, error: 'La fecha from no puede ser posterior a to.' };
+        }
+
+        return {
+            ok: true,
+            filters: {
+                category: typeof filters.category === 'string' ? filters.category : undefined,
+                user_id,
+                search: typeof filters.search === 'string' && filters.search.trim() ? filters.search.trim() : undefined,
+                ...dates
+            }
+        };
+    }
+
+    /**
+     * Busca documentos registrados.
+     *
+     * @public
+     * @async
+     * @method list
+     * @param {object} filters - Filtros de búsqueda
+     * @param {string} [filters.category] - Código de la categoría
+     * @param {number} [filters.user_id] - Usuario que subió el archivo
+     * @param {string} [filters.search] - Texto contenido en el nombre original
+     * @param {string} [filters.from] - Subidos desde esta fecha (ISO 8601)
+     * @param {string} [filters.to] - Subidos hasta esta fecha (ISO 8601)
+     * @param {number} [filters.page=1] - Página
+     * @param {number} [filters.limit=20] - Resultados por página (máximo 100)
+     * @returns {Promise<DocumentResult>} `documents` y `total`
+     */
+    public async list(filters: { category?: any, user_id?: any, search?: any, from?: any, to?: any, page?: any, limit?: any }): Promise<DocumentResult> {
+        const page = filters.page === undefined ? 1 : Number(filters.page);
+        const limit = filters.limit === undefined ? DocumentManager.PAGE_SIZE : Number(filters.limit);
+        if (!Number.isInteger(page) || page < 1 || !Number.isInteger(limit) || limit < 1 || limit > DocumentManager.MAX_PAGE_SIZE) {
+            return { ok: false, reason: 'invalid', error: `La página debe ser un entero positivo y el límite estar entre 1 y ${DocumentManager.MAX_PAGE_SIZE}.` };
+        }
+        const parsed = this.parseFilters(filters);
+        if (!parsed.ok) {
+            return { ok: false, reason: 'invalid', error: parsed.error };
+        }
+
+        const result = await this.queries.index({
+            ...parsed.filters,
+            limit,
+            offset: (page - 1) * limit
+        });
+        if (!result.ok) {
+            return { ok: false, reason: 'failed', error: 'No fue posible obtener los documentos.' };
+        }
+        return { ok: true, documents: result.documents, total: result.count };
+    }
+
+    /**
+     * Busca documentos por el texto de sus PDFs.
+     *
+     * Usa el índice FULLTEXT de MariaDB en modo de lenguaje natural: no
+     * distingue mayúsculas ni acentos (según la colación) e ignora las
+     * palabras más cortas que el mínimo del índice y las muy frecuentes.
+     *
+     * @public
+     * @async
+     * @method search
+     * @param {object} filters - Filtros de búsqueda
+     * @param {string} filters.q - Texto a buscar
+     * @param {string} [filters.category] - Código de la categoría
+     * @param {number} [filters.page=1] - Página
+     * @param {number} [filters.limit=20] - Resultados por página (máximo 100)
+     * @returns {Promise<DocumentResult>} `matches` y `total`
+     */
+    public async search(filters: { q?: any, category?: any, page?: any, limit?: any }): Promise<DocumentResult> {
+        const page = filters.page === undefined ? 1 : Number(filters.page);
+        const limit = filters.limit === undefined ? DocumentManager.PAGE_SIZE : Number(filters.limit);
+        if (!Number.isInteger(page) || page < 1 || !Number.isInteger(limit) || limit < 1 || limit > DocumentManager.MAX_PAGE_SIZE) {
+            return { ok: false, reason: 'invalid', error: `La página debe ser un entero positivo y el límite estar entre 1 y ${DocumentManager.MAX_PAGE_SIZE}.` };
+        }
+        const q = typeof filters.q === 'string' ? filters.q.trim() : '';
+        if (q.length < 3 || q.length > 200) {
+            return { ok: false, reason: 'invalid', error: 'Indique en q el texto a buscar (entre 3 y 200 caracteres).' };
+        }
+
+        // El fragmento se centra en la palabra más larga, la que con más probabilidad indexó MariaDB
+        const term = q.split(/\s+/).reduce((longest, word) => word.length > longest.length ? word : longest, '');
+        const result = await this.queries.search({
+            q,
+            term,
+            category: typeof filters.category === 'string' ? filters.category : undefined,
+            limit,
+            offset: (page - 1) * limit
+        });
+        if (!result.ok) {
+            return { ok: false, reason: 'failed', error: 'No fue posible realizar la búsqueda.' };
+        }
+
+        const matches = result.contents.map(content => ({
+            document: content.get('document') as DocumentModel,
+            score: Number(content.get('score')),
+            snippet: String(content.get('snippet') ?? '').replace(/\s+/g, ' ').trim()
+        }));
+        return { ok: true, matches, total: result.count };
+    }
+
+    /**
+     * Selecciona documentos por lista de ids o por filtros, para operaciones en lote.
+     *
+     * Con `ids` todos deben existir; con filtros se exige al menos uno para no
+     * seleccionar el registro completo por accidente. `total` es el número de
+     * documentos que cumplen la selección aunque supere `max`.
+     *
+     * @public
+     * @async
+     * @method select
+     * @param {object} criteria - `ids` o los mismos filtros de `list`
+     * @param {number} max - Máximo de documentos a devolver
+     * @returns {Promise<DocumentResult>} `documents` (más antiguos primero) y `total`
+     */
+    public async select(criteria: { ids?: any, category?: any, user_id?: any, search?: any, from?: any, to?: any }, max: number): Promise<DocumentResult> {
+        if (criteria.ids !== undefined) {
+            const ids = Array.isArray(criteria.ids) ? [...new Set(criteria.ids.map(Number))] : [];
+            if (ids.length === 0 || !ids.every(id => Number.isInteger(id) && id > 0)) {
+                return { ok: false, reason: 'invalid', error: 'ids debe ser una lista de ids de documento.' };
+            }
+            if (ids.length > max) {
+                return { ok: false, reason: 'invalid', error: `Se pueden seleccionar como máximo ${max} documentos.`, total: ids.length };
+            }
+
+            const result = await this.queries.index({ ids, limit: max, offset: 0 });
+            if (!result.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible obtener los documentos.' };
+            }
+            const missing = ids.filter(id => !result.documents.some(document => document.id === id));
+            if (missing.length > 0) {
+                return { ok: false, reason: 'not_found', error: `No existen los documentos: ${missing.join(', ')}.` };
+            }
+            return { ok: true, documents: result.documents.reverse(), total: result.count };
+        }
+
+        const parsed = this.parseFilters(criteria);
+        if (!parsed.ok) {
+            return { ok: false, reason: 'invalid', error: parsed.error };
+        }
+        if (Object.values(parsed.filters).every(value => value === undefined)) {
+            return { ok: false, reason: 'invalid', error: 'Indique ids o al menos un filtro (category, user_id, search, from, to).' };
+        }
+
+        const result = await this.queries.index({ ...parsed.filters, limit: max, offset: 0 });
+        if (!result.ok) {
+            return { ok: false, reason: 'failed', error: 'No fue posible obtener los documentos.' };
+        }
+        return { ok: true, documents: result.documents.reverse(), total: result.count };
+    }
+
+    /**
+     * Obtiene el detalle de un documento.
+     *
+     * @public
+     * @async
+     * @method show
+     * @param {number} id - Id del documento
+     * @returns {Promise<DocumentResult>} Documento con los datos de quien lo subió
+     */
+    public async show(id: number): Promise<DocumentResult> {
+        if (!Number.isInteger(id) || id <= 0) {
+            return { ok: false, reason: 'invalid', error: 'El id del documento no es válido.' };
+        }
+
+        const found = await this.queries.show(id);
+        if (!found.ok) {
+            return { ok: false, reason: 'failed', error: 'No fue posible obtener el documento.' };
+        }
+        if (!found.document) {
+            return { ok: false, reason: 'not_found', error: 'El documento no existe.' };
+        }
+        return { ok: true, document: found.document };
+    }
+
+    /**
+     * Descarga el contenido de un documento verificando su integridad.
+     *
+     * El SHA-256 del contenido leído debe coincidir con el registrado; si no,
+     * el archivo se considera corrupto o alterado y no se entrega.
+     *
+     * @public
+     * @async
+     * @method download
+     * @param {number} id - Id del documento
+     * @returns {Promise<DocumentResult & { file?: Uint8Array }>} Documento y contenido
+     */
+    public async download(id: number): Promise<DocumentResult & { file?: Uint8Array }> {
+        const found = await this.show(id);
+        if (!found.ok) return found;
+
+        const document = found.document;
+        const downloaded = await this.files.downloadKey(document.key, document.checksum);
+        if (!downloaded.ok) {
+            return { ok: false, reason: downloaded.reason === 'corrupted' ? 'corrupted' : 'failed', error: downloaded.message };
+        }
+        return { ok: true, document, file: downloaded.file };
+    }
+
+    /**
+     * Genera una URL prefirmada para descargar la versión vigente de un documento.
+     *
+     * Solo se firma la clave registrada del documento, nunca una ruta arbitraria
+     * del almacenamiento. Un documento que ya venció su retención y no está bajo
+     * retención legal se trata como inexistente: la próxima depuración lo elimina.
+     *
+     * @public
+     * @async
+     * @method downloadUrl
+     * @param {number} id - Id del documento
+     * @returns {Promise<DocumentResult & { url?: string, expires_at?: Date }>} URL y su vencimiento
+     */
+    public async downloadUrl(id: number): Promise<DocumentResult & { url?: string, expires_at?: Date }> {
+        const found = await this.show(id);
+        if (!found.ok) return found;
+
+        const document = found.document;
+        const retention_days = DocumentCategories.find(document.category)?.retention_days ?? null;
+        const expired = retention_days !== null && document.createdAt < DateTime.now().minus({ days: retention_days }).toJSDate();
+        if (expired && !document.legal_hold) {
+            return { ok: false, reason: 'not_found', error: 'El documento venció su periodo de retención.' };
+        }
+
+        const presigned = await this.files.presignDownload(document.key, document.name);
+        if (!presigned.ok) {
+            return { ok: false, reason: presigned.reason, error: presigned.message };
+        }
+        return { ok: true, document, url: presigned.url, expires_at: presigned.expires_at };
+    }
+
+    /**
+     * Elimina un documento, con todas sus versiones, del registro y del almacenamiento.
+     *
+     * Los archivos que dejan de usarse se borran después de confirmar la eliminación
+     * de los registros; si el almacenamiento falla, el documento queda eliminado y el
+     * objeto se reporta como huérfano.
+     *
+     * @public
+     * @async
+     * @method remove
+     * @param {number} id - Id del documento
+     * @returns {Promise<DocumentResult>} Resultado de la operación
+     */
+    public async remove(id: number): Promise<DocumentResult> {
+        if (!Number.isInteger(id) || id <= 0) {
+            return { ok: false, reason: 'invalid', error: 'El id del documento no es válido.' };
+        }
+
+        try {
+            const removed = await this.queries.destroy(id);
+            if (!removed.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible eliminar el documento.' };
+            }
+            if (removed.held) {
+                return { ok: false, reason: 'held', error: 'El documento está bajo retención legal y no puede eliminarse.' };
+            }
+            if (removed.affected === 0) {
+                return { ok: false, reason: 'not_found', error: 'El documento no existe.' };
+            }
+            await this.deleteOrphans(removed.orphans);
+            return { ok: true };
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, reason: 'failed', error: 'Error al eliminar el documento.' };
+        }
+    }
+
+    /**
+     * Activa la retención legal de un documento.
+     *
+     * Si ya estaba activa, se actualizan el motivo y el responsable.
+     *
+     * @public
+     * @async
+     * @method hold
+     * @param {number} id - Id del documento
+     * @param {number} user_id - Usuario que ordena la retención
+     * @param {string} reason - Motivo (expediente, litigio, auditoría)
+     * @returns {Promise<DocumentResult>} Documento actualizado
+     */
+    public async hold(id: number, user_id: number, reason: any): Promise<DocumentResult> {
+        if (!Number.isInteger(id) || id <= 0) {
+            return { ok: false, reason: 'invalid', error: 'El id del documento no es válido.' };
+        }
+        if (typeof reason !== 'string' || !reason.trim() || reason.length > 255) {
+            return { ok: false, reason: 'invalid', error: 'Indique el motivo de la retención legal (máximo 255 caracteres).' };
+        }
+        return this.setHold(id, { user_id, reason: reason.trim() });
+    }
+
+    /**
+     * Retira la retención legal de un documento.
+     *
+     * @public
+     * @async
+     * @method releaseHold
+     * @param {number} id - Id del documento
+     * @returns {Promise<DocumentResult>} Documento actualizado
+     */
+    public async releaseHold(id: number): Promise<DocumentResult> {
+        if (!Number.isInteger(id) || id <= 0) {
+            return { ok: false, reason: 'invalid', error: 'El id del documento no es válido.' };
+        }
+        return this.setHold(id, null);
+    }
+
+    /**
+     * Guarda el estado de retención legal.
+     *
+     * @private
+     * @async
+     * @method setHold
+     * @param {number} id - Id del documento
+     * @param {object | null} hold - Responsable y motivo, o null para retirarla
+     * @returns {Promise<DocumentResult>}
+     */
+    private async setHold(id: number, hold: { user_id: number, reason: string } | null): Promise<DocumentResult> {
+        const updated = await this.queries.setHold(id, hold);
+        if (!updated.ok) {
+            return { ok: false, reason: 'failed', error: 'No fue posible actualizar la retención legal.' };
+        }
+        if (!updated.document) {
+            return { ok: false, reason: 'not_found', error: 'El documento no existe.' };
+        }
+        return { ok: true, document: updated.document };
+    }
+}
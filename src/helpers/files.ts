@@ -1,22 +1,34 @@
+import crypto from 'crypto';
 import colors from 'colors';
 import * as Sentry from "@sentry/node";
-import { fromEnv } from "@aws-sdk/credential-providers";
-import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3";
 import { DateTime } from 'luxon';
+import { Readable, Transform } from 'stream';
+import { Storage, StorageDriver } from './storage';
+import { DocumentCategories, DocumentCategory } from '../config/categories';
+import { MimeSniffer } from './mime';
+import { Scanner } from './scanner';
+import { ServerLogger } from '../utils/logger';
+import { MalwareDetectionQueries } from '../queries/malware_detection.queries';
 
 /**
- * Gestor de archivos para operaciones con AWS S3.
+ * Gestor de archivos sobre el backend de almacenamiento configurado.
  * 
  * Esta clase proporciona una interfaz simplificada para realizar operaciones
- * de gestión de archivos PDF en buckets de Amazon S3. Incluye funcionalidades
+ * de gestión de archivos (PDF, imágenes, Office, CSV y ZIP). Incluye funcionalidades
  * para subir, descargar y eliminar archivos con validaciones de tipo,
  * manejo robusto de errores y organización automática por categorías.
  * 
+ * **Backends de almacenamiento:**
+ * Las operaciones se delegan en un `StorageDriver` (ver `helpers/storage.ts`):
+ * S3 (por defecto), disco local o memoria, elegido con STORAGE_DRIVER o
+ * inyectado en el constructor. La semántica de upload/download/destroy es la
+ * misma con cualquiera de ellos.
+ * 
  * **Características principales:**
- * - Gestión completa del ciclo de vida de archivos PDF en S3
- * - Validación automática de tipos de archivo (solo PDF)
+ * - Gestión completa del ciclo de vida de archivos
+ * - Detección del tipo real por contenido (`MimeSniffer`), validado contra la categoría
  * - Organización jerárquica por tipos de documentos
- * - Generación automática de nombres únicos basados en timestamp
+ * - Generación automática de nombres únicos (UUID v4)
  * - Reemplazo seguro de archivos existentes
  * - Integración con Sentry para monitoreo de errores
  * - Logging colorizado para debugging
@@ -34,12 +46,12 @@ import { DateTime } from 'luxon';
  * - Sistemas de gestión documental corporativa
  * 
  * @class FileManager
- * @description Utilidad para gestión de archivos PDF en AWS S3
+ * @description Utilidad para gestión de archivos por categoría (S3, disco local o memoria)
  * @version 1.0.0
  * @author OmarGo96
  * 
  * @dependencies
- * - **@aws-sdk/client-s3**: Cliente oficial de AWS para operaciones S3
+ * - **./storage**: Backends de almacenamiento (S3 vía @aws-sdk/client-s3, local, memoria)
  * - **@aws-sdk/credential-providers**: Proveedores de credenciales AWS
  * - **luxon**: Manejo moderno de fechas y timestamps
  * - **colors**: Colorización de logs para debugging
@@ -51,106 +63,171 @@ import { DateTime } from 'luxon';
  * - **AWS_REGION**: Región AWS para el servicio S3
  * - **AWS_ACCESS_KEY_ID**: Clave de acceso AWS (opcional si usa IAM roles)
  * - **AWS_SECRET_ACCESS_KEY**: Clave secreta AWS (opcional si usa IAM roles)
+ * - **STORAGE_DRIVER**: 's3' (default), 'local' o 'memory'
+ * - **STORAGE_LOCAL_PATH**: Raíz del backend local (default './storage')
  * 
  * @security
  * **Consideraciones de seguridad:**
  * - Utiliza credenciales AWS desde variables de entorno
- * - Validación estricta de tipos de archivo (solo PDF)
+ * - Validación estricta del tipo real de archivo (magic bytes) por categoría
  * - Nombres de archivo únicos para prevenir conflictos
  * - Manejo seguro de errores sin exposición de información sensible
  * 
  * @performance
- * - Cliente S3 reutilizable sin overhead de instanciación
+ * - Backend compartido (`Storage.driver`) sin overhead de instanciación
  * - Streams eficientes para archivos grandes
  * - Operaciones asíncronas no bloqueantes
  * - Manejo optimizado de memoria para transferencias
  * 
  * @organization
- * **Estructura de directorios en S3:**
+ * **Estructura de directorios (prefijos de clave):**
  * ```
  * bucket-name/
  * ├── contracts/          # Documentos contractuales
  * ├── documentation/      # Documentación general
  * └── memberships/        # Documentos de membresías
  * ```
+ * Son los prefijos por defecto; el catálogo completo se define en
+ * `DocumentCategories` (config/categories.ts).
  * 
  * @since 1.0.0
  */
 export class FileManager {
-    /** Cliente S3 configurado para operaciones de archivos */
-    private s3Client: S3Client;
+    /** Backend inyectado; si no se indica se usa el activo en `Storage` */
+    private customDriver?: StorageDriver;
+
+    /** Bytes iniciales que bastan para las firmas y para las primeras entradas de un paquete Office */
+    private static readonly SNIFF_BYTES = 64 * 1024;
+
+    /** Auditoría de archivos rechazados por malware */
+    private detections: MalwareDetectionQueries = new MalwareDetectionQueries();
 
     /**
      * Constructor de la clase FileManager.
      * 
-     * Inicializa el cliente S3 con credenciales obtenidas desde variables
-     * de entorno y configura la región AWS especificada. Utiliza el
-     * proveedor de credenciales fromEnv() para compatibilidad con
-     * múltiples métodos de autenticación AWS.
+     * Sin argumentos utiliza el backend global `Storage.driver`, consultado en
+     * cada operación para que `Storage.configure` surta efecto aun sobre
+     * instancias ya creadas (por ejemplo, las estáticas de los controladores).
      * 
      * @constructor
-     * @description Inicializa el cliente S3 con configuración de entorno
-     * 
-     * @credentials
-     * **Métodos de autenticación soportados:**
-     * - Variables de entorno (AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY)
-     * - IAM roles en instancias EC2
-     * - Perfiles AWS configurados localmente
-     * - Credenciales temporales STS
+     * @param {StorageDriver} [driver] - Backend específico para esta instancia
      * 
-     * @throws {Error} Si las credenciales AWS no están disponibles
-     * @throws {Error} Si la región AWS no está configurada
+     * @example
+     * const files = new FileManager();                               // backend de STORAGE_DRIVER
+     * const scratch = new FileManager(new MemoryStorageDriver());    // backend propio
      * 
      * @since 1.0.0
      * @author OmarGo96
      */
-    constructor() {
-        this.s3Client = new S3Client({
-            credentials: fromEnv(),
-            region: process.env.AWS_REGION
-        });
+    constructor(driver?: StorageDriver) {
+        this.customDriver = driver;
     }
 
     /**
-     * Obtiene la ruta de directorio en S3 según el tipo de archivo.
-     * 
-     * Mapea los tipos de archivo a sus respectivos directorios
-     * en el bucket S3, manteniendo una organización jerárquica
-     * clara y consistente de los documentos.
+     * Backend con el que se ejecuta la operación actual.
      * 
      * @private
-     * @method getPath
-     * @param {string} type - Tipo de archivo a procesar
-     * @returns {string | null} Ruta del directorio S3 o null si el tipo es inválido
+     * @returns {StorageDriver}
+     */
+    private get driver(): StorageDriver {
+        return this.customDriver || Storage.driver;
+    }
+
+    /**
+     * Obtiene la ruta de directorio según la categoría del archivo.
      * 
-     * @mapping
-     * **Mapeo de tipos a rutas:**
-     * - 'CONTRACT' → 'contracts/'
-     * - 'DOCUMENTATION' → 'documentation/'
-     * - 'MEMBERSHIP' → 'memberships/'
-     * - Cualquier otro → null
+     * Las categorías y sus prefijos se leen del catálogo `DocumentCategories`
+     * (DOCUMENT_CATEGORIES_PATH); por defecto se conservan las rutas históricas:
+     * 'CONTRACT' → 'contracts/', 'DOCUMENTATION' → 'documentation/',
+     * 'MEMBERSHIP' → 'memberships/'.
      * 
-     * @validation
-     * - Validación case-sensitive de tipos
-     * - Retorno null para tipos no reconocidos
-     * - Rutas terminadas en '/' para consistencia
+     * @private
+     * @method getPath
+     * @param {string} type - Código de la categoría (sensible a mayúsculas)
+     * @returns {string | null} Prefijo de la categoría o null si no existe
      * 
      * @since 1.0.0
      * @author OmarGo96
      */
     private getPath(type: string): string | null {
-        switch (type) {
-            case 'CONTRACT': return 'contracts/';
-            case 'DOCUMENTATION': return 'documentation/';
-            case 'MEMBERSHIP': return 'memberships/';
-            default: return null;
+        return DocumentCategories.find(type)?.prefix || null;
+    }
+
+    /**
+     * Formatea un tamaño en bytes para mensajes al usuario.
+     * 
+     * @private
+     * @method formatSize
+     * @param {number} bytes - Tamaño en bytes
+     * @returns {string} Tamaño legible (ej. '512 KB', '100 MB')
+     */
+    private formatSize(bytes: number): string {
+        if (bytes >= 1024 * 1024) return `${+(bytes / (1024 * 1024)).toFixed(1)} MB`;
+        if (bytes >= 1024) return `${+(bytes / 1024).toFixed(1)} KB`;
+        return `${bytes} bytes`;
+    }
+
+    /**
+     * Genera el nombre con el que se guarda un archivo.
+     * 
+     * Un UUID v4 evita que dos cargas simultáneas en la misma categoría
+     * compartan clave y una sobrescriba a la otra, como ocurría con el
+     * timestamp en segundos.
+     * 
+     * @private
+     * @method buildName
+     * @param {string} mimetype - Tipo detectado o declarado
+     * @param {string} [originalName] - Nombre original, para conservar su extensión
+     * @returns {string} `{uuid}.{ext}`
+     */
+    private buildName(mimetype: string, originalName?: string): string {
+        return `${crypto.randomUUID()}.${MimeSniffer.extension(mimetype, originalName)}`;
+    }
+
+    /**
+     * Valida un archivo recibido contra su categoría sin guardarlo.
+     * 
+     * Detecta el tipo real por contenido, verifica tamaño y calcula el
+     * SHA-256. `upload` la usa antes de escribir, y `DocumentManager` para
+     * buscar contenido duplicado antes de decidir si hace falta subirlo.
+     * 
+     * @public
+     * @method inspect
+     * @param {any} data - Objeto con archivos recibidos (req.files format)
+     * @param {string} type - Código de categoría de `DocumentCategories`
+     * @returns {{ ok: boolean, category?: DocumentCategory, mimetype?: string, size?: number, checksum?: string, message?: string }}
+     * 
+     * @since 1.3.0
+     * @author OmarGo96
+     */
+    public inspect(data: any, type: string): { ok: boolean, category?: DocumentCategory, mimetype?: string, size?: number, checksum?: string, message?: string } {
+        const fileObj = data?.files?.file;
+        if (!fileObj || !fileObj.data) {
+            return { ok: false, message: 'Favor de proporcionar un archivo a procesar' };
+        }
+
+        const category = DocumentCategories.find(type);
+        if (!category) {
+            return { ok: false, message: 'El tipo de archivo proporcionado no es válido, intente con otro.' };
+        }
+
+        // El tipo se decide por el contenido; el mimetype declarado solo desempata formatos sin firma propia
+        const mimetype = MimeSniffer.detect(fileObj.data, fileObj['name'], fileObj['mimetype']);
+        if (!mimetype || !category.mime_types.includes(mimetype)) {
+            return { ok: false, message: `Tipo de archivo no permitido para ${category.name}. Tipos aceptados: ${MimeSniffer.describe(category.mime_types)}.` };
         }
+        const size = fileObj.data.length;
+        if (size > category.max_size_bytes) {
+            return { ok: false, message: `El archivo excede el tamaño máximo de ${this.formatSize(category.max_size_bytes)} para la categoría ${category.name}.` };
+        }
+
+        return { ok: true, category, mimetype, size, checksum: crypto.createHash('sha256').update(fileObj.data).digest('hex') };
     }
 
     /**
-     * Sube un archivo PDF al bucket S3 en la ubicación correspondiente.
+     * Sube un archivo al almacenamiento en la ubicación de su categoría.
      * 
-     * Realiza la subida completa de un archivo PDF al bucket S3,
+     * Realiza la subida completa de un archivo,
      * incluyendo validaciones de tipo, generación de nombres únicos,
      * organización por categorías y opcionalmente reemplazo de
      * archivos existentes.
@@ -158,98 +235,283 @@ export class FileManager {
      * **Flujo de operación:**
      * 1. Validación de presencia y tipo de archivo
      * 2. Verificación del tipo de documento
-     * 3. Generación de nombre único basado en timestamp
-     * 4. Eliminación opcional de archivo anterior
-     * 5. Subida del archivo a S3
-     * 6. Retorno de resultado normalizado
+     * 3. Generación de nombre único (UUID v4) y checksum SHA-256
+     * 4. Subida del archivo al backend configurado (a cuarentena si hay motor antimalware)
+     * 5. Análisis antimalware y traslado a la ruta de la categoría (`release`)
+     * 6. Eliminación opcional del archivo anterior, solo si la subida tuvo éxito
+     * 7. Retorno de resultado normalizado
      * 
      * @public
      * @async
      * @method upload
      * @param {any} data - Objeto con archivos recibidos (req.files format)
-     * @param {string} type - Tipo de documento ('CONTRACT', 'DOCUMENTATION', 'MEMBERSHIP')
-     * @param {string} [file_replace] - Nombre del archivo a reemplazar (opcional)
-     * @returns {Promise<{ok: boolean, response?: any, nameFile?: string, message?: string}>}
+     * @param {string} type - Código de categoría de `DocumentCategories` (ej. 'CONTRACT')
+     * @param {string} [file_replace] - Nombre del archivo a reemplazar (opcional). Obsoleto: el
+     *                                  reemplazo pierde el contenido anterior; para conservar el
+     *                                  historial usar `DocumentManager.addVersion`
+     * @param {number} [user_id] - Usuario que sube el archivo, para la auditoría de malware
+     * @returns {Promise<{ok: boolean, response?: any, nameFile?: string, mimetype?: string, reason?: 'invalid' | 'failed', message?: string}>}
      *          Resultado de la operación con detalles del archivo subido
      * 
      * @response-structure
      * **Respuesta exitosa:**
      * - ok: true
-     * - response: Respuesta del servicio AWS S3
+     * - response: Clave guardada y nombre del backend utilizado
      * - nameFile: Nombre generado para el archivo
+     * - mimetype: Tipo detectado por contenido
+     * - size / checksum: Tamaño en bytes y SHA-256 del contenido
      * 
      * **Respuesta con error:**
      * - ok: false
+     * - reason: 'invalid' (validación), 'infected' (malware) o 'failed' (error del backend o del análisis)
      * - message: Descripción específica del error
      * 
      * @validation
      * **Validaciones realizadas:**
      * - Presencia del objeto archivo en data.files.file
-     * - Tipo MIME debe ser 'application/pdf'
      * - Tipo de documento debe ser válido
+     * - Tipo detectado por magic bytes (no el declarado) dentro de los de la categoría;
+     *   el error lista las extensiones aceptadas
+     * - Tamaño máximo de la categoría
      * 
      * @file-naming
      * **Convención de nombres:**
-     * - Formato: {timestamp-unix}.pdf
-     * - Timestamp en segundos desde epoch
-     * - Garantiza unicidad temporal
+     * - Formato: {uuid}.{ext}
+     * - Se conserva la extensión original si corresponde al tipo detectado (ej. .jpeg),
+     *   si no se usa la canónica
+     * - Sin colisiones aunque dos cargas ocurran en el mismo segundo
      * 
      * @error-handling
-     * - Reporte automático a Sentry de errores AWS
+     * - Reporte automático a Sentry de errores del backend
      * - Logging colorizado con timestamp legible
      * - Mensajes de error amigables al usuario
      * 
-     * @aws-operations
-     * **Operaciones S3 realizadas:**
-     * - PutObjectCommand para subida de archivo
-     * - DeleteObjectCommand para reemplazo (opcional)
-     * - Configuración automática de Content-Type
+     * @storage-operations
+     * - `driver.put` para subida de archivo (Content-Type del tipo detectado)
+     * - `driver.delete` para reemplazo (opcional, después de guardar el nuevo)
      * 
      * @since 1.0.0
      * @author OmarGo96
      */
-    public async upload(data: any, type: string, file_replace?: string): Promise<{ ok: boolean, response?: any, nameFile?: string, message?: string }> {
-        const fileObj = data?.files?.file;
-        if (!fileObj || fileObj == null) {
-            return { ok: false, message: 'Favor de proporcionar un archivo a procesar' };
-        }
-        if (fileObj['mimetype'] !== 'application/pdf') {
-            return { ok: false, message: 'Favor de proporcionar un archivo con extensión ".pdf"' };
-        }
-
-        const path = this.getPath(type);
-        if (!path) {
-            return { ok: false, message: 'El tipo de archivo proporcionado no es válido, intente con otro.' };
+    public async upload(data: any, type: string, file_replace?: string, user_id?: number): Promise<{ ok: boolean, response?: any, nameFile?: string, mimetype?: string, size?: number, checksum?: string, reason?: 'invalid' | 'infected' | 'failed', message?: string }> {
+        const inspected = this.inspect(data, type);
+        if (!inspected.ok) {
+            return { ok: false, reason: 'invalid', message: inspected.message };
         }
+        const { category, mimetype, size, checksum } = inspected;
+        const fileObj = data.files.file;
+        const path = category.prefix;
 
-        // Usando Luxon para obtener el timestamp unix
-        const nameFile = `${DateTime.now().toSeconds() | 0}.pdf`;
+        const nameFile = this.buildName(mimetype, fileObj['name']);
         const key = path + nameFile;
+        const staged = Scanner.quarantine(key);
+
+        try {
+            await this.driver.put(staged, fileObj.data, mimetype);
+        } catch (e) {
+            Sentry.captureException(e);
+            // Usando Luxon para el timestamp legible
+            console.error(colors.red(`Error storage (${this.driver.name}) a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${e}`));
+            return { ok: false, reason: 'failed', message: 'Error al subir el archivo al almacenamiento.' };
+        }
 
+        const released = await this.release(staged, type, { user_id, original_name: fileObj['name'] ?? null, size, checksum });
+        if (!released.ok) {
+            await this.destroy({ key: staged });
+            return { ok: false, reason: released.reason, message: released.message };
+        }
         if (file_replace) {
             await this.destroy({ key: path + file_replace });
         }
+        return { ok: true, response: { key, driver: this.driver.name }, nameFile, mimetype, size, checksum };
+    }
 
+    /**
+     * Analiza un archivo en cuarentena y, si está limpio, lo mueve a la ruta de su categoría.
+     * 
+     * Si el motor detecta malware, el archivo se elimina, la detección queda
+     * en `malware_detections` y se reporta con `ServerLogger` y Sentry. Si el
+     * análisis no se pudo completar (motor caído, tiempo agotado) el archivo
+     * se queda en cuarentena y se responde 'failed': nunca se libera un
+     * archivo sin veredicto. Una clave fuera de cuarentena (guardada sin motor
+     * activo) se devuelve tal cual.
+     * 
+     * @public
+     * @async
+     * @method release
+     * @param {string} key - Clave en cuarentena
+     * @param {string} type - Código de categoría de `DocumentCategories`
+     * @param {object} context - Datos para la auditoría
+     * @param {number} [context.user_id] - Usuario que subió el archivo
+     * @param {string | null} [context.original_name] - Nombre original
+     * @param {number} context.size - Tamaño en bytes
+     * @param {string | null} [context.checksum] - SHA-256 del contenido
+     * @returns {Promise<{ok: boolean, key?: string, reason?: 'infected' | 'failed', message?: string}>} Clave definitiva
+     * 
+     * @since 1.3.0
+     * @author OmarGo96
+     */
+    public async release(key: string, type: string, context: { user_id?: number | null, original_name?: string | null, size: number, checksum?: string | null }): Promise<{ ok: boolean, key?: string, reason?: 'infected' | 'failed', message?: string }> {
+        if (!Scanner.isQuarantined(key)) return { ok: true, key };
+        const engine = Scanner.engine;
+
+        let verdict: { clean: boolean, signature?: string };
         try {
-            const paramsS3 = new PutObjectCommand({
-                Bucket: process.env.AWS_BUCKET,
-                Key: key,
-                Body: fileObj.data,
-                ContentType: 'application/pdf',
+            verdict = await engine.scan(await this.driver.getStream(key));
+        } catch (e) {
+            Sentry.captureException(e);
+            console.error(colors.red(`Error scanner (${engine.name}) a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${e}`));
+            return { ok: false, reason: 'failed', message: 'No fue posible analizar el archivo en busca de malware; intente más tarde.' };
+        }
+
+        if (!verdict.clean) {
+            await this.destroy({ key });
+            const message = `Archivo con malware rechazado (${verdict.signature}) en ${key}`;
+            ServerLogger.log({ type: 'warn', port: Number(process.env.LISTEN_PORT), message });
+            Sentry.captureMessage(message, 'warning');
+            const audited = await this.detections.store({
+                user_id: context.user_id ?? null,
+                category: type,
+                key,
+                original_name: context.original_name ? context.original_name.slice(0, 255) : null,
+                size: context.size,
+                checksum: context.checksum ?? null,
+                scanner: engine.name,
+                signature: String(verdict.signature || 'desconocida').slice(0, 255)
             });
+            if (!audited.ok) {
+                Sentry.captureMessage(`No fue posible registrar la detección de malware en ${key}`);
+            }
+            return { ok: false, reason: 'infected', message: 'El archivo contiene malware y fue rechazado.' };
+        }
 
-            const response = await this.s3Client.send(paramsS3);
-            return { ok: true, response, nameFile };
+        const target = Scanner.released(key);
+        try {
+            await this.driver.move(key, target);
+            return { ok: true, key: target };
         } catch (e) {
             Sentry.captureException(e);
-            // Usando Luxon para el timestamp legible
-            console.error(colors.red(`Error AWS a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${e}`));
-            return { ok: false, message: 'Error al subir el archivo a S3.' };
+            console.error(colors.red(`Error storage (${this.driver.name}) a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${e}`));
+            return { ok: false, reason: 'failed', message: 'No fue posible liberar el archivo de la cuarentena.' };
+        }
+    }
+
+    /**
+     * Sube un archivo leído de un stream sin cargarlo completo en memoria.
+     * 
+     * Mientras los datos pasan hacia el backend (`driver.putStream`) se
+     * calcula el SHA-256 y se controla el tamaño. El tipo se detecta con los
+     * primeros 64 KB, que son lo único que se retiene antes de empezar a
+     * escribir. Si el tipo no es aceptado o se supera el tamaño máximo, la
+     * escritura se cancela, no queda objeto en el almacenamiento y el resto
+     * del stream se descarta. Con motor antimalware el archivo se escribe en
+     * cuarentena y se libera al terminar, igual que en `upload`.
+     * 
+     * @public
+     * @async
+     * @method uploadStream
+     * @param {Readable} file - Contenido del archivo
+     * @param {string} type - Código de categoría de `DocumentCategories`
+     * @param {object} info - Datos declarados por el cliente
+     * @param {string} [info.name] - Nombre original
+     * @param {string} [info.mimetype] - Tipo MIME declarado (solo desempata formatos sin firma)
+     * @param {number} [info.user_id] - Usuario que sube el archivo, para la auditoría de malware
+     * @param {Function} [onProgress] - Recibe los bytes procesados hasta el momento
+     * @returns {Promise<{ok: boolean, response?: any, nameFile?: string, mimetype?: string, size?: number, checksum?: string, reason?: 'invalid' | 'failed', message?: string}>}
+     *          Mismo resultado que `upload`
+     * 
+     * @since 1.3.0
+     * @author OmarGo96
+     */
+    public async uploadStream(file: Readable, type: string, info: { name?: string, mimetype?: string, user_id?: number }, onProgress?: (bytes: number) => void): Promise<{ ok: boolean, response?: any, nameFile?: string, mimetype?: string, size?: number, checksum?: string, reason?: 'invalid' | 'infected' | 'failed', message?: string }> {
+        const category = DocumentCategories.find(type);
+        if (!category) {
+            file.resume();
+            return { ok: false, reason: 'invalid', message: 'El tipo de archivo proporcionado no es válido, intente con otro.' };
+        }
+
+        const tooLarge = `El archivo excede el tamaño máximo de ${this.formatSize(category.max_size_bytes)} para la categoría ${category.name}.`;
+        const notAllowed = `Tipo de archivo no permitido para ${category.name}. Tipos aceptados: ${MimeSniffer.describe(category.mime_types)}.`;
+        const hash = crypto.createHash('sha256');
+        let size = 0;
+        let head: Buffer[] = [];
+        let headLength = 0;
+        let detected: string | null | undefined;
+        let rejection: string | undefined;
+        let announce: (mimetype: string | null) => void;
+        const sniffed = new Promise<string | null>(resolve => announce = resolve);
+
+        // Retiene el inicio hasta poder detectar el tipo y después deja pasar los datos sin copiarlos
+        const release = (stream: Transform) => {
+            const start = Buffer.concat(head, headLength);
+            head = [];
+            detected = MimeSniffer.detect(start, info.name, info.mimetype);
+            announce(detected);
+            if (detected) stream.push(start);
+        };
+        const meter = new Transform({
+            transform(chunk: Buffer, encoding, callback) {
+                size += chunk.length;
+                hash.update(chunk);
+                onProgress?.(size);
+                if (size > category.max_size_bytes) {
+                    rejection = tooLarge;
+                    return callback(new Error(tooLarge));
+                }
+                if (detected !== undefined) return callback(null, chunk);
+                head.push(chunk);
+                headLength += chunk.length;
+                if (headLength >= FileManager.SNIFF_BYTES) release(this);
+                callback();
+            },
+            flush(callback) {
+                if (detected === undefined) release(this);
+                callback();
+            }
+        });
+
+        const failed = new Promise<never>((resolve, reject) => meter.once('error', reject));
+        failed.catch(() => undefined);
+        file.once('error', (e) => meter.destroy(e));
+        file.pipe(meter);
+
+        let staged: string | undefined;
+        try {
+            const mimetype = await Promise.race([sniffed, failed]);
+            if (!mimetype || !category.mime_types.includes(mimetype)) {
+                rejection = notAllowed;
+                throw new Error(notAllowed);
+            }
+
+            const nameFile = this.buildName(mimetype, info.name);
+            const key = category.prefix + nameFile;
+            staged = Scanner.quarantine(key);
+            await this.driver.putStream(staged, meter, mimetype);
+
+            const checksum = hash.digest('hex');
+            const released = await this.release(staged, type, { user_id: info.user_id, original_name: info.name ?? null, size, checksum });
+            if (!released.ok) {
+                await this.destroy({ key: staged });
+                return { ok: false, reason: released.reason, message: released.message };
+            }
+            return { ok: true, response: { key, driver: this.driver.name }, nameFile, mimetype, size, checksum };
+        } catch (e) {
+            // Descarta lo que falte del archivo para que el resto de la petición pueda leerse
+            file.unpipe(meter);
+            meter.destroy();
+            file.resume();
+            if (staged) await this.destroy({ key: staged });
+            if (rejection) {
+                return { ok: false, reason: 'invalid', message: rejection };
+            }
+            Sentry.captureException(e);
+            console.error(colors.red(`Error storage (${this.driver.name}) a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${e}`));
+            return { ok: false, reason: 'failed', message: 'Error al subir el archivo al almacenamiento.' };
         }
     }
 
     /**
-     * Descarga un archivo PDF desde el bucket S3.
+     * Descarga un archivo desde el almacenamiento.
      * 
      * Recupera un archivo específico del bucket S3 basándose en
      * el nombre del archivo y su tipo de documento. Convierte
@@ -267,14 +529,17 @@ export class FileManager {
      * @async
      * @method download
      * @param {string} name - Nombre exacto del archivo a descargar
-     * @param {string} type - Tipo de documento ('CONTRACT', 'DOCUMENTATION', 'MEMBERSHIP')
-     * @returns {Promise<{ok: boolean, file?: Uint8Array, message?: string}>}
+     * @param {string} type - Código de categoría de `DocumentCategories`
+     * @param {string} [checksum] - SHA-256 registrado; si no coincide con el contenido
+     *                              el archivo no se entrega (reason 'corrupted')
+     * @returns {Promise<{ok: boolean, file?: Uint8Array, mimetype?: string, reason?: 'invalid' | 'corrupted' | 'failed', message?: string}>}
      *          Resultado con el archivo descargado o mensaje de error
      * 
      * @response-structure
      * **Respuesta exitosa:**
      * - ok: true
-     * - file: Array de bytes del archivo PDF
+     * - file: Array de bytes del archivo
+     * - mimetype: Tipo MIME según la extensión guardada
      * 
      * **Respuesta con error:**
      * - ok: false
@@ -297,43 +562,360 @@ export class FileManager {
      * - Problemas de conectividad
      * - Errores de conversión de stream
      * 
-     * @aws-operations
-     * **Operaciones S3 realizadas:**
-     * - GetObjectCommand para descarga de archivo
-     * - transformToByteArray() para conversión de stream
+     * @storage-operations
+     * - `driver.get` para descarga de archivo como Uint8Array
      * 
      * @since 1.0.0
      * @author OmarGo96
      */
-    public async download(name: string, type: string): Promise<{ ok: boolean, file?: Uint8Array, message?: string }> {
+    public async download(name: string, type: string, checksum?: string): Promise<{ ok: boolean, file?: Uint8Array, mimetype?: string, reason?: 'invalid' | 'corrupted' | 'failed', message?: string }> {
         const path = this.getPath(type);
         if (!path) {
-            return { ok: false, message: 'El tipo de archivo proporcionado no es válido, intente con otro.' };
+            return { ok: false, reason: 'invalid', message: 'El tipo de archivo proporcionado no es válido, intente con otro.' };
         }
+        return this.downloadKey(path + name, checksum);
+    }
 
+    /**
+     * Descarga un archivo por su clave completa en el almacenamiento.
+     * 
+     * Es la forma de leer lo registrado en `documents` y `document_versions`:
+     * la clave guardada sigue siendo válida aunque después cambie el prefijo
+     * de la categoría, mientras que reconstruirla con `download` no.
+     * 
+     * @public
+     * @async
+     * @method downloadKey
+     * @param {string} key - Clave completa del objeto (prefijo + nombre)
+     * @param {string} [checksum] - SHA-256 registrado; si no coincide el archivo no se entrega
+     * @returns {Promise<{ok: boolean, file?: Uint8Array, mimetype?: string, reason?: 'corrupted' | 'failed', message?: string}>}
+     * 
+     * @since 1.3.0
+     * @author OmarGo96
+     */
+    public async downloadKey(key: string, checksum?: string): Promise<{ ok: boolean, file?: Uint8Array, mimetype?: string, reason?: 'corrupted' | 'failed', message?: string }> {
+        let file: Uint8Array;
         try {
-            const command = new GetObjectCommand({
-                Bucket: process.env.AWS_BUCKET,
-                Key: path + name,
-            });
+            file = await this.driver.get(key);
+        } catch (e) {
+            Sentry.captureException(e);
+            // Usando Luxon para el timestamp legible
+            console.error(colors.red(`Error files a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${e}`));
+            return { ok: false, reason: 'failed', message: 'Existen problemas al momento de obtener el archivo' };
+        }
+
+        if (checksum && crypto.createHash('sha256').update(file).digest('hex') !== checksum) {
+            Sentry.captureMessage(`Checksum distinto al registrado en ${key}`);
+            console.error(colors.red(`Error integridad a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${key} no coincide con su checksum`));
+            return { ok: false, reason: 'corrupted', message: 'El archivo almacenado no coincide con su checksum; no se entregará.' };
+        }
+        return { ok: true, file, mimetype: MimeSniffer.fromName(key) };
+    }
 
-            const response = await this.s3Client.send(command);
-            const pdf = await response.Body.transformToByteArray();
+    /**
+     * Abre un archivo del almacenamiento como stream, verificando su integridad al leerlo.
+     * 
+     * A diferencia de `download`, el contenido no se junta en memoria, así que
+     * el checksum solo puede compararse al terminar la lectura: si no coincide,
+     * el stream termina con error después de haber entregado los datos, y quien
+     * lo consume debe descartar lo recibido (por ejemplo, abortar la respuesta).
+     * 
+     * @public
+     * @async
+     * @method stream
+     * @param {string} name - Nombre exacto del archivo
+     * @param {string} type - Código de categoría de `DocumentCategories`
+     * @param {string} [checksum] - SHA-256 registrado
+     * @returns {Promise<{ok: boolean, stream?: Readable, reason?: 'invalid' | 'failed', message?: string}>}
+     * 
+     * @since 1.3.0
+     * @author OmarGo96
+     */
+    public async stream(name: string, type: string, checksum?: string): Promise<{ ok: boolean, stream?: Readable, reason?: 'invalid' | 'failed', message?: string }> {
+        const path = this.getPath(type);
+        if (!path) {
+            return { ok: false, reason: 'invalid', message: 'El tipo de archivo proporcionado no es válido, intente con otro.' };
+        }
+        return this.streamKey(path + name, checksum);
+    }
 
-            return { ok: true, file: pdf };
+    /**
+     * Abre como stream un archivo por su clave completa, verificando su integridad al leerlo.
+     * 
+     * Misma verificación que `stream`, para claves ya registradas.
+     * 
+     * @public
+     * @async
+     * @method streamKey
+     * @param {string} key - Clave completa del objeto (prefijo + nombre)
+     * @param {string} [checksum] - SHA-256 registrado
+     * @returns {Promise<{ok: boolean, stream?: Readable, reason?: 'failed', message?: string}>}
+     * 
+     * @since 1.3.0
+     * @author OmarGo96
+     */
+    public async streamKey(key: string, checksum?: string): Promise<{ ok: boolean, stream?: Readable, reason?: 'failed', message?: string }> {
+        let source: Readable;
+        try {
+            source = await this.driver.getStream(key);
         } catch (e) {
             Sentry.captureException(e);
-            // Usando Luxon para el timestamp legible
             console.error(colors.red(`Error files a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${e}`));
-            return { ok: false, message: 'Existen problemas al momento de obtener el pdf' };
+            return { ok: false, reason: 'failed', message: 'Existen problemas al momento de obtener el archivo' };
+        }
+        if (!checksum) return { ok: true, stream: source };
+
+        const hash = crypto.createHash('sha256');
+        const verifier = new Transform({
+            transform(chunk: Buffer, encoding, callback) {
+                hash.update(chunk);
+                callback(null, chunk);
+            },
+            flush(callback) {
+                if (hash.digest('hex') === checksum) return callback();
+                Sentry.captureMessage(`Checksum distinto al registrado en ${key}`);
+                console.error(colors.red(`Error integridad a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${key} no coincide con su checksum`));
+                callback(new Error(`${key} no coincide con su checksum`));
+            }
+        });
+        source.once('error', (e) => verifier.destroy(e));
+        return { ok: true, stream: source.pipe(verifier) };
+    }
+
+    /**
+     * Vigencia de las URLs prefirmadas.
+     * 
+     * @private
+     * @method presignSeconds
+     * @returns {number} Segundos de PRESIGNED_URL_SECONDS (default 300, máximo 7 días que permite S3)
+     */
+    private presignSeconds(): number {
+        const value = parseInt(process.env.PRESIGNED_URL_SECONDS, 10);
+        return isNaN(value) || value <= 0 ? 300 : Math.min(value, 7 * 24 * 60 * 60);
+    }
+
+    /**
+     * Genera una URL prefirmada de descarga directa desde el backend.
+     * 
+     * Evita que el archivo pase por este proceso: el cliente lo descarga del
+     * bucket con la URL, válida durante PRESIGNED_URL_SECONDS. Recibe la clave
+     * registrada del documento (`DocumentManager.downloadUrl`); la autorización
+     * debe verificarse antes de llamar a este método.
+     * 
+     * @public
+     * @async
+     * @method presignDownload
+     * @param {string} key - Clave completa del objeto, tal como quedó registrada
+     * @param {string} filename - Nombre con el que se descarga (Content-Disposition)
+     * @returns {Promise<{ ok: boolean, url?: string, expires_at?: Date, reason?: 'not_found' | 'unsupported' | 'failed', message?: string }>}
+     * 
+     * @since 1.3.0
+     * @author OmarGo96
+     */
+    public async presignDownload(key: string, filename: string): Promise<{ ok: boolean, url?: string, expires_at?: Date, reason?: 'not_found' | 'unsupported' | 'failed', message?: string }> {
+        if (!this.driver.presign) {
+            return { ok: false, reason: 'unsupported', message: 'El almacenamiento configurado no admite URLs prefirmadas.' };
+        }
+
+        try {
+            if (!await this.driver.head(key)) {
+                return { ok: false, reason: 'not_found', message: 'El archivo solicitado no existe.' };
+            }
+            const expiresIn = this.presignSeconds();
+            const url = await this.driver.presign('GET', key, { expiresIn, filename });
+            return { ok: true, url, expires_at: DateTime.now().plus({ seconds: expiresIn }).toJSDate() };
+        } catch (e) {
+            Sentry.captureException(e);
+            console.error(colors.red(`Error storage (${this.driver.name}) a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${e}`));
+            return { ok: false, reason: 'failed', message: 'No fue posible generar la URL de descarga.' };
+        }
+    }
+
+    /**
+     * Genera una URL prefirmada para que el cliente suba el archivo directamente.
+     * 
+     * Como el contenido aún no existe, se valida lo declarado (tipo y tamaño)
+     * contra la categoría; la URL exige el Content-Type declarado. El contenido
+     * real se comprueba después con `inspectUpload`.
+     * 
+     * @public
+     * @async
+     * @method presignUpload
+     * @param {string} type - Código de categoría de `DocumentCategories`
+     * @param {object} file - Datos declarados por el cliente
+     * @param {string} file.name - Nombre original (para conservar la extensión)
+     * @param {string} file.mimetype - Tipo MIME declarado
+     * @param {number} file.size - Tamaño en bytes
+     * @returns {Promise<{ ok: boolean, url?: string, key?: string, nameFile?: string, mimetype?: string, headers?: Record<string, string>, expires_at?: Date, reason?: 'invalid' | 'unsupported' | 'failed', message?: string }>}
+     * 
+     * @since 1.3.0
+     * @author OmarGo96
+     */
+    public async presignUpload(type: string, file: { name: any, mimetype: any, size: any }): Promise<{ ok: boolean, url?: string, key?: string, nameFile?: string, mimetype?: string, headers?: Record<string, string>, expires_at?: Date, reason?: 'invalid' | 'unsupported' | 'failed', message?: string }> {
+        const category = DocumentCategories.find(type);
+        if (!category) {
+            return { ok: false, reason: 'invalid', message: 'El tipo de archivo proporcionado no es válido, intente con otro.' };
+        }
+        const name = typeof file.name === 'string' ? file.name : '';
+        const mimetype = typeof file.mimetype === 'string' && MimeSniffer.supports(file.mimetype) ? file.mimetype : MimeSniffer.fromName(name);
+        if (!category.mime_types.includes(mimetype)) {
+            return { ok: false, reason: 'invalid', message: `Tipo de archivo no permitido para ${category.name}. Tipos aceptados: ${MimeSniffer.describe(category.mime_types)}.` };
+        }
+        if (!Number.isInteger(file.size) || file.size <= 0) {
+            return { ok: false, reason: 'invalid', message: 'Favor de proporcionar el tamaño del archivo en bytes.' };
+        }
+        if (file.size > category.max_size_bytes) {
+            return { ok: false, reason: 'invalid', message: `El archivo excede el tamaño máximo de ${this.formatSize(category.max_size_bytes)} para la categoría ${category.name}.` };
+        }
+        if (!this.driver.presign) {
+            return { ok: false, reason: 'unsupported', message: 'El almacenamiento configurado no admite URLs prefirmadas.' };
+        }
+
+        const nameFile = this.buildName(mimetype, name);
+        // El navegador sube a cuarentena; `release` lo mueve a la categoría al confirmar la carga
+        const key = Scanner.quarantine(category.prefix + nameFile);
+        try {
+            const expiresIn = this.presignSeconds();
+            const url = await this.driver.presign('PUT', key, { expiresIn, contentType: mimetype });
+            return {
+                ok: true,
+                url,
+                key,
+                nameFile,
+                mimetype,
+                headers: { 'Content-Type': mimetype },
+                expires_at: DateTime.now().plus({ seconds: expiresIn }).toJSDate()
+            };
+        } catch (e) {
+            Sentry.captureException(e);
+            console.error(colors.red(`Error storage (${this.driver.name}) a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${e}`));
+            return { ok: false, reason: 'failed', message: 'No fue posible generar la URL de carga.' };
+        }
+    }
+
+    /**
+     * Valida un archivo subido directamente al backend con una URL prefirmada.
+     * 
+     * Comprueba que el objeto exista, que no exceda el tamaño de la categoría y
+     * que su contenido corresponda al tipo declarado. Un archivo que no pasa la
+     * validación se elimina, para no dejar en el bucket contenido no verificado.
+     * 
+     * @public
+     * @async
+     * @method inspectUpload
+     * @param {string} key - Clave completa del objeto (prefijo + nombre)
+     * @param {string} type - Código de categoría
+     * @param {string} mimetype - Tipo declarado al solicitar la URL
+     * @returns {Promise<{ ok: boolean, size?: number, reason?: 'invalid' | 'not_found' | 'failed', message?: string }>}
+     * 
+     * @since 1.3.0
+     * @author OmarGo96
+     */
+    public async inspectUpload(key: string, type: string, mimetype: string): Promise<{ ok: boolean, size?: number, reason?: 'invalid' | 'not_found' | 'failed', message?: string }> {
+        const category = DocumentCategories.find(type);
+        if (!category || !Scanner.released(key).startsWith(category.prefix)) {
+            return { ok: false, reason: 'invalid', message: 'El tipo de archivo proporcionado no es válido, intente con otro.' };
+        }
+
+        try {
+            const head = await this.driver.head(key);
+            if (!head) {
+                return { ok: false, reason: 'not_found', message: 'El archivo aún no se ha subido.' };
+            }
+            if (head.size > category.max_size_bytes) {
+                await this.destroy({ key });
+                return { ok: false, reason: 'invalid', message: `El archivo excede el tamaño máximo de ${this.formatSize(category.max_size_bytes)} para la categoría ${category.name}.` };
+            }
+
+            const detected = MimeSniffer.detect(await this.driver.peek(key, FileManager.SNIFF_BYTES), key, mimetype);
+            if (detected !== mimetype) {
+                await this.destroy({ key });
+                return { ok: false, reason: 'invalid', message: `El contenido del archivo no corresponde al tipo declarado. Tipos aceptados: ${MimeSniffer.describe(category.mime_types)}.` };
+            }
+            return { ok: true, size: head.size };
+        } catch (e) {
+            Sentry.captureException(e);
+            console.error(colors.red(`Error storage (${this.driver.name}) a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${e}`));
+            return { ok: false, reason: 'failed', message: 'No fue posible validar el archivo subido.' };
+        }
+    }
+
+    /**
+     * Calcula el SHA-256 de un archivo ya almacenado.
+     * 
+     * Necesario para las cargas directas, cuyo contenido no pasó por este
+     * proceso. El archivo se lee completo desde el backend, pero como stream:
+     * en memoria solo se retiene el bloque en curso, así que sirve para los
+     * archivos grandes que justifican la carga directa.
+     * 
+     * @public
+     * @async
+     * @method checksum
+     * @param {string} key - Clave completa del objeto
+     * @returns {Promise<{ ok: boolean, checksum?: string, message?: string }>} Hash en hexadecimal
+     * 
+     * @since 1.3.0
+     * @author OmarGo96
+     */
+    public async checksum(key: string): Promise<{ ok: boolean, checksum?: string, message?: string }> {
+        try {
+            const hash = crypto.createHash('sha256');
+            for await (const chunk of await this.driver.getStream(key)) {
+                hash.update(chunk);
+            }
+            return { ok: true, checksum: hash.digest('hex') };
+        } catch (e) {
+            Sentry.captureException(e);
+            console.error(colors.red(`Error storage (${this.driver.name}) a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${e}`));
+            return { ok: false, message: 'No fue posible leer el archivo almacenado.' };
         }
     }
 
     /**
-     * Elimina un archivo específico del bucket S3.
+     * Copia objetos al prefijo de archivo de retención junto con un manifiesto JSON.
      * 
-     * Método interno utilizado para eliminar archivos del bucket S3,
-     * típicamente durante operaciones de reemplazo de archivos.
+     * Las copias conservan la clave original debajo de `DocumentCategories.archivePrefix()`,
+     * así que archivar dos veces lo mismo sobrescribe en lugar de duplicar. El
+     * manifiesto (`<prefijo><name>.json`) lleva `metadata` y la relación entre
+     * cada clave original y su copia. Los originales no se tocan.
+     * 
+     * @public
+     * @async
+     * @method archive
+     * @param {Array<{key: string, mimetype: string}>} objects - Objetos a copiar
+     * @param {string} name - Nombre del manifiesto, sin extensión (ej. 'documents/15')
+     * @param {object} metadata - Datos a guardar en el manifiesto
+     * @returns {Promise<{ok: boolean, key?: string, message?: string}>} Clave del manifiesto
+     * 
+     * @since 1.3.0
+     * @author OmarGo96
+     */
+    public async archive(objects: { key: string, mimetype: string }[], name: string, metadata: object): Promise<{ ok: boolean, key?: string, message?: string }> {
+        const prefix = DocumentCategories.archivePrefix();
+        const copies = new Map<string, string>();
+        try {
+            for (const object of objects) {
+                if (copies.has(object.key)) continue;
+                await this.driver.putStream(prefix + object.key, await this.driver.getStream(object.key), object.mimetype);
+                copies.set(object.key, prefix + object.key);
+            }
+
+            const key = `${prefix}${name}.json`;
+            const manifest = { ...metadata, archived_at: new Date().toISOString(), objects: [...copies].map(([original, archived]) => ({ key: original, archived_key: archived })) };
+            await this.driver.put(key, Buffer.from(JSON.stringify(manifest, null, 2)), 'application/json');
+            return { ok: true, key };
+        } catch (e) {
+            Sentry.captureException(e);
+            console.error(colors.red(`Error storage (${this.driver.name}) a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${e}`));
+            return { ok: false, message: 'No fue posible copiar los archivos al archivo de retención.' };
+        }
+    }
+
+    /**
+     * Elimina un archivo específico del almacenamiento.
+     * 
+     * Se usa durante el reemplazo de archivos y desde `DocumentManager`, que
+     * lo invoca dentro de la transacción que borra el registro del documento.
      * Utiliza la clave completa del objeto para localización precisa.
      * 
      * **Flujo de operación:**
@@ -342,25 +924,25 @@ export class FileManager {
      * 3. Confirmación de eliminación exitosa
      * 4. Manejo de errores si la operación falla
      * 
-     * @private
+     * @public
      * @async
      * @method destroy
      * @param {object} data - Objeto con la clave del archivo a eliminar
      * @param {string} data.key - Clave completa del objeto S3 (path + filename)
-     * @returns {Promise<{ok: boolean} | undefined>} Confirmación de eliminación o undefined en error
+     * @returns {Promise<{ok: boolean}>} Confirmación de eliminación
      * 
      * @response-structure
      * **Respuesta exitosa:**
      * - ok: true (eliminación confirmada)
      * 
      * **Respuesta con error:**
-     * - undefined (error silencioso con logging)
+     * - ok: false (error registrado en logs)
      * 
      * @error-handling
      * **Manejo de errores:**
      * - Reporte automático a Sentry
      * - Logging colorizado con timestamp
-     * - Retorno undefined para indicar fallo
+     * - Retorno ok: false para indicar fallo
      * 
      * @use-cases
      * **Casos de uso típicos:**
@@ -368,26 +950,21 @@ export class FileManager {
      * - Limpieza de archivos temporales
      * - Mantenimiento del bucket S3
      * 
-     * @aws-operations
-     * **Operaciones S3 realizadas:**
-     * - DeleteObjectCommand para eliminación de objeto
+     * @storage-operations
+     * - `driver.delete` para eliminación de objeto
      * 
      * @since 1.0.0
      * @author OmarGo96
      */
-    private async destroy(data: { key: string }): Promise<{ ok: boolean } | undefined> {
+    public async destroy(data: { key: string }): Promise<{ ok: boolean }> {
         try {
-            const command = new DeleteObjectCommand({
-                Bucket: process.env.AWS_BUCKET,
-                Key: data.key,
-            });
-
-            await this.s3Client.send(command);
+            await this.driver.delete(data.key);
             return { ok: true };
         } catch (e) {
             Sentry.captureException(e);
             // Usando Luxon para el timestamp legible
-            console.error(colors.red(`Error AWS a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${e}`));
+            console.error(colors.red(`Error storage (${this.driver.name}) a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${e}`));
+            return { ok: false };
         }
     }
 }
\ No newline at end of file
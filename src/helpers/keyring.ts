@@ -0,0 +1,212 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+/**
+ * Par de claves RSA registrado en el llavero.
+ *
+ * @interface KeyPair
+ * @property {string} kid - Identificador de la clave (header `kid` del JWT)
+ * @property {string} publicKey - Clave pública en formato PEM
+ * @property {string} [privateKey] - Clave privada en formato PEM; las claves retiradas solo conservan la pública
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+interface KeyPair {
+    kid: string;
+    publicKey: string;
+    privateKey?: string;
+}
+
+/**
+ * Llavero de claves RSA para firma y verificación de JWT.
+ *
+ * Permite rotar las claves de firma sin invalidar las sesiones activas:
+ * los tokens nuevos se firman con la clave activa e incluyen su `kid` en el
+ * header, mientras que los tokens emitidos con claves anteriores siguen
+ * verificándose con la clave pública correspondiente hasta que expiran.
+ *
+ * **Fuentes de claves:**
+ * - **JWT_KEYS_PATH** (recomendado): directorio con archivos `<kid>.public.pem`
+ *   y `<kid>.private.pem`. Una clave retirada conserva únicamente el `.public.pem`.
+ * - **Modo legado**: sin JWT_KEYS_PATH se usa el par único de `PRIVATE_KEY` /
+ *   `PUBLIC_KEY` (o `./src/keys/` cuando MODE='dev'). Su `kid` es el thumbprint
+ *   RFC 7638 de la clave pública, salvo que se defina JWT_ACTIVE_KID.
+ *
+ * **Rotación típica:**
+ * 1. Agregar `nueva.private.pem` y `nueva.public.pem` al directorio
+ * 2. Cambiar JWT_ACTIVE_KID a `nueva` y reiniciar (o llamar `KeyRing.reload()`)
+ * 3. Cuando expiren los tokens anteriores, eliminar `anterior.private.pem`
+ *    y después `anterior.public.pem`
+ *
+ * @class KeyRing
+ * @description Llavero estático de claves RSA con soporte de rotación
+ * @version 1.0.0
+ * @author OmarGo96
+ *
+ * @environment
+ * - **JWT_KEYS_PATH**: Directorio con los pares de claves
+ * - **JWT_ACTIVE_KID**: `kid` de la clave con la que se firman los tokens
+ * - **PRIVATE_KEY** / **PUBLIC_KEY**: Rutas del par legado (fuera de MODE='dev')
+ *
+ * @example
+ * const { kid, privateKey } = KeyRing.signingKey();
+ * jwt.sign(payload, privateKey, { algorithm: 'RS256', keyid: kid });
+ *
+ * @example
+ * const publicKey = KeyRing.publicKey(header.kid);
+ *
+ * @since 1.3.0
+ */
+export class KeyRing {
+    /** Claves cargadas, indexadas por kid */
+    private static keys: Map<string, KeyPair> | null = null;
+
+    /** kid de la clave activa para firma */
+    private static activeKid: string;
+
+    /**
+     * Carga las claves si aún no están en memoria.
+     *
+     * @private
+     * @static
+     * @method load
+     * @returns {Map<string, KeyPair>} Claves disponibles
+     * @throws {Error} Si no se encuentra ninguna clave o la clave activa no tiene parte privada
+     */
+    private static load(): Map<string, KeyPair> {
+        if (this.keys) return this.keys;
+
+        const keys = new Map<string, KeyPair>();
+        const dir = process.env.JWT_KEYS_PATH;
+
+        if (dir) {
+            for (const file of fs.readdirSync(dir)) {
+                const match = file.match(/^(.+)\.(public|private)\.pem$/);
+                if (!match) continue;
+
+                const [, kid, kind] = match;
+                const entry = keys.get(kid) || { kid, publicKey: '' };
+                const content = fs.readFileSync(path.join(dir, file), 'utf8');
+                if (kind === 'public') entry.publicKey = content;
+                else entry.privateKey = content;
+                keys.set(kid, entry);
+            }
+
+            // Si solo existe la privada, derivar la pública de ella
+            for (const entry of keys.values()) {
+                if (!entry.publicKey && entry.privateKey) {
+                    entry.publicKey = crypto.createPublicKey(entry.privateKey).export({ type: 'spki', format: 'pem' }) as string;
+                }
+            }
+
+            this.activeKid = process.env.JWT_ACTIVE_KID;
+        } else {
+            const dev = process.env.MODE === 'dev';
+            const publicPath = dev ? './src/keys/public.pem' : process.env.PUBLIC_KEY;
+            const privatePath = dev ? './src/keys/private.pem' : process.env.PRIVATE_KEY;
+            if (!publicPath) throw new Error('PUBLIC_KEY no definida en variables de entorno');
+
+            const publicKey = fs.readFileSync(publicPath, 'utf8');
+            const privateKey = (privatePath && fs.existsSync(privatePath)) ? fs.readFileSync(privatePath, 'utf8') : undefined;
+            const kid = process.env.JWT_ACTIVE_KID || this.thumbprint(publicKey);
+
+            keys.set(kid, { kid, publicKey, privateKey });
+            this.activeKid = kid;
+        }
+
+        if (keys.size === 0) {
+            throw new Error('No se encontraron claves para firmar tokens.');
+        }
+        if (!this.activeKid || !keys.has(this.activeKid)) {
+            throw new Error(`La clave activa '${this.activeKid}' no existe en el llavero.`);
+        }
+
+        this.keys = keys;
+        return keys;
+    }
+
+    /**
+     * Calcula el thumbprint RFC 7638 de una clave pública RSA.
+     *
+     * @private
+     * @static
+     * @method thumbprint
+     * @param {string} publicKey - Clave pública en formato PEM
+     * @returns {string} Thumbprint SHA-256 codificado en base64url
+     */
+    private static thumbprint(publicKey: string): string {
+        const jwk = crypto.createPublicKey(publicKey).export({ format: 'jwk' });
+        const canonical = JSON.stringify({ e: jwk.e, kty: jwk.kty, n: jwk.n });
+        return crypto.createHash('sha256').update(canonical).digest('base64url');
+    }
+
+    /**
+     * Descarta las claves en memoria para que se vuelvan a leer en el siguiente uso.
+     *
+     * @public
+     * @static
+     * @method reload
+     * @returns {void}
+     */
+    public static reload(): void {
+        this.keys = null;
+    }
+
+    /**
+     * Obtiene la clave activa para firmar tokens.
+     *
+     * @public
+     * @static
+     * @method signingKey
+     * @returns {{ kid: string, privateKey: string }} Clave privada activa y su kid
+     * @throws {Error} Si la clave activa no tiene parte privada
+     */
+    public static signingKey(): { kid: string, privateKey: string } {
+        const active = this.load().get(this.activeKid);
+        if (!active.privateKey) {
+            throw new Error(`La clave activa '${this.activeKid}' no tiene clave privada.`);
+        }
+        return { kid: active.kid, privateKey: active.privateKey };
+    }
+
+    /**
+     * Obtiene la clave pública para verificar un token.
+     *
+     * Los tokens emitidos antes de la introducción del header `kid` se
+     * verifican con la clave activa.
+     *
+     * @public
+     * @static
+     * @method publicKey
+     * @param {string} [kid] - Header `kid` del token
+     * @returns {string | undefined} Clave pública PEM o undefined si el kid es desconocido
+     */
+    public static publicKey(kid?: string): string | undefined {
+        const keys = this.load();
+        return keys.get(kid || this.activeKid)?.publicKey;
+    }
+
+    /**
+     * Construye el JSON Web Key Set con todas las claves públicas vigentes.
+     *
+     * @public
+     * @static
+     * @method jwks
+     * @returns {{ keys: object[] }} JWKS listo para publicarse en `/.well-known/jwks.json`
+     *
+     * @example
+     * // {
+     * //   keys: [{ kty: 'RSA', n: '...', e: 'AQAB', kid: '2025-01', use: 'sig' }]
+     * // }
+     */
+    public static jwks(): { keys: object[] } {
+        const keys = [...this.load().values()].map(entry => ({
+            ...crypto.createPublicKey(entry.publicKey).export({ format: 'jwk' }),
+            kid: entry.kid,
+            use: 'sig'
+        }));
+        return { keys };
+    }
+}
@@ -18,6 +18,7 @@ import * as Sentry from "@sentry/node";
  * @property {string} subject - Asunto del mensaje
  * @property {string} template - Nombre del archivo de plantilla Handlebars
  * @property {any} [context] - Datos opcionales para renderizado de plantilla
+ * @property {MailAttachment[]} [attachments] - Archivos adjuntos (desde 1.3.0)
  * 
  * @since 1.0.0
  * @author OmarGo96
@@ -27,6 +28,24 @@ interface MailData {
     subject: string;
     template: string;
     context?: any;
+    attachments?: MailAttachment[];
+}
+
+/**
+ * Archivo adjunto de un correo, con el contenido ya en memoria.
+ * 
+ * @interface MailAttachment
+ * @property {string} filename - Nombre con el que lo ve el destinatario
+ * @property {Buffer} content - Contenido del archivo
+ * @property {string} [contentType] - Tipo MIME; sin él Nodemailer lo deduce de la extensión
+ * 
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface MailAttachment {
+    filename: string;
+    content: Buffer;
+    contentType?: string;
 }
 
 /**
@@ -151,7 +170,7 @@ export class Mailer {
      * @author OmarGo96
      */
     constructor() {
-        this.transporter = nodemailer.createTransporter({
+        this.transporter = nodemailer.createTransport({
             host: process.env.EMAIL_HOST,
             port: Number(process.env.EMAIL_PORT),
             secure: true,
@@ -256,6 +275,7 @@ export class Mailer {
      * - subject: Asunto del mensaje
      * - template: Nombre del archivo de plantilla
      * - context: Datos para renderizado dinámico
+     * - attachments: Archivos adjuntos, si se proporcionan
      * 
      * @template-rendering
      * **Proceso de renderizado:**
@@ -292,7 +312,8 @@ export class Mailer {
             to: data.email,
             subject: data.subject,
             template: data.template,
-            context: data.context || {}
+            context: data.context || {},
+            attachments: data.attachments || []
         };
 
         try {
@@ -0,0 +1,420 @@
+import crypto from 'crypto';
+import Cryptr from 'cryptr';
+import { DateTime } from 'luxon';
+import * as Sentry from "@sentry/node";
+import { Totp } from './totp';
+import { UserQueries } from '../queries/user.queries';
+import { MfaChallengeQueries } from '../queries/mfa_challenge.queries';
+import { MfaRecoveryCodeQueries } from '../queries/mfa_recovery_code.queries';
+
+/**
+ * Resultado normalizado de las operaciones de segundo factor.
+ *
+ * @interface MfaResult
+ * @property {boolean} ok - Indica si la operación fue exitosa
+ * @property {'invalid' | 'conflict' | 'failed'} [reason] - Motivo del fallo
+ * @property {string} [error] - Mensaje listo para mostrarse al usuario
+ * @property {string} [secret] - Secreto TOTP en base32 (solo al enrolar)
+ * @property {string} [otpauth_url] - URI para generar el código QR (solo al enrolar)
+ * @property {string[]} [recovery_codes] - Códigos de recuperación en claro; se muestran una sola vez
+ * @property {string} [mfa_token] - Token opaco del reto pendiente tras validar la contraseña
+ * @property {number} [user_id] - Usuario que superó el reto
+ * @property {string} [email] - Correo de la cuenta del reto, para el contador de intentos de `LoginThrottle`
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface MfaResult {
+    ok: boolean;
+    reason?: 'invalid' | 'conflict' | 'failed';
+    error?: string;
+    secret?: string;
+    otpauth_url?: string;
+    recovery_codes?: string[];
+    mfa_token?: string;
+    user_id?: number;
+    email?: string;
+}
+
+/**
+ * Segundo factor de autenticación con TOTP y códigos de recuperación.
+ *
+ * **Enrolamiento:** `enroll` genera el secreto y la URI `otpauth://` para el
+ * QR; el factor queda activo hasta que `confirm` recibe un primer código
+ * válido, momento en que se entregan los códigos de recuperación.
+ *
+ * **Inicio de sesión:** cuando la cuenta tiene el factor activo, el login no
+ * emite tokens; `challenge` crea un reto de corta duración identificado por
+ * un `mfa_token` opaco, y `verifyChallenge` lo canjea con un código TOTP o
+ * un código de recuperación. Solo entonces se llama a `SessionManager.issue`
+ * con `{ mfa: true }`. Los códigos incorrectos cuentan como intentos fallidos
+ * en `LoginThrottle`, cuyo contador de la cuenta se reinicia hasta superar el reto.
+ *
+ * **Almacenamiento:** el secreto TOTP se guarda cifrado con CRYPTR_KEY
+ * (debe poder recuperarse para calcular códigos); los retos y los códigos
+ * de recuperación, que solo se comparan, se guardan como hash SHA-256.
+ *
+ * @class MfaManager
+ * @description Enrolamiento, verificación y recuperación del segundo factor TOTP
+ * @version 1.0.0
+ * @author OmarGo96
+ *
+ * @environment
+ * - **CRYPTR_KEY**: Clave con la que se cifra el secreto TOTP
+ * - **MFA_ISSUER**: Nombre mostrado en la app autenticadora (default 'GC Sistemas')
+ * - **MFA_CHALLENGE_MINUTES**: Vigencia del reto posterior a la contraseña (default 5)
+ *
+ * @since 1.3.0
+ */
+export class MfaManager {
+    /** Acceso a la tabla users */
+    private userQueries: UserQueries = new UserQueries();
+
+    /** Acceso a la tabla mfa_challenges */
+    private challengeQueries: MfaChallengeQueries = new MfaChallengeQueries();
+
+    /** Acceso a la tabla mfa_recovery_codes */
+    private recoveryQueries: MfaRecoveryCodeQueries = new MfaRecoveryCodeQueries();
+
+    /** Códigos que pueden presentarse por reto antes de invalidarlo */
+    static readonly MAX_ATTEMPTS = 5;
+
+    /** Cantidad de códigos de recuperación por juego */
+    static readonly RECOVERY_CODES = 10;
+
+    /**
+     * Reporta el error a Sentry y lo registra en consola con timestamp.
+     *
+     * @private
+     * @method handleError
+     * @param {any} error - Error capturado
+     * @returns {void}
+     */
+    private handleError(error: any): void {
+        Sentry.captureException(error);
+        console.log(`Error mfa a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${error}`);
+    }
+
+    /**
+     * Hash SHA-256 en hexadecimal.
+     *
+     * @private
+     * @method hash
+     * @param {string} value - Valor a resumir
+     * @returns {string} Hash hexadecimal
+     */
+    private hash(value: string): string {
+        return crypto.createHash('sha256').update(value).digest('hex');
+    }
+
+    /**
+     * Normaliza un código de recuperación: mayúsculas y sin separadores.
+     *
+     * @private
+     * @method normalizeRecoveryCode
+     * @param {string} code - Código capturado por el usuario
+     * @returns {string} Código normalizado
+     */
+    private normalizeRecoveryCode(code: string): string {
+        return code.toUpperCase().replace(/[^A-Z2-7]/g, '');
+    }
+
+    /**
+     * Genera y guarda un juego nuevo de códigos de recuperación, invalidando el anterior.
+     *
+     * @private
+     * @async
+     * @method issueRecoveryCodes
+     * @param {number} user_id - Usuario dueño de los códigos
+     * @returns {Promise<string[] | null>} Códigos en claro (`XXXX-XXXX-XXXX-XXXX`) o null si no se guardaron
+     */
+    private async issueRecoveryCodes(user_id: number): Promise<string[] | null> {
+        const codes = Array.from({ length: MfaManager.RECOVERY_CODES }, () =>
+            Totp.base32Encode(crypto.randomBytes(10)).match(/.{4}/g).join('-')
+        );
+
+        const stored = await this.recoveryQueries.replaceForUser(
+            user_id,
+            codes.map(code => this.hash(this.normalizeRecoveryCode(code)))
+        );
+        return stored.ok ? codes : null;
+    }
+
+    /**
+     * Comprueba un código TOTP o de recuperación para una cuenta con el factor activo.
+     * Los códigos TOTP aceptados no pueden reutilizarse y los de recuperación se consumen.
+     *
+     * @private
+     * @async
+     * @method checkFactor
+     * @param {number} user_id - Usuario a verificar
+     * @param {object} factor - Código presentado
+     * @param {string} [factor.code] - Código TOTP de 6 dígitos
+     * @param {string} [factor.recovery_code] - Código de recuperación
+     * @returns {Promise<boolean | null>} true/false según el código, o null ante un error interno
+     */
+    private async checkFactor(user_id: number, factor: { code?: any, recovery_code?: any }): Promise<boolean | null> {
+        if (typeof factor.recovery_code === 'string' && factor.recovery_code) {
+            const consumed = await this.recoveryQueries.consume(user_id, this.hash(this.normalizeRecoveryCode(factor.recovery_code)));
+            if (!consumed.ok) return null;
+            return consumed.affected > 0;
+        }
+
+        if (typeof factor.code !== 'string' && typeof factor.code !== 'number') {
+            return false;
+        }
+
+        const found = await this.userQueries.showWithMfa(user_id);
+        if (!found.ok || !found.user) return null;
+        if (!found.user.mfa_enabled_at || !found.user.mfa_secret) return false;
+
+        const secret = new Cryptr(process.env.CRYPTR_KEY).decrypt(found.user.mfa_secret);
+        const step = Totp.verify(secret, String(factor.code));
+        if (step === null) return false;
+
+        const advanced = await this.userQueries.advanceMfaStep(user_id, step);
+        if (!advanced.ok) return null;
+        return advanced.affected > 0;
+    }
+
+    /**
+     * Inicia el enrolamiento generando un secreto nuevo.
+     * Repetir la llamada antes de confirmar reemplaza el secreto pendiente.
+     *
+     * @public
+     * @async
+     * @method enroll
+     * @param {number} user_id - Usuario autenticado
+     * @returns {Promise<MfaResult>} `secret` y `otpauth_url`, o motivo del fallo
+     */
+    public async enroll(user_id: number): Promise<MfaResult> {
+        try {
+            const found = await this.userQueries.showWithMfa(user_id);
+            if (!found.ok || !found.user) {
+                return { ok: false, reason: 'failed', error: 'No fue posible iniciar el enrolamiento.' };
+            }
+            if (found.user.mfa_enabled_at) {
+                return { ok: false, reason: 'conflict', error: 'La verificación en dos pasos ya está activa.' };
+            }
+
+            const secret = Totp.generateSecret();
+            const stored = await this.userQueries.updateMfa(user_id, {
+                mfa_secret: new Cryptr(process.env.CRYPTR_KEY).encrypt(secret),
+                mfa_enabled_at: null
+            });
+            if (!stored.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible iniciar el enrolamiento.' };
+            }
+
+            return {
+                ok: true,
+                secret,
+                otpauth_url: Totp.uri(secret, found.user.email, process.env.MFA_ISSUER || 'GC Sistemas')
+            };
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, reason: 'failed', error: 'Error al iniciar el enrolamiento.' };
+        }
+    }
+
+    /**
+     * Activa el segundo factor con el primer código generado por la app y
+     * entrega los códigos de recuperación.
+     *
+     * @public
+     * @async
+     * @method confirm
+     * @param {number} user_id - Usuario autenticado
+     * @param {string} code - Código TOTP actual
+     * @returns {Promise<MfaResult>} `recovery_codes` o motivo del fallo
+     */
+    public async confirm(user_id: number, code: any): Promise<MfaResult> {
+        try {
+            const found = await this.userQueries.showWithMfa(user_id);
+            if (!found.ok || !found.user) {
+                return { ok: false, reason: 'failed', error: 'No fue posible activar la verificación en dos pasos.' };
+            }
+            if (found.user.mfa_enabled_at) {
+                return { ok: false, reason: 'conflict', error: 'La verificación en dos pasos ya está activa.' };
+            }
+            if (!found.user.mfa_secret) {
+                return { ok: false, reason: 'invalid', error: 'Primero debe iniciar el enrolamiento.' };
+            }
+
+            const secret = new Cryptr(process.env.CRYPTR_KEY).decrypt(found.user.mfa_secret);
+            const step = (typeof code === 'string' || typeof code === 'number') ? Totp.verify(secret, String(code)) : null;
+            if (step === null) {
+                return { ok: false, reason: 'invalid', error: 'El código de verificación no es válido.' };
+            }
+
+            const enabled = await this.userQueries.updateMfa(user_id, {
+                mfa_secret: found.user.mfa_secret,
+                mfa_enabled_at: new Date()
+            });
+            if (!enabled.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible activar la verificación en dos pasos.' };
+            }
+            // El código de confirmación no debe servir también para el siguiente login
+            await this.userQueries.advanceMfaStep(user_id, step);
+
+            const recovery_codes = await this.issueRecoveryCodes(user_id);
+            if (!recovery_codes) {
+                return { ok: false, reason: 'failed', error: 'No fue posible generar los códigos de recuperación.' };
+            }
+
+            return { ok: true, recovery_codes };
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, reason: 'failed', error: 'Error al activar la verificación en dos pasos.' };
+        }
+    }
+
+    /**
+     * Crea el reto de segundo factor que sigue a una contraseña correcta.
+     *
+     * @public
+     * @async
+     * @method challenge
+     * @param {number} user_id - Usuario que validó su contraseña
+     * @returns {Promise<MfaResult>} `mfa_token` o motivo del fallo
+     */
+    public async challenge(user_id: number): Promise<MfaResult> {
+        try {
+            const mfa_token = crypto.randomBytes(32).toString('base64url');
+            const minutes = Number(process.env.MFA_CHALLENGE_MINUTES) || 5;
+
+            const stored = await this.challengeQueries.store({
+                user_id,
+                token_hash: this.hash(mfa_token),
+                expires_at: DateTime.now().plus({ minutes }).toJSDate()
+            });
+            if (!stored.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible iniciar la verificación en dos pasos.' };
+            }
+
+            return { ok: true, mfa_token };
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, reason: 'failed', error: 'Error al iniciar la verificación en dos pasos.' };
+        }
+    }
+
+    /**
+     * Canjea un reto pendiente con un código TOTP o de recuperación.
+     *
+     * Cada código presentado consume un intento antes de evaluarse; tras
+     * `MAX_ATTEMPTS` el reto se invalida y el usuario debe volver a ingresar
+     * su contraseña. Ante un código incorrecto se devuelve `email` para que
+     * el fallo cuente en `LoginThrottle`.
+     *
+     * @public
+     * @async
+     * @method verifyChallenge
+     * @param {string} mfa_token - Token recibido en el login
+     * @param {object} factor - `code` (TOTP) o `recovery_code`
+     * @returns {Promise<MfaResult>} `user_id` y `email` del usuario verificado o motivo del fallo
+     */
+    public async verifyChallenge(mfa_token: any, factor: { code?: any, recovery_code?: any }): Promise<MfaResult> {
+        if (typeof mfa_token !== 'string' || !mfa_token) {
+            return { ok: false, reason: 'invalid', error: 'Favor de proporcionar el mfa_token.' };
+        }
+
+        try {
+            const found = await this.challengeQueries.showActiveByHash(this.hash(mfa_token));
+            if (!found.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible validar el código.' };
+            }
+            const challenge = found.challenge;
+            if (!challenge) {
+                return { ok: false, reason: 'invalid', error: 'La verificación expiró, inicie sesión nuevamente.' };
+            }
+
+            // El intento se registra antes de evaluar el código: peticiones simultáneas no rebasan el límite
+            const attempt = await this.challengeQueries.registerAttempt(challenge.id, MfaManager.MAX_ATTEMPTS);
+            if (!attempt.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible validar el código.' };
+            }
+            if (attempt.affected === 0) {
+                return { ok: false, reason: 'invalid', error: 'La verificación expiró, inicie sesión nuevamente.' };
+            }
+
+            const user = await this.userQueries.showWithMfa(challenge.user_id);
+            if (!user.ok || !user.user) {
+                return { ok: false, reason: 'failed', error: 'No fue posible validar el código.' };
+            }
+
+            const valid = await this.checkFactor(challenge.user_id, factor);
+            if (valid === null) {
+                return { ok: false, reason: 'failed', error: 'No fue posible validar el código.' };
+            }
+            if (!valid) {
+                return { ok: false, reason: 'invalid', email: user.user.email, error: 'El código de verificación no es válido.' };
+            }
+
+            const consumed = await this.challengeQueries.consume(challenge.id);
+            if (!consumed.ok || consumed.affected === 0) {
+                return { ok: false, reason: 'invalid', error: 'La verificación expiró, inicie sesión nuevamente.' };
+            }
+
+            return { ok: true, user_id: challenge.user_id, email: user.user.email };
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, reason: 'failed', error: 'Error al validar el código.' };
+        }
+    }
+
+    /**
+     * Invalida los códigos de recuperación vigentes y entrega un juego nuevo.
+     *
+     * @public
+     * @async
+     * @method regenerateRecoveryCodes
+     * @param {number} user_id - Usuario autenticado con segundo factor
+     * @returns {Promise<MfaResult>} `recovery_codes` o motivo del fallo
+     */
+    public async regenerateRecoveryCodes(user_id: number): Promise<MfaResult> {
+        try {
+            const recovery_codes = await this.issueRecoveryCodes(user_id);
+            if (!recovery_codes) {
+                return { ok: false, reason: 'failed', error: 'No fue posible generar los códigos de recuperación.' };
+            }
+            return { ok: true, recovery_codes };
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, reason: 'failed', error: 'Error al generar los códigos de recuperación.' };
+        }
+    }
+
+    /**
+     * Desactiva el segundo factor previa verificación de un código.
+     *
+     * @public
+     * @async
+     * @method disable
+     * @param {number} user_id - Usuario autenticado
+     * @param {object} factor - `code` (TOTP) o `recovery_code`
+     * @returns {Promise<MfaResult>} Resultado de la operación
+     */
+    public async disable(user_id: number, factor: { code?: any, recovery_code?: any }): Promise<MfaResult> {
+        try {
+            const valid = await this.checkFactor(user_id, factor);
+            if (valid === null) {
+                return { ok: false, reason: 'failed', error: 'No fue posible desactivar la verificación en dos pasos.' };
+            }
+            if (!valid) {
+                return { ok: false, reason: 'invalid', error: 'El código de verificación no es válido.' };
+            }
+
+            const disabled = await this.userQueries.updateMfa(user_id, { mfa_secret: null, mfa_enabled_at: null });
+            if (!disabled.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible desactivar la verificación en dos pasos.' };
+            }
+            await this.recoveryQueries.destroyForUser(user_id);
+
+            return { ok: true };
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, reason: 'failed', error: 'Error al desactivar la verificación en dos pasos.' };
+        }
+    }
+}
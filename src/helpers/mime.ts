@@ -0,0 +1,231 @@
+import path from 'path';
+
+/**
+ * Tipo de archivo reconocido por `MimeSniffer`.
+ *
+ * @interface FileKind
+ * @property {string} mime - Tipo MIME canónico
+ * @property {string[]} extensions - Extensiones válidas; la primera es la canónica
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+interface FileKind {
+    mime: string;
+    extensions: string[];
+}
+
+/**
+ * Detección del tipo real de un archivo a partir de su contenido.
+ *
+ * El `mimetype` que envía el cliente (y la extensión del nombre) se pueden
+ * falsificar, por lo que `FileManager` decide con los primeros bytes del
+ * archivo ("magic bytes"). El tipo declarado solo se usa para desempatar los
+ * formatos que comparten firma:
+ * - Office moderno (docx/xlsx/pptx) es un ZIP; se distingue por las entradas
+ *   `word/`, `xl/` o `ppt/` del paquete.
+ * - Office 97-2003 (doc/xls/ppt) comparte el contenedor OLE2.
+ * - CSV y texto no tienen firma; se aceptan si el contenido es UTF-8 sin bytes nulos.
+ *
+ * @class MimeSniffer
+ * @description Detección de tipo MIME por firma binaria y mapeo a extensiones
+ * @version 1.0.0
+ * @author OmarGo96
+ *
+ * @example
+ * const mime = MimeSniffer.detect(file.data, file.name, file.mimetype);
+ * // 'image/png' aunque el cliente haya declarado 'application/pdf'
+ * const name = `1700000000.${MimeSniffer.extension(mime, file.name)}`;
+ *
+ * @since 1.3.0
+ */
+export class MimeSniffer {
+    /** Tipos soportados y sus extensiones */
+    private static readonly KINDS: FileKind[] = [
+        { mime: 'application/pdf', extensions: ['pdf'] },
+        { mime: 'image/png', extensions: ['png'] },
+        { mime: 'image/jpeg', extensions: ['jpg', 'jpeg'] },
+        { mime: 'image/gif', extensions: ['gif'] },
+        { mime: 'image/webp', extensions: ['webp'] },
+        { mime: 'application/zip', extensions: ['zip'] },
+        { mime: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', extensions: ['docx'] },
+        { mime: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extensions: ['xlsx'] },
+        { mime: 'application/vnd.openxmlformats-officedocument.presentationml.presentation', extensions: ['pptx'] },
+        { mime: 'application/msword', extensions: ['doc'] },
+        { mime: 'application/vnd.ms-excel', extensions: ['xls'] },
+        { mime: 'application/vnd.ms-powerpoint', extensions: ['ppt'] },
+        { mime: 'text/csv', extensions: ['csv'] },
+        { mime: 'text/plain', extensions: ['txt'] }
+    ];
+
+    /** Tipos Office 97-2003, todos sobre el contenedor OLE2 */
+    private static readonly OLE2_TYPES = ['application/msword', 'application/vnd.ms-excel', 'application/vnd.ms-powerpoint'];
+
+    /**
+     * Compara el inicio del buffer con una firma.
+     *
+     * @private
+     * @static
+     * @method startsWith
+     * @param {Uint8Array} data - Contenido del archivo
+     * @param {number[]} signature - Bytes esperados
+     * @param {number} [offset=0] - Posición donde inicia la firma
+     * @returns {boolean}
+     */
+    private static startsWith(data: Uint8Array, signature: number[], offset: number = 0): boolean {
+        if (data.length < offset + signature.length) return false;
+        return signature.every((byte, index) => data[offset + index] === byte);
+    }
+
+    /**
+     * Busca el tipo de la declaración del cliente por MIME o por extensión.
+     *
+     * @private
+     * @static
+     * @method declared
+     * @param {string} [name] - Nombre original del archivo
+     * @param {string} [mimetype] - Tipo MIME declarado
+     * @returns {FileKind | undefined}
+     */
+    private static declared(name?: string, mimetype?: string): FileKind | undefined {
+        const ext = name ? path.extname(name).slice(1).toLowerCase() : '';
+        return this.KINDS.find(kind => kind.mime === mimetype)
+            || this.KINDS.find(kind => kind.extensions.includes(ext));
+    }
+
+    /**
+     * Determina el tipo de un paquete ZIP (Office moderno o ZIP genérico).
+     *
+     * Las rutas de las entradas se guardan sin comprimir en las cabeceras
+     * locales, así que basta con buscarlas en el contenido.
+     *
+     * @private
+     * @static
+     * @method zipKind
+     * @param {Uint8Array} data - Contenido del archivo
+     * @returns {string} Tipo MIME
+     */
+    private static zipKind(data: Uint8Array): string {
+        const content = Buffer.from(data.buffer, data.byteOffset, data.byteLength).toString('latin1');
+        if (content.includes('[Content_Types].xml')) {
+            if (content.includes('word/')) return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+            if (content.includes('xl/')) return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+            if (content.includes('ppt/')) return 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+        }
+        return 'application/zip';
+    }
+
+    /**
+     * Indica si el contenido es texto UTF-8 (sin bytes nulos).
+     *
+     * @private
+     * @static
+     * @method isText
+     * @param {Uint8Array} data - Contenido del archivo
+     * @returns {boolean}
+     */
+    private static isText(data: Uint8Array): boolean {
+        if (data.length === 0 || data.includes(0)) return false;
+        try {
+            // stream: una secuencia multibyte cortada al final (lectura parcial) no invalida el texto
+            new TextDecoder('utf-8', { fatal: true }).decode(data, { stream: true });
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Detecta el tipo MIME real del archivo.
+     *
+     * @public
+     * @static
+     * @method detect
+     * @param {Uint8Array} data - Contenido del archivo
+     * @param {string} [name] - Nombre original, para desempatar formatos sin firma propia
+     * @param {string} [mimetype] - Tipo declarado por el cliente, con el mismo fin
+     * @returns {string | null} Tipo MIME detectado o null si el formato no es soportado
+     */
+    static detect(data: Uint8Array, name?: string, mimetype?: string): string | null {
+        if (!data || data.length === 0) return null;
+
+        if (this.startsWith(data, [0x25, 0x50, 0x44, 0x46, 0x2D])) return 'application/pdf';
+        if (this.startsWith(data, [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])) return 'image/png';
+        if (this.startsWith(data, [0xFF, 0xD8, 0xFF])) return 'image/jpeg';
+        if (this.startsWith(data, [0x47, 0x49, 0x46, 0x38]) && (data[4] === 0x37 || data[4] === 0x39) && data[5] === 0x61) return 'image/gif';
+        if (this.startsWith(data, [0x52, 0x49, 0x46, 0x46]) && this.startsWith(data, [0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp';
+        if (this.startsWith(data, [0x50, 0x4B, 0x03, 0x04]) || this.startsWith(data, [0x50, 0x4B, 0x05, 0x06])) return this.zipKind(data);
+
+        const declared = this.declared(name, mimetype);
+        if (this.startsWith(data, [0xD0, 0xCF, 0x11, 0xE0, 0xA1, 0xB1, 0x1A, 0xE1])) {
+            return declared && this.OLE2_TYPES.includes(declared.mime) ? declared.mime : null;
+        }
+        if (this.isText(data)) {
+            return declared?.mime === 'text/csv' ? 'text/csv' : 'text/plain';
+        }
+        return null;
+    }
+
+    /**
+     * Indica si un tipo MIME puede detectarse por contenido.
+     *
+     * @public
+     * @static
+     * @method supports
+     * @param {string} mime - Tipo MIME
+     * @returns {boolean}
+     */
+    static supports(mime: string): boolean {
+        return this.KINDS.some(kind => kind.mime === mime);
+    }
+
+    /**
+     * Extensión con la que se guarda un archivo del tipo indicado.
+     *
+     * Conserva la extensión original cuando corresponde al tipo detectado
+     * (ej. `.jpeg`), y usa la canónica cuando no coincide o falta.
+     *
+     * @public
+     * @static
+     * @method extension
+     * @param {string} mime - Tipo MIME detectado
+     * @param {string} [name] - Nombre original del archivo
+     * @returns {string} Extensión sin punto
+     */
+    static extension(mime: string, name?: string): string {
+        const kind = this.KINDS.find(item => item.mime === mime);
+        if (!kind) return 'bin';
+        const original = name ? path.extname(name).slice(1).toLowerCase() : '';
+        return kind.extensions.includes(original) ? original : kind.extensions[0];
+    }
+
+    /**
+     * Tipo MIME que corresponde a la extensión de un nombre de archivo.
+     *
+     * @public
+     * @static
+     * @method fromName
+     * @param {string} name - Nombre o clave del archivo
+     * @returns {string} Tipo MIME, o 'application/octet-stream' si la extensión no es conocida
+     */
+    static fromName(name: string): string {
+        const ext = path.extname(name).slice(1).toLowerCase();
+        return this.KINDS.find(kind => kind.extensions.includes(ext))?.mime || 'application/octet-stream';
+    }
+
+    /**
+     * Describe una lista de tipos MIME con sus extensiones, para mensajes de validación.
+     *
+     * @public
+     * @static
+     * @method describe
+     * @param {string[]} mimes - Tipos MIME
+     * @returns {string} Ej. '.pdf, .png, .jpg'
+     */
+    static describe(mimes: string[]): string {
+        return mimes.map(mime => {
+            const kind = this.KINDS.find(item => item.mime === mime);
+            return kind ? kind.extensions.map(ext => `.${ext}`).join('/') : mime;
+        }).join(', ');
+    }
+}
@@ -1,8 +1,10 @@
 import jwt, { SignOptions } from 'jsonwebtoken';
-import fs from 'fs';
+import crypto from 'crypto';
 import { DateTime } from 'luxon';
 import Cryptr from '@gc-sistemas/encrypt';
 import * as Sentry from "@sentry/node";
+import { KeyRing } from './keyring';
+import { JwtConfig } from '../config/jwt';
 
 /**
  * Estructura de datos para el payload de usuario en tokens JWT.
@@ -90,6 +92,29 @@ interface EncryptedPayload {
     [key: string]: string;
 }
 
+/**
+ * Claims públicos (no cifrados) que pueden agregarse al token.
+ * 
+ * A diferencia de los identificadores, estos valores viajan en claro para
+ * que los middlewares de autorización decidan sin consultar la base de datos.
+ * No deben contener información sensible.
+ * 
+ * @interface TokenClaims
+ * @description Claims de autorización embebidos en el JWT
+ * 
+ * @property {string[]} [roles] - Nombres de los roles del usuario
+ * @property {string[]} [scopes] - Permisos efectivos con formato 'recurso:acción'
+ * @property {string[]} [amr] - Métodos de autenticación usados (RFC 8176): 'pwd' y, tras el segundo factor, 'mfa'
+ * 
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface TokenClaims {
+    roles?: string[];
+    scopes?: string[];
+    amr?: string[];
+}
+
 /**
  * Gestor de tokens JWT con cifrado de campos sensibles.
  * 
@@ -128,21 +153,23 @@ interface EncryptedPayload {
  * @dependencies
  * - **jsonwebtoken**: Generación y firma de tokens JWT
  * - **@gc-sistemas/encrypt**: Cifrado seguro de campos sensibles
- * - **fs**: Lectura de archivos de claves criptográficas
+ * - **KeyRing**: Selección de la clave privada activa y su `kid`
  * - **luxon**: Manejo moderno de fechas para logging
  * - **@sentry/node**: Monitoreo y reporte de errores
- * 
+ *
  * @environment
  * **Variables de entorno requeridas:**
  * - **CRYPTR_KEY**: Clave para cifrado de campos sensibles
- * - **PRIVATE_KEY**: Ruta a la clave privada RSA (producción)
+ * - **JWT_KEYS_PATH** / **JWT_ACTIVE_KID**: Llavero de claves (ver `KeyRing`)
+ * - **PRIVATE_KEY**: Ruta a la clave privada RSA cuando no se usa JWT_KEYS_PATH
  * - **MODE**: Entorno de ejecución ('dev' para desarrollo)
- * 
+ *
  * @file-structure
  * **Archivos de claves requeridos:**
- * - Desarrollo: `./src/keys/private.pem`
- * - Producción: Ruta especificada en PRIVATE_KEY
- * 
+ * - Llavero: `<JWT_KEYS_PATH>/<kid>.private.pem` y `<kid>.public.pem`
+ * - Desarrollo sin llavero: `./src/keys/private.pem`
+ * - Producción sin llavero: Ruta especificada en PRIVATE_KEY
+ *
  * @security
  * **Medidas de seguridad implementadas:**
  * - Cifrado de campos sensibles antes de JWT
@@ -165,8 +192,8 @@ interface EncryptedPayload {
  * 
  * @token-structure
  * **Estructura de tokens generados:**
- * - Header: Algoritmo y tipo (RS256/JWT)
- * - Payload: Campos cifrados + metadatos JWT
+ * - Header: Algoritmo, tipo y `kid` de la clave activa (RS256/JWT)
+ * - Payload: Campos cifrados + metadatos JWT (incluye `jti` para revocación)
  * - Signature: Firma RSA con clave privada
  * 
  * @since 1.0.0
@@ -220,43 +247,32 @@ export class Payload {
     }
 
     /**
-     * Obtiene la clave privada para firmar tokens JWT.
-     * 
-     * Lee la clave privada RSA desde el sistema de archivos según el entorno
-     * de ejecución. En desarrollo utiliza una ruta local predefinida,
-     * en producción usa la ruta especificada en variables de entorno.
-     * La clave se utiliza para firmar tokens JWT con algoritmo RSA.
+     * Obtiene la clave privada activa para firmar tokens JWT.
      * 
-     * **Comportamiento por entorno:**
-     * - **Desarrollo (MODE='dev')**: Lee desde `./src/keys/private.pem`
-     * - **Producción**: Lee desde ruta en `process.env.PRIVATE_KEY`
+     * Delega en `KeyRing`, que administra uno o varios pares de claves RSA
+     * identificados por `kid`. El `kid` devuelto se incluye en el header del
+     * token para que la verificación seleccione la clave pública correcta,
+     * lo que permite rotar claves sin invalidar las sesiones activas.
      * 
-     * **Validación de seguridad:**
-     * - Verificación de existencia del archivo
-     * - Lectura en formato UTF-8 para compatibilidad
-     * - Manejo de errores con excepción específica
+     * **Origen de la clave:**
+     * - **Con JWT_KEYS_PATH**: `<JWT_KEYS_PATH>/<JWT_ACTIVE_KID>.private.pem`
+     * - **Desarrollo (MODE='dev')**: `./src/keys/private.pem`
+     * - **Producción**: Ruta en `process.env.PRIVATE_KEY`
      * 
      * @private
-     * @method getPrivateKey
-     * @returns {string} Clave privada RSA en formato PEM
+     * @method getSigningKey
+     * @returns {{ kid: string, privateKey: string }} Clave privada RSA en formato PEM y su identificador
      * @throws {Error} Si no se puede leer la clave privada
      * 
-     * @file-requirements
-     * **Requisitos del archivo:**
-     * - Formato: PEM (Privacy-Enhanced Mail)
-     * - Tipo: Clave privada RSA
-     * - Codificación: UTF-8
-     * - Permisos: Lectura para el proceso Node.js
-     * 
      * @error-handling
      * **Errores comunes manejados:**
      * - Archivo no encontrado (ENOENT)
      * - Permisos insuficientes (EACCES)
-     * - Formato de archivo inválido
+     * - Clave activa inexistente o sin parte privada
      * - Variable de entorno no configurada
      * 
      * @security
- * **Consideraciones de seguridad:**
+     * **Consideraciones de seguridad:**
      * - Archivos de clave protegidos a nivel de sistema
      * - Variables de entorno para rutas sensibles
      * - No logging de contenido de claves
@@ -265,12 +281,9 @@ export class Payload {
      * @since 1.0.0
      * @author OmarGo96
      */
-    private getPrivateKey(): string {
+    private getSigningKey(): { kid: string, privateKey: string } {
         try {
-            return fs.readFileSync(
-                (process.env.MODE !== 'dev') ? process.env.PRIVATE_KEY! : './src/keys/private.pem',
-                'utf8'
-            );
+            return KeyRing.signingKey();
         } catch (e) {
             this.handleError(e);
             throw new Error('No se pudo leer la clave privada.');
@@ -375,6 +388,7 @@ export class Payload {
      * @param {'user' | 'client'} type_token - Tipo de token a generar
      * @param {string} [expiresIn='9h'] - Tiempo de expiración del token
      * @param {jwt.Algorithm} [algorithm='RS256'] - Algoritmo de firma JWT
+     * @param {TokenClaims} [claims={}] - Claims públicos de autorización (roles, scopes, amr)
      * @returns {{ok: boolean, token?: string, error?: string}} Resultado con token o error
      * 
      * @parameters
@@ -399,6 +413,11 @@ export class Payload {
      * - Default: 'RS256' (RSA con SHA-256)
      * - Requiere clave privada RSA correspondiente
      * 
+     * **claims**: Claims públicos que se agregan sin cifrar
+     * - roles: ['admin', 'backoffice']
+     * - scopes: ['documents:read', 'documents:write']
+     * - Usados por `Authorization.requirePermission`
+     * 
      * @response-structure
      * **Respuesta exitosa:**
      * ```typescript
@@ -426,10 +445,12 @@ export class Payload {
      * 
      * @jwt-configuration
      * **Configuración del JWT:**
-     * - Header: Algoritmo especificado y tipo JWT
+     * - Header: Algoritmo especificado, tipo JWT y `kid` de la clave de firma
      * - Payload: Campos cifrados + claims estándar de JWT
      * - Signature: Firma RSA con clave privada
      * - Expiración: Tiempo configurado en parámetros
+     * - jti: UUID aleatorio que permite revocar el token antes de su expiración
+     * - iss, aud, sub, iat y nbf: claims estándar según `JwtConfig`
      * 
      * @error-handling
      * **Tipos de errores manejados:**
@@ -448,7 +469,7 @@ export class Payload {
      * @performance
      * **Optimizaciones implementadas:**
      * - Validación temprana para evitar procesamiento innecesario
-     * - Lectura eficiente de claves una sola vez por operación
+     * - Claves privadas en memoria gracias a KeyRing (sin lecturas por token)
      * - Cifrado optimizado con librerías especializadas
      * - Manejo de memoria controlado en operaciones criptográficas
      * 
@@ -467,7 +488,8 @@ export class Payload {
         data: UserPayload | ClientPayload,
         type_token: 'user' | 'client',
         expiresIn: string = '9h',
-        algorithm: jwt.Algorithm = 'RS256'
+        algorithm: jwt.Algorithm = 'RS256',
+        claims: TokenClaims = {}
     ): { ok: boolean, token?: string, error?: string } {
         try {
             // Validación robusta de datos de entrada
@@ -476,30 +498,44 @@ export class Payload {
                 return { ok: false, error: validation.error };
             }
 
+            // Un token firmado con un algoritmo que la verificación no acepta sería inutilizable
+            if (!JwtConfig.algorithms().includes(algorithm)) {
+                return { ok: false, error: `El algoritmo ${algorithm} no está permitido (JWT_ALGORITHMS).` };
+            }
+
             // Obtención segura de clave privada para firma
-            const private_key = this.getPrivateKey();
+            const { kid, privateKey } = this.getSigningKey();
             
             // Inicialización del cifrador con clave de entorno
             const cryptr = new Cryptr(process.env.CRYPTR_KEY);
 
             // Construcción del payload cifrado según tipo de token
             let payload: EncryptedPayload;
+            let subject: string;
             if (type_token === 'user') {
                 const user = data as UserPayload;
                 payload = {
                     user_id: cryptr.encrypt(String(user.user_id))
                 };
+                subject = JwtConfig.subject('user', user.user_id);
             } else {
                 const client = data as ClientPayload;
                 payload = {
                     client_id: cryptr.encrypt(String(client.client_id))
                 };
+                subject = JwtConfig.subject('client', client.client_id);
             }
 
-            // Firma del token JWT con configuración especificada
-            const token = jwt.sign(payload, private_key, {
+            // Firma del token JWT con configuración especificada.
+            // El jti identifica al token de forma única para poder revocarlo;
+            // iss, aud, sub y nbf provienen de JwtConfig.
+            const token = jwt.sign({ ...claims, ...payload }, privateKey, {
+                ...JwtConfig.signOptions(),
                 algorithm,
-                expiresIn: expiresIn as string | number
+                keyid: kid,
+                subject,
+                expiresIn: expiresIn as string | number,
+                jwtid: crypto.randomUUID()
             });
 
             return { ok: true, token };
@@ -0,0 +1,189 @@
+import { DateTime } from 'luxon';
+import * as Sentry from "@sentry/node";
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf';
+
+/**
+ * Metadatos del diccionario Info de un PDF.
+ *
+ * @interface PdfInfo
+ * @property {string | null} title - Título declarado por el autor
+ * @property {string | null} author - Autor
+ * @property {string | null} subject - Asunto
+ * @property {string | null} keywords - Palabras clave
+ * @property {string | null} creator - Aplicación que creó el original
+ * @property {string | null} producer - Aplicación que generó el PDF
+ * @property {string | null} created_at - Fecha de creación en ISO 8601
+ * @property {string | null} modified_at - Fecha de modificación en ISO 8601
+ * @property {string | null} pdf_version - Versión del formato (ej. '1.6')
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface PdfInfo {
+    title: string | null;
+    author: string | null;
+    subject: string | null;
+    keywords: string | null;
+    creator: string | null;
+    producer: string | null;
+    created_at: string | null;
+    modified_at: string | null;
+    pdf_version: string | null;
+}
+
+/**
+ * Lectura del contenido de archivos PDF con pdf.js.
+ *
+ * Obtiene el número de páginas, los metadatos del diccionario Info y el texto
+ * plano de cada página, separado por una línea en blanco entre páginas. Solo
+ * recupera texto real del PDF: un documento escaneado (imágenes sin capa de
+ * texto) devuelve texto vacío, y uno cifrado con contraseña no se puede leer.
+ *
+ * El texto se limita a `PDF_TEXT_MAX_CHARS` caracteres y a las primeras
+ * `PDF_TEXT_MAX_PAGES` páginas; el número de páginas siempre es el total.
+ *
+ * @class PdfInspector
+ * @description Páginas, metadatos y texto de un PDF
+ * @version 1.0.0
+ * @author OmarGo96
+ *
+ * @environment
+ * - **PDF_TEXT_MAX_CHARS**: Caracteres de texto conservados (default 1000000)
+ * - **PDF_TEXT_MAX_PAGES**: Páginas de las que se extrae texto (default 500)
+ *
+ * @example
+ * const inspected = await new PdfInspector().inspect(file);
+ * // { ok: true, pages: 6, info: { title: 'Contrato', ... }, text: '...' }
+ *
+ * @since 1.3.0
+ */
+export class PdfInspector {
+    /** Límites por defecto de la extracción de texto */
+    private static readonly DEFAULT_MAX_CHARS = 1000000;
+    private static readonly DEFAULT_MAX_PAGES = 500;
+
+    /**
+     * Reporta el error a Sentry y lo registra en consola con timestamp.
+     *
+     * @private
+     * @method handleError
+     * @param {any} error - Error capturado
+     * @returns {void}
+     */
+    private handleError(error: any): void {
+        Sentry.captureException(error);
+        console.log(`Error pdf a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${error}`);
+    }
+
+    /**
+     * Lee un límite numérico positivo de una variable de entorno.
+     *
+     * @private
+     * @method limit
+     * @param {string} name - Variable de entorno
+     * @param {number} fallback - Valor por defecto
+     * @returns {number}
+     */
+    private limit(name: string, fallback: number): number {
+        const value = Number(process.env[name]);
+        return Number.isInteger(value) && value > 0 ? value : fallback;
+    }
+
+    /**
+     * Convierte una fecha PDF (`D:YYYYMMDDHHmmSSOHH'mm'`) a ISO 8601.
+     *
+     * @private
+     * @method parseDate
+     * @param {unknown} value - Valor del diccionario Info
+     * @returns {string | null} Fecha ISO, o null si no es válida
+     */
+    private parseDate(value: unknown): string | null {
+        const match = typeof value === 'string'
+            ? /^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz]|[+-]\d{2}'?\d{2}'?)?/.exec(value)
+            : null;
+        if (!match) return null;
+
+        const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', zone] = match;
+        const offset = !zone || /^z$/i.test(zone) ? 'Z' : `${zone.slice(0, 3)}:${zone.replace(/'/g, '').slice(3, 5) || '00'}`;
+        const date = DateTime.fromISO(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`, { setZone: true });
+        return date.isValid ? date.toISO() : null;
+    }
+
+    /**
+     * Normaliza un campo de texto del diccionario Info.
+     *
+     * @private
+     * @method text
+     * @param {unknown} value - Valor del diccionario Info
+     * @returns {string | null}
+     */
+    private text(value: unknown): string | null {
+        if (typeof value !== 'string') return null;
+        const clean = value.replace(/\u0000/g, '').trim();
+        return clean ? clean.slice(0, 500) : null;
+    }
+
+    /**
+     * Analiza un PDF.
+     *
+     * @public
+     * @async
+     * @method inspect
+     * @param {Uint8Array} data - Contenido completo del archivo
+     * @returns {Promise<{ok: boolean, pages?: number, info?: PdfInfo, text?: string, message?: string}>}
+     */
+    public async inspect(data: Uint8Array): Promise<{ ok: boolean, pages?: number, info?: PdfInfo, text?: string, message?: string }> {
+        const maxChars = this.limit('PDF_TEXT_MAX_CHARS', PdfInspector.DEFAULT_MAX_CHARS);
+        const maxPages = this.limit('PDF_TEXT_MAX_PAGES', PdfInspector.DEFAULT_MAX_PAGES);
+
+        let pdf: pdfjs.PDFDocumentProxy | undefined;
+        try {
+            // pdf.js toma posesión del buffer; se le entrega una copia
+            pdf = await pdfjs.getDocument({ data: new Uint8Array(data), isEvalSupported: false, disableFontFace: true, verbosity: 0 }).promise;
+
+            const metadata = await pdf.getMetadata();
+            const raw = (metadata.info || {}) as Record<string, unknown>;
+            const info: PdfInfo = {
+                title: this.text(raw.Title),
+                author: this.text(raw.Author),
+                subject: this.text(raw.Subject),
+                keywords: this.text(raw.Keywords),
+                creator: this.text(raw.Creator),
+                producer: this.text(raw.Producer),
+                created_at: this.parseDate(raw.CreationDate),
+                modified_at: this.parseDate(raw.ModDate),
+                pdf_version: this.text(raw.PDFFormatVersion)
+            };
+
+            const pages: string[] = [];
+            let length = 0;
+            for (let number = 1; number <= Math.min(pdf.numPages, maxPages) && length < maxChars; number++) {
+                const page = await pdf.getPage(number);
+                const content = await page.getTextContent();
+                const text = content.items
+                    .map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '')
+                    .join('')
+                    .replace(/[\u0000-\u0009\u000b-\u001f\u007f]/g, ' ')
+                    .replace(/[ \u00a0]+/g, ' ')
+                    .replace(/ ?\n ?/g, '\n')
+                    .trim();
+                page.cleanup();
+                pages.push(text);
+                length += text.length + 2;
+            }
+
+            return { ok: true, pages: pdf.numPages, info, text: pages.join('\n\n').slice(0, maxChars) };
+        } catch (e) {
+            if (e instanceof Error && e.name === 'PasswordException') {
+                return { ok: false, message: 'El PDF está protegido con contraseña.' };
+            }
+            if (e instanceof pdfjs.InvalidPDFException) {
+                return { ok: false, message: 'El archivo no es un PDF válido.' };
+            }
+            this.handleError(e);
+            return { ok: false, message: 'No fue posible leer el PDF.' };
+        } finally {
+            if (pdf) await pdf.destroy();
+        }
+    }
+}
@@ -0,0 +1,195 @@
+import { EventEmitter } from 'events';
+import { DocumentOwner } from './quotas';
+
+/**
+ * Estado de una carga en streaming.
+ *
+ * @interface UploadStatus
+ * @property {string} id - Identificador elegido por el cliente (UUID)
+ * @property {'receiving' | 'completed' | 'failed'} status - Etapa de la carga
+ * @property {number} received - Bytes del archivo procesados
+ * @property {number | null} total - Tamaño aproximado de la petición (Content-Length), si se conoce
+ * @property {number} [document_id] - Documento registrado al completarse
+ * @property {string} [error] - Motivo del fallo
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface UploadStatus {
+    id: string;
+    status: 'receiving' | 'completed' | 'failed';
+    received: number;
+    total: number | null;
+    document_id?: number;
+    error?: string;
+}
+
+/**
+ * Progreso de las cargas en streaming, en memoria del proceso.
+ *
+ * El cliente genera un UUID, lo envía en `X-Upload-Id` al subir y lo usa
+ * para consultar el avance mientras la petición sigue abierta, ya sea con
+ * una consulta puntual o suscribiéndose a los eventos. Cada estado solo es
+ * visible para el usuario o cliente que inició la carga y se descarta unos minutos
+ * después de terminar.
+ *
+ * Como vive en memoria, con varias instancias detrás de un balanceador la
+ * consulta debe llegar a la misma instancia que recibe la carga (afinidad de sesión).
+ *
+ * @class UploadProgress
+ * @description Registro y difusión del avance de cargas en streaming
+ * @version 1.0.0
+ * @author OmarGo96
+ *
+ * @example
+ * UploadProgress.start(id, { user_id: 7, client_id: null }, Number(req.headers['content-length']));
+ * UploadProgress.update(id, bytes);
+ * const stop = UploadProgress.subscribe(id, { user_id: 7, client_id: null }, status => res.write(`data: ${JSON.stringify(status)}\n\n`));
+ *
+ * @since 1.3.0
+ */
+export class UploadProgress {
+    /** Estado por id, con su dueño (ver `ownerKey`) */
+    private static uploads: Map<string, { owner: string, state: UploadStatus }> = new Map();
+
+    /** Difunde cada cambio con el id de la carga como nombre de evento */
+    private static events: EventEmitter = new EventEmitter().setMaxListeners(0);
+
+    /** Tiempo que se conserva el estado después de terminar */
+    private static readonly RETENTION_MS = 10 * 60 * 1000;
+
+    /** Intervalo mínimo entre notificaciones de avance, para no saturar a los suscriptores */
+    private static readonly NOTIFY_INTERVAL_MS = 250;
+
+    /** Momento de la última notificación de avance por id */
+    private static notified: Map<string, number> = new Map();
+
+    /**
+     * Identifica al dueño de una carga, sea usuario o cliente.
+     *
+     * @private
+     * @static
+     * @method ownerKey
+     * @param {DocumentOwner} owner - Usuario o cliente
+     * @returns {string} `user:<id>` o `client:<id>`
+     */
+    private static ownerKey(owner: DocumentOwner): string {
+        return owner.user_id != null ? `user:${owner.user_id}` : `client:${owner.client_id}`;
+    }
+
+    /**
+     * Publica el estado actual de una carga.
+     *
+     * @private
+     * @static
+     * @method emit
+     * @param {string} id - Id de la carga
+     * @returns {void}
+     */
+    private static emit(id: string): void {
+        const entry = this.uploads.get(id);
+        if (entry) this.events.emit(id, entry.owner, { ...entry.state });
+    }
+
+    /**
+     * Registra el inicio de una carga.
+     *
+     * @public
+     * @static
+     * @method start
+     * @param {string} id - Id elegido por el cliente
+     * @param {DocumentOwner} owner - Usuario o cliente que sube el archivo
+     * @param {number | null} total - Tamaño esperado en bytes, si se conoce
+     * @returns {boolean} false si el id ya está en uso
+     */
+    static start(id: string, owner: DocumentOwner, total: number | null): boolean {
+        if (this.uploads.has(id)) return false;
+        this.uploads.set(id, { owner: this.ownerKey(owner), state: { id, status: 'receiving', received: 0, total } });
+        this.emit(id);
+        return true;
+    }
+
+    /**
+     * Actualiza los bytes recibidos.
+     *
+     * @public
+     * @static
+     * @method update
+     * @param {string} id - Id de la carga
+     * @param {number} received - Bytes procesados hasta el momento
+     * @returns {void}
+     */
+    static update(id: string, received: number): void {
+        const entry = this.uploads.get(id);
+        if (!entry) return;
+        entry.state.received = received;
+
+        const now = Date.now();
+        if (now - (this.notified.get(id) ?? 0) >= this.NOTIFY_INTERVAL_MS) {
+            this.notified.set(id, now);
+            this.emit(id);
+        }
+    }
+
+    /**
+     * Marca una carga como terminada y programa su descarte.
+     *
+     * @public
+     * @static
+     * @method finish
+     * @param {string} id - Id de la carga
+     * @param {object} result - Resultado final
+     * @param {number} [result.document_id] - Documento registrado
+     * @param {string} [result.error] - Motivo del fallo; si se indica el estado es 'failed'
+     * @returns {void}
+     */
+    static finish(id: string, result: { document_id?: number, error?: string }): void {
+        const entry = this.uploads.get(id);
+        if (!entry) return;
+        entry.state.status = result.error ? 'failed' : 'completed';
+        entry.state.document_id = result.document_id;
+        entry.state.error = result.error;
+        this.notified.delete(id);
+        this.emit(id);
+
+        setTimeout(() => this.uploads.delete(id), this.RETENTION_MS).unref();
+    }
+
+    /**
+     * Consulta el estado de una carga.
+     *
+     * @public
+     * @static
+     * @method get
+     * @param {string} id - Id de la carga
+     * @param {DocumentOwner} owner - Usuario o cliente que consulta
+     * @returns {UploadStatus | null} Estado, o null si no existe o pertenece a otro dueño
+     */
+    static get(id: string, owner: DocumentOwner): UploadStatus | null {
+        const entry = this.uploads.get(id);
+        return entry && entry.owner === this.ownerKey(owner) ? { ...entry.state } : null;
+    }
+
+    /**
+     * Recibe cada cambio de estado de una carga.
+     *
+     * Puede llamarse antes de que la carga inicie; los eventos de cargas de
+     * otro dueño se ignoran.
+     *
+     * @public
+     * @static
+     * @method subscribe
+     * @param {string} id - Id de la carga
+     * @param {DocumentOwner} owner - Usuario o cliente suscrito
+     * @param {Function} listener - Recibe el estado actualizado
+     * @returns {Function} Cancela la suscripción
+     */
+    static subscribe(id: string, owner: DocumentOwner, listener: (status: UploadStatus) => void): () => void {
+        const subscriber = this.ownerKey(owner);
+        const handler = (uploader: string, status: UploadStatus) => {
+            if (uploader === subscriber) listener(status);
+        };
+        this.events.on(id, handler);
+        return () => this.events.off(id, handler);
+    }
+}
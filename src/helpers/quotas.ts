@@ -0,0 +1,287 @@
+import { DateTime } from 'luxon';
+import * as Sentry from "@sentry/node";
+import { Transaction } from 'sequelize';
+import { DocumentCategories } from '../config/categories';
+import { StorageQuotaModel } from '../models/storage_quota.model';
+import { StorageQuotaQueries } from '../queries/storage_quota.queries';
+
+/**
+ * Quién es dueño de un documento: un usuario o un cliente (integración).
+ *
+ * @interface DocumentOwner
+ * @property {number | null} user_id - Usuario autenticado con token de usuario
+ * @property {string | null} client_id - Cliente autenticado con token de cliente
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface DocumentOwner {
+    user_id: number | null;
+    client_id: string | null;
+}
+
+/**
+ * Consumo de un sujeto frente a sus límites.
+ *
+ * @interface QuotaUsage
+ * @property {'user' | 'client' | 'category'} scope - Alcance del límite
+ * @property {string} subject - Id del usuario, id del cliente o código de categoría
+ * @property {number} files - Documentos registrados
+ * @property {number} bytes - Bytes de todas las versiones de esos documentos
+ * @property {number | null} max_files - Límite de documentos; null sin límite
+ * @property {number | null} max_bytes - Límite de bytes; null sin límite
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface QuotaUsage {
+    scope: 'user' | 'client' | 'category';
+    subject: string;
+    files: number;
+    bytes: number;
+    max_files: number | null;
+    max_bytes: number | null;
+}
+
+/**
+ * Resultado normalizado de las operaciones de cuotas.
+ *
+ * @interface QuotaResult
+ * @property {'invalid' | 'not_found' | 'quota_exceeded' | 'failed'} [reason] - Motivo del fallo
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface QuotaResult {
+    ok: boolean;
+    reason?: 'invalid' | 'not_found' | 'quota_exceeded' | 'failed';
+    error?: string;
+    usage?: QuotaUsage[];
+    quota?: StorageQuotaModel;
+}
+
+/**
+ * Cuotas de almacenamiento por usuario, por cliente y por categoría.
+ *
+ * Los límites viven en `storage_quotas`: un registro con `subject` aplica a
+ * ese usuario, cliente o categoría, y uno con `subject` '*' es el límite por
+ * defecto de todo el alcance (no null: el índice único de MariaDB no impide
+ * dos filas con null). Sin registro no hay límite. El consumo se
+ * calcula sobre el registro de documentos: cuenta documentos y suma el tamaño
+ * de todas sus versiones, porque las anteriores también ocupan espacio
+ * (un archivo deduplicado cuenta para cada documento que lo usa).
+ *
+ * `check` se ejecuta antes de subir (con el tamaño conocido) y otra vez al
+ * registrar, con el tamaño real. La segunda corre dentro de la transacción
+ * que inserta el documento y bloquea los límites que aplican, así que cargas
+ * simultáneas del mismo sujeto se verifican una tras otra. Los sujetos sin
+ * límite no se bloquean; los que usan el límite por defecto comparten su
+ * registro y se serializan entre sí.
+ *
+ * @class QuotaManager
+ * @description Verificación y reporte de cuotas de almacenamiento
+ * @version 1.0.0
+ * @author OmarGo96
+ *
+ * @example
+ * const allowed = await new QuotaManager().check({ user_id: 15, client_id: null }, 'CONTRACT', { bytes: 52000, files: 1 });
+ * if (!allowed.ok) return res.status(JsonResponse.UNPROCESSABLE_ENTITY).json(...);
+ *
+ * @since 1.3.0
+ */
+export class QuotaManager {
+    /** Acceso a la tabla storage_quotas */
+    private queries: StorageQuotaQueries = new StorageQuotaQueries();
+
+    /** Alcances admitidos */
+    private static readonly SCOPES = ['user', 'client', 'category'];
+
+    /** `subject` del límite por defecto de un alcance */
+    private static readonly DEFAULT_SUBJECT = '*';
+
+    /**
+     * Reporta el error a Sentry y lo registra en consola con timestamp.
+     *
+     * @private
+     * @method handleError
+     * @param {any} error - Error capturado
+     * @returns {void}
+     */
+    private handleError(error: any): void {
+        Sentry.captureException(error);
+        console.log(`Error quotas a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${error}`);
+    }
+
+    /**
+     * Formatea bytes en MB para los mensajes.
+     *
+     * @private
+     * @method megabytes
+     * @param {number} bytes - Cantidad de bytes
+     * @returns {string}
+     */
+    private megabytes(bytes: number): string {
+        return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    }
+
+    /**
+     * Calcula el consumo y los límites vigentes de cada sujeto.
+     *
+     * El límite específico de un sujeto reemplaza al de por defecto de su alcance.
+     *
+     * @private
+     * @async
+     * @method measure
+     * @param {Array<{scope: string, subject: string}>} subjects - Sujetos a medir
+     * @param {Transaction} [transaction] - Transacción en la que se bloquean los límites
+     * @returns {Promise<QuotaUsage[] | null>} null si no fue posible consultar
+     */
+    private async measure(subjects: { scope: QuotaUsage['scope'], subject: string }[], transaction?: Transaction): Promise<QuotaUsage[] | null> {
+        const defaults = [...new Set(subjects.map(({ scope }) => scope))].map(scope => ({ scope, subject: QuotaManager.DEFAULT_SUBJECT }));
+        const limits = await this.queries.applicable([...subjects, ...defaults], transaction);
+        if (!limits.ok) return null;
+
+        const usage: QuotaUsage[] = [];
+        for (const { scope, subject } of subjects) {
+            const quota = limits.quotas.find(quota => quota.scope === scope && quota.subject === subject)
+                ?? limits.quotas.find(quota => quota.scope === scope && quota.subject === QuotaManager.DEFAULT_SUBJECT);
+            const column = scope === 'user' ? 'user_id' : scope === 'client' ? 'client_id' : 'category';
+            const used = await this.queries.usage({ [column]: scope === 'user' ? Number(subject) : subject }, transaction);
+            if (!used.ok) return null;
+            usage.push({
+                scope,
+                subject,
+                files: used.files,
+                bytes: used.bytes,
+                max_files: quota?.max_files ?? null,
+                max_bytes: quota?.max_bytes === null || quota?.max_bytes === undefined ? null : Number(quota.max_bytes)
+            });
+        }
+        return usage;
+    }
+
+    /**
+     * Sujetos a los que cuenta un archivo del dueño en la categoría.
+     *
+     * @private
+     * @method subjects
+     * @param {DocumentOwner} owner - Dueño del documento
+     * @param {string} [category] - Código de la categoría
+     * @returns {Array<{scope: string, subject: string}>}
+     */
+    private subjects(owner: DocumentOwner, category?: string): { scope: QuotaUsage['scope'], subject: string }[] {
+        const subjects: { scope: QuotaUsage['scope'], subject: string }[] = [];
+        if (owner.user_id !== null) subjects.push({ scope: 'user', subject: String(owner.user_id) });
+        if (owner.client_id !== null) subjects.push({ scope: 'client', subject: owner.client_id });
+        if (category) subjects.push({ scope: 'category', subject: category });
+        return subjects;
+    }
+
+    /**
+     * Verifica que agregar un archivo no exceda ninguna cuota.
+     *
+     * @public
+     * @async
+     * @method check
+     * @param {DocumentOwner} owner - Dueño del documento
+     * @param {string} category - Código de la categoría
+     * @param {object} incoming - Lo que se agregaría
+     * @param {number} incoming.bytes - Tamaño del archivo
+     * @param {number} incoming.files - 1 para un documento nuevo, 0 para una versión
+     * @param {Transaction} [transaction] - Transacción del registro; los límites quedan bloqueados hasta que termine
+     * @returns {Promise<QuotaResult>} `quota_exceeded` con el detalle del límite alcanzado
+     */
+    public async check(owner: DocumentOwner, category: string, incoming: { bytes: number, files: number }, transaction?: Transaction): Promise<QuotaResult> {
+        const usage = await this.measure(this.subjects(owner, category), transaction);
+        if (!usage) {
+            this.handleError(new Error(`No fue posible verificar las cuotas de la categoría ${category}`));
+            return { ok: false, reason: 'failed', error: 'No fue posible verificar la cuota de almacenamiento.' };
+        }
+
+        const labels = { user: 'del usuario', client: 'del cliente', category: 'de la categoría' };
+        for (const entry of usage) {
+            if (entry.max_files !== null && entry.files + incoming.files > entry.max_files) {
+                return { ok: false, reason: 'quota_exceeded', error: `Se excedería la cuota de documentos ${labels[entry.scope]}: ${entry.files} de ${entry.max_files} registrados.` };
+            }
+            if (entry.max_bytes !== null && entry.bytes + incoming.bytes > entry.max_bytes) {
+                return { ok: false, reason: 'quota_exceeded', error: `Se excedería la cuota de almacenamiento ${labels[entry.scope]}: ${this.megabytes(entry.bytes)} de ${this.megabytes(entry.max_bytes)} usados.` };
+            }
+        }
+        return { ok: true };
+    }
+
+    /**
+     * Reporta el consumo del dueño y de cada categoría frente a sus límites.
+     *
+     * @public
+     * @async
+     * @method usage
+     * @param {DocumentOwner} owner - Usuario o cliente que consulta
+     * @returns {Promise<QuotaResult>} `usage` con una entrada por sujeto
+     */
+    public async usage(owner: DocumentOwner): Promise<QuotaResult> {
+        const subjects = [
+            ...this.subjects(owner),
+            ...DocumentCategories.all().map(category => ({ scope: 'category' as const, subject: category.code }))
+        ];
+        const usage = await this.measure(subjects);
+        if (!usage) {
+            return { ok: false, reason: 'failed', error: 'No fue posible obtener el consumo de almacenamiento.' };
+        }
+        return { ok: true, usage };
+    }
+
+    /**
+     * Define o elimina el límite de un sujeto.
+     *
+     * Sin `subject` se define el límite por defecto del alcance (se guarda
+     * con `subject` '*'). Con `max_bytes` y `max_files` en null el límite se elimina.
+     *
+     * @public
+     * @async
+     * @method setLimit
+     * @param {object} data - Datos del límite
+     * @param {string} data.scope - 'user', 'client' o 'category'
+     * @param {string} [data.subject] - Id del usuario o cliente, o código de categoría
+     * @param {number | null} [data.max_bytes] - Bytes máximos
+     * @param {number | null} [data.max_files] - Documentos máximos
+     * @returns {Promise<QuotaResult>} `quota` definida (ausente si se eliminó)
+     */
+    public async setLimit(data: { scope: any, subject?: any, max_bytes?: any, max_files?: any }): Promise<QuotaResult> {
+        if (!QuotaManager.SCOPES.includes(data.scope)) {
+            return { ok: false, reason: 'invalid', error: `scope debe ser uno de: ${QuotaManager.SCOPES.join(', ')}.` };
+        }
+        const subject = data.subject === undefined || data.subject === null ? QuotaManager.DEFAULT_SUBJECT : String(data.subject);
+        if (subject !== QuotaManager.DEFAULT_SUBJECT) {
+            const valid = data.scope === 'user' ? /^[1-9]\d*$/.test(subject)
+                : data.scope === 'category' ? DocumentCategories.find(subject) !== undefined
+                : subject.length > 0 && subject.length <= 100;
+            if (!valid) {
+                return { ok: false, reason: 'invalid', error: 'subject no corresponde a un usuario, cliente o categoría válido.' };
+            }
+        }
+        const max_bytes = data.max_bytes ?? null;
+        const max_files = data.max_files ?? null;
+        if ((max_bytes !== null && (!Number.isSafeInteger(max_bytes) || max_bytes < 0))
+            || (max_files !== null && (!Number.isInteger(max_files) || max_files < 0))) {
+            return { ok: false, reason: 'invalid', error: 'max_bytes y max_files deben ser enteros no negativos o null.' };
+        }
+
+        if (max_bytes === null && max_files === null) {
+            const removed = await this.queries.destroy(data.scope, subject);
+            if (!removed.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible eliminar el límite.' };
+            }
+            if (removed.affected === 0) {
+                return { ok: false, reason: 'not_found', error: 'El límite no existe.' };
+            }
+            return { ok: true };
+        }
+
+        const stored = await this.queries.upsert({ scope: data.scope, subject, max_bytes, max_files });
+        if (!stored.ok) {
+            return { ok: false, reason: 'failed', error: 'No fue posible guardar el límite.' };
+        }
+        return { ok: true, quota: stored.quota };
+    }
+}
@@ -0,0 +1,317 @@
+import fs from 'fs/promises';
+import path from 'path';
+import Handlebars from 'handlebars';
+import puppeteer, { Browser } from 'puppeteer';
+import { DateTime } from 'luxon';
+import * as Sentry from "@sentry/node";
+import { Mailer } from './mailer';
+import { DocumentOwner } from './quotas';
+import { DocumentManager, DocumentResult } from './documents';
+
+/**
+ * Opciones de página del PDF generado.
+ *
+ * @interface PdfRenderOptions
+ * @property {'A4' | 'Letter' | 'Legal'} [format] - Tamaño de hoja (default PDF_PAGE_FORMAT o 'A4')
+ * @property {boolean} [landscape] - Orientación horizontal
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface PdfRenderOptions {
+    format?: 'A4' | 'Letter' | 'Legal';
+    landscape?: boolean;
+}
+
+/**
+ * Resultado normalizado de `PdfRenderer`.
+ *
+ * @interface RenderResult
+ * @property {'invalid' | 'not_found' | 'failed'} [reason] - Nombre de plantilla inválido, plantilla inexistente o error al generar
+ * @property {Buffer} [pdf] - Contenido del PDF
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface RenderResult {
+    ok: boolean;
+    reason?: 'invalid' | 'not_found' | 'failed';
+    error?: string;
+    pdf?: Buffer;
+}
+
+/**
+ * Generación de PDFs a partir de las plantillas Handlebars de `files/templates`.
+ *
+ * La plantilla se compila con el contexto (los valores se escapan como en
+ * los correos) y el HTML resultante se imprime con Chrome sin interfaz. El
+ * navegador se inicia con el primer PDF y se reutiliza; cada PDF usa su propia
+ * pestaña. En la página no se ejecuta JavaScript y solo se cargan recursos
+ * `http(s)` y `data:`, para que un valor del contexto no pueda leer archivos
+ * del servidor. Como en `Mailer`, cualquier plantilla del directorio puede
+ * usarse como partial (`{{> encabezado}}`).
+ *
+ * Además de los de Handlebars, las plantillas cuentan con el helper
+ * `{{date valor "dd/MM/yyyy"}}` (formato de Luxon, en español).
+ *
+ * @class PdfRenderer
+ * @description PDFs desde plantillas Handlebars con Chrome sin interfaz
+ * @version 1.0.0
+ * @author OmarGo96
+ *
+ * @environment
+ * - **PDF_CHROME_PATH**: Ejecutable de Chrome/Chromium; sin valor se usa el que descarga puppeteer
+ * - **PDF_CHROME_NO_SANDBOX**: 'true' para iniciar Chrome sin sandbox (contenedores que corren como root)
+ * - **PDF_PAGE_FORMAT**: Tamaño de hoja por defecto (default 'A4')
+ * - **PDF_RENDER_TIMEOUT_MS**: Tiempo máximo para cargar recursos e imprimir (default 30000)
+ *
+ * @example
+ * const rendered = await new PdfRenderer().render('test', { data: { title: 'Resumen' } });
+ * const stored = await new PdfRenderer().store('test', context, { owner, category: 'CONTRACT', filename: 'resumen.pdf' });
+ * await new PdfRenderer().mail('test', context, { email, subject: 'Su resumen', template: 'test', filename: 'resumen.pdf' });
+ *
+ * @since 1.3.0
+ */
+export class PdfRenderer {
+    /** Registro de documentos, para guardar el PDF generado */
+    private documents: DocumentManager = new DocumentManager();
+
+    /** Directorio de las plantillas, compartido con `Mailer` */
+    private static readonly TEMPLATES = path.join(__dirname, '../../files/templates/');
+
+    /** Navegador compartido; null hasta el primer PDF o después de cerrarse */
+    private static browser: Promise<Browser> | null = null;
+
+    /** Entorno de Handlebars propio, para no registrar helpers en el global */
+    private static handlebars = PdfRenderer.createHandlebars();
+
+    /**
+     * Reporta el error a Sentry y lo registra en consola con timestamp.
+     *
+     * @private
+     * @method handleError
+     * @param {any} error - Error capturado
+     * @returns {void}
+     */
+    private handleError(error: any): void {
+        Sentry.captureException(error);
+        console.log(`Error renderer a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${error}`);
+    }
+
+    /**
+     * Crea el entorno de Handlebars con los helpers de las plantillas.
+     *
+     * @private
+     * @static
+     * @method createHandlebars
+     * @returns {typeof Handlebars}
+     */
+    private static createHandlebars(): typeof Handlebars {
+        const handlebars = Handlebars.create();
+        handlebars.registerHelper('date', (value: any, format: any) => {
+            const date = value instanceof Date ? DateTime.fromJSDate(value) : DateTime.fromISO(String(value ?? ''));
+            if (!date.isValid) return '';
+            return date.setLocale('es').toFormat(typeof format === 'string' ? format : 'dd/MM/yyyy');
+        });
+        return handlebars;
+    }
+
+    /**
+     * Obtiene el navegador compartido, iniciándolo si hace falta.
+     *
+     * Si Chrome se cierra o falla al iniciar, el siguiente PDF lo vuelve a iniciar.
+     *
+     * @private
+     * @static
+     * @method launch
+     * @returns {Promise<Browser>}
+     */
+    private static launch(): Promise<Browser> {
+        if (!this.browser) {
+            const args = ['--disable-dev-shm-usage'];
+            if (process.env.PDF_CHROME_NO_SANDBOX === 'true') args.push('--no-sandbox', '--disable-setuid-sandbox');
+
+            const launched = puppeteer.launch({ headless: true, executablePath: process.env.PDF_CHROME_PATH || undefined, args });
+            this.browser = launched;
+            launched.then(
+                browser => browser.once('disconnected', () => { if (this.browser === launched) this.browser = null; }),
+                () => { if (this.browser === launched) this.browser = null; }
+            );
+        }
+        return this.browser;
+    }
+
+    /**
+     * Cierra el navegador compartido, por ejemplo al apagar el servidor.
+     *
+     * @public
+     * @static
+     * @async
+     * @method close
+     * @returns {Promise<void>}
+     */
+    static async close(): Promise<void> {
+        const browser = this.browser;
+        this.browser = null;
+        if (browser) await browser.then(opened => opened.close(), () => undefined);
+    }
+
+    /**
+     * Lee una plantilla y registra las demás del directorio como partials.
+     *
+     * @private
+     * @async
+     * @method compile
+     * @param {string} template - Nombre de la plantilla sin extensión
+     * @returns {Promise<HandlebarsTemplateDelegate | null>} null si la plantilla no existe
+     */
+    private async compile(template: string): Promise<HandlebarsTemplateDelegate | null> {
+        const files = (await fs.readdir(PdfRenderer.TEMPLATES)).filter(file => file.endsWith('.hbs'));
+        if (!files.includes(`${template}.hbs`)) return null;
+
+        const handlebars = PdfRenderer.handlebars;
+        for (const file of files) {
+            handlebars.registerPartial(path.basename(file, '.hbs'), await fs.readFile(path.join(PdfRenderer.TEMPLATES, file), 'utf8'));
+        }
+        return handlebars.compile(await fs.readFile(path.join(PdfRenderer.TEMPLATES, `${template}.hbs`), 'utf8'));
+    }
+
+    /**
+     * Renderiza una plantilla a HTML, sin imprimirla.
+     *
+     * @public
+     * @async
+     * @method html
+     * @param {string} template - Nombre de la plantilla sin extensión
+     * @param {any} [context] - Datos de la plantilla
+     * @returns {Promise<{ok: boolean, html?: string, reason?: 'invalid' | 'not_found' | 'failed', error?: string}>}
+     */
+    public async html(template: string, context: any = {}): Promise<{ ok: boolean, html?: string, reason?: 'invalid' | 'not_found' | 'failed', error?: string }> {
+        if (typeof template !== 'string' || !/^[a-z0-9_-]+$/i.test(template)) {
+            return { ok: false, reason: 'invalid', error: 'El nombre de la plantilla no es válido.' };
+        }
+        try {
+            const compiled = await this.compile(template);
+            if (!compiled) {
+                return { ok: false, reason: 'not_found', error: `La plantilla ${template} no existe.` };
+            }
+            return { ok: true, html: compiled(context) };
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, reason: 'failed', error: `No fue posible procesar la plantilla ${template}.` };
+        }
+    }
+
+    /**
+     * Genera el PDF de una plantilla.
+     *
+     * @public
+     * @async
+     * @method render
+     * @param {string} template - Nombre de la plantilla sin extensión
+     * @param {any} [context] - Datos de la plantilla
+     * @param {PdfRenderOptions} [options] - Tamaño y orientación de la hoja
+     * @returns {Promise<RenderResult>} `pdf` con el contenido
+     */
+    public async render(template: string, context: any = {}, options: PdfRenderOptions = {}): Promise<RenderResult> {
+        const rendered = await this.html(template, context);
+        if (!rendered.ok) return rendered;
+
+        const timeout = Number(process.env.PDF_RENDER_TIMEOUT_MS) || 30000;
+        let page: Awaited<ReturnType<Browser['newPage']>> | undefined;
+        try {
+            const browser = await PdfRenderer.launch();
+            page = await browser.newPage();
+            await page.setJavaScriptEnabled(false);
+            await page.setRequestInterception(true);
+            page.on('request', request => {
+                if (/^(https?|data):/i.test(request.url())) request.continue();
+                else request.abort();
+            });
+            await page.setContent(rendered.html, { waitUntil: 'networkidle0', timeout });
+
+            const pdf = await page.pdf({
+                format: options.format ?? (process.env.PDF_PAGE_FORMAT as PdfRenderOptions['format']) ?? 'A4',
+                landscape: options.landscape ?? false,
+                printBackground: true,
+                preferCSSPageSize: true,
+                timeout
+            });
+            return { ok: true, pdf: Buffer.from(pdf) };
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, reason: 'failed', error: 'No fue posible generar el PDF.' };
+        } finally {
+            if (page) await page.close().catch(() => undefined);
+        }
+    }
+
+    /**
+     * Genera el PDF de una plantilla y lo registra como documento de una categoría.
+     *
+     * Pasa por `DocumentManager.upload`, así que aplica lo mismo que a un
+     * archivo subido: tipos y tamaño de la categoría, cuotas, análisis
+     * antimalware y extracción de texto.
+     *
+     * @public
+     * @async
+     * @method store
+     * @param {string} template - Nombre de la plantilla sin extensión
+     * @param {any} context - Datos de la plantilla
+     * @param {object} target - Dónde se registra
+     * @param {DocumentOwner} target.owner - Dueño del documento
+     * @param {string} target.category - Código de la categoría
+     * @param {string} target.filename - Nombre original con el que se registra (ej. 'certificado.pdf')
+     * @param {number} [target.document_id] - Documento al que se agrega como versión nueva
+     * @param {PdfRenderOptions} [options] - Tamaño y orientación de la hoja
+     * @returns {Promise<DocumentResult & { pdf?: Buffer }>} Documento registrado y contenido
+     */
+    public async store(template: string, context: any, target: { owner: DocumentOwner, category: string, filename: string, document_id?: number }, options: PdfRenderOptions = {}): Promise<DocumentResult & { pdf?: Buffer }> {
+        const rendered = await this.render(template, context, options);
+        if (!rendered.ok) {
+            return { ok: false, reason: rendered.reason === 'failed' ? 'failed' : 'invalid', error: rendered.error };
+        }
+
+        const stored = await this.documents.upload(
+            target.owner,
+            { files: { file: { name: target.filename, data: rendered.pdf, mimetype: 'application/pdf', size: rendered.pdf.length } } },
+            target.category,
+            target.document_id
+        );
+        return stored.ok ? { ...stored, pdf: rendered.pdf } : stored;
+    }
+
+    /**
+     * Genera el PDF de una plantilla y lo envía adjunto en un correo.
+     *
+     * @public
+     * @async
+     * @method mail
+     * @param {string} template - Plantilla del PDF
+     * @param {any} context - Datos de la plantilla del PDF
+     * @param {object} mail - Correo que lleva el adjunto
+     * @param {string} mail.email - Destinatario
+     * @param {string} mail.subject - Asunto
+     * @param {string} mail.template - Plantilla del cuerpo del correo
+     * @param {any} [mail.context] - Datos del cuerpo del correo
+     * @param {string} mail.filename - Nombre del adjunto
+     * @param {PdfRenderOptions} [options] - Tamaño y orientación de la hoja
+     * @returns {Promise<RenderResult>} `pdf` enviado
+     */
+    public async mail(template: string, context: any, mail: { email: string, subject: string, template: string, context?: any, filename: string }, options: PdfRenderOptions = {}): Promise<RenderResult> {
+        const rendered = await this.render(template, context, options);
+        if (!rendered.ok) return rendered;
+
+        const sent = await new Mailer().send({
+            email: mail.email,
+            subject: mail.subject,
+            template: mail.template,
+            context: mail.context,
+            attachments: [{ filename: mail.filename, content: rendered.pdf, contentType: 'application/pdf' }]
+        });
+        if (!sent.ok) {
+            return { ok: false, reason: 'failed', error: 'No fue posible enviar el correo con el PDF.' };
+        }
+        return rendered;
+    }
+}
@@ -0,0 +1,343 @@
+import { DateTime } from 'luxon';
+import * as Sentry from "@sentry/node";
+import { FileManager } from './files';
+import { DocumentManager } from './documents';
+import { ServerLogger } from '../utils/logger';
+import { DocumentCategories, DocumentCategory } from '../config/categories';
+import { DocumentModel } from '../models/document.model';
+import { DocumentQueries } from '../queries/document.queries';
+import { DocumentVersionQueries } from '../queries/document_version.queries';
+
+/**
+ * Resumen por categoría de una pasada de retención.
+ *
+ * @interface RetentionCategoryReport
+ * @property {string} category - Código de la categoría
+ * @property {number} retention_days - Días de retención configurados
+ * @property {'delete' | 'archive'} action - Acción aplicada a los vencidos
+ * @property {Date} cutoff - Los documentos creados antes de esta fecha están vencidos
+ * @property {number} expired - Documentos vencidos encontrados
+ * @property {number} held - Vencidos que se conservan por retención legal
+ * @property {number} processed - Eliminados o archivados (en simulación, los que se procesarían)
+ * @property {number} failed - Los que no pudieron procesarse
+ * @property {number} bytes - Suma del tamaño vigente de los procesados
+ * @property {string} [error] - Motivo si la categoría no pudo recorrerse completa
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface RetentionCategoryReport {
+    category: string;
+    retention_days: number;
+    action: 'delete' | 'archive';
+    cutoff: Date;
+    expired: number;
+    held: number;
+    processed: number;
+    failed: number;
+    bytes: number;
+    error?: string;
+}
+
+/**
+ * Documento vencido y lo que se hizo (o se haría) con él.
+ *
+ * @interface RetentionItem
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface RetentionItem {
+    id: number;
+    category: string;
+    original_name: string | null;
+    size: number;
+    created_at: Date;
+    outcome: 'delete' | 'archive' | 'held' | 'failed';
+    error?: string;
+}
+
+/**
+ * Reporte de una pasada de retención.
+ *
+ * @interface RetentionReport
+ * @property {boolean} dry_run - true si no se eliminó ni archivó nada
+ * @property {RetentionItem[]} documents - Detalle por documento, hasta MAX_REPORT_ITEMS
+ * @property {boolean} truncated - true si `documents` no incluye todos los vencidos
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface RetentionReport {
+    dry_run: boolean;
+    started_at: Date;
+    finished_at: Date;
+    categories: RetentionCategoryReport[];
+    documents: RetentionItem[];
+    truncated: boolean;
+}
+
+/**
+ * Resultado normalizado de `RetentionSweeper.run`.
+ *
+ * @interface RetentionResult
+ * @property {'invalid' | 'busy'} [reason] - Categoría inexistente o sin retención, u otra pasada en curso
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface RetentionResult {
+    ok: boolean;
+    reason?: 'invalid' | 'busy';
+    error?: string;
+    report?: RetentionReport;
+}
+
+/**
+ * Aplica la retención de cada categoría a los documentos registrados.
+ *
+ * Un documento vence cuando su fecha de alta es anterior a `retention_days`
+ * días; se elimina con todas sus versiones (igual que `DELETE /documents/:id`)
+ * o, si la categoría tiene `retention_action: 'archive'`, antes de eliminarlo
+ * se copian sus archivos y un manifiesto con sus metadatos e historial bajo
+ * `DocumentCategories.archivePrefix()`. Las categorías sin `retention_days`
+ * nunca vencen. Los documentos bajo retención legal se reportan y se conservan.
+ *
+ * En simulación (`dry_run`) se recorre lo mismo sin tocar nada, para revisar
+ * el efecto de una política antes de activarla.
+ *
+ * La pasada programada (`schedule`) corre en el proceso; con varias
+ * instancias conviene activarla solo en una. Una pasada repetida sobre los
+ * mismos documentos no hace daño: el borrado es transaccional y el archivo
+ * sobrescribe las copias anteriores.
+ *
+ * @class RetentionSweeper
+ * @description Depuración y archivo de documentos vencidos
+ * @version 1.0.0
+ * @author OmarGo96
+ *
+ * @environment
+ * - **RETENTION_SWEEP_INTERVAL_MINUTES**: Minutos entre pasadas automáticas; sin valor no se programan
+ *
+ * @example
+ * const preview = await new RetentionSweeper().run({ dry_run: true, category: 'MEMBERSHIP' });
+ * RetentionSweeper.schedule();
+ *
+ * @since 1.3.0
+ */
+export class RetentionSweeper {
+    /** Acceso a la tabla documents */
+    private queries: DocumentQueries = new DocumentQueries();
+
+    /** Acceso a la tabla document_versions */
+    private versionQueries: DocumentVersionQueries = new DocumentVersionQueries();
+
+    /** Operaciones sobre el almacenamiento */
+    private files: FileManager = new FileManager();
+
+    /** Registro de documentos */
+    private documents: DocumentManager = new DocumentManager();
+
+    /** Documentos leídos por consulta */
+    private static readonly BATCH_SIZE = 100;
+
+    /** Documentos detallados en el reporte */
+    private static readonly MAX_REPORT_ITEMS = 1000;
+
+    /** Evita dos pasadas reales simultáneas en el mismo proceso */
+    private static running = false;
+
+    /** Temporizador de la pasada automática */
+    private static timer: NodeJS.Timeout | null = null;
+
+    /**
+     * Reporta el error a Sentry y lo registra en consola con timestamp.
+     *
+     * @private
+     * @method handleError
+     * @param {any} error - Error capturado
+     * @returns {void}
+     */
+    private handleError(error: any): void {
+        Sentry.captureException(error);
+        console.log(`Error retention a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${error}`);
+    }
+
+    /**
+     * Programa la pasada automática según RETENTION_SWEEP_INTERVAL_MINUTES.
+     *
+     * El temporizador no mantiene vivo el proceso y una pasada no empieza
+     * mientras la anterior siga en curso.
+     *
+     * @public
+     * @static
+     * @method schedule
+     * @returns {boolean} true si quedó programada
+     */
+    static schedule(): boolean {
+        const minutes = Number(process.env.RETENTION_SWEEP_INTERVAL_MINUTES);
+        if (this.timer || !Number.isFinite(minutes) || minutes <= 0) return false;
+
+        this.timer = setInterval(() => {
+            new RetentionSweeper().run({ dry_run: false }).catch(e => Sentry.captureException(e));
+        }, minutes * 60 * 1000);
+        this.timer.unref();
+        return true;
+    }
+
+    /**
+     * Ejecuta una pasada de retención.
+     *
+     * @public
+     * @async
+     * @method run
+     * @param {object} options - Opciones de la pasada
+     * @param {boolean} options.dry_run - Solo reportar, sin eliminar ni archivar
+     * @param {string} [options.category] - Limitar a una categoría
+     * @returns {Promise<RetentionResult>} `report` con el resumen y el detalle
+     */
+    public async run(options: { dry_run: boolean, category?: any }): Promise<RetentionResult> {
+        let categories = DocumentCategories.all().filter(category => category.retention_days !== null);
+        if (options.category !== undefined) {
+            const category = DocumentCategories.find(String(options.category));
+            if (!category) {
+                return { ok: false, reason: 'invalid', error: 'La categoría no existe.' };
+            }
+            if (category.retention_days === null) {
+                return { ok: false, reason: 'invalid', error: `La categoría ${category.code} no tiene retención configurada.` };
+            }
+            categories = [category];
+        }
+
+        if (!options.dry_run) {
+            if (RetentionSweeper.running) {
+                return { ok: false, reason: 'busy', error: 'Ya hay una depuración en curso.' };
+            }
+            RetentionSweeper.running = true;
+        }
+
+        try {
+            const report: RetentionReport = { dry_run: options.dry_run, started_at: new Date(), finished_at: new Date(), categories: [], documents: [], truncated: false };
+            for (const category of categories) {
+                report.categories.push(await this.sweep(category, options.dry_run, report));
+            }
+            report.finished_at = new Date();
+
+            if (!options.dry_run) {
+                const processed = report.categories.reduce((sum, category) => sum + category.processed, 0);
+                const failed = report.categories.reduce((sum, category) => sum + category.failed, 0);
+                ServerLogger.log({
+                    type: failed > 0 ? 'warn' : 'info',
+                    port: Number(process.env.LISTEN_PORT),
+                    message: `Retención de documentos: ${processed} procesados, ${failed} con error.`
+                });
+            }
+            return { ok: true, report };
+        } finally {
+            if (!options.dry_run) RetentionSweeper.running = false;
+        }
+    }
+
+    /**
+     * Recorre los documentos vencidos de una categoría.
+     *
+     * @private
+     * @async
+     * @method sweep
+     * @param {DocumentCategory} category - Categoría con retención
+     * @param {boolean} dry_run - Solo reportar
+     * @param {RetentionReport} report - Reporte donde se agrega el detalle
+     * @returns {Promise<RetentionCategoryReport>} Resumen de la categoría
+     */
+    private async sweep(category: DocumentCategory, dry_run: boolean, report: RetentionReport): Promise<RetentionCategoryReport> {
+        const summary: RetentionCategoryReport = {
+            category: category.code,
+            retention_days: category.retention_days,
+            action: category.retention_action,
+            cutoff: DateTime.now().minus({ days: category.retention_days }).toJSDate(),
+            expired: 0,
+            held: 0,
+            processed: 0,
+            failed: 0,
+            bytes: 0
+        };
+
+        // Se avanza por id: lo eliminado sale de la consulta y lo conservado no se vuelve a leer
+        let after_id = 0;
+        while (true) {
+            const batch = await this.queries.expired(category.code, summary.cutoff, after_id, RetentionSweeper.BATCH_SIZE);
+            if (!batch.ok) {
+                summary.error = 'No fue posible obtener los documentos vencidos.';
+                this.handleError(new Error(`${summary.error} (${category.code})`));
+                break;
+            }
+
+            for (const document of batch.documents) {
+                after_id = document.id;
+                summary.expired++;
+                const outcome = document.legal_hold
+                    ? { outcome: 'held' as const }
+                    : dry_run ? { outcome: category.retention_action } : await this.expire(document, category.retention_action);
+
+                if (outcome.outcome === 'held') summary.held++;
+                else if (outcome.outcome === 'failed') summary.failed++;
+                else {
+                    summary.processed++;
+                    summary.bytes += Number(document.size);
+                }
+
+                if (report.documents.length < RetentionSweeper.MAX_REPORT_ITEMS) {
+                    report.documents.push({
+                        id: document.id,
+                        category: document.category,
+                        original_name: document.original_name,
+                        size: Number(document.size),
+                        created_at: document.createdAt,
+                        ...outcome
+                    });
+                } else {
+                    report.truncated = true;
+                }
+            }
+            if (batch.documents.length < RetentionSweeper.BATCH_SIZE) break;
+        }
+        return summary;
+    }
+
+    /**
+     * Archiva (si corresponde) y elimina un documento vencido.
+     *
+     * Si el archivo falla, el documento se conserva para la siguiente pasada.
+     *
+     * @private
+     * @async
+     * @method expire
+     * @param {DocumentModel} document - Documento vencido
+     * @param {'delete' | 'archive'} action - Acción de la categoría
+     * @returns {Promise<{outcome: 'delete' | 'archive' | 'held' | 'failed', error?: string}>}
+     */
+    private async expire(document: DocumentModel, action: 'delete' | 'archive'): Promise<{ outcome: 'delete' | 'archive' | 'held' | 'failed', error?: string }> {
+        if (action === 'archive') {
+            const history = await this.versionQueries.index(document.id);
+            if (!history.ok) {
+                return { outcome: 'failed', error: 'No fue posible obtener las versiones.' };
+            }
+            const archived = await this.files.archive(
+                history.versions.map(version => ({ key: version.key, mimetype: version.mimetype })),
+                `documents/${document.id}`,
+                { document: document.get({ plain: true }), versions: history.versions.map(version => version.get({ plain: true })) }
+            );
+            if (!archived.ok) {
+                return { outcome: 'failed', error: archived.message };
+            }
+        }
+
+        // La retención legal pudo activarse después de leer el lote; `remove` la vuelve a revisar
+        const removed = await this.documents.remove(document.id);
+        if (!removed.ok && removed.reason === 'held') return { outcome: 'held' };
+        if (!removed.ok && removed.reason !== 'not_found') {
+            this.handleError(new Error(`No fue posible depurar el documento ${document.id}: ${removed.error}`));
+            return { outcome: 'failed', error: removed.error };
+        }
+        return { outcome: action };
+    }
+}
@@ -0,0 +1,171 @@
+import { Op } from 'sequelize';
+import { RevokedTokenModel } from '../models/revoked_token.model';
+
+/**
+ * Datos mínimos de un JWT necesarios para consultar la lista de revocación.
+ *
+ * @interface TokenReference
+ * @property {string} [jti] - Identificador único del token
+ * @property {number} [userId] - Usuario dueño del token (ya desencriptado)
+ * @property {number} [iat] - Fecha de emisión en segundos desde epoch
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface TokenReference {
+    jti?: string;
+    userId?: number;
+    iat?: number;
+}
+
+/**
+ * Contrato que debe cumplir cualquier backend de revocación de tokens.
+ *
+ * Permite intercambiar el almacenamiento (memoria, base de datos, Redis, etc.)
+ * sin modificar el middleware que valida los tokens.
+ *
+ * @interface RevocationStore
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface RevocationStore {
+    /** Revoca un token puntual hasta su fecha de expiración */
+    revoke(jti: string, expiresAt: Date): Promise<void>;
+    /** Revoca todos los tokens de un usuario emitidos antes de `issuedBefore` */
+    revokeUser(userId: number, issuedBefore: Date): Promise<void>;
+    /** Indica si el token fue revocado por cualquiera de los dos mecanismos */
+    isRevoked(token: TokenReference): Promise<boolean>;
+}
+
+/**
+ * Backend de revocación en memoria del proceso.
+ *
+ * Pensado para desarrollo y pruebas: la lista se pierde al reiniciar y no se
+ * comparte entre instancias. Los jti expirados se depuran en cada escritura.
+ *
+ * @class MemoryRevocationStore
+ * @implements {RevocationStore}
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export class MemoryRevocationStore implements RevocationStore {
+    /** jti revocados y el momento (ms) en que expiran */
+    private tokens: Map<string, number> = new Map();
+
+    /** Fecha de corte (ms) por usuario para revocaciones masivas */
+    private users: Map<number, number> = new Map();
+
+    public async revoke(jti: string, expiresAt: Date): Promise<void> {
+        const now = Date.now();
+        for (const [key, expires] of this.tokens) {
+            if (expires <= now) this.tokens.delete(key);
+        }
+        this.tokens.set(jti, expiresAt.getTime());
+    }
+
+    public async revokeUser(userId: number, issuedBefore: Date): Promise<void> {
+        this.users.set(userId, issuedBefore.getTime());
+    }
+
+    public async isRevoked(token: TokenReference): Promise<boolean> {
+        if (token.jti && this.tokens.has(token.jti)) return true;
+
+        const cutoff = (token.userId !== undefined) ? this.users.get(token.userId) : undefined;
+        return cutoff !== undefined && token.iat !== undefined && token.iat <= Math.floor(cutoff / 1000);
+    }
+}
+
+/**
+ * Backend de revocación persistido en la tabla `revoked_tokens`.
+ *
+ * Comparte la lista entre todas las instancias del API. Las revocaciones por
+ * usuario se guardan como un único registro con `jti` nulo y la fecha de corte
+ * en `not_before`.
+ *
+ * @class DatabaseRevocationStore
+ * @implements {RevocationStore}
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export class DatabaseRevocationStore implements RevocationStore {
+
+    public async revoke(jti: string, expiresAt: Date): Promise<void> {
+        await RevokedTokenModel.destroy({ where: { expires_at: { [Op.lt]: new Date() } } });
+        await RevokedTokenModel.findOrCreate({
+            where: { jti },
+            defaults: { jti, expires_at: expiresAt }
+        });
+    }
+
+    public async revokeUser(userId: number, issuedBefore: Date): Promise<void> {
+        const [entry, created] = await RevokedTokenModel.findOrCreate({
+            where: { user_id: userId, jti: { [Op.is]: null } },
+            defaults: { user_id: userId, not_before: issuedBefore }
+        });
+        if (!created) {
+            await entry.update({ not_before: issuedBefore });
+        }
+    }
+
+    public async isRevoked(token: TokenReference): Promise<boolean> {
+        const conditions: any[] = [];
+        if (token.jti) {
+            conditions.push({ jti: token.jti });
+        }
+        if (token.userId !== undefined && token.iat !== undefined) {
+            conditions.push({
+                user_id: token.userId,
+                jti: { [Op.is]: null },
+                not_before: { [Op.gte]: new Date(token.iat * 1000) }
+            });
+        }
+        if (conditions.length === 0) return false;
+
+        const count = await RevokedTokenModel.count({ where: { [Op.or]: conditions } });
+        return count > 0;
+    }
+}
+
+/**
+ * Punto de acceso al backend de revocación activo.
+ *
+ * El backend se elige con la variable de entorno `TOKEN_REVOCATION_STORE`
+ * ('memory' o 'database', por defecto 'database') y puede sustituirse en
+ * tiempo de ejecución con `configure`.
+ *
+ * @class TokenRevocation
+ * @description Selector estático del backend de revocación de JWT
+ * @version 1.0.0
+ * @author OmarGo96
+ *
+ * @example
+ * // Revocar el token actual al cerrar sesión:
+ * await TokenRevocation.store.revoke(jti, new Date(exp * 1000));
+ *
+ * @example
+ * // Usar un backend propio:
+ * TokenRevocation.configure({ store: new RedisRevocationStore(client) });
+ *
+ * @since 1.3.0
+ */
+export class TokenRevocation {
+    /** Backend activo */
+    static store: RevocationStore = (process.env.TOKEN_REVOCATION_STORE === 'memory')
+        ? new MemoryRevocationStore()
+        : new DatabaseRevocationStore();
+
+    /**
+     * Sustituye el backend de revocación.
+     *
+     * @static
+     * @method configure
+     * @param {object} opts - Opciones de configuración
+     * @param {RevocationStore} [opts.store] - Backend a utilizar
+     * @returns {void}
+     */
+    static configure(opts: { store?: RevocationStore } = {}): void {
+        if (opts.store) {
+            this.store = opts.store;
+        }
+    }
+}
@@ -0,0 +1,259 @@
+import net from 'net';
+import { Readable } from 'stream';
+
+/**
+ * Resultado del análisis de un archivo.
+ *
+ * @interface ScanResult
+ * @property {boolean} clean - true si no se encontró malware
+ * @property {string} [signature] - Firma detectada cuando `clean` es false
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface ScanResult {
+    clean: boolean;
+    signature?: string;
+}
+
+/**
+ * Contrato de un motor antimalware.
+ *
+ * `scan` lee el stream completo y lanza una excepción si no pudo emitir un
+ * veredicto (motor caído, tiempo agotado, archivo demasiado grande para el
+ * motor); en ese caso el archivo no debe liberarse.
+ *
+ * @interface MalwareScanner
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface MalwareScanner {
+    /** Nombre del motor, registrado en la auditoría ('none', 'eicar', 'clamav') */
+    readonly name: string;
+    /** Analiza el contenido y devuelve el veredicto */
+    scan(stream: Readable): Promise<ScanResult>;
+}
+
+/**
+ * Motor que no analiza nada; con él las cargas se guardan directo sin cuarentena.
+ *
+ * @class NoopScanner
+ * @implements {MalwareScanner}
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export class NoopScanner implements MalwareScanner {
+    readonly name = 'none';
+
+    public async scan(stream: Readable): Promise<ScanResult> {
+        stream.resume();
+        return { clean: true };
+    }
+}
+
+/**
+ * Motor de prueba que solo reconoce el archivo de prueba EICAR.
+ *
+ * Permite probar el flujo de cuarentena y rechazo sin un antivirus real.
+ * La cadena se busca en todo el contenido, conservando entre bloques los
+ * bytes necesarios para encontrarla aunque quede partida.
+ *
+ * @class EicarScanner
+ * @implements {MalwareScanner}
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export class EicarScanner implements MalwareScanner {
+    readonly name = 'eicar';
+
+    /** Cadena estándar del archivo de prueba EICAR */
+    private static readonly SIGNATURE = Buffer.from('X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*');
+
+    public async scan(stream: Readable): Promise<ScanResult> {
+        const signature = EicarScanner.SIGNATURE;
+        let tail = Buffer.alloc(0);
+        let found = false;
+        for await (const chunk of stream) {
+            if (found) continue;
+            const window = Buffer.concat([tail, chunk]);
+            found = window.includes(signature);
+            tail = window.subarray(Math.max(0, window.length - signature.length + 1));
+        }
+        return found ? { clean: false, signature: 'Eicar-Test-Signature' } : { clean: true };
+    }
+}
+
+/**
+ * Motor sobre un demonio clamd, por socket Unix o TCP.
+ *
+ * Usa el comando INSTREAM: el contenido se envía en bloques precedidos por
+ * su longitud (4 bytes big-endian) y un bloque de longitud cero marca el
+ * final. clamd rechaza los archivos mayores a su `StreamMaxLength`, lo que
+ * aquí se trata como error del análisis y no como archivo limpio.
+ *
+ * @class ClamAvScanner
+ * @implements {MalwareScanner}
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export class ClamAvScanner implements MalwareScanner {
+    readonly name = 'clamav';
+
+    constructor(
+        private socketPath: string = process.env.CLAMAV_SOCKET || '/var/run/clamav/clamd.ctl',
+        private host: string | undefined = process.env.CLAMAV_HOST,
+        private port: number = Number(process.env.CLAMAV_PORT) || 3310,
+        private timeoutMs: number = Number(process.env.CLAMAV_TIMEOUT_MS) || 60000
+    ) { }
+
+    public async scan(stream: Readable): Promise<ScanResult> {
+        const socket = this.host ? net.createConnection(this.port, this.host) : net.createConnection(this.socketPath);
+        socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error('clamd no respondió a tiempo')));
+
+        let reply = '';
+        socket.on('data', (data) => reply += data.toString());
+        const answered = new Promise<string>((resolve, reject) => {
+            socket.once('error', reject);
+            socket.once('close', () => resolve(reply));
+        });
+        answered.catch(() => undefined);
+
+        try {
+            await Promise.race([new Promise(resolve => socket.once('connect', resolve)), answered]);
+            socket.write('zINSTREAM\0');
+            for await (const chunk of stream) {
+                // Un bloque vacío tendría longitud cero, que clamd toma como fin del archivo
+                if (chunk.length === 0) continue;
+                const length = Buffer.alloc(4);
+                length.writeUInt32BE(chunk.length);
+                // clamd puede cerrar antes de terminar (límite de tamaño); la respuesta explica el motivo
+                if (socket.destroyed || socket.writableEnded) break;
+                if (!socket.write(Buffer.concat([length, chunk]))) {
+                    await Promise.race([new Promise(resolve => socket.once('drain', resolve)), answered]);
+                }
+            }
+            if (!socket.writableEnded) socket.end(Buffer.alloc(4));
+        } catch (e) {
+            socket.destroy();
+            stream.destroy();
+            throw e;
+        }
+
+        const response = (await answered).replace(/\0/g, '').trim();
+        const infected = /^stream: (.+) FOUND$/.exec(response);
+        if (infected) return { clean: false, signature: infected[1] };
+        if (response === 'stream: OK') return { clean: true };
+        throw new Error(`Respuesta inesperada de clamd: ${response || '(vacía)'}`);
+    }
+}
+
+/**
+ * Punto de acceso al motor antimalware y a la cuarentena.
+ *
+ * Con un motor activo, todo archivo que entra al almacenamiento se escribe
+ * primero bajo el prefijo de cuarentena y solo se mueve a la ruta de su
+ * categoría después de analizarse (`FileManager.release`). Con 'none' las
+ * cargas se guardan directo, como antes de existir el análisis.
+ *
+ * @class Scanner
+ * @description Selector estático del motor antimalware
+ * @version 1.0.0
+ * @author OmarGo96
+ *
+ * @environment
+ * - **MALWARE_SCANNER**: 'none' (default) | 'eicar' | 'clamav'
+ * - **SCAN_QUARANTINE_PREFIX**: Prefijo de cuarentena (default 'quarantine/')
+ * - **CLAMAV_SOCKET**: Socket Unix de clamd (default '/var/run/clamav/clamd.ctl')
+ * - **CLAMAV_HOST** / **CLAMAV_PORT**: clamd por TCP, si se define el host (puerto default 3310)
+ * - **CLAMAV_TIMEOUT_MS**: Tiempo máximo sin actividad del socket (default 60000)
+ *
+ * @example
+ * // Pruebas:
+ * Scanner.configure({ engine: new EicarScanner() });
+ *
+ * @since 1.3.0
+ */
+export class Scanner {
+    /** Motor activo */
+    static engine: MalwareScanner = Scanner.fromEnv();
+
+    /**
+     * Crea el motor indicado por MALWARE_SCANNER.
+     *
+     * @static
+     * @method fromEnv
+     * @returns {MalwareScanner} Motor configurado
+     * @throws {Error} Si MALWARE_SCANNER tiene un valor desconocido
+     */
+    static fromEnv(): MalwareScanner {
+        switch (process.env.MALWARE_SCANNER || 'none') {
+            case 'none': return new NoopScanner();
+            case 'eicar': return new EicarScanner();
+            case 'clamav': return new ClamAvScanner();
+            default: throw new Error(`MALWARE_SCANNER desconocido: ${process.env.MALWARE_SCANNER}`);
+        }
+    }
+
+    /**
+     * Sustituye el motor antimalware.
+     *
+     * @static
+     * @method configure
+     * @param {object} opts - Opciones de configuración
+     * @param {MalwareScanner} [opts.engine] - Motor a utilizar
+     * @returns {void}
+     */
+    static configure(opts: { engine?: MalwareScanner } = {}): void {
+        if (opts.engine) {
+            this.engine = opts.engine;
+        }
+    }
+
+    /**
+     * Prefijo bajo el que esperan los archivos sin analizar.
+     *
+     * @static
+     * @method quarantinePrefix
+     * @returns {string} Terminado en '/'
+     */
+    static quarantinePrefix(): string {
+        const prefix = process.env.SCAN_QUARANTINE_PREFIX || 'quarantine/';
+        return prefix.endsWith('/') ? prefix : `${prefix}/`;
+    }
+
+    /**
+     * Clave donde debe escribirse un archivo antes de analizarlo.
+     *
+     * @static
+     * @method quarantine
+     * @param {string} key - Clave definitiva
+     * @returns {string} Clave en cuarentena, o la misma si no hay motor activo
+     */
+    static quarantine(key: string): string {
+        return this.engine.name === 'none' ? key : this.quarantinePrefix() + key;
+    }
+
+    /**
+     * Indica si una clave está en cuarentena.
+     *
+     * @static
+     * @method isQuarantined
+     * @param {string} key - Clave del archivo
+     * @returns {boolean}
+     */
+    static isQuarantined(key: string): boolean {
+        return key.startsWith(this.quarantinePrefix());
+    }
+
+    /**
+     * Clave definitiva de un archivo en cuarentena.
+     *
+     * @static
+     * @method released
+     * @param {string} key - Clave en cuarentena
+     * @returns {string} Clave sin el prefijo de cuarentena
+     */
+    static released(key: string): string {
+        return this.isQuarantined(key) ? key.slice(this.quarantinePrefix().length) : key;
+    }
+}
@@ -0,0 +1,323 @@
+import crypto from 'crypto';
+import { DateTime } from 'luxon';
+import * as Sentry from "@sentry/node";
+import { Payload } from './payload';
+import { RefreshTokenQueries } from '../queries/refresh_token.queries';
+import { RoleQueries } from '../queries/role.queries';
+import { UserQueries } from '../queries/user.queries';
+import { TokenRevocation } from './revocation';
+
+/**
+ * Resultado normalizado de las operaciones de sesión.
+ *
+ * @interface SessionResult
+ * @property {boolean} ok - Indica si la operación fue exitosa
+ * @property {string} [token] - Access token JWT de corta duración
+ * @property {string} [refresh_token] - Refresh token opaco para renovar la sesión
+ * @property {boolean} [reused] - true cuando se detectó la reutilización de un refresh token
+ * @property {string} [error] - Descripción del error ocurrido
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+interface SessionResult {
+    ok: boolean;
+    token?: string;
+    refresh_token?: string;
+    reused?: boolean;
+    error?: string;
+}
+
+/**
+ * Gestor de sesiones basado en pares access/refresh token.
+ *
+ * Complementa a `Payload.createToken` emitiendo access tokens de corta
+ * duración acompañados de un refresh token opaco de larga duración que se
+ * almacena en base de datos (solo su hash SHA-256). Cada uso del refresh
+ * token lo rota: el anterior queda revocado y se emite uno nuevo dentro de
+ * la misma familia.
+ *
+ * **Detección de reutilización:**
+ * Si un refresh token ya rotado vuelve a presentarse, se asume que fue
+ * robado y se revoca la familia completa, obligando a iniciar sesión de
+ * nuevo en todos los dispositivos que compartían esa cadena.
+ *
+ * @class SessionManager
+ * @description Emisión y rotación de refresh tokens con detección de reutilización
+ * @version 1.0.0
+ * @author OmarGo96
+ *
+ * @environment
+ * - **ACCESS_TOKEN_EXPIRES_IN**: Duración del access token (default '15m')
+ * - **REFRESH_TOKEN_DAYS**: Días de vigencia del refresh token (default 30)
+ *
+ * @example
+ * const session = new SessionManager();
+ * const pair = await session.issue(user.id);
+ * // { ok: true, token: 'eyJhbGciOi...', refresh_token: 'q1w2e3...' }
+ *
+ * const renewed = await session.rotate(pair.refresh_token);
+ *
+ * @since 1.3.0
+ */
+export class SessionManager {
+    /** Generador de access tokens JWT */
+    private payload: Payload = new Payload();
+
+    /** Acceso a la tabla refresh_tokens */
+    private queries: RefreshTokenQueries = new RefreshTokenQueries();
+
+    /** Consulta de roles y permisos que se embeben en el access token */
+    private roleQueries: RoleQueries = new RoleQueries();
+
+    /** Consulta del usuario para no renovar sesiones de cuentas deshabilitadas */
+    private userQueries: UserQueries = new UserQueries();
+
+    /**
+     * Reporta el error a Sentry y lo registra en consola con timestamp.
+     *
+     * @private
+     * @method handleError
+     * @param {any} error - Error capturado
+     * @returns {void}
+     */
+    private handleError(error: any): void {
+        Sentry.captureException(error);
+        console.log(`Error session a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${error}`);
+    }
+
+    /**
+     * Calcula el hash con el que se persiste un refresh token.
+     *
+     * @private
+     * @method hash
+     * @param {string} refresh_token - Valor opaco entregado al cliente
+     * @returns {string} Hash SHA-256 en hexadecimal
+     */
+    private hash(refresh_token: string): string {
+        return crypto.createHash('sha256').update(refresh_token).digest('hex');
+    }
+
+    /**
+     * Emite un access token y un refresh token dentro de la familia indicada.
+     * El access token incluye los roles y permisos vigentes del usuario y el
+     * claim `amr`, que indica si la sesión superó el segundo factor.
+     *
+     * @private
+     * @async
+     * @method emit
+     * @param {number} user_id - Usuario dueño de la sesión
+     * @param {string} family - Familia a la que pertenece el refresh token
+     * @param {boolean} mfa - Si la sesión se inició con segundo factor
+     * @returns {Promise<SessionResult & { id?: number }>} Par emitido junto con el id del registro
+     */
+    private async emit(user_id: number, family: string, mfa: boolean): Promise<SessionResult & { id?: number }> {
+        // Los permisos se recalculan en cada emisión, así un refresh refleja cambios de rol
+        const grants = await this.roleQueries.grantsForUser(user_id);
+        if (!grants.ok) {
+            return { ok: false, error: 'No fue posible obtener los permisos del usuario.' };
+        }
+
+        const access = this.payload.createToken(
+            { user_id },
+            'user',
+            process.env.ACCESS_TOKEN_EXPIRES_IN || '15m',
+            'RS256',
+            { roles: grants.roles, scopes: grants.permissions, amr: mfa ? ['pwd', 'mfa'] : ['pwd'] }
+        );
+        if (!access.ok) {
+            return { ok: false, error: access.error };
+        }
+
+        const refresh_token = crypto.randomBytes(48).toString('base64url');
+        const days = Number(process.env.REFRESH_TOKEN_DAYS) || 30;
+
+        const stored = await this.queries.store({
+            user_id,
+            family,
+            token_hash: this.hash(refresh_token),
+            expires_at: DateTime.now().plus({ days }).toJSDate(),
+            mfa
+        });
+        if (!stored.ok) {
+            return { ok: false, error: 'No fue posible registrar la sesión.' };
+        }
+
+        return { ok: true, token: access.token, refresh_token, id: stored.refreshToken.id };
+    }
+
+    /**
+     * Inicia una nueva sesión creando una familia de refresh tokens.
+     *
+     * Debe invocarse después de validar las credenciales del usuario y, si
+     * la cuenta lo tiene activo, el segundo factor.
+     *
+     * @public
+     * @async
+     * @method issue
+     * @param {number} user_id - Identificador del usuario autenticado
+     * @param {object} [options] - Opciones de la sesión
+     * @param {boolean} [options.mfa=false] - La sesión superó el segundo factor; se conserva al rotar
+     * @returns {Promise<SessionResult>} Par access/refresh token o error
+     */
+    public async issue(user_id: number, options: { mfa?: boolean } = {}): Promise<SessionResult> {
+        try {
+            const { id, ...result } = await this.emit(user_id, crypto.randomUUID(), options.mfa === true);
+            return result;
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, error: 'Error al iniciar la sesión.' };
+        }
+    }
+
+    /**
+     * Intercambia un refresh token vigente por un nuevo par de tokens.
+     *
+     * **Flujo:**
+     * 1. Busca el token por su hash
+     * 2. Si ya fue revocado, revoca la familia completa (reutilización)
+     * 3. Verifica la expiración
+     * 4. Verifica que el usuario exista y siga activo; si no, revoca la familia
+     * 5. Consume el token de forma atómica
+     * 6. Emite un nuevo par en la misma familia y enlaza ambos registros
+     *
+     * @public
+     * @async
+     * @method rotate
+     * @param {string} refresh_token - Refresh token presentado por el cliente
+     * @returns {Promise<SessionResult>} Nuevo par de tokens o error (con `reused` si aplica)
+     */
+    public async rotate(refresh_token: string): Promise<SessionResult> {
+        try {
+            const found = await this.queries.showByHash(this.hash(refresh_token));
+            if (!found.ok) {
+                return { ok: false, error: 'No fue posible validar el refresh token.' };
+            }
+
+            const current = found.refreshToken;
+            if (!current) {
+                return { ok: false, error: 'El refresh token no es válido.' };
+            }
+
+            if (current.revoked_at) {
+                return this.reuseDetected(current.family, current.user_id);
+            }
+
+            if (current.expires_at.getTime() <= Date.now()) {
+                return { ok: false, error: 'El refresh token ha expirado, inicie sesión nuevamente.' };
+            }
+
+            // Una cuenta deshabilitada no debe seguir obteniendo access tokens durante REFRESH_TOKEN_DAYS
+            const owner = await this.userQueries.show(current.user_id);
+            if (!owner.ok) {
+                return { ok: false, error: 'No fue posible validar el refresh token.' };
+            }
+            if (!owner.user || !owner.user.active) {
+                await this.queries.revokeFamily(current.family);
+                return { ok: false, error: 'La cuenta no existe o está deshabilitada.' };
+            }
+
+            // Dos peticiones simultáneas con el mismo token: solo una puede consumirlo
+            const consumed = await this.queries.consume(current.id);
+            if (!consumed.ok) {
+                return { ok: false, error: 'No fue posible validar el refresh token.' };
+            }
+            if (consumed.affected === 0) {
+                return this.reuseDetected(current.family, current.user_id);
+            }
+
+            const { id, ...result } = await this.emit(current.user_id, current.family, current.mfa);
+            if (id) {
+                await this.queries.replace(current.id, id);
+            }
+
+            return result;
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, error: 'Error al renovar la sesión.' };
+        }
+    }
+
+    /**
+     * Revoca la familia completa tras detectar la reutilización de un token.
+     *
+     * @private
+     * @async
+     * @method reuseDetected
+     * @param {string} family - Familia comprometida
+     * @param {number} user_id - Usuario afectado (solo para monitoreo)
+     * @returns {Promise<SessionResult>} Error con la bandera `reused`
+     */
+    private async reuseDetected(family: string, user_id: number): Promise<SessionResult> {
+        await this.queries.revokeFamily(family);
+        Sentry.captureMessage(`Reutilización de refresh token detectada (usuario ${user_id}, familia ${family})`, 'warning');
+
+        return {
+            ok: false,
+            reused: true,
+            error: 'El refresh token ya fue utilizado; por seguridad se cerró la sesión.'
+        };
+    }
+
+    /**
+     * Cierra la sesión actual.
+     *
+     * Revoca el access token presentado (por su jti) y, si se envía, la
+     * familia del refresh token siempre que pertenezca al mismo usuario.
+     *
+     * @public
+     * @async
+     * @method logout
+     * @param {object} data - Datos de la sesión a cerrar
+     * @param {number} data.user_id - Usuario autenticado
+     * @param {string} [data.jti] - jti del access token actual
+     * @param {Date} [data.expires_at] - Expiración del access token actual
+     * @param {string} [data.refresh_token] - Refresh token de la sesión
+     * @returns {Promise<SessionResult>} Resultado de la operación
+     */
+    public async logout(data: { user_id: number, jti?: string, expires_at?: Date, refresh_token?: string }): Promise<SessionResult> {
+        try {
+            if (data.jti) {
+                await TokenRevocation.store.revoke(data.jti, data.expires_at || DateTime.now().plus({ days: 1 }).toJSDate());
+            }
+
+            if (data.refresh_token) {
+                const found = await this.queries.showByHash(this.hash(data.refresh_token));
+                if (found.ok && found.refreshToken && found.refreshToken.user_id === data.user_id) {
+                    await this.queries.revokeFamily(found.refreshToken.family);
+                }
+            }
+
+            return { ok: true };
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, error: 'Error al cerrar la sesión.' };
+        }
+    }
+
+    /**
+     * Revoca todas las sesiones del usuario: access tokens emitidos hasta
+     * este momento y todos sus refresh tokens activos.
+     *
+     * Útil ante robo de dispositivo o al deshabilitar una cuenta.
+     *
+     * @public
+     * @async
+     * @method revokeAll
+     * @param {number} user_id - Usuario cuyas sesiones se revocan
+     * @returns {Promise<SessionResult>} Resultado de la operación
+     */
+    public async revokeAll(user_id: number): Promise<SessionResult> {
+        try {
+            await TokenRevocation.store.revokeUser(user_id, new Date());
+            const revoked = await this.queries.revokeUser(user_id);
+            if (!revoked.ok) {
+                return { ok: false, error: 'No fue posible revocar las sesiones.' };
+            }
+            return { ok: true };
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, error: 'Error al revocar las sesiones.' };
+        }
+    }
+}
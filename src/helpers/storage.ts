@@ -0,0 +1,453 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { fromEnv } from "@aws-sdk/credential-providers";
+import {
+    S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, HeadObjectCommand, CopyObjectCommand,
+    CreateMultipartUploadCommand, UploadPartCommand, CompleteMultipartUploadCommand, AbortMultipartUploadCommand, CompletedPart
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+
+/**
+ * Opciones de una URL prefirmada.
+ *
+ * @interface PresignOptions
+ * @property {number} expiresIn - Vigencia en segundos
+ * @property {string} [contentType] - PUT: Content-Type que deberá enviar el cliente
+ * @property {string} [filename] - GET: nombre sugerido en Content-Disposition
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface PresignOptions {
+    expiresIn: number;
+    contentType?: string;
+    filename?: string;
+}
+
+/**
+ * Contrato que debe cumplir cualquier backend de almacenamiento de archivos.
+ *
+ * Las claves son rutas relativas con '/' como separador (ej.
+ * `contracts/1700000000.pdf`). Todos los métodos lanzan una excepción si la
+ * operación falla; `FileManager` se encarga de convertirla en su respuesta
+ * normalizada `{ ok, message }`.
+ *
+ * @interface StorageDriver
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface StorageDriver {
+    /** Nombre del backend, útil en logs ('s3', 'local', 'memory') */
+    readonly name: string;
+    /** Guarda (o sobrescribe) el contenido de una clave */
+    put(key: string, body: Buffer | Uint8Array, contentType: string): Promise<void>;
+    /**
+     * Guarda el contenido de un stream sin cargarlo completo en memoria. Si el stream
+     * falla, no debe quedar un objeto parcial en la clave y la promesa se rechaza con ese error.
+     */
+    putStream(key: string, body: Readable, contentType: string): Promise<void>;
+    /** Obtiene el contenido de una clave; lanza si no existe */
+    get(key: string): Promise<Uint8Array>;
+    /** Abre el contenido de una clave como stream, sin cargarlo en memoria; lanza si no existe */
+    getStream(key: string): Promise<Readable>;
+    /** Elimina una clave; no falla si ya no existía */
+    delete(key: string): Promise<void>;
+    /** Mueve el contenido de una clave a otra; lanza si el origen no existe */
+    move(from: string, to: string): Promise<void>;
+    /** Metadatos de una clave, o null si no existe */
+    head(key: string): Promise<{ size: number } | null>;
+    /** Primeros `bytes` bytes de una clave, sin descargarla completa; lanza si no existe */
+    peek(key: string, bytes: number): Promise<Uint8Array>;
+    /** URL prefirmada para que el cliente lea o escriba directamente; solo en backends remotos */
+    presign?(method: 'GET' | 'PUT', key: string, options: PresignOptions): Promise<string>;
+}
+
+/**
+ * Backend sobre un bucket de AWS S3.
+ *
+ * Es el comportamiento histórico de `FileManager`: credenciales con
+ * `fromEnv()`, región AWS_REGION y bucket AWS_BUCKET.
+ *
+ * @class S3StorageDriver
+ * @implements {StorageDriver}
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export class S3StorageDriver implements StorageDriver {
+    readonly name = 's3';
+
+    /** Cliente S3 reutilizado en todas las operaciones */
+    private client: S3Client;
+
+    /**
+     * Tamaño de cada parte en las cargas multipart. S3 exige al menos 5 MB (salvo
+     * la última) y admite 10,000 partes, por lo que el límite práctico es ~80 GB.
+     */
+    private static readonly PART_SIZE = 8 * 1024 * 1024;
+
+    constructor(private bucket: string = process.env.AWS_BUCKET, client?: S3Client) {
+        this.client = client || new S3Client({
+            credentials: fromEnv(),
+            region: process.env.AWS_REGION
+        });
+    }
+
+    public async put(key: string, body: Buffer | Uint8Array, contentType: string): Promise<void> {
+        await this.client.send(new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+            Body: body,
+            ContentType: contentType
+        }));
+    }
+
+    /**
+     * Carga multipart: se acumula una parte a la vez, así que la memoria usada
+     * no depende del tamaño del archivo. Si algo falla la carga se aborta para
+     * que S3 descarte las partes ya subidas.
+     */
+    public async putStream(key: string, body: Readable, contentType: string): Promise<void> {
+        const { UploadId } = await this.client.send(new CreateMultipartUploadCommand({
+            Bucket: this.bucket,
+            Key: key,
+            ContentType: contentType
+        }));
+
+        try {
+            const parts: CompletedPart[] = [];
+            let chunks: Buffer[] = [];
+            let length = 0;
+            const sendPart = async () => {
+                const PartNumber = parts.length + 1;
+                const { ETag } = await this.client.send(new UploadPartCommand({
+                    Bucket: this.bucket,
+                    Key: key,
+                    UploadId,
+                    PartNumber,
+                    Body: Buffer.concat(chunks, length)
+                }));
+                parts.push({ ETag, PartNumber });
+                chunks = [];
+                length = 0;
+            };
+
+            for await (const chunk of body) {
+                chunks.push(chunk);
+                length += chunk.length;
+                if (length >= S3StorageDriver.PART_SIZE) await sendPart();
+            }
+            if (length > 0 || parts.length === 0) await sendPart();
+
+            await this.client.send(new CompleteMultipartUploadCommand({
+                Bucket: this.bucket,
+                Key: key,
+                UploadId,
+                MultipartUpload: { Parts: parts }
+            }));
+        } catch (e) {
+            await this.client.send(new AbortMultipartUploadCommand({
+                Bucket: this.bucket,
+                Key: key,
+                UploadId
+            })).catch(() => undefined);
+            throw e;
+        }
+    }
+
+    public async get(key: string): Promise<Uint8Array> {
+        const response = await this.client.send(new GetObjectCommand({
+            Bucket: this.bucket,
+            Key: key
+        }));
+        return response.Body.transformToByteArray();
+    }
+
+    public async getStream(key: string): Promise<Readable> {
+        const response = await this.client.send(new GetObjectCommand({
+            Bucket: this.bucket,
+            Key: key
+        }));
+        return response.Body as Readable;
+    }
+
+    public async delete(key: string): Promise<void> {
+        await this.client.send(new DeleteObjectCommand({
+            Bucket: this.bucket,
+            Key: key
+        }));
+    }
+
+    /** S3 no renombra: copia y elimina el original. CopyObject admite objetos de hasta 5 GB */
+    public async move(from: string, to: string): Promise<void> {
+        await this.client.send(new CopyObjectCommand({
+            Bucket: this.bucket,
+            Key: to,
+            CopySource: encodeURI(`${this.bucket}/${from}`)
+        }));
+        await this.delete(from);
+    }
+
+    public async head(key: string): Promise<{ size: number } | null> {
+        try {
+            const response = await this.client.send(new HeadObjectCommand({
+                Bucket: this.bucket,
+                Key: key
+            }));
+            return { size: response.ContentLength ?? 0 };
+        } catch (e) {
+            if (e?.name === 'NotFound' || e?.$metadata?.httpStatusCode === 404) return null;
+            throw e;
+        }
+    }
+
+    public async peek(key: string, bytes: number): Promise<Uint8Array> {
+        const response = await this.client.send(new GetObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+            Range: `bytes=0-${bytes - 1}`
+        }));
+        return response.Body.transformToByteArray();
+    }
+
+    public async presign(method: 'GET' | 'PUT', key: string, options: PresignOptions): Promise<string> {
+        const command = method === 'PUT'
+            ? new PutObjectCommand({ Bucket: this.bucket, Key: key, ContentType: options.contentType })
+            : new GetObjectCommand({
+                Bucket: this.bucket,
+                Key: key,
+                ResponseContentDisposition: options.filename ? `attachment; filename="${options.filename.replace(/["\\\r\n]/g, '')}"` : undefined
+            });
+        return getSignedUrl(this.client, command, { expiresIn: options.expiresIn });
+    }
+}
+
+/**
+ * Backend sobre el sistema de archivos local.
+ *
+ * Permite desarrollar sin credenciales de AWS. Las claves se guardan como
+ * archivos bajo el directorio raíz, creando los subdirectorios necesarios;
+ * una clave que intente salir de la raíz (`../`) se rechaza.
+ *
+ * @class LocalStorageDriver
+ * @implements {StorageDriver}
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export class LocalStorageDriver implements StorageDriver {
+    readonly name = 'local';
+
+    /** Directorio raíz absoluto */
+    private root: string;
+
+    constructor(root: string = process.env.STORAGE_LOCAL_PATH || './storage') {
+        this.root = path.resolve(root);
+    }
+
+    /**
+     * Traduce una clave a una ruta absoluta dentro de la raíz.
+     *
+     * @private
+     * @method resolve
+     * @param {string} key - Clave del archivo
+     * @returns {string} Ruta absoluta
+     * @throws {Error} Si la clave apunta fuera de la raíz
+     */
+    private resolve(key: string): string {
+        const target = path.resolve(this.root, key);
+        if (!target.startsWith(this.root + path.sep)) {
+            throw new Error(`Clave de almacenamiento inválida: ${key}`);
+        }
+        return target;
+    }
+
+    public async put(key: string, body: Buffer | Uint8Array, contentType: string): Promise<void> {
+        const target = this.resolve(key);
+        await fs.promises.mkdir(path.dirname(target), { recursive: true });
+        await fs.promises.writeFile(target, body);
+    }
+
+    /** Escribe en un archivo temporal y lo renombra al terminar, para no dejar archivos truncados */
+    public async putStream(key: string, body: Readable, contentType: string): Promise<void> {
+        const target = this.resolve(key);
+        const partial = `${target}.${crypto.randomUUID()}.part`;
+        await fs.promises.mkdir(path.dirname(target), { recursive: true });
+        try {
+            await pipeline(body, fs.createWriteStream(partial));
+            await fs.promises.rename(partial, target);
+        } catch (e) {
+            await fs.promises.rm(partial, { force: true });
+            throw e;
+        }
+    }
+
+    public async get(key: string): Promise<Uint8Array> {
+        return new Uint8Array(await fs.promises.readFile(this.resolve(key)));
+    }
+
+    public async getStream(key: string): Promise<Readable> {
+        const target = this.resolve(key);
+        // Se abre antes de devolver el stream para que una clave inexistente falle aquí y no al leer
+        const handle = await fs.promises.open(target, 'r');
+        return handle.createReadStream();
+    }
+
+    public async delete(key: string): Promise<void> {
+        await fs.promises.rm(this.resolve(key), { force: true });
+    }
+
+    public async move(from: string, to: string): Promise<void> {
+        const target = this.resolve(to);
+        await fs.promises.mkdir(path.dirname(target), { recursive: true });
+        await fs.promises.rename(this.resolve(from), target);
+    }
+
+    public async head(key: string): Promise<{ size: number } | null> {
+        try {
+            const stat = await fs.promises.stat(this.resolve(key));
+            return { size: stat.size };
+        } catch (e) {
+            if (e?.code === 'ENOENT') return null;
+            throw e;
+        }
+    }
+
+    public async peek(key: string, bytes: number): Promise<Uint8Array> {
+        const handle = await fs.promises.open(this.resolve(key), 'r');
+        try {
+            const buffer = Buffer.alloc(bytes);
+            const { bytesRead } = await handle.read(buffer, 0, bytes, 0);
+            return new Uint8Array(buffer.subarray(0, bytesRead));
+        } finally {
+            await handle.close();
+        }
+    }
+}
+
+/**
+ * Backend en memoria del proceso.
+ *
+ * Pensado para pruebas: no requiere red ni disco y su contenido se pierde
+ * al reiniciar. Guarda copias para que modificar el buffer original no
+ * altere lo almacenado.
+ *
+ * @class MemoryStorageDriver
+ * @implements {StorageDriver}
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export class MemoryStorageDriver implements StorageDriver {
+    readonly name = 'memory';
+
+    /** Contenido por clave */
+    private objects: Map<string, { body: Uint8Array, contentType: string }> = new Map();
+
+    public async put(key: string, body: Buffer | Uint8Array, contentType: string): Promise<void> {
+        this.objects.set(key, { body: new Uint8Array(body), contentType });
+    }
+
+    public async putStream(key: string, body: Readable, contentType: string): Promise<void> {
+        const chunks: Buffer[] = [];
+        for await (const chunk of body) {
+            chunks.push(chunk);
+        }
+        this.objects.set(key, { body: new Uint8Array(Buffer.concat(chunks)), contentType });
+    }
+
+    public async get(key: string): Promise<Uint8Array> {
+        const object = this.objects.get(key);
+        if (!object) {
+            throw new Error(`No existe el archivo: ${key}`);
+        }
+        return new Uint8Array(object.body);
+    }
+
+    public async getStream(key: string): Promise<Readable> {
+        return Readable.from([Buffer.from(await this.get(key))]);
+    }
+
+    public async delete(key: string): Promise<void> {
+        this.objects.delete(key);
+    }
+
+    public async move(from: string, to: string): Promise<void> {
+        const object = this.objects.get(from);
+        if (!object) {
+            throw new Error(`No existe el archivo: ${from}`);
+        }
+        this.objects.set(to, object);
+        this.objects.delete(from);
+    }
+
+    public async head(key: string): Promise<{ size: number } | null> {
+        const object = this.objects.get(key);
+        return object ? { size: object.body.length } : null;
+    }
+
+    public async peek(key: string, bytes: number): Promise<Uint8Array> {
+        return (await this.get(key)).slice(0, bytes);
+    }
+}
+
+/**
+ * Punto de acceso al backend de almacenamiento activo.
+ *
+ * El backend se elige con `STORAGE_DRIVER` ('s3', 'local' o 'memory'; por
+ * defecto 's3') y puede sustituirse en tiempo de ejecución con `configure`,
+ * por ejemplo en pruebas.
+ *
+ * @class Storage
+ * @description Selector estático del backend de almacenamiento de FileManager
+ * @version 1.0.0
+ * @author OmarGo96
+ *
+ * @environment
+ * - **STORAGE_DRIVER**: 's3' | 'local' | 'memory'
+ * - **STORAGE_LOCAL_PATH**: Raíz del backend local (default './storage')
+ * - **AWS_BUCKET** / **AWS_REGION**: Configuración del backend S3
+ *
+ * @example
+ * // Pruebas sin AWS:
+ * Storage.configure({ driver: new MemoryStorageDriver() });
+ * const files = new FileManager();
+ *
+ * @since 1.3.0
+ */
+export class Storage {
+    /** Backend activo */
+    static driver: StorageDriver = Storage.fromEnv();
+
+    /**
+     * Crea el backend indicado por STORAGE_DRIVER.
+     *
+     * @static
+     * @method fromEnv
+     * @returns {StorageDriver} Backend configurado
+     * @throws {Error} Si STORAGE_DRIVER tiene un valor desconocido
+     */
+    static fromEnv(): StorageDriver {
+        switch (process.env.STORAGE_DRIVER || 's3') {
+            case 's3': return new S3StorageDriver();
+            case 'local': return new LocalStorageDriver();
+            case 'memory': return new MemoryStorageDriver();
+            default: throw new Error(`STORAGE_DRIVER desconocido: ${process.env.STORAGE_DRIVER}`);
+        }
+    }
+
+    /**
+     * Sustituye el backend de almacenamiento.
+     *
+     * @static
+     * @method configure
+     * @param {object} opts - Opciones de configuración
+     * @param {StorageDriver} [opts.driver] - Backend a utilizar
+     * @returns {void}
+     */
+    static configure(opts: { driver?: StorageDriver } = {}): void {
+        if (opts.driver) {
+            this.driver = opts.driver;
+        }
+    }
+}
@@ -0,0 +1,231 @@
+import busboy from 'busboy';
+import { Request, RequestHandler, Router } from 'express';
+import { Readable } from 'stream';
+import { DateTime } from 'luxon';
+import * as Sentry from "@sentry/node";
+import { FileManager } from './files';
+import { DocumentManager, DocumentResult } from './documents';
+import { UploadProgress } from './progress';
+import { DocumentOwner } from './quotas';
+
+/**
+ * Cargas de archivos grandes leídas en streaming.
+ *
+ * `express-fileupload` junta el archivo completo en memoria antes de llegar
+ * al controlador; para estas rutas se omite (ver `bypass`) y el cuerpo
+ * multipart se lee aquí con busboy. El archivo fluye de la petición al
+ * backend (`FileManager.uploadStream`: multipart en S3, escritura en disco en
+ * el backend local), así que la memoria usada no depende de su tamaño y el
+ * límite es el `max_size_bytes` de la categoría, no los 100 MB globales.
+ *
+ * Si la petición trae `X-Upload-Id` (UUID generado por el cliente), el
+ * avance se publica en `UploadProgress`.
+ *
+ * @class StreamingUpload
+ * @description Recepción en streaming de archivos multipart y registro como documento
+ * @version 1.0.0
+ * @author OmarGo96
+ *
+ * @example
+ * const result = await new StreamingUpload().receive(req, { user_id: 7, client_id: null }, 'CONTRACT');
+ * const version = await new StreamingUpload().receive(req, owner, undefined, documentId);
+ *
+ * @since 1.3.0
+ */
+export class StreamingUpload {
+    /** Operaciones sobre el almacenamiento */
+    private files: FileManager = new FileManager();
+
+    /** Registro de documentos */
+    private documents: DocumentManager = new DocumentManager();
+
+    /** Rutas cuyo cuerpo multipart se lee en streaming, relativas al router de la API; `DocumentRoutes` las registra */
+    static readonly ROUTES = {
+        document: '/documents/stream',
+        version: '/documents/:id(\\d+)/versions/stream'
+    };
+
+    /** Formato aceptado en `X-Upload-Id` */
+    private static readonly UPLOAD_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+    /**
+     * Reporta el error a Sentry y lo registra en consola con timestamp.
+     *
+     * @private
+     * @method handleError
+     * @param {any} error - Error capturado
+     * @returns {void}
+     */
+    private handleError(error: any): void {
+        Sentry.captureException(error);
+        console.log(`Error streaming a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${error}`);
+    }
+
+    /**
+     * Envuelve el middleware que lee el cuerpo de las cargas (express-fileupload)
+     * para que no se aplique a las rutas de streaming.
+     *
+     * Debe montarse en el mismo prefijo que el router de la API; las rutas se
+     * resuelven con el mismo enrutador de Express, así que coinciden siempre
+     * con las que registra `DocumentRoutes`.
+     *
+     * @public
+     * @static
+     * @method bypass
+     * @param {RequestHandler} uploads - Middleware que se omite en las rutas de streaming
+     * @returns {Router}
+     *
+     * @example
+     * app.use(RouteManager.PREFIX, StreamingUpload.bypass(fileUpload({ ... })));
+     */
+    static bypass(uploads: RequestHandler): Router {
+        const router = Router();
+        // 'router' salta el resto de este router (incluido `uploads`) y continúa con la aplicación
+        router.post(Object.values(StreamingUpload.ROUTES), (req, res, next) => next('router'));
+        router.use(uploads);
+        return router;
+    }
+
+    /**
+     * Indica si un id de carga tiene el formato esperado.
+     *
+     * @public
+     * @static
+     * @method isUploadId
+     * @param {any} id - Valor recibido
+     * @returns {boolean}
+     */
+    static isUploadId(id: any): boolean {
+        return typeof id === 'string' && StreamingUpload.UPLOAD_ID.test(id);
+    }
+
+    /**
+     * Lee el campo `file` de la petición, lo guarda y lo registra.
+     *
+     * Con `document_id` el archivo se agrega como nueva versión de ese
+     * documento y se valida contra su categoría; en otro caso se crea un
+     * documento en `category`. Los demás campos y archivos se descartan.
+     *
+     * @public
+     * @async
+     * @method receive
+     * @param {Request} req - Petición multipart/form-data aún sin leer
+     * @param {DocumentOwner} owner - Usuario o cliente que sube el archivo
+     * @param {string} [category] - Código de la categoría (documento nuevo)
+     * @param {number} [document_id] - Documento al que se agrega una versión
+     * @returns {Promise<DocumentResult>} Documento registrado
+     */
+    public async receive(req: Request, owner: DocumentOwner, category?: any, document_id?: number): Promise<DocumentResult> {
+        const upload_id = req.get('x-upload-id');
+        if (upload_id !== undefined && !StreamingUpload.isUploadId(upload_id)) {
+            req.resume();
+            return { ok: false, reason: 'invalid', error: 'X-Upload-Id debe ser un UUID.' };
+        }
+
+        let code = String(category ?? '');
+        if (document_id !== undefined) {
+            const found = await this.documents.show(document_id);
+            if (!found.ok) {
+                req.resume();
+                return found;
+            }
+            code = found.document.category;
+        }
+
+        if (upload_id && !UploadProgress.start(upload_id, owner, Number(req.get('content-length')) || null)) {
+            req.resume();
+            return { ok: false, reason: 'invalid', error: 'El X-Upload-Id ya fue utilizado.' };
+        }
+
+        const result = await this.parse(req, owner, code, document_id, upload_id);
+        if (upload_id) {
+            UploadProgress.finish(upload_id, result.ok ? { document_id: result.document.id } : { error: result.error });
+        }
+        return result;
+    }
+
+    /**
+     * Recorre el cuerpo multipart y procesa el primer campo `file`.
+     *
+     * @private
+     * @method parse
+     * @param {Request} req - Petición
+     * @param {DocumentOwner} owner - Usuario o cliente que sube el archivo
+     * @param {string} category - Código de la categoría
+     * @param {number} [document_id] - Documento al que se agrega una versión
+     * @param {string} [upload_id] - Id para reportar el avance
+     * @returns {Promise<DocumentResult>}
+     */
+    private parse(req: Request, owner: DocumentOwner, category: string, document_id?: number, upload_id?: string): Promise<DocumentResult> {
+        return new Promise<DocumentResult>((resolve) => {
+            let parser: busboy.Busboy;
+            try {
+                parser = busboy({ headers: req.headers, limits: { files: 1, fields: 20 } });
+            } catch {
+                req.resume();
+                return resolve({ ok: false, reason: 'invalid', error: 'La petición debe enviarse como multipart/form-data.' });
+            }
+
+            let stored: Promise<DocumentResult> | null = null;
+            parser.on('file', (field, file, info) => {
+                if (field !== 'file' || stored) {
+                    file.resume();
+                    return;
+                }
+                stored = this.store(file, info, owner, category, document_id, upload_id);
+            });
+            parser.on('close', () => {
+                resolve(stored || { ok: false, reason: 'invalid', error: 'Favor de proporcionar un archivo a procesar' });
+            });
+            parser.on('error', (e) => {
+                // Un cuerpo malformado o una conexión cortada; el archivo en curso falla por su cuenta
+                req.unpipe(parser);
+                req.resume();
+                if (stored) return resolve(stored);
+                this.handleError(e);
+                resolve({ ok: false, reason: 'invalid', error: 'No fue posible leer el archivo enviado.' });
+            });
+            req.pipe(parser);
+        });
+    }
+
+    /**
+     * Guarda el archivo en el almacenamiento y lo registra.
+     *
+     * @private
+     * @async
+     * @method store
+     * @param {Readable} file - Contenido del campo `file`
+     * @param {busboy.FileInfo} info - Nombre y tipo declarados por el cliente
+     * @param {DocumentOwner} owner - Usuario o cliente que sube el archivo
+     * @param {string} category - Código de la categoría
+     * @param {number} [document_id] - Documento al que se agrega una versión
+     * @param {string} [upload_id] - Id para reportar el avance
+     * @returns {Promise<DocumentResult>}
+     */
+    private async store(file: Readable, info: busboy.FileInfo, owner: DocumentOwner, category: string, document_id?: number, upload_id?: string): Promise<DocumentResult> {
+        const uploaded = await this.files.uploadStream(file, category, { name: info.filename, mimetype: info.mimeType, user_id: owner.user_id ?? undefined },
+            upload_id ? (bytes) => UploadProgress.update(upload_id, bytes) : undefined);
+        if (!uploaded.ok) {
+            return { ok: false, reason: uploaded.reason, error: uploaded.message };
+        }
+
+        const key = uploaded.response.key;
+        const registered = await this.documents.register({
+            document_id,
+            ...owner,
+            category,
+            key,
+            name: uploaded.nameFile,
+            original_name: typeof info.filename === 'string' ? info.filename : null,
+            mimetype: uploaded.mimetype,
+            size: uploaded.size,
+            checksum: uploaded.checksum
+        });
+        if (!registered.ok) {
+            // Sin registro el archivo quedaría huérfano
+            await this.files.destroy({ key });
+        }
+        return registered;
+    }
+}
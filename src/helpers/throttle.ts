@@ -0,0 +1,367 @@
+import crypto from 'crypto';
+import { DateTime } from 'luxon';
+import * as Sentry from "@sentry/node";
+import { ServerLogger } from '../utils/logger';
+import { LoginThrottleModel } from '../models/login_throttle.model';
+import { LoginThrottleQueries } from '../queries/login_throttle.queries';
+import { UserQueries } from '../queries/user.queries';
+import { Mailer } from './mailer';
+
+/**
+ * Resultado de la verificación previa a un intento de inicio de sesión.
+ *
+ * @interface ThrottleResult
+ * @property {boolean} ok - false solo ante errores internos
+ * @property {boolean} [allowed] - Si el intento puede procesarse
+ * @property {boolean} [locked] - La cuenta o la IP están bloqueadas temporalmente
+ * @property {number} [retry_after] - Segundos hasta que se permita el siguiente intento
+ * @property {'invalid' | 'failed'} [reason] - Motivo del fallo al desbloquear
+ * @property {string} [error] - Mensaje listo para mostrarse al usuario
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface ThrottleResult {
+    ok: boolean;
+    allowed?: boolean;
+    locked?: boolean;
+    retry_after?: number;
+    reason?: 'invalid' | 'failed';
+    error?: string;
+}
+
+/**
+ * Protección contra fuerza bruta en el inicio de sesión.
+ *
+ * Complementa el límite global de `RouteManager.limiter` con contadores de
+ * intentos **fallidos** por cuenta y por IP. Como solo cuentan los fallos,
+ * una oficina detrás de una misma IP no se ve afectada por el volumen de
+ * inicios de sesión legítimos, y los umbrales por IP (retraso y bloqueo) son
+ * mucho mayores que los de cuenta: los fallos de todos sus usuarios suman en
+ * el mismo contador. Sin IP conocida solo se usa el contador de la cuenta.
+ *
+ * **Escalamiento por llave (cuenta o IP):**
+ * 1. A partir de `LOGIN_DELAY_AFTER` / `IP_DELAY_AFTER` fallos, cada intento
+ *    debe esperar un retraso que se duplica (1s, 2s, 4s... hasta
+ *    `LOGIN_MAX_DELAY_SECONDS`)
+ * 2. Al llegar al umbral (`ACCOUNT_LOCK_THRESHOLD` / `IP_LOCK_THRESHOLD`) la
+ *    llave se bloquea `LOCKOUT_MINUTES`; si es una cuenta existente se le
+ *    envía un enlace de desbloqueo
+ * 3. Los fallos más antiguos que `LOGIN_WINDOW_MINUTES` dejan de contar
+ *
+ * El fallo se suma en la base de datos con el registro bloqueado, de modo que
+ * intentos simultáneos cuentan todos; el retraso o bloqueo se decide con el
+ * total resultante. El bloqueo solo se aplica si no hay uno vigente, así que
+ * se notifica una sola vez. Los bloqueos, desbloqueos y retrasos se registran
+ * con `ServerLogger`.
+ *
+ * @class LoginThrottle
+ * @description Contadores de fallos por cuenta e IP con retraso progresivo y bloqueo temporal
+ * @version 1.0.0
+ * @author OmarGo96
+ *
+ * @environment
+ * - **LOGIN_WINDOW_MINUTES**: Ventana de conteo de fallos (default 15)
+ * - **LOGIN_DELAY_AFTER**: Fallos por cuenta tolerados sin retraso (default 3)
+ * - **IP_DELAY_AFTER**: Fallos por IP tolerados sin retraso (default 20)
+ * - **LOGIN_MAX_DELAY_SECONDS**: Retraso máximo entre intentos (default 30)
+ * - **ACCOUNT_LOCK_THRESHOLD**: Fallos por cuenta que provocan bloqueo (default 10)
+ * - **IP_LOCK_THRESHOLD**: Fallos por IP que provocan bloqueo (default 50)
+ * - **LOCKOUT_MINUTES**: Duración del bloqueo (default 15)
+ * - **APP_URL**: URL del frontend para el enlace de desbloqueo
+ *
+ * @example
+ * const throttle = new LoginThrottle();
+ * const gate = await throttle.check(email, req.ip);
+ * if (!gate.allowed) return res.status(429).set('Retry-After', String(gate.retry_after))...
+ *
+ * const account = await accounts.authenticate(email, password);
+ * if (!account.ok) await throttle.registerFailure(email, req.ip);
+ * // ...segundo factor, si la cuenta lo tiene activo, y emisión de tokens
+ * await throttle.registerSuccess(email);
+ *
+ * @since 1.3.0
+ */
+export class LoginThrottle {
+    /** Acceso a la tabla login_throttles */
+    private queries: LoginThrottleQueries = new LoginThrottleQueries();
+
+    /** Consulta del usuario para enviar el enlace de desbloqueo */
+    private userQueries: UserQueries = new UserQueries();
+
+    /**
+     * Reporta el error a Sentry y lo registra en consola con timestamp.
+     *
+     * @private
+     * @method handleError
+     * @param {any} error - Error capturado
+     * @returns {void}
+     */
+    private handleError(error: any): void {
+        Sentry.captureException(error);
+        console.log(`Error throttle a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${error}`);
+    }
+
+    /**
+     * Registra un evento de seguridad con `ServerLogger`.
+     *
+     * @private
+     * @method logEvent
+     * @param {'info' | 'warn'} type - Severidad del evento
+     * @param {string} message - Descripción del evento
+     * @returns {void}
+     */
+    private logEvent(type: 'info' | 'warn', message: string): void {
+        ServerLogger.log({ type, port: Number(process.env.LISTEN_PORT), message });
+    }
+
+    /**
+     * Normaliza el correo para que variaciones de mayúsculas compartan contador.
+     *
+     * @private
+     * @method accountKey
+     * @param {string} email - Correo capturado
+     * @returns {string} Llave del contador de cuenta
+     */
+    private accountKey(email: string): string {
+        return String(email).trim().toLowerCase().slice(0, 191);
+    }
+
+    /**
+     * Segundos restantes hasta una fecha, redondeados hacia arriba.
+     *
+     * @private
+     * @method secondsUntil
+     * @param {Date} date - Fecha objetivo
+     * @returns {number} Segundos restantes (mínimo 1)
+     */
+    private secondsUntil(date: Date): number {
+        return Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+    }
+
+    /**
+     * Indica si un intento de inicio de sesión puede procesarse.
+     *
+     * @public
+     * @async
+     * @method check
+     * @param {string} email - Correo con el que se intenta iniciar sesión
+     * @param {string} [ip] - Dirección IP del solicitante
+     * @returns {Promise<ThrottleResult>} `allowed` y, si se rechaza, `retry_after`
+     */
+    public async check(email: string, ip?: string): Promise<ThrottleResult> {
+        try {
+            const found = await this.queries.showMany(this.keys(email, ip));
+            if (!found.ok) {
+                return { ok: false, error: 'No fue posible validar el intento de inicio de sesión.' };
+            }
+
+            const now = Date.now();
+            const locked = found.throttles.filter(t => t.locked_until && t.locked_until.getTime() > now);
+            if (locked.length > 0) {
+                const until = new Date(Math.max(...locked.map(t => t.locked_until.getTime())));
+                return {
+                    ok: true,
+                    allowed: false,
+                    locked: true,
+                    retry_after: this.secondsUntil(until),
+                    error: 'Demasiados intentos fallidos; el acceso está bloqueado temporalmente.'
+                };
+            }
+
+            const delayed = found.throttles.filter(t => t.next_attempt_at && t.next_attempt_at.getTime() > now);
+            if (delayed.length > 0) {
+                const until = new Date(Math.max(...delayed.map(t => t.next_attempt_at.getTime())));
+                return {
+                    ok: true,
+                    allowed: false,
+                    retry_after: this.secondsUntil(until),
+                    error: 'Espere unos segundos antes de volver a intentarlo.'
+                };
+            }
+
+            return { ok: true, allowed: true };
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, error: 'Error al validar el intento de inicio de sesión.' };
+        }
+    }
+
+    /**
+     * Registra un intento fallido para la cuenta y la IP, aplicando retraso o bloqueo.
+     *
+     * @public
+     * @async
+     * @method registerFailure
+     * @param {string} email - Correo con el que se intentó iniciar sesión
+     * @param {string} [ip] - Dirección IP del solicitante
+     * @returns {Promise<ThrottleResult>} Resultado del registro
+     */
+    public async registerFailure(email: string, ip?: string): Promise<ThrottleResult> {
+        try {
+            const since = DateTime.now().minus({ minutes: Number(process.env.LOGIN_WINDOW_MINUTES) || 15 }).toJSDate();
+            for (const { scope, key } of this.keys(email, ip)) {
+                const counted = await this.queries.registerFailure(scope, key, since);
+                if (!counted.ok) {
+                    return { ok: false, error: 'No fue posible registrar el intento fallido.' };
+                }
+                await this.escalate(counted.throttle);
+            }
+
+            return { ok: true };
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, error: 'Error al registrar el intento fallido.' };
+        }
+    }
+
+    /**
+     * Llaves de los contadores que aplican al intento; sin IP solo la cuenta.
+     *
+     * @private
+     * @method keys
+     * @param {string} email - Correo capturado
+     * @param {string} [ip] - Dirección IP del solicitante
+     * @returns {Array<{scope: 'account' | 'ip', key: string}>}
+     */
+    private keys(email: string, ip?: string): { scope: 'account' | 'ip', key: string }[] {
+        const keys: { scope: 'account' | 'ip', key: string }[] = [{ scope: 'account', key: this.accountKey(email) }];
+        if (typeof ip === 'string' && ip) keys.push({ scope: 'ip', key: ip.slice(0, 191) });
+        return keys;
+    }
+
+    /**
+     * Aplica el retraso o el bloqueo que corresponde al total de fallos de un contador.
+     *
+     * @private
+     * @async
+     * @method escalate
+     * @param {LoginThrottleModel} throttle - Contador con el fallo ya sumado
+     * @returns {Promise<void>}
+     */
+    private async escalate(throttle: LoginThrottleModel): Promise<void> {
+        const now = DateTime.now();
+        const account = throttle.scope === 'account';
+        const threshold = account ? Number(process.env.ACCOUNT_LOCK_THRESHOLD) || 10 : Number(process.env.IP_LOCK_THRESHOLD) || 50;
+        const delayAfter = account ? Number(process.env.LOGIN_DELAY_AFTER) || 3 : Number(process.env.IP_DELAY_AFTER) || 20;
+        const maxDelay = Number(process.env.LOGIN_MAX_DELAY_SECONDS) || 30;
+        const failures = throttle.failures;
+
+        // Los intentos que pasaron la verificación antes del bloqueo no lo renuevan ni reenvían el correo
+        if (throttle.locked_until && throttle.locked_until.getTime() > now.toMillis()) return;
+
+        if (failures >= threshold) {
+            const minutes = Number(process.env.LOCKOUT_MINUTES) || 15;
+            const unlock_token = account ? crypto.randomBytes(32).toString('base64url') : null;
+
+            const locked = await this.queries.lock(throttle.id, {
+                locked_until: now.plus({ minutes }).toJSDate(),
+                unlock_token_hash: unlock_token ? crypto.createHash('sha256').update(unlock_token).digest('hex') : null
+            });
+            // Otro intento simultáneo ya aplicó el bloqueo y envió el correo
+            if (!locked.ok || !locked.locked) return;
+
+            this.logEvent('warn', `Bloqueo por inicio de sesión (${throttle.scope}: ${throttle.key}) tras ${failures} intentos fallidos, ${minutes} minutos`);
+
+            if (unlock_token) {
+                await this.sendUnlockEmail(throttle.key, unlock_token, failures, minutes);
+            }
+            return;
+        }
+
+        const delay = failures >= delayAfter ? Math.min(2 ** (failures - delayAfter), maxDelay) : 0;
+        await this.queries.update(throttle.id, {
+            next_attempt_at: delay > 0 ? now.plus({ seconds: delay }).toJSDate() : null
+        });
+        if (delay > 0) {
+            this.logEvent('warn', `Retraso de ${delay}s por inicio de sesión (${throttle.scope}: ${throttle.key}) tras ${failures} intentos fallidos`);
+        }
+    }
+
+    /**
+     * Envía el enlace de desbloqueo si el correo pertenece a una cuenta activa.
+     *
+     * @private
+     * @async
+     * @method sendUnlockEmail
+     * @param {string} email - Correo normalizado de la cuenta bloqueada
+     * @param {string} unlock_token - Token de desbloqueo en claro
+     * @param {number} failures - Intentos fallidos que provocaron el bloqueo
+     * @param {number} minutes - Duración del bloqueo
+     * @returns {Promise<void>}
+     */
+    private async sendUnlockEmail(email: string, unlock_token: string, failures: number, minutes: number): Promise<void> {
+        const found = await this.userQueries.showByEmail(email);
+        if (!found.ok || !found.user || !found.user.active) return;
+
+        const sent = await new Mailer().send({
+            email: found.user.email,
+            subject: 'Cuenta bloqueada temporalmente',
+            template: 'account_unlock',
+            context: {
+                data: {
+                    name: found.user.name,
+                    url: `${process.env.APP_URL}/unlock-account?token=${unlock_token}`,
+                    failures,
+                    minutes
+                }
+            }
+        });
+        if (!sent.ok) {
+            this.logEvent('warn', `No fue posible enviar el enlace de desbloqueo a la cuenta ${found.user.id}`);
+        }
+    }
+
+    /**
+     * Reinicia el contador de la cuenta tras un inicio de sesión completo: con
+     * segundo factor activo, hasta superar el reto, para que los códigos
+     * incorrectos sigan acumulándose. El contador de la IP no se reinicia: un atacante con una cuenta propia
+     * válida podría usarla para limpiar su historial de fallos.
+     *
+     * @public
+     * @async
+     * @method registerSuccess
+     * @param {string} email - Correo con el que se inició sesión
+     * @returns {Promise<ThrottleResult>} Resultado del reinicio
+     */
+    public async registerSuccess(email: string): Promise<ThrottleResult> {
+        const reset = await this.queries.reset('account', this.accountKey(email));
+        return reset.ok ? { ok: true } : { ok: false, error: 'No fue posible reiniciar el contador de intentos.' };
+    }
+
+    /**
+     * Desbloquea una cuenta con el token enviado por correo.
+     *
+     * @public
+     * @async
+     * @method unlock
+     * @param {string} token - Token de desbloqueo
+     * @returns {Promise<ThrottleResult>} `ok: true` si se desbloqueó
+     */
+    public async unlock(token: any): Promise<ThrottleResult> {
+        if (typeof token !== 'string' || !token) {
+            return { ok: false, reason: 'invalid', error: 'Favor de proporcionar el token de desbloqueo.' };
+        }
+
+        try {
+            const found = await this.queries.showLockedByUnlockHash(crypto.createHash('sha256').update(token).digest('hex'));
+            if (!found.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible desbloquear la cuenta.' };
+            }
+            if (!found.throttle) {
+                return { ok: false, reason: 'invalid', error: 'El enlace de desbloqueo no es válido o ha expirado.' };
+            }
+
+            const reset = await this.queries.reset('account', found.throttle.key);
+            if (!reset.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible desbloquear la cuenta.' };
+            }
+            this.logEvent('info', `Cuenta desbloqueada por enlace de correo (account: ${found.throttle.key})`);
+
+            return { ok: true };
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, reason: 'failed', error: 'Error al desbloquear la cuenta.' };
+        }
+    }
+}
@@ -0,0 +1,317 @@
+import { DateTime } from 'luxon';
+import * as Sentry from "@sentry/node";
+import { FileManager } from './files';
+import { DocumentManager } from './documents';
+import { QuotaManager } from './quotas';
+import { ServerLogger } from '../utils/logger';
+import { DocumentModel } from '../models/document.model';
+import { UploadIntentQueries } from '../queries/upload_intent.queries';
+
+/**
+ * Resultado normalizado de las cargas directas.
+ *
+ * @interface UploadResult
+ * @property {boolean} ok - Indica si la operación fue exitosa
+ * @property {'invalid' | 'not_found' | 'unsupported' | 'infected' | 'quota_exceeded' | 'failed'} [reason] - Motivo del fallo
+ * @property {string} [error] - Mensaje listo para mostrarse
+ * @property {object} [upload] - URL y datos para que el cliente suba el archivo
+ * @property {DocumentModel} [document] - Documento registrado al confirmar la carga
+ *
+ * @since 1.3.0
+ * @author OmarGo96
+ */
+export interface UploadResult {
+    ok: boolean;
+    reason?: 'invalid' | 'not_found' | 'unsupported' | 'infected' | 'quota_exceeded' | 'failed';
+    error?: string;
+    upload?: { id: number, method: 'PUT', url: string, headers: Record<string, string>, expires_at: Date };
+    document?: DocumentModel;
+}
+
+/**
+ * Cargas directas del navegador al almacenamiento.
+ *
+ * El archivo no pasa por este proceso: `begin` valida lo declarado contra la
+ * categoría y entrega una URL PUT prefirmada; el navegador sube el archivo
+ * y llama a `complete`, que verifica el objeto subido (existencia, tamaño y
+ * tipo real) y lo da de alta en el registro de documentos. Cada carga pendiente queda en
+ * `upload_intents` y solo puede confirmarla el usuario que la solicitó.
+ *
+ * Con motor antimalware la URL apunta a la cuarentena y `complete` analiza
+ * el archivo antes de moverlo a su categoría; si está infectado se elimina
+ * y la carga queda sin poder confirmarse.
+ *
+ * Una carga que nunca se confirma dejaría su objeto en el almacenamiento sin
+ * contar para cuotas ni retención; `sweep` elimina el objeto y el registro de
+ * las cargas vencidas sin confirmar, y `schedule` la ejecuta periódicamente.
+ *
+ * @class UploadManager
+ * @description Flujo de carga con URL prefirmada y confirmación
+ * @version 1.0.0
+ * @author OmarGo96
+ *
+ * @environment
+ * - **PRESIGNED_URL_SECONDS**: Vigencia de la URL (default 300)
+ * - **UPLOAD_SWEEP_INTERVAL_MINUTES**: Minutos entre limpiezas de cargas vencidas; sin valor no se programan
+ *
+ * @example
+ * const begun = await new UploadManager().begin(userId, 'CONTRACT', { name: 'contrato.pdf', mimetype: 'application/pdf', size: 52000 });
+ * // el navegador hace PUT begun.upload.url con begun.upload.headers
+ * const done = await new UploadManager().complete(userId, begun.upload.id);
+ *
+ * @since 1.3.0
+ */
+export class UploadManager {
+    /** Acceso a la tabla upload_intents */
+    private queries: UploadIntentQueries = new UploadIntentQueries();
+
+    /** Operaciones sobre el almacenamiento */
+    private files: FileManager = new FileManager();
+
+    /** Registro de documentos */
+    private documents: DocumentManager = new DocumentManager();
+
+    /** Cuotas de almacenamiento */
+    private quotas: QuotaManager = new QuotaManager();
+
+    /** Minutos adicionales a la vigencia de la URL para confirmar una carga que inició a tiempo */
+    private static readonly COMPLETION_GRACE_MINUTES = 60;
+
+    /** Cargas vencidas leídas por consulta en `sweep` */
+    private static readonly SWEEP_BATCH_SIZE = 100;
+
+    /** Temporizador de la limpieza automática */
+    private static timer: NodeJS.Timeout | null = null;
+
+    /**
+     * Reporta el error a Sentry y lo registra en consola con timestamp.
+     *
+     * @private
+     * @method handleError
+     * @param {any} error - Error capturado
+     * @returns {void}
+     */
+    private handleError(error: any): void {
+        Sentry.captureException(error);
+        console.log(`Error uploads a las: ${DateTime.now().toFormat('yyyy-MM-dd HH:mm:ss')}, ${error}`);
+    }
+
+    /**
+     * Solicita una URL prefirmada para subir un archivo.
+     *
+     * @public
+     * @async
+     * @method begin
+     * @param {number} user_id - Usuario que sube el archivo
+     * @param {string} category - Código de la categoría
+     * @param {object} file - Datos declarados del archivo
+     * @param {string} file.name - Nombre original
+     * @param {string} file.mimetype - Tipo MIME
+     * @param {number} file.size - Tamaño en bytes
+     * @returns {Promise<UploadResult>} `upload` con la URL, los headers obligatorios y el id para confirmar
+     */
+    public async begin(user_id: number, category: any, file: { name: any, mimetype: any, size: any }): Promise<UploadResult> {
+        const code = String(category ?? '');
+        const presigned = await this.files.presignUpload(code, file);
+        if (!presigned.ok) {
+            return { ok: false, reason: presigned.reason, error: presigned.message };
+        }
+
+        // Con el tamaño declarado; `complete` vuelve a verificar con el real al registrar
+        const allowed = await this.quotas.check({ user_id, client_id: null }, code, { bytes: Number(file.size), files: 1 });
+        if (!allowed.ok) {
+            return { ok: false, reason: allowed.reason === 'quota_exceeded' ? 'quota_exceeded' : 'failed', error: allowed.error };
+        }
+
+        try {
+            const stored = await this.queries.store({
+                user_id,
+                category: code,
+                key: presigned.key,
+                original_name: typeof file.name === 'string' ? file.name.slice(0, 255) : null,
+                mimetype: presigned.mimetype,
+                size: file.size,
+                expires_at: DateTime.fromJSDate(presigned.expires_at).plus({ minutes: UploadManager.COMPLETION_GRACE_MINUTES }).toJSDate()
+            });
+            if (!stored.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible registrar la carga.' };
+            }
+
+            return {
+                ok: true,
+                upload: {
+                    id: stored.intent.id,
+                    method: 'PUT',
+                    url: presigned.url,
+                    headers: presigned.headers,
+                    expires_at: presigned.expires_at
+                }
+            };
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, reason: 'failed', error: 'Error al registrar la carga.' };
+        }
+    }
+
+    /**
+     * Confirma una carga directa después de que el navegador subió el archivo.
+     *
+     * @public
+     * @async
+     * @method complete
+     * @param {number} user_id - Usuario que solicitó la carga
+     * @param {number} id - Id devuelto por `begin`
+     * @returns {Promise<UploadResult>} `document` registrado
+     */
+    public async complete(user_id: number, id: number): Promise<UploadResult> {
+        if (!Number.isInteger(id) || id <= 0) {
+            return { ok: false, reason: 'invalid', error: 'El id de la carga no es válido.' };
+        }
+
+        try {
+            const found = await this.queries.showPending(id, user_id);
+            if (!found.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible obtener la carga.' };
+            }
+            const intent = found.intent;
+            if (!intent) {
+                return { ok: false, reason: 'not_found', error: 'La carga no existe, ya fue confirmada o expiró.' };
+            }
+
+            const inspected = await this.files.inspectUpload(intent.key, intent.category, intent.mimetype);
+            if (!inspected.ok) {
+                return { ok: false, reason: inspected.reason, error: inspected.message };
+            }
+
+            const checksum = await this.files.checksum(intent.key);
+            if (!checksum.ok) {
+                return { ok: false, reason: 'failed', error: checksum.message };
+            }
+
+            // Reclamar la carga antes de registrar evita que dos confirmaciones simultáneas dupliquen el documento
+            const completed = await this.queries.complete(intent.id, inspected.size);
+            if (!completed.ok) {
+                return { ok: false, reason: 'failed', error: 'No fue posible confirmar la carga.' };
+            }
+            if (completed.affected === 0) {
+                return { ok: false, reason: 'not_found', error: 'La carga ya fue confirmada.' };
+            }
+
+            const released = await this.files.release(intent.key, intent.category, {
+                user_id: intent.user_id,
+                original_name: intent.original_name,
+                size: inspected.size,
+                checksum: checksum.checksum
+            });
+            if (!released.ok) {
+                // Un archivo infectado ya fue eliminado; uno sin veredicto sigue en cuarentena y puede reintentarse
+                if (released.reason !== 'infected') await this.queries.release(intent.id);
+                return { ok: false, reason: released.reason, error: released.message };
+            }
+
+            const registered = await this.documents.register({
+                user_id: intent.user_id,
+                category: intent.category,
+                key: released.key,
+                name: released.key.slice(released.key.lastIndexOf('/') + 1),
+                original_name: intent.original_name,
+                mimetype: intent.mimetype,
+                size: inspected.size,
+                checksum: checksum.checksum
+            });
+            if (!registered.ok) {
+                if (released.key === intent.key && registered.reason !== 'quota_exceeded') {
+                    await this.queries.release(intent.id);
+                } else {
+                    // Fuera de cuarentena no puede reintentarse sobre la clave original, y sin cuota no tiene caso
+                    await this.files.destroy({ key: released.key });
+                }
+                return { ok: false, reason: registered.reason === 'quota_exceeded' ? 'quota_exceeded' : 'failed', error: registered.error };
+            }
+
+            return { ok: true, document: registered.document };
+        } catch (e) {
+            this.handleError(e);
+            return { ok: false, reason: 'failed', error: 'Error al confirmar la carga.' };
+        }
+    }
+
+    /**
+     * Programa la limpieza de cargas vencidas según UPLOAD_SWEEP_INTERVAL_MINUTES.
+     *
+     * Puede activarse en varias instancias: cada carga la elimina una sola.
+     *
+     * @public
+     * @static
+     * @method schedule
+     * @returns {boolean} true si quedó programada
+     */
+    static schedule(): boolean {
+        const minutes = Number(process.env.UPLOAD_SWEEP_INTERVAL_MINUTES);
+        if (this.timer || !Number.isFinite(minutes) || minutes <= 0) return false;
+
+        this.timer = setInterval(() => {
+            new UploadManager().sweep().catch(e => Sentry.captureException(e));
+        }, minutes * 60 * 1000);
+        this.timer.unref();
+        return true;
+    }
+
+    /**
+     * Elimina el objeto y el registro de las cargas vencidas sin confirmar.
+     *
+     * El registro se elimina primero y solo si sigue sin confirmar, así una
+     * confirmación simultánea conserva su archivo. Si después falla el borrado
+     * del objeto se reporta la clave para eliminarla a mano.
+     *
+     * @public
+     * @async
+     * @method sweep
+     * @returns {Promise<{ok: boolean, removed: number, failed: number}>} Cargas eliminadas y objetos que no pudieron borrarse
+     */
+    public async sweep(): Promise<{ ok: boolean, removed: number, failed: number }> {
+        const before = new Date();
+        let removed = 0;
+        let failed = 0;
+        let ok = true;
+
+        // Las cargas procesadas salen de la consulta, así que se vuelve a leer desde el inicio
+        while (ok) {
+            const batch = await this.queries.expired(before, UploadManager.SWEEP_BATCH_SIZE);
+            if (!batch.ok) {
+                ok = false;
+                break;
+            }
+
+            for (const intent of batch.intents) {
+                const discarded = await this.queries.discard(intent.id, before);
+                if (!discarded.ok) {
+                    ok = false;
+                    break;
+                }
+                if (discarded.affected === 0) continue;
+
+                const destroyed = await this.files.destroy({ key: intent.key });
+                if (destroyed.ok) {
+                    removed++;
+                } else {
+                    failed++;
+                    this.handleError(new Error(`No fue posible eliminar el objeto ${intent.key} de la carga vencida ${intent.id}`));
+                }
+            }
+            if (batch.intents.length < UploadManager.SWEEP_BATCH_SIZE) break;
+        }
+
+        if (!ok) {
+            this.handleError(new Error('No fue posible recorrer las cargas vencidas.'));
+        }
+        if (removed > 0 || failed > 0) {
+            ServerLogger.log({
+                type: failed > 0 ? 'warn' : 'info',
+                port: Number(process.env.LISTEN_PORT),
+                message: `Cargas directas vencidas: ${removed} eliminadas, ${failed} con error.`
+            });
+        }
+        return { ok, removed, failed };
+    }
+}
@@ -1,8 +1,28 @@
-import fs from 'fs'
 import jwt from 'jsonwebtoken'
 import Cryptr from 'cryptr'
-import { Response, Request, NextFunction } from 'express'
+import { Response, Request, NextFunction, RequestHandler } from 'express'
 import { JsonResponse } from 'src/enums/jsonResponse';
+import { TokenRevocation } from '../helpers/revocation';
+import { KeyRing } from '../helpers/keyring';
+import { JwtConfig } from '../config/jwt';
+import { ApiKeyManager } from '../helpers/api_keys';
+
+/**
+ * Tipos de token emitidos por `Payload.createToken`.
+ * - 'user': contiene `user_id` cifrado
+ * - 'client': contiene `client_id` cifrado (aplicaciones o servicios)
+ */
+export type TokenType = 'user' | 'client';
+
+/**
+ * Opciones adicionales de `CheckHeaders.authenticate`.
+ *
+ * @interface AuthenticateOptions
+ * @property {boolean} [mfa] - Exige un token emitido después de superar el segundo factor
+ */
+export interface AuthenticateOptions {
+    mfa?: boolean;
+}
 
 /**
  * Extiende la interfaz Request de Express para incluir propiedades personalizadas.
@@ -16,9 +36,25 @@ import { JsonResponse } from 'src/enums/jsonResponse';
  * // Uso en controladores después de la validación JWT:
  * const userId = (req as AuthenticatedRequest).userId;
  */
-interface AuthenticatedRequest extends Request {
+export interface AuthenticatedRequest extends Request {
+    /** Tipo de token con el que se autenticó la petición */
+    tokenType?: TokenType;
     /** ID numérico del usuario autenticado extraído del JWT */
     userId?: number;
+    /** ID del cliente autenticado extraído del JWT (solo tokens de tipo 'client') */
+    clientId?: string;
+    /** Claim `jti` del token presentado, necesario para revocarlo */
+    tokenId?: string;
+    /** Fecha de expiración del token presentado */
+    tokenExpiresAt?: Date;
+    /** Roles embebidos en el token (claim `roles`) */
+    roles?: string[];
+    /** Permisos embebidos en el token (claim `scopes`) */
+    scopes?: string[];
+    /** Métodos de autenticación con los que se obtuvo el token (claim `amr`) */
+    amr?: string[];
+    /** Id de la llave de API con la que se autenticó la petición (solo `validateApiKey`) */
+    apiKeyId?: number;
 }
 
 /**
@@ -49,62 +85,70 @@ interface AuthenticatedRequest extends Request {
  * router.use(CheckHeaders.validateJWT);
  * 
  * @example
+ * // Rutas para clientes o para ambos tipos de token:
+ * router.post('/sync', CheckHeaders.validateClientJWT, controller.sync);
+ * router.get('/catalog', CheckHeaders.authenticate(['user', 'client']), controller.list);
+ * 
+ * @example
+ * // Integraciones servidor a servidor con llave de API:
+ * router.get('/partners/documents', CheckHeaders.validateApiKey, controller.index);
+ * 
+ * @example
  * // Usar middleware de test en desarrollo:
  * if (process.env.NODE_ENV === 'development') {
  *   router.use('/test', CheckHeaders.test);
  * }
  * 
  * @security
- * - Tokens JWT verificados con clave pública RSA
+ * - Tokens JWT verificados con la clave pública RSA de su `kid`
+ * - Algoritmos fijados y `iss`/`aud` exigidos según `JwtConfig`; `sub` obligatorio y cotejado con el id descifrado
  * - User ID encriptado con AES antes de almacenar en JWT
  * - No exposición de detalles internos de errores en producción
  * - Validación de existencia de configuraciones críticas
  * 
  * @performance
- * - Carga de clave pública optimizada (una sola vez)
+ * - Claves públicas cargadas una sola vez por KeyRing
  * - Validaciones tempranas para fallar rápido
  * - Uso eficiente de memoria sin instanciación de clase
  */
 export class CheckHeaders {
     
+    /** Verificación de llaves de API para `validateApiKey` */
+    private static apiKeys: ApiKeyManager = new ApiKeyManager();
+
     /** 
-     * Clave pública RSA cargada una sola vez para optimizar rendimiento.
-     * Se carga automáticamente al inicializar la clase según el entorno:
-     * - Desarrollo: Lee desde archivo local './src/keys/public.pem'
-     * - Producción: Lee desde variable de entorno PUBLIC_KEY
+     * Resuelve la clave pública RSA con la que debe verificarse un token.
+     * Lee el header `kid` del JWT (sin verificarlo todavía) y busca la clave
+     * correspondiente en `KeyRing`, de modo que los tokens firmados con claves
+     * anteriores siguen siendo válidos durante una rotación.
      * 
      * @private
      * @static
-     * @type {string}
-     * @description Clave pública RSA para verificación de tokens JWT
-     * 
-     * @throws {Error} Si la variable PUBLIC_KEY no está definida en entornos no-dev
+     * @method publicKey
+     * @param {string} token - JWT recibido en la cabecera Authorization
+     * @returns {string | undefined} Clave pública PEM o undefined si el kid es desconocido
      * 
      * @example
-     * // La clave se carga automáticamente:
-     * // - En desarrollo: fs.readFileSync('./src/keys/public.pem', 'utf8')
-     * // - En producción: fs.readFileSync(process.env.PUBLIC_KEY, 'utf8')
+     * // Token sin header kid (emitido antes del llavero) → clave activa
+     * // Token con kid '2025-01' → <JWT_KEYS_PATH>/2025-01.public.pem
      * 
      * @performance
-     * - Carga única al inicio de la aplicación
+     * - Las claves se cargan una sola vez en KeyRing
      * - Evita lecturas de archivo en cada petición
-     * - Mejora significativa en throughput de autenticación
      * 
      * @security
-     * - Clave pública RSA para verificación criptográfica
-     * - Almacenamiento seguro en variables de entorno en producción
-     * - Separación de claves por entorno (dev/prod)
+     * - El kid solo selecciona la clave; la firma se valida después con jwt.verify
+     * - Un kid desconocido se rechaza como token inválido
      */
-    private static publicKey: string = (() => {
-        const path = (process.env.MODE !== 'dev')
-            ? process.env.PUBLIC_KEY
-            : './src/keys/public.pem';
-        if (!path) throw new Error('PUBLIC_KEY no definida en variables de entorno');
-        return fs.readFileSync(path, 'utf8');
-    })();
+    private static publicKey(token: string): string | undefined {
+        const header = jwt.decode(token, { complete: true })?.header;
+        return KeyRing.publicKey(header?.kid);
+    }
 
     /**
      * Middleware principal para validación de tokens JWT en cabeceras de autenticación.
+     * Solo acepta tokens de usuario; para tokens de cliente usar `validateClientJWT`
+     * o `authenticate(['user', 'client'])`.
      * 
      * Proceso de validación:
      * 1. Extrae token de cabecera Authorization (soporta Bearer y formato directo)
@@ -112,7 +156,8 @@ export class CheckHeaders {
      * 3. Valida firma del JWT usando clave pública RSA
      * 4. Verifica existencia de user_id en payload del JWT
      * 5. Desencripta user_id usando AES y lo anexa a la petición
-     * 6. Continúa al siguiente middleware si todo es válido
+     * 6. Consulta la lista de revocación (por jti y por usuario)
+     * 7. Continúa al siguiente middleware si todo es válido
      * 
      * @static
      * @public
@@ -149,6 +194,7 @@ export class CheckHeaders {
      * @status 401 - No se encontró token en cabecera Authorization
      * @status 500 - Configuración de servidor incompleta (falta CRYPTR_KEY)
      * @status 403 - Token inválido, expirado o sin user_id
+     * @status 401 - Token revocado (logout, revocación masiva o usuario deshabilitado)
      * 
      * @example
      * // Respuesta de error 401:
@@ -164,6 +210,13 @@ export class CheckHeaders {
      * //   errors: [{ message: "Token inválido o expirado." }]
      * // }
      * 
+     * @example
+     * // Respuesta de error 401 para tokens revocados:
+     * // {
+     * //   ok: false,
+     * //   errors: [{ message: "El token ha sido revocado." }]
+     * // }
+     * 
      * @security
      * - **Verificación RSA**: Token verificado con clave pública RSA
      * - **Desencriptación AES**: user_id desencriptado con Cryptr
@@ -181,13 +234,14 @@ export class CheckHeaders {
      * 2. **Verificación**: JWT signature con clave pública RSA
      * 3. **Validación**: Existencia de user_id en payload
      * 4. **Desencriptación**: user_id con AES usando Cryptr
-     * 5. **Anexado**: userId numérico a req object
-     * 6. **Continuación**: next() para siguiente middleware
+     * 5. **Revocación**: Consulta en TokenRevocation.store
+     * 6. **Anexado**: userId, tokenId y tokenExpiresAt a req object
+     * 7. **Continuación**: next() para siguiente middleware
      * 
      * @dependencies
      * - **jsonwebtoken**: Para verificación de firma JWT
      * - **cryptr**: Para desencriptación AES del user_id
-     * - **fs**: Para lectura de clave pública RSA
+     * - **KeyRing**: Para seleccionar la clave pública RSA según el `kid`
      * 
      * @throws No lanza excepciones - todos los errores se manejan internamente
      * 
@@ -195,6 +249,171 @@ export class CheckHeaders {
      * @author OmarGo96
      */
     static validateJWT(req: Request, res: Response, next: NextFunction) {
+        return CheckHeaders.verify(req, res, next, ['user']);
+    }
+
+    /**
+     * Middleware para rutas consumidas únicamente por clientes (aplicaciones o servicios).
+     * 
+     * Equivalente a `validateJWT` pero exige tokens emitidos con
+     * `Payload.createToken(..., 'client')`. El `client_id` desencriptado se anexa
+     * a la petición como `clientId`.
+     * 
+     * @static
+     * @public
+     * @method validateClientJWT
+     * @param {Request} req - Objeto Request de Express
+     * @param {Response} res - Objeto Response de Express
+     * @param {NextFunction} next - Función callback para continuar
+     * @returns {Promise<void | Response>}
+     * 
+     * @example
+     * router.post('/webhooks/orders', CheckHeaders.validateClientJWT, controller.store);
+     * 
+     * @since 1.3.0
+     * @author OmarGo96
+     */
+    static validateClientJWT(req: Request, res: Response, next: NextFunction) {
+        return CheckHeaders.verify(req, res, next, ['client']);
+    }
+
+    /**
+     * Middleware para integraciones servidor a servidor autenticadas con la
+     * cabecera `x-api-key` (redactada por `SentryLogs`).
+     * 
+     * La llave se trata como credencial de cliente: la petición queda con
+     * `tokenType = 'client'`, el `client_id` de la integración en `clientId`
+     * y los permisos de la llave en `scopes`, por lo que puede combinarse con
+     * `Authorization.requirePermission`.
+     * 
+     * @static
+     * @public
+     * @async
+     * @method validateApiKey
+     * @param {Request} req - Objeto Request de Express
+     * @param {Response} res - Objeto Response de Express
+     * @param {NextFunction} next - Función callback para continuar
+     * @returns {Promise<void | Response>}
+     * 
+     * @example
+     * router.get('/partners/documents', CheckHeaders.validateApiKey, Authorization.requirePermission('documents:read'), controller.index);
+     * 
+     * @responses
+     * @status 401 - Falta la cabecera, o la llave no existe, fue revocada o expiró
+     * @status 500 - No fue posible consultar la llave
+     * 
+     * @since 1.3.0
+     * @author OmarGo96
+     */
+    static async validateApiKey(req: Request, res: Response, next: NextFunction) {
+        const key = req.get('x-api-key');
+        if (!key) {
+            return res.status(JsonResponse.UNAUTHORIZED).json({
+                ok: false,
+                errors: [{ message: 'No se encontró la llave de API en la cabecera x-api-key.' }]
+            });
+        }
+
+        const result = await CheckHeaders.apiKeys.verify(key);
+        if (!result.ok) {
+            return res.status(result.reason === 'failed' ? JsonResponse.INTERNAL_SERVER_ERROR : JsonResponse.UNAUTHORIZED).json({
+                ok: false,
+                errors: [{ message: result.error }]
+            });
+        }
+
+        const auth = req as AuthenticatedRequest;
+        auth.tokenType = 'client';
+        auth.clientId = result.apiKey.client_id;
+        auth.apiKeyId = result.apiKey.id;
+        auth.roles = [];
+        auth.scopes = result.apiKey.scopes;
+
+        next();
+    }
+
+    /**
+     * Genera un middleware que acepta los tipos de token indicados.
+     * 
+     * Permite que una ruta declare explícitamente si la consumen usuarios,
+     * clientes o ambos. En controladores, `tokenType` indica cuál de los dos
+     * identificadores (`userId` o `clientId`) está presente.
+     * 
+     * @static
+     * @public
+     * @method authenticate
+     * @param {TokenType[]} accepts - Tipos de token permitidos en la ruta
+     * @param {AuthenticateOptions} [options] - `{ mfa: true }` exige un token emitido tras el segundo factor
+     * @returns {RequestHandler} Middleware de autenticación configurado
+     * 
+     * @example
+     * // Ruta compartida por usuarios y clientes:
+     * router.get('/documents', CheckHeaders.authenticate(['user', 'client']), controller.index);
+     * 
+     * @example
+     * // En el controlador:
+     * const auth = req as AuthenticatedRequest;
+     * if (auth.tokenType === 'client') { ... auth.clientId ... }
+     * 
+     * @example
+     * // Ruta que exige segundo factor:
+     * router.get('/contracts/:id', CheckHeaders.authenticate(['user'], { mfa: true }), controller.show);
+     * 
+     * @responses
+     * @status 403 - El token es de un tipo no permitido por la ruta
+     * @status 403 - La ruta exige segundo factor y el token no lo acredita (`mfa_required: true`)
+     * 
+     * @since 1.3.0
+     * @author OmarGo96
+     */
+    static authenticate(accepts: TokenType[], options: AuthenticateOptions = {}): RequestHandler {
+        return (req: Request, res: Response, next: NextFunction) => CheckHeaders.verify(req, res, next, accepts, options);
+    }
+
+    /**
+     * Valida un token de usuario emitido después de superar el segundo factor.
+     * Equivale a `authenticate(['user'], { mfa: true })`.
+     * 
+     * Las sesiones iniciadas solo con contraseña reciben 403 con
+     * `mfa_required: true`, para que el frontend pida activar o usar el factor.
+     * 
+     * @static
+     * @public
+     * @method validateMfaJWT
+     * @param {Request} req - Objeto Request de Express
+     * @param {Response} res - Objeto Response de Express
+     * @param {NextFunction} next - Función callback para continuar
+     * @returns {Promise<void | Response>}
+     * 
+     * @example
+     * router.delete('/documents/:id', CheckHeaders.validateMfaJWT, controller.destroy);
+     * 
+     * @since 1.3.0
+     * @author OmarGo96
+     */
+    static validateMfaJWT(req: Request, res: Response, next: NextFunction) {
+        return CheckHeaders.verify(req, res, next, ['user'], { mfa: true });
+    }
+
+    /**
+     * Implementación compartida de la validación de JWT.
+     * 
+     * Verifica firma y expiración, identifica el tipo de token por el claim
+     * presente (`user_id` o `client_id`), lo compara contra los tipos
+     * aceptados, desencripta el identificador y consulta la lista de revocación.
+     * 
+     * @private
+     * @static
+     * @async
+     * @method verify
+     * @param {Request} req - Objeto Request de Express
+     * @param {Response} res - Objeto Response de Express
+     * @param {NextFunction} next - Función callback para continuar
+     * @param {TokenType[]} accepts - Tipos de token permitidos
+     * @param {AuthenticateOptions} [options] - Requisitos adicionales del token
+     * @returns {Promise<void | Response>}
+     */
+    private static async verify(req: Request, res: Response, next: NextFunction, accepts: TokenType[], options: AuthenticateOptions = {}) {
         // Extraer token de cabecera Authorization con soporte para Bearer
         const authHeader = req.get('authorization') || req.get('Authorization');
         if (!authHeader) {
@@ -218,24 +437,53 @@ export class CheckHeaders {
         // Inicializar desencriptador AES
         const cryptr = new Cryptr(process.env.CRYPTR_KEY);
         
+        let decoded: any;
+        let tokenType: TokenType;
+        let identifier: string;
         try {
-            // Verificar firma JWT con clave pública RSA
-            const decoded: any = jwt.verify(token, this.publicKey);
+            // Verificar firma JWT con la clave pública RSA indicada por su kid,
+            // con algoritmos fijados, emisor/audiencia y tolerancia de reloj de JwtConfig
+            const publicKey = CheckHeaders.publicKey(token);
+            if (!publicKey) {
+                throw new Error('kid desconocido');
+            }
+            decoded = jwt.verify(token, publicKey, JwtConfig.verifyOptions());
 
-            // Validar existencia de user_id en payload
-            if (!decoded.user_id) {
+            // Identificar el tipo de token por el claim que contiene
+            tokenType = decoded.user_id ? 'user' : decoded.client_id ? 'client' : undefined;
+            if (!tokenType) {
                 return res.status(JsonResponse.FORBIDDEN).json({
                     ok: false,
-                    errors: [{ message: 'El token no contiene el parámetro general del usuario.' }]
+                    errors: [{
+                        message: (accepts.length === 1 && accepts[0] === 'client')
+                            ? 'El token no contiene el parámetro general del cliente.'
+                            : 'El token no contiene el parámetro general del usuario.'
+                    }]
                 });
             }
 
-            // Desencriptar user_id y anexar a petición como número
-            const user_id = cryptr.decrypt(decoded.user_id);
-            (req as AuthenticatedRequest).userId = +user_id;
+            if (!accepts.includes(tokenType)) {
+                return res.status(JsonResponse.FORBIDDEN).json({
+                    ok: false,
+                    errors: [{ message: 'El tipo de token no está permitido para este recurso.' }]
+                });
+            }
 
-            // Continuar al siguiente middleware
-            next();
+            if (options.mfa && !(Array.isArray(decoded.amr) && decoded.amr.includes('mfa'))) {
+                return res.status(JsonResponse.FORBIDDEN).json({
+                    ok: false,
+                    mfa_required: true,
+                    errors: [{ message: 'Este recurso requiere verificación en dos pasos.' }]
+                });
+            }
+
+            // Desencriptar el identificador según el tipo de token
+            identifier = String(cryptr.decrypt(tokenType === 'user' ? decoded.user_id : decoded.client_id));
+
+            // El sub es obligatorio y debe corresponder al identificador cifrado
+            if (decoded.sub === undefined || decoded.sub !== JwtConfig.subject(tokenType, identifier)) {
+                throw new Error('sub no corresponde al identificador');
+            }
         } catch (e: any) {
             // Manejo seguro de errores sin exponer detalles internos
             return res.status(JsonResponse.FORBIDDEN).json({
@@ -243,5 +491,40 @@ export class CheckHeaders {
                 errors: [{ message: 'Token inválido o expirado.' }]
             });
         }
+
+        const user_id = (tokenType === 'user') ? +identifier : undefined;
+
+        // Rechazar tokens revocados antes de su expiración
+        try {
+            const revoked = await TokenRevocation.store.isRevoked({ jti: decoded.jti, userId: user_id, iat: decoded.iat });
+            if (revoked) {
+                return res.status(JsonResponse.UNAUTHORIZED).json({
+                    ok: false,
+                    errors: [{ message: 'El token ha sido revocado.' }]
+                });
+            }
+        } catch (e: any) {
+            return res.status(JsonResponse.INTERNAL_SERVER_ERROR).json({
+                ok: false,
+                errors: [{ message: 'No fue posible verificar el estado del token.' }]
+            });
+        }
+
+        // Anexar datos de autenticación a la petición
+        const auth = req as AuthenticatedRequest;
+        auth.tokenType = tokenType;
+        if (tokenType === 'user') {
+            auth.userId = user_id;
+        } else {
+            auth.clientId = identifier;
+        }
+        auth.tokenId = decoded.jti;
+        auth.roles = Array.isArray(decoded.roles) ? decoded.roles : undefined;
+        auth.scopes = Array.isArray(decoded.scopes) ? decoded.scopes : undefined;
+        auth.amr = Array.isArray(decoded.amr) ? decoded.amr : undefined;
+        auth.tokenExpiresAt = decoded.exp ? new Date(decoded.exp * 1000) : undefined;
+
+        // Continuar al siguiente middleware
+        next();
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,179 @@
+import { Response, Request, NextFunction, RequestHandler } from 'express'
+import { JsonResponse } from '../enums/jsonResponse';
+import { AuthenticatedRequest } from './headers';
+import { RoleQueries } from '../queries/role.queries';
+
+/**
+ * Middleware de autorización basado en roles y permisos.
+ *
+ * Se coloca después de `CheckHeaders.validateJWT` (o `authenticate`) y decide
+ * si el usuario autenticado puede ejecutar la acción solicitada. Los permisos
+ * se leen del claim `scopes` del token; para tokens emitidos antes de que se
+ * embebieran los permisos, se consultan en la base de datos.
+ *
+ * **Formato de permisos:** `recurso:acción`, con comodines:
+ * - `documents:*` concede cualquier acción sobre `documents`
+ * - `*` concede todos los permisos
+ *
+ * @class Authorization
+ * @description Middleware estático para autorización declarativa en rutas
+ * @version 1.0.0
+ * @author OmarGo96
+ *
+ * @example
+ * // En una clase de rutas:
+ * this.router.post('/documents',
+ *     CheckHeaders.validateJWT,
+ *     Authorization.requirePermission('documents:write'),
+ *     this.documentController.store);
+ *
+ * @example
+ * // Restringir por rol:
+ * this.router.get('/admin/reports', CheckHeaders.validateJWT, Authorization.requireRole('admin'), controller.reports);
+ *
+ * @example
+ * // Respuesta 403:
+ * // {
+ * //   ok: false,
+ * //   errors: [{ message: "No cuenta con los permisos necesarios para realizar esta acción.", required: ["documents:write"] }]
+ * // }
+ *
+ * @since 1.3.0
+ */
+export class Authorization {
+
+    /** Consulta de permisos para tokens que no los traen embebidos */
+    private static roleQueries: RoleQueries = new RoleQueries();
+
+    /**
+     * Indica si un conjunto de permisos concede el permiso solicitado,
+     * considerando comodines.
+     *
+     * @static
+     * @public
+     * @method can
+     * @param {string[]} granted - Permisos con los que cuenta el solicitante
+     * @param {string} permission - Permiso requerido ('recurso:acción')
+     * @returns {boolean} true si está concedido
+     *
+     * @example
+     * Authorization.can(['documents:*'], 'documents:write'); // true
+     * Authorization.can(['documents:read'], 'documents:write'); // false
+     */
+    static can(granted: string[], permission: string): boolean {
+        const [resource] = permission.split(':');
+        return granted.some(scope => scope === '*' || scope === permission || scope === `${resource}:*`);
+    }
+
+    /**
+     * Genera un middleware que exige todos los permisos indicados.
+     *
+     * @static
+     * @public
+     * @method requirePermission
+     * @param {...string} permissions - Permisos requeridos
+     * @returns {RequestHandler} Middleware de autorización
+     *
+     * @responses
+     * @status 401 - La petición no pasó por un middleware de autenticación
+     * @status 403 - Falta al menos uno de los permisos
+     * @status 500 - No fue posible consultar los permisos
+     */
+    static requirePermission(...permissions: string[]): RequestHandler {
+        return async (req: Request, res: Response, next: NextFunction) => {
+            const auth = req as AuthenticatedRequest;
+            if (auth.tokenType === undefined && auth.scopes === undefined) {
+                return Authorization.unauthenticated(res);
+            }
+
+            let scopes = auth.scopes || [];
+            if (auth.scopes === undefined && auth.userId !== undefined) {
+                const grants = await Authorization.roleQueries.grantsForUser(auth.userId);
+                if (!grants.ok) {
+                    return res.status(JsonResponse.INTERNAL_SERVER_ERROR).json({
+                        ok: false,
+                        errors: [{ message: 'No fue posible verificar los permisos.' }]
+                    });
+                }
+                scopes = auth.scopes = grants.permissions;
+                auth.roles = grants.roles;
+            }
+
+            if (!permissions.every(permission => Authorization.can(scopes, permission))) {
+                return Authorization.forbidden(res, permissions);
+            }
+
+            next();
+        };
+    }
+
+    /**
+     * Genera un middleware que exige al menos uno de los roles indicados.
+     *
+     * @static
+     * @public
+     * @method requireRole
+     * @param {...string} roles - Roles aceptados
+     * @returns {RequestHandler} Middleware de autorización
+     */
+    static requireRole(...roles: string[]): RequestHandler {
+        return async (req: Request, res: Response, next: NextFunction) => {
+            const auth = req as AuthenticatedRequest;
+            if (auth.tokenType === undefined) {
+                return Authorization.unauthenticated(res);
+            }
+
+            let granted = auth.roles || [];
+            if (auth.roles === undefined && auth.userId !== undefined) {
+                const grants = await Authorization.roleQueries.grantsForUser(auth.userId);
+                if (!grants.ok) {
+                    return res.status(JsonResponse.INTERNAL_SERVER_ERROR).json({
+                        ok: false,
+                        errors: [{ message: 'No fue posible verificar los permisos.' }]
+                    });
+                }
+                granted = auth.roles = grants.roles;
+                auth.scopes = grants.permissions;
+            }
+
+            if (!roles.some(role => granted.includes(role))) {
+                return Authorization.forbidden(res, roles);
+            }
+
+            next();
+        };
+    }
+
+    /**
+     * Respuesta estándar cuando falta autenticación previa.
+     *
+     * @private
+     * @static
+     * @method unauthenticated
+     * @param {Response} res - Objeto Response de Express
+     * @returns {Response}
+     */
+    private static unauthenticated(res: Response) {
+        return res.status(JsonResponse.UNAUTHORIZED).json({
+            ok: false,
+            errors: [{ message: 'Se requiere autenticación para acceder a este recurso.' }]
+        });
+    }
+
+    /**
+     * Respuesta estándar de acceso denegado, común a permisos y roles.
+     *
+     * @private
+     * @static
+     * @method forbidden
+     * @param {Response} res - Objeto Response de Express
+     * @param {string[]} required - Permisos o roles requeridos por la ruta
+     * @returns {Response}
+     */
+    private static forbidden(res: Response, required: string[]) {
+        return res.status(JsonResponse.FORBIDDEN).json({
+            ok: false,
+            errors: [{ message: 'No cuenta con los permisos necesarios para realizar esta acción.', required }]
+        });
+    }
+}
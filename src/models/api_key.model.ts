@@ -0,0 +1,81 @@
+import { Model, DataTypes } from 'sequelize'
+import { database } from '../config/database'
+
+export class ApiKeyModel extends Model {
+    /** Declaramos cada uno de los atributos del modelo */
+    public id!: number
+    /** Nombre descriptivo de la integración */
+    public name!: string
+    /** Identificador del socio o servicio; se expone como `clientId` en la petición */
+    public client_id!: string
+    /** Parte pública de la llave (`gsk_<prefix>_...`) usada para localizarla */
+    public prefix!: string
+    /** Hash SHA-256 de la llave completa, nunca se guarda el valor original */
+    public key_hash!: string
+    /** Permisos concedidos con formato 'recurso:acción' */
+    public scopes!: string[]
+    public expires_at!: Date | null
+    public last_used_at!: Date | null
+    public revoked_at!: Date | null
+    /** Usuario administrador que creó la llave */
+    public created_by!: number | null
+}
+
+/** Inicializamos el modelo de llaves de API para integraciones servidor a servidor. */
+ApiKeyModel.init({
+    id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true
+    },
+    name: {
+        type: DataTypes.STRING(150),
+        allowNull: false
+    },
+    client_id: {
+        type: DataTypes.STRING(100),
+        allowNull: false
+    },
+    prefix: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+        unique: true
+    },
+    key_hash: {
+        type: DataTypes.STRING(64),
+        allowNull: false
+    },
+    scopes: {
+        type: DataTypes.JSON,
+        allowNull: false,
+        defaultValue: []
+    },
+    expires_at: {
+        type: DataTypes.DATE,
+        allowNull: true
+    },
+    last_used_at: {
+        type: DataTypes.DATE,
+        allowNull: true
+    },
+    revoked_at: {
+        type: DataTypes.DATE,
+        allowNull: true
+    },
+    created_by: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: true
+    }
+}, {
+    sequelize: database,
+    tableName: 'api_keys',
+    /** El hash solo se obtiene al autenticar (scope 'withHash') */
+    defaultScope: {
+        attributes: { exclude: ['key_hash'] }
+    },
+    scopes: {
+        withHash: {
+            attributes: { include: ['key_hash'] }
+        }
+    }
+})
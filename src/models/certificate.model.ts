@@ -0,0 +1,98 @@
+import { Model, DataTypes } from 'sequelize'
+import { database } from '../config/database'
+
+export class CertificateModel extends Model {
+    /** Declaramos cada uno de los atributos del modelo */
+    public id!: number
+    /** Código de verificación público, 12 caracteres de base32 Crockford sin guiones */
+    public code!: string
+    /** Plantilla Handlebars con la que se generó el PDF */
+    public template!: string
+    /** Usuario titular, si el titular tiene cuenta */
+    public user_id!: number | null
+    public holder_name!: string
+    /** Lo que acredita el certificado (ej. 'Membresía Platino') */
+    public title!: string
+    /** Datos adicionales entregados a la plantilla */
+    public data!: Record<string, any> | null
+    /** Documento con el PDF emitido; null mientras se genera */
+    public document_id!: number | null
+    /** SHA-256 del PDF emitido, para comprobar que una copia no fue alterada */
+    public checksum!: string | null
+    /** Usuario que emitió el certificado */
+    public issued_by!: number | null
+    public expires_at!: Date | null
+    public revoked_at!: Date | null
+    public revoked_by!: number | null
+    public revoked_reason!: string | null
+    public readonly createdAt!: Date
+}
+
+/** Inicializamos el modelo de certificados emitidos. */
+CertificateModel.init({
+    id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true
+    },
+    code: {
+        type: DataTypes.STRING(12),
+        allowNull: false,
+        unique: true
+    },
+    template: {
+        type: DataTypes.STRING(100),
+        allowNull: false
+    },
+    user_id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: true
+    },
+    holder_name: {
+        type: DataTypes.STRING(255),
+        allowNull: false
+    },
+    title: {
+        type: DataTypes.STRING(255),
+        allowNull: false
+    },
+    data: {
+        type: DataTypes.JSON,
+        allowNull: true
+    },
+    document_id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: true
+    },
+    checksum: {
+        type: DataTypes.STRING(64),
+        allowNull: true
+    },
+    issued_by: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: true
+    },
+    expires_at: {
+        type: DataTypes.DATE,
+        allowNull: true
+    },
+    revoked_at: {
+        type: DataTypes.DATE,
+        allowNull: true
+    },
+    revoked_by: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: true
+    },
+    revoked_reason: {
+        type: DataTypes.STRING(255),
+        allowNull: true
+    }
+}, {
+    sequelize: database,
+    tableName: 'certificates',
+    indexes: [
+        { fields: ['user_id'] },
+        { fields: ['holder_name'] }
+    ]
+})
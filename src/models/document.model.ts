@@ -0,0 +1,125 @@
+import { Model, DataTypes } from 'sequelize'
+import { database } from '../config/database'
+import { PdfInfo } from '../helpers/pdf'
+
+export class DocumentModel extends Model {
+    /** Declaramos cada uno de los atributos del modelo */
+    public id!: number
+    /** Usuario que subió el archivo; null si lo subió un cliente */
+    public user_id!: number | null
+    /** Cliente (integración) que subió el archivo; null si lo subió un usuario */
+    public client_id!: string | null
+    /** Código de la categoría en `DocumentCategories` */
+    public category!: string
+    /**
+     * Clave completa en el almacenamiento (prefijo + nombre); se guarda por si el prefijo de la categoría cambia.
+     * Con deduplicación varios documentos pueden compartir la misma clave.
+     */
+    public key!: string
+    /** Nombre con el que se guardó el archivo */
+    public name!: string
+    /** Nombre del archivo en el equipo del usuario */
+    public original_name!: string | null
+    public mimetype!: string
+    public size!: number
+    /** SHA-256 del contenido en hexadecimal */
+    public checksum!: string
+    /** Versión vigente; los campos de archivo de este registro son los de esa versión */
+    public version!: number
+    /** Retención legal: mientras esté activa el documento no puede eliminarse ni depurarse */
+    public legal_hold!: boolean
+    public legal_hold_reason!: string | null
+    /** Usuario que activó la retención legal */
+    public legal_hold_by!: number | null
+    public legal_hold_at!: Date | null
+    /** Páginas de la versión vigente si es PDF; null si no es PDF o no pudo leerse */
+    public pages!: number | null
+    /** Metadatos del PDF vigente (`PdfInfo`): título, autor, fechas, productor */
+    public pdf_info!: PdfInfo | null
+    public readonly createdAt!: Date
+}
+
+/** Inicializamos el modelo del registro de documentos almacenados. */
+DocumentModel.init({
+    id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true
+    },
+    user_id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: true
+    },
+    client_id: {
+        type: DataTypes.STRING(100),
+        allowNull: true
+    },
+    category: {
+        type: DataTypes.STRING(50),
+        allowNull: false
+    },
+    key: {
+        type: DataTypes.STRING(255),
+        allowNull: false
+    },
+    name: {
+        type: DataTypes.STRING(255),
+        allowNull: false
+    },
+    original_name: {
+        type: DataTypes.STRING(255),
+        allowNull: true
+    },
+    mimetype: {
+        type: DataTypes.STRING(150),
+        allowNull: false
+    },
+    size: {
+        type: DataTypes.BIGINT.UNSIGNED,
+        allowNull: false
+    },
+    checksum: {
+        type: DataTypes.STRING(64),
+        allowNull: false
+    },
+    version: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: false,
+        defaultValue: 1
+    },
+    legal_hold: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false
+    },
+    legal_hold_reason: {
+        type: DataTypes.STRING(255),
+        allowNull: true
+    },
+    legal_hold_by: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: true
+    },
+    legal_hold_at: {
+        type: DataTypes.DATE,
+        allowNull: true
+    },
+    pages: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: true
+    },
+    pdf_info: {
+        type: DataTypes.JSON,
+        allowNull: true
+    }
+}, {
+    sequelize: database,
+    tableName: 'documents',
+    indexes: [
+        { fields: ['category', 'checksum'] },
+        { fields: ['user_id'] },
+        { fields: ['client_id'] },
+        { fields: ['key'] },
+        { fields: ['category', 'createdAt'] }
+    ]
+})
@@ -0,0 +1,33 @@
+import { Model, DataTypes } from 'sequelize'
+import { database } from '../config/database'
+
+export class DocumentContentModel extends Model {
+    /** Declaramos cada uno de los atributos del modelo */
+    public document_id!: number
+    /** Versión del documento de la que se extrajo el texto */
+    public version!: number
+    /** Texto plano del PDF, con las páginas separadas por una línea en blanco */
+    public text!: string
+}
+
+/** Inicializamos el modelo del texto extraído de cada documento, indexado para búsqueda de texto completo. */
+DocumentContentModel.init({
+    document_id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        primaryKey: true
+    },
+    version: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: false
+    },
+    text: {
+        type: DataTypes.TEXT('medium'),
+        allowNull: false
+    }
+}, {
+    sequelize: database,
+    tableName: 'document_contents',
+    indexes: [
+        { type: 'FULLTEXT', fields: ['text'] }
+    ]
+})
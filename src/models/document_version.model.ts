@@ -0,0 +1,83 @@
+import { Model, DataTypes } from 'sequelize'
+import { database } from '../config/database'
+
+export class DocumentVersionModel extends Model {
+    /** Declaramos cada uno de los atributos del modelo */
+    public id!: number
+    public document_id!: number
+    /** Número consecutivo dentro del documento, empezando en 1 */
+    public version!: number
+    /** Usuario que subió (o restauró) esta versión; null si la subió un cliente */
+    public user_id!: number | null
+    /** Cliente que subió esta versión */
+    public client_id!: string | null
+    /** Clave en el almacenamiento; una restauración o la deduplicación pueden repetirla en varias versiones */
+    public key!: string
+    public name!: string
+    public original_name!: string | null
+    public mimetype!: string
+    public size!: number
+    public checksum!: string
+    /** Versión de la que se copió el contenido al restaurar */
+    public restored_from!: number | null
+}
+
+/** Inicializamos el modelo del historial de versiones de cada documento. */
+DocumentVersionModel.init({
+    id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true
+    },
+    document_id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: false
+    },
+    version: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: false
+    },
+    user_id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: true
+    },
+    client_id: {
+        type: DataTypes.STRING(100),
+        allowNull: true
+    },
+    key: {
+        type: DataTypes.STRING(255),
+        allowNull: false
+    },
+    name: {
+        type: DataTypes.STRING(255),
+        allowNull: false
+    },
+    original_name: {
+        type: DataTypes.STRING(255),
+        allowNull: true
+    },
+    mimetype: {
+        type: DataTypes.STRING(150),
+        allowNull: false
+    },
+    size: {
+        type: DataTypes.BIGINT.UNSIGNED,
+        allowNull: false
+    },
+    checksum: {
+        type: DataTypes.STRING(64),
+        allowNull: false
+    },
+    restored_from: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: true
+    }
+}, {
+    sequelize: database,
+    tableName: 'document_versions',
+    indexes: [
+        { unique: true, fields: ['document_id', 'version'] },
+        { fields: ['key'] }
+    ]
+})
@@ -0,0 +1,64 @@
+import { Model, DataTypes } from 'sequelize'
+import { database } from '../config/database'
+
+export class LoginThrottleModel extends Model {
+    /** Declaramos cada uno de los atributos del modelo */
+    public id!: number
+    /** 'account' para contadores por correo, 'ip' para contadores por dirección IP */
+    public scope!: 'account' | 'ip'
+    /** Correo normalizado o dirección IP */
+    public key!: string
+    /** Intentos fallidos dentro de la ventana actual */
+    public failures!: number
+    public last_failure_at!: Date | null
+    /** Antes de esta fecha se rechazan nuevos intentos (retraso progresivo) */
+    public next_attempt_at!: Date | null
+    public locked_until!: Date | null
+    /** Hash SHA-256 del token de desbloqueo enviado por correo (solo scope 'account') */
+    public unlock_token_hash!: string | null
+}
+
+/** Inicializamos el modelo de contadores de inicios de sesión fallidos. */
+LoginThrottleModel.init({
+    id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true
+    },
+    scope: {
+        type: DataTypes.ENUM('account', 'ip'),
+        allowNull: false
+    },
+    key: {
+        type: DataTypes.STRING(191),
+        allowNull: false
+    },
+    failures: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: false,
+        defaultValue: 0
+    },
+    last_failure_at: {
+        type: DataTypes.DATE,
+        allowNull: true
+    },
+    next_attempt_at: {
+        type: DataTypes.DATE,
+        allowNull: true
+    },
+    locked_until: {
+        type: DataTypes.DATE,
+        allowNull: true
+    },
+    unlock_token_hash: {
+        type: DataTypes.STRING(64),
+        allowNull: true,
+        unique: true
+    }
+}, {
+    sequelize: database,
+    tableName: 'login_throttles',
+    indexes: [
+        { unique: true, fields: ['scope', 'key'] }
+    ]
+})
@@ -0,0 +1,69 @@
+import { Model, DataTypes } from 'sequelize'
+import { database } from '../config/database'
+
+export class MalwareDetectionModel extends Model {
+    /** Declaramos cada uno de los atributos del modelo */
+    public id!: number
+    /** Usuario que subió el archivo; null en cargas sin usuario asociado */
+    public user_id!: number | null
+    /** Código de la categoría en `DocumentCategories` */
+    public category!: string
+    /** Clave en cuarentena que tuvo el archivo; el objeto ya fue eliminado */
+    public key!: string
+    public original_name!: string | null
+    public size!: number
+    /** SHA-256 del contenido, para reconocer el mismo archivo en otros intentos */
+    public checksum!: string | null
+    /** Motor que lo detectó ('eicar', 'clamav') */
+    public scanner!: string
+    /** Firma reportada por el motor */
+    public signature!: string
+}
+
+/** Inicializamos el modelo de auditoría de archivos rechazados por malware. */
+MalwareDetectionModel.init({
+    id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true
+    },
+    user_id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: true
+    },
+    category: {
+        type: DataTypes.STRING(50),
+        allowNull: false
+    },
+    key: {
+        type: DataTypes.STRING(255),
+        allowNull: false
+    },
+    original_name: {
+        type: DataTypes.STRING(255),
+        allowNull: true
+    },
+    size: {
+        type: DataTypes.BIGINT.UNSIGNED,
+        allowNull: false
+    },
+    checksum: {
+        type: DataTypes.STRING(64),
+        allowNull: true
+    },
+    scanner: {
+        type: DataTypes.STRING(50),
+        allowNull: false
+    },
+    signature: {
+        type: DataTypes.STRING(255),
+        allowNull: false
+    }
+}, {
+    sequelize: database,
+    tableName: 'malware_detections',
+    indexes: [
+        { fields: ['user_id'] },
+        { fields: ['checksum'] }
+    ]
+})
@@ -0,0 +1,48 @@
+import { Model, DataTypes } from 'sequelize'
+import { database } from '../config/database'
+
+export class MfaChallengeModel extends Model {
+    /** Declaramos cada uno de los atributos del modelo */
+    public id!: number
+    public user_id!: number
+    /** Hash SHA-256 del mfa_token entregado tras validar la contraseña */
+    public token_hash!: string
+    public expires_at!: Date
+    /** Códigos incorrectos recibidos; al llegar al límite el reto se invalida */
+    public attempts!: number
+    public used_at!: Date | null
+}
+
+/** Inicializamos el modelo de retos de segundo factor pendientes. */
+MfaChallengeModel.init({
+    id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true
+    },
+    user_id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: false
+    },
+    token_hash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        unique: true
+    },
+    expires_at: {
+        type: DataTypes.DATE,
+        allowNull: false
+    },
+    attempts: {
+        type: DataTypes.TINYINT.UNSIGNED,
+        allowNull: false,
+        defaultValue: 0
+    },
+    used_at: {
+        type: DataTypes.DATE,
+        allowNull: true
+    }
+}, {
+    sequelize: database,
+    tableName: 'mfa_challenges'
+})
@@ -0,0 +1,36 @@
+import { Model, DataTypes } from 'sequelize'
+import { database } from '../config/database'
+
+export class MfaRecoveryCodeModel extends Model {
+    /** Declaramos cada uno de los atributos del modelo */
+    public id!: number
+    public user_id!: number
+    /** Hash SHA-256 del código normalizado (sin guiones, en mayúsculas) */
+    public code_hash!: string
+    public used_at!: Date | null
+}
+
+/** Inicializamos el modelo de códigos de recuperación del segundo factor. */
+MfaRecoveryCodeModel.init({
+    id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true
+    },
+    user_id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: false
+    },
+    code_hash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        unique: true
+    },
+    used_at: {
+        type: DataTypes.DATE,
+        allowNull: true
+    }
+}, {
+    sequelize: database,
+    tableName: 'mfa_recovery_codes'
+})
@@ -0,0 +1,41 @@
+import { Model, DataTypes } from 'sequelize'
+import { database } from '../config/database'
+
+export class PasswordResetModel extends Model {
+    /** Declaramos cada uno de los atributos del modelo */
+    public id!: number
+    public user_id!: number
+    /** Hash SHA-256 del token enviado por correo */
+    public token_hash!: string
+    public expires_at!: Date
+    public used_at!: Date | null
+}
+
+/** Inicializamos el modelo de solicitudes de restablecimiento de contraseña. */
+PasswordResetModel.init({
+    id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true
+    },
+    user_id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: false
+    },
+    token_hash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        unique: true
+    },
+    expires_at: {
+        type: DataTypes.DATE,
+        allowNull: false
+    },
+    used_at: {
+        type: DataTypes.DATE,
+        allowNull: true
+    }
+}, {
+    sequelize: database,
+    tableName: 'password_resets'
+})
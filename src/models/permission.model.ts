@@ -0,0 +1,31 @@
+import { Model, DataTypes } from 'sequelize'
+import { database } from '../config/database'
+
+export class PermissionModel extends Model {
+    /** Declaramos cada uno de los atributos del modelo */
+    public id!: number
+    /** Nombre con formato 'recurso:acción', p. ej. 'documents:write' */
+    public name!: string
+    public description!: string | null
+}
+
+/** Inicializamos el modelo de permisos. */
+PermissionModel.init({
+    id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true
+    },
+    name: {
+        type: DataTypes.STRING(100),
+        allowNull: false,
+        unique: true
+    },
+    description: {
+        type: DataTypes.STRING(255),
+        allowNull: true
+    }
+}, {
+    sequelize: database,
+    tableName: 'permissions'
+})
@@ -0,0 +1,60 @@
+import { Model, DataTypes } from 'sequelize'
+import { database } from '../config/database'
+
+export class RefreshTokenModel extends Model {
+    /** Declaramos cada uno de los atributos del modelo */
+    public id!: number
+    public user_id!: number
+    /** Identificador compartido por todos los tokens que nacen de un mismo inicio de sesión */
+    public family!: string
+    /** Hash SHA-256 del refresh token, nunca se guarda el valor original */
+    public token_hash!: string
+    public expires_at!: Date
+    public revoked_at!: Date | null
+    /** Id del token que sustituyó a este durante la rotación */
+    public replaced_by!: number | null
+    /** Indica si la sesión se inició con segundo factor; se conserva en cada rotación */
+    public mfa!: boolean
+}
+
+/** Inicializamos el modelo de refresh tokens emitidos por SessionManager. */
+RefreshTokenModel.init({
+    id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true
+    },
+    user_id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: false
+    },
+    family: {
+        type: DataTypes.STRING(36),
+        allowNull: false
+    },
+    token_hash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        unique: true
+    },
+    expires_at: {
+        type: DataTypes.DATE,
+        allowNull: false
+    },
+    revoked_at: {
+        type: DataTypes.DATE,
+        allowNull: true
+    },
+    replaced_by: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: true
+    },
+    mfa: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false
+    }
+}, {
+    sequelize: database,
+    tableName: 'refresh_tokens'
+})
@@ -0,0 +1,43 @@
+import { Model, DataTypes } from 'sequelize'
+import { database } from '../config/database'
+
+export class RevokedTokenModel extends Model {
+    /** Declaramos cada uno de los atributos del modelo */
+    public id!: number
+    /** jti del token revocado; null cuando el registro revoca todos los tokens de un usuario */
+    public jti!: string | null
+    public user_id!: number | null
+    /** Los tokens del usuario emitidos antes de esta fecha se consideran revocados */
+    public not_before!: Date | null
+    /** A partir de esta fecha el registro puede depurarse (el token ya expiró) */
+    public expires_at!: Date | null
+}
+
+/** Inicializamos el modelo de la lista de revocación de JWT. */
+RevokedTokenModel.init({
+    id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true
+    },
+    jti: {
+        type: DataTypes.STRING(36),
+        allowNull: true,
+        unique: true
+    },
+    user_id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: true
+    },
+    not_before: {
+        type: DataTypes.DATE,
+        allowNull: true
+    },
+    expires_at: {
+        type: DataTypes.DATE,
+        allowNull: true
+    }
+}, {
+    sequelize: database,
+    tableName: 'revoked_tokens'
+})
@@ -0,0 +1,35 @@
+import { Model, DataTypes } from 'sequelize'
+import { database } from '../config/database'
+import { PermissionModel } from './permission.model'
+
+export class RoleModel extends Model {
+    /** Declaramos cada uno de los atributos del modelo */
+    public id!: number
+    /** Nombre único del rol, p. ej. 'admin' o 'backoffice' */
+    public name!: string
+    public description!: string | null
+
+    /** Permisos asociados (disponible al incluir la relación 'permissions') */
+    public permissions?: PermissionModel[]
+}
+
+/** Inicializamos el modelo de roles. */
+RoleModel.init({
+    id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true
+    },
+    name: {
+        type: DataTypes.STRING(50),
+        allowNull: false,
+        unique: true
+    },
+    description: {
+        type: DataTypes.STRING(255),
+        allowNull: true
+    }
+}, {
+    sequelize: database,
+    tableName: 'roles'
+})
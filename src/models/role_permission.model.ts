@@ -0,0 +1,24 @@
+import { Model, DataTypes } from 'sequelize'
+import { database } from '../config/database'
+
+export class RolePermissionModel extends Model {
+    /** Declaramos cada uno de los atributos del modelo */
+    public role_id!: number
+    public permission_id!: number
+}
+
+/** Tabla pivote entre roles y permisos. */
+RolePermissionModel.init({
+    role_id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        primaryKey: true
+    },
+    permission_id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        primaryKey: true
+    }
+}, {
+    sequelize: database,
+    tableName: 'role_permissions',
+    timestamps: false
+})
@@ -0,0 +1,46 @@
+import { Model, DataTypes } from 'sequelize'
+import { database } from '../config/database'
+
+export class StorageQuotaModel extends Model {
+    /** Declaramos cada uno de los atributos del modelo */
+    public id!: number
+    /** A quién se aplica: 'user', 'client' o 'category' */
+    public scope!: 'user' | 'client' | 'category'
+    /** Id del usuario, id del cliente o código de categoría; '*' es el límite por defecto de todo el alcance */
+    public subject!: string
+    /** Bytes máximos; null sin límite */
+    public max_bytes!: number | null
+    /** Documentos máximos; null sin límite */
+    public max_files!: number | null
+}
+
+/** Inicializamos el modelo de cuotas de almacenamiento. */
+StorageQuotaModel.init({
+    id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true
+    },
+    scope: {
+        type: DataTypes.STRING(20),
+        allowNull: false
+    },
+    subject: {
+        type: DataTypes.STRING(100),
+        allowNull: false
+    },
+    max_bytes: {
+        type: DataTypes.BIGINT.UNSIGNED,
+        allowNull: true
+    },
+    max_files: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: true
+    }
+}, {
+    sequelize: database,
+    tableName: 'storage_quotas',
+    indexes: [
+        { unique: true, fields: ['scope', 'subject'] }
+    ]
+})
@@ -0,0 +1,69 @@
+import { Model, DataTypes } from 'sequelize'
+import { database } from '../config/database'
+
+export class UploadIntentModel extends Model {
+    /** Declaramos cada uno de los atributos del modelo */
+    public id!: number
+    /** Usuario que solicitó la URL; solo él puede confirmar la carga */
+    public user_id!: number
+    /** Código de la categoría en `DocumentCategories` */
+    public category!: string
+    /** Clave del objeto en el almacenamiento (prefijo + nombre) */
+    public key!: string
+    public original_name!: string | null
+    /** Tipo declarado; el contenido subido debe corresponder a él */
+    public mimetype!: string
+    /** Tamaño declarado en bytes; al confirmar se guarda el real */
+    public size!: number
+    /** Límite para confirmar la carga */
+    public expires_at!: Date
+    public completed_at!: Date | null
+}
+
+/** Inicializamos el modelo de cargas directas pendientes de confirmar. */
+UploadIntentModel.init({
+    id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true
+    },
+    user_id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: false
+    },
+    category: {
+        type: DataTypes.STRING(50),
+        allowNull: false
+    },
+    key: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        unique: true
+    },
+    original_name: {
+        type: DataTypes.STRING(255),
+        allowNull: true
+    },
+    mimetype: {
+        type: DataTypes.STRING(150),
+        allowNull: false
+    },
+    size: {
+        type: DataTypes.BIGINT.UNSIGNED,
+        allowNull: false
+    },
+    expires_at: {
+        type: DataTypes.DATE,
+        allowNull: false
+    },
+    completed_at: {
+        type: DataTypes.DATE,
+        allowNull: true
+    }
+}, {
+    sequelize: database,
+    tableName: 'upload_intents',
+    indexes: [
+        { fields: ['completed_at', 'expires_at'] }
+    ]
+})
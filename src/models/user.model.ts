@@ -0,0 +1,77 @@
+import { Model, DataTypes } from 'sequelize'
+import { database } from '../config/database'
+import { RoleModel } from './role.model'
+
+export class UserModel extends Model {
+    /** Declaramos cada uno de los atributos del modelo */
+    public id!: number
+    public name!: string
+    public email!: string
+    /** Hash bcrypt de la contraseña, nunca el valor original */
+    public password!: string
+    /** Los usuarios inactivos no pueden iniciar sesión */
+    public active!: boolean
+    /** Secreto TOTP cifrado con CRYPTR_KEY; existe desde que se inicia el enrolamiento */
+    public mfa_secret!: string | null
+    /** Fecha en que se confirmó el segundo factor; null mientras no esté activo */
+    public mfa_enabled_at!: Date | null
+    /** Último paso TOTP aceptado, para impedir reutilizar un código */
+    public mfa_last_step!: number | null
+
+    /** Roles asignados (disponible al incluir la relación 'roles') */
+    public roles?: RoleModel[]
+}
+
+/** Inicializamos el modelo de usuarios. */
+UserModel.init({
+    id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true
+    },
+    name: {
+        type: DataTypes.STRING(150),
+        allowNull: false
+    },
+    email: {
+        type: DataTypes.STRING(150),
+        allowNull: false,
+        unique: true
+    },
+    password: {
+        type: DataTypes.STRING(60),
+        allowNull: false
+    },
+    active: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: true
+    },
+    mfa_secret: {
+        type: DataTypes.STRING(255),
+        allowNull: true
+    },
+    mfa_enabled_at: {
+        type: DataTypes.DATE,
+        allowNull: true
+    },
+    mfa_last_step: {
+        type: DataTypes.BIGINT.UNSIGNED,
+        allowNull: true
+    }
+}, {
+    sequelize: database,
+    tableName: 'users',
+    /** El hash de la contraseña y el secreto TOTP solo se obtienen solicitándolos explícitamente */
+    defaultScope: {
+        attributes: { exclude: ['password', 'mfa_secret', 'mfa_last_step'] }
+    },
+    scopes: {
+        withPassword: {
+            attributes: { include: ['password'] }
+        },
+        withMfa: {
+            attributes: { include: ['mfa_secret', 'mfa_last_step'] }
+        }
+    }
+})
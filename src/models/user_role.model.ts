@@ -0,0 +1,28 @@
+import { Model, DataTypes } from 'sequelize'
+import { database } from '../config/database'
+import { RoleModel } from './role.model'
+
+export class UserRoleModel extends Model {
+    /** Declaramos cada uno de los atributos del modelo */
+    public user_id!: number
+    public role_id!: number
+
+    /** Rol asignado (disponible al incluir la relación 'role') */
+    public role?: RoleModel
+}
+
+/** Tabla pivote entre usuarios y roles. */
+UserRoleModel.init({
+    user_id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        primaryKey: true
+    },
+    role_id: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        primaryKey: true
+    }
+}, {
+    sequelize: database,
+    tableName: 'user_roles',
+    timestamps: false
+})
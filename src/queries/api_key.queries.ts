@@ -0,0 +1,70 @@
+import { ApiKeyModel } from '../models/api_key.model'
+import { Op } from 'sequelize'
+
+export class ApiKeyQueries {
+    /** Obtiene todas las llaves (sin hash), las más recientes primero */
+    public async index() {
+        try {
+            let apiKeys = await ApiKeyModel.findAll({
+                order: [['createdAt', 'DESC']]
+            })
+            return { ok: true, apiKeys }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Obtiene una llave por su prefijo incluyendo el hash */
+    public async showByPrefix(prefix: string) {
+        try {
+            let apiKey = await ApiKeyModel.scope('withHash').findOne({
+                where: { prefix }
+            })
+            return { ok: true, apiKey }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Registra una nueva llave */
+    public async store(data: { name: string, client_id: string, prefix: string, key_hash: string, scopes: string[], expires_at: Date | null, created_by: number | null }) {
+        try {
+            let apiKey = await ApiKeyModel.create({
+                name: data.name,
+                client_id: data.client_id,
+                prefix: data.prefix,
+                key_hash: data.key_hash,
+                scopes: data.scopes,
+                expires_at: data.expires_at,
+                created_by: data.created_by
+            })
+            return { ok: true, apiKey }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Registra el último uso de la llave */
+    public async touch(id: number) {
+        try {
+            await ApiKeyModel.update({ last_used_at: new Date() }, { where: { id } })
+            return { ok: true }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Revoca una llave activa; `affected` es 0 si no existe o ya estaba revocada */
+    public async revoke(id: number) {
+        try {
+            let [affected] = await ApiKeyModel.update({
+                revoked_at: new Date()
+            }, {
+                where: { id, revoked_at: { [Op.is]: null } }
+            })
+            return { ok: true, affected }
+        } catch {
+            return { ok: false }
+        }
+    }
+}
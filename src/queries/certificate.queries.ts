@@ -0,0 +1,93 @@
+import { CertificateModel } from '../models/certificate.model'
+import { UserModel } from '../models/user.model'
+import { Op, WhereOptions } from 'sequelize'
+
+export class CertificateQueries {
+    /** Busca certificados con filtros opcionales, los más recientes primero */
+    public async index(filters: { user_id?: number, search?: string, revoked?: boolean, limit: number, offset: number }) {
+        try {
+            let where: WhereOptions = {}
+            if (filters.user_id) where['user_id'] = filters.user_id
+            if (filters.search) where['holder_name'] = { [Op.like]: `%${filters.search.replace(/[\\%_]/g, '\\$&')}%` }
+            if (filters.revoked !== undefined) where['revoked_at'] = filters.revoked ? { [Op.not]: null } : { [Op.is]: null }
+
+            let { rows: certificates, count } = await CertificateModel.findAndCountAll({
+                where,
+                order: [['createdAt', 'DESC'], ['id', 'DESC']],
+                limit: filters.limit,
+                offset: filters.offset
+            })
+            return { ok: true, certificates, count }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Obtiene un certificado con los datos básicos de quien lo emitió */
+    public async show(id: number) {
+        try {
+            let certificate = await CertificateModel.findByPk(id, {
+                include: [{ model: UserModel, as: 'issuer', attributes: ['id', 'name', 'email'] }]
+            })
+            return { ok: true, certificate }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Obtiene un certificado por su código de verificación */
+    public async showByCode(code: string) {
+        try {
+            let certificate = await CertificateModel.findOne({ where: { code } })
+            return { ok: true, certificate }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Registra un certificado, todavía sin PDF */
+    public async store(data: { code: string, template: string, user_id: number | null, holder_name: string, title: string, data: Record<string, any> | null, issued_by: number | null, expires_at: Date | null }) {
+        try {
+            let certificate = await CertificateModel.create(data)
+            return { ok: true, certificate }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Asocia el documento con el PDF emitido */
+    public async attachDocument(id: number, document_id: number, checksum: string) {
+        try {
+            await CertificateModel.update({ document_id, checksum }, { where: { id } })
+            return { ok: true }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Revoca un certificado vigente; `affected` es 0 si no existe o ya estaba revocado */
+    public async revoke(id: number, revoked_by: number, reason: string) {
+        try {
+            let [affected] = await CertificateModel.update({
+                revoked_at: new Date(),
+                revoked_by,
+                revoked_reason: reason
+            }, {
+                where: { id, revoked_at: { [Op.is]: null } }
+            })
+            return { ok: true, affected }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Elimina un certificado cuyo PDF no pudo emitirse */
+    public async destroy(id: number) {
+        try {
+            let affected = await CertificateModel.destroy({ where: { id } })
+            return { ok: true, affected }
+        } catch {
+            return { ok: false }
+        }
+    }
+}
@@ -0,0 +1,273 @@
+import { DocumentModel } from '../models/document.model'
+import { DocumentVersionModel } from '../models/document_version.model'
+import { DocumentContentModel } from '../models/document_content.model'
+import { UserModel } from '../models/user.model'
+import { database } from '../config/database'
+import { Op, Transaction, WhereOptions, literal } from 'sequelize'
+import { PdfInfo } from '../helpers/pdf'
+import { QuotaResult } from '../helpers/quotas'
+
+export class DocumentQueries {
+    /** Busca documentos con filtros opcionales, los más recientes primero */
+    public async index(filters: { ids?: number[], category?: string, user_id?: number, search?: string, from?: Date, to?: Date, limit: number, offset: number }) {
+        try {
+            let where: WhereOptions = {}
+            if (filters.ids) where['id'] = filters.ids
+            if (filters.category) where['category'] = filters.category
+            if (filters.user_id) where['user_id'] = filters.user_id
+            if (filters.search) where['original_name'] = { [Op.like]: `%${filters.search.replace(/[\\%_]/g, '\\$&')}%` }
+            if (filters.from || filters.to) {
+                where['createdAt'] = {
+                    ...(filters.from ? { [Op.gte]: filters.from } : {}),
+                    ...(filters.to ? { [Op.lte]: filters.to } : {})
+                }
+            }
+
+            let { rows: documents, count } = await DocumentModel.findAndCountAll({
+                where,
+                order: [['createdAt', 'DESC'], ['id', 'DESC']],
+                limit: filters.limit,
+                offset: filters.offset
+            })
+            return { ok: true, documents, count }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Obtiene un documento con los datos básicos de quien lo subió */
+    public async show(id: number) {
+        try {
+            let document = await DocumentModel.findByPk(id, {
+                include: [{ model: UserModel, as: 'owner', attributes: ['id', 'name', 'email'] }]
+            })
+            return { ok: true, document }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Documentos de la categoría creados antes de `before`, por id ascendente a partir de `after_id` */
+    public async expired(category: string, before: Date, after_id: number, limit: number) {
+        try {
+            let documents = await DocumentModel.findAll({
+                where: { category, createdAt: { [Op.lt]: before }, id: { [Op.gt]: after_id } },
+                order: [['id', 'ASC']],
+                limit
+            })
+            return { ok: true, documents }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Activa (con `hold`) o retira (con null) la retención legal; `document` es null si no existe */
+    public async setHold(id: number, hold: { user_id: number, reason: string } | null) {
+        try {
+            let document = await DocumentModel.findByPk(id)
+            if (!document) return { ok: true, document: null }
+            await document.update(hold
+                ? { legal_hold: true, legal_hold_reason: hold.reason, legal_hold_by: hold.user_id, legal_hold_at: new Date() }
+                : { legal_hold: false, legal_hold_reason: null, legal_hold_by: null, legal_hold_at: null })
+            return { ok: true, document }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /**
+     * Guarda lo extraído de la versión `version`: páginas y metadatos en el documento y el texto en
+     * `document_contents` (sin texto se elimina). `document` es null si el documento ya no existe o
+     * cambió de versión mientras se analizaba, en cuyo caso no se guarda nada.
+     */
+    public async saveContent(document_id: number, version: number, data: { pages: number | null, pdf_info: PdfInfo | null, text: string | null }) {
+        try {
+            let document = await database.transaction(async (transaction) => {
+                let document = await DocumentModel.findByPk(document_id, { transaction, lock: transaction.LOCK.UPDATE })
+                if (!document || document.version !== version) return null
+                await document.update({ pages: data.pages, pdf_info: data.pdf_info }, { transaction })
+                if (data.text) {
+                    await DocumentContentModel.upsert({ document_id, version, text: data.text }, { transaction })
+                } else {
+                    await DocumentContentModel.destroy({ where: { document_id }, transaction })
+                }
+                return document
+            })
+            return { ok: true, document }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /**
+     * Búsqueda de texto completo sobre el contenido, los más relevantes primero. `snippet` es un
+     * fragmento del texto alrededor de la primera aparición de `term`.
+     */
+    public async search(filters: { q: string, term: string, category?: string, limit: number, offset: number }) {
+        try {
+            let match = `MATCH (\`DocumentContentModel\`.\`text\`) AGAINST (${database.escape(filters.q)} IN NATURAL LANGUAGE MODE)`
+            let position = `LOCATE(${database.escape(filters.term)}, \`DocumentContentModel\`.\`text\`)`
+            let { rows: contents, count } = await DocumentContentModel.findAndCountAll({
+                attributes: [
+                    'document_id',
+                    [literal(match), 'score'],
+                    [literal(`SUBSTRING(\`DocumentContentModel\`.\`text\`, GREATEST(${position} - 80, 1), 240)`), 'snippet']
+                ],
+                where: literal(match),
+                include: [{
+                    model: DocumentModel,
+                    as: 'document',
+                    required: true,
+                    where: filters.category ? { category: filters.category } : undefined
+                }],
+                order: [[literal('score'), 'DESC'], ['document_id', 'DESC']],
+                limit: filters.limit,
+                offset: filters.offset
+            })
+            return { ok: true, contents, count }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Busca un documento de la categoría con el mismo contenido (checksum y tamaño) */
+    public async showDuplicate(category: string, checksum: string, size: number) {
+        try {
+            let document = await DocumentModel.findOne({
+                where: { category, checksum, size },
+                order: [['id', 'ASC']]
+            })
+            return { ok: true, document }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /**
+     * Registra un documento nuevo junto con su versión 1. `guard` corre primero dentro de la
+     * transacción (verificación de cuotas); si lo rechaza no se registra nada y se devuelve en `rejected`
+     */
+    public async store(data: { user_id: number | null, client_id: string | null, category: string, key: string, name: string, original_name: string | null, mimetype: string, size: number, checksum: string }, guard?: (transaction: Transaction) => Promise<QuotaResult>) {
+        try {
+            let { document, rejected } = await database.transaction(async (transaction): Promise<{ document: DocumentModel | null, rejected: QuotaResult | null }> => {
+                let allowed = guard ? await guard(transaction) : { ok: true }
+                if (!allowed.ok) return { document: null, rejected: allowed }
+                let document = await DocumentModel.create({ ...data, version: 1 }, { transaction })
+                await DocumentVersionModel.create({
+                    document_id: document.id,
+                    version: 1,
+                    user_id: data.user_id,
+                    client_id: data.client_id,
+                    key: data.key,
+                    name: data.name,
+                    original_name: data.original_name,
+                    mimetype: data.mimetype,
+                    size: data.size,
+                    checksum: data.checksum
+                }, { transaction })
+                return { document, rejected: null }
+            })
+            return { ok: true, document, rejected }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /**
+     * Agrega una versión al documento y la deja como vigente; `document` es null si el documento
+     * no existe o si `guard` (que recibe el documento bloqueado) la rechaza, con el motivo en `rejected`
+     */
+    public async appendVersion(document_id: number, data: { user_id: number | null, client_id: string | null, key: string, name: string, original_name: string | null, mimetype: string, size: number, checksum: string, restored_from?: number }, guard?: (document: DocumentModel, transaction: Transaction) => Promise<QuotaResult>) {
+        try {
+            let { document, rejected } = await database.transaction(async (transaction): Promise<{ document: DocumentModel | null, rejected: QuotaResult | null }> => {
+                let document = await DocumentModel.findByPk(document_id, { transaction, lock: transaction.LOCK.UPDATE })
+                if (!document) return { document: null, rejected: null }
+                let allowed = guard ? await guard(document, transaction) : { ok: true }
+                if (!allowed.ok) return { document: null, rejected: allowed }
+                let version = document.version + 1
+                await DocumentVersionModel.create({ ...data, document_id, version, restored_from: data.restored_from ?? null }, { transaction })
+                await document.update({
+                    key: data.key,
+                    name: data.name,
+                    original_name: data.original_name,
+                    mimetype: data.mimetype,
+                    size: data.size,
+                    checksum: data.checksum,
+                    version,
+                    // Lo extraído era de la versión anterior; `DocumentManager` lo vuelve a obtener
+                    pages: null,
+                    pdf_info: null
+                }, { transaction })
+                return { document, rejected: null }
+            })
+            return { ok: true, document, rejected }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /**
+     * Elimina versiones y devuelve las claves que ya no usa ninguna versión.
+     * Las demás referencias a esas claves se bloquean para que dos borrados concurrentes no
+     * dejen el objeto huérfano ni lo declaren huérfano mientras otro documento lo usa.
+     */
+    private async releaseVersions(versions: DocumentVersionModel[], transaction: Transaction) {
+        if (versions.length === 0) return []
+        let ids = versions.map(version => version.id)
+        let keys = [...new Set(versions.map(version => version.key))]
+        let holders = await DocumentVersionModel.findAll({
+            where: { key: keys },
+            attributes: ['id', 'key'],
+            transaction,
+            lock: transaction.LOCK.UPDATE
+        })
+        await DocumentVersionModel.destroy({ where: { id: ids }, transaction })
+        return keys.filter(key => !holders.some(holder => holder.key === key && !ids.includes(holder.id)))
+    }
+
+    /**
+     * Elimina el documento con todas sus versiones; `orphans` son las claves que dejaron de
+     * usarse, para borrarlas del almacenamiento después de confirmar la transacción.
+     * `affected` es 0 si el documento no existía o si está bajo retención legal (`held`).
+     */
+    public async destroy(id: number) {
+        try {
+            let { affected, held, orphans } = await database.transaction(async (transaction) => {
+                let document = await DocumentModel.findByPk(id, { transaction, lock: transaction.LOCK.UPDATE })
+                if (!document) return { affected: 0, held: false, orphans: [] }
+                if (document.legal_hold) return { affected: 0, held: true, orphans: [] }
+                let versions = await DocumentVersionModel.findAll({ where: { document_id: id }, transaction })
+                let orphans = await this.releaseVersions(versions, transaction)
+                await DocumentContentModel.destroy({ where: { document_id: id }, transaction })
+                await document.destroy({ transaction })
+                return { affected: 1, held: false, orphans }
+            })
+            return { ok: true, affected, held, orphans }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /**
+     * Elimina las versiones que exceden las `keep` más recientes; `pruned` son los números
+     * eliminados y `orphans` las claves que dejaron de usarse.
+     * Un documento bajo retención legal conserva todas sus versiones.
+     */
+    public async prune(document_id: number, keep: number) {
+        try {
+            let { pruned, orphans } = await database.transaction(async (transaction) => {
+                let document = await DocumentModel.findByPk(document_id, { transaction, lock: transaction.LOCK.UPDATE })
+                if (!document || document.legal_hold) return { pruned: [], orphans: [] }
+                let versions = await DocumentVersionModel.findAll({
+                    where: { document_id, version: { [Op.lte]: document.version - keep } },
+                    transaction
+                })
+                let orphans = await this.releaseVersions(versions, transaction)
+                return { pruned: versions.map(version => version.version), orphans }
+            })
+            return { ok: true, pruned, orphans }
+        } catch {
+            return { ok: false }
+        }
+    }
+}
@@ -0,0 +1,30 @@
+import { DocumentVersionModel } from '../models/document_version.model'
+import { UserModel } from '../models/user.model'
+
+export class DocumentVersionQueries {
+    /** Obtiene el historial de un documento, la versión más reciente primero */
+    public async index(document_id: number) {
+        try {
+            let versions = await DocumentVersionModel.findAll({
+                where: { document_id },
+                include: [{ model: UserModel, as: 'uploader', attributes: ['id', 'name', 'email'] }],
+                order: [['version', 'DESC']]
+            })
+            return { ok: true, versions }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Obtiene una versión concreta de un documento */
+    public async show(document_id: number, version: number) {
+        try {
+            let documentVersion = await DocumentVersionModel.findOne({
+                where: { document_id, version }
+            })
+            return { ok: true, documentVersion }
+        } catch {
+            return { ok: false }
+        }
+    }
+}
@@ -1,7 +1,7 @@
 import { ExampleModel } from '../models/example.model'
 import { Op } from 'sequelize'
 
-export class CertificateQueries {
+export class ExampleQueries {
     /** Obtiene todos los recursos de la tabla */
     public async index() {
         try {
@@ -0,0 +1,110 @@
+import { LoginThrottleModel } from '../models/login_throttle.model'
+import { database } from '../config/database'
+import { Op } from 'sequelize'
+
+export class LoginThrottleQueries {
+    /** Obtiene los contadores de las llaves indicadas */
+    public async showMany(entries: { scope: 'account' | 'ip', key: string }[]) {
+        try {
+            let throttles = await LoginThrottleModel.findAll({
+                where: { [Op.or]: entries }
+            })
+            return { ok: true, throttles }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /**
+     * Suma un fallo al contador de una llave (creándolo si no existe) con el
+     * registro bloqueado, para que intentos simultáneos no se pisen; los fallos
+     * anteriores a `since` dejan de contar
+     */
+    public async registerFailure(scope: 'account' | 'ip', key: string, since: Date) {
+        try {
+            let throttle = await database.transaction(async (transaction) => {
+                let [created] = await LoginThrottleModel.findOrCreate({
+                    where: { scope, key },
+                    defaults: { scope, key },
+                    transaction
+                })
+                let throttle = await LoginThrottleModel.findByPk(created.id, { transaction, lock: transaction.LOCK.UPDATE })
+                let expired = !throttle.last_failure_at || throttle.last_failure_at.getTime() < since.getTime()
+                await throttle.update({
+                    failures: expired ? 1 : throttle.failures + 1,
+                    last_failure_at: new Date()
+                }, { transaction })
+                return throttle
+            })
+            return { ok: true, throttle }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Actualiza el retraso de un contador */
+    public async update(id: number, data: { next_attempt_at: Date | null }) {
+        try {
+            await LoginThrottleModel.update(data, { where: { id } })
+            return { ok: true }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /**
+     * Bloquea un contador solo si no tiene un bloqueo vigente; `locked` indica si
+     * este llamado fue el que lo bloqueó, para que intentos simultáneos que
+     * alcanzan el umbral no renueven el bloqueo ni reenvíen el correo
+     */
+    public async lock(id: number, data: { locked_until: Date, unlock_token_hash: string | null }) {
+        try {
+            let [affected] = await LoginThrottleModel.update({ ...data, next_attempt_at: null }, {
+                where: {
+                    id,
+                    [Op.or]: [
+                        { locked_until: null },
+                        { locked_until: { [Op.lte]: new Date() } }
+                    ]
+                }
+            })
+            return { ok: true, locked: affected > 0 }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Obtiene una cuenta bloqueada a partir del hash de su token de desbloqueo */
+    public async showLockedByUnlockHash(unlock_token_hash: string) {
+        try {
+            let throttle = await LoginThrottleModel.findOne({
+                where: {
+                    scope: 'account',
+                    unlock_token_hash,
+                    locked_until: { [Op.gt]: new Date() }
+                }
+            })
+            return { ok: true, throttle }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Reinicia el contador de una llave */
+    public async reset(scope: 'account' | 'ip', key: string) {
+        try {
+            await LoginThrottleModel.update({
+                failures: 0,
+                last_failure_at: null,
+                next_attempt_at: null,
+                locked_until: null,
+                unlock_token_hash: null
+            }, {
+                where: { scope, key }
+            })
+            return { ok: true }
+        } catch {
+            return { ok: false }
+        }
+    }
+}
@@ -0,0 +1,13 @@
+import { MalwareDetectionModel } from '../models/malware_detection.model'
+
+export class MalwareDetectionQueries {
+    /** Registra un archivo rechazado por contener malware */
+    public async store(data: { user_id: number | null, category: string, key: string, original_name: string | null, size: number, checksum: string | null, scanner: string, signature: string }) {
+        try {
+            let detection = await MalwareDetectionModel.create(data)
+            return { ok: true, detection }
+        } catch {
+            return { ok: false }
+        }
+    }
+}
@@ -0,0 +1,71 @@
+import { MfaChallengeModel } from '../models/mfa_challenge.model'
+import { Op, literal } from 'sequelize'
+
+export class MfaChallengeQueries {
+    /** Registra un reto de segundo factor */
+    public async store(data: { user_id: number, token_hash: string, expires_at: Date }) {
+        try {
+            let challenge = await MfaChallengeModel.create({
+                user_id: data.user_id,
+                token_hash: data.token_hash,
+                expires_at: data.expires_at
+            })
+            return { ok: true, challenge }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Obtiene un reto vigente (no usado ni expirado) a partir del hash de su token */
+    public async showActiveByHash(token_hash: string) {
+        try {
+            let challenge = await MfaChallengeModel.findOne({
+                where: {
+                    token_hash,
+                    used_at: { [Op.is]: null },
+                    expires_at: { [Op.gt]: new Date() }
+                }
+            })
+            return { ok: true, challenge }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /**
+     * Suma un intento al reto solo si sigue vigente y no ha agotado `max`; con
+     * `affected` en 0 el intento no debe evaluarse, así intentos simultáneos
+     * no rebasan el límite
+     */
+    public async registerAttempt(id: number, max: number) {
+        try {
+            let [affected] = await MfaChallengeModel.update({
+                attempts: literal('attempts + 1')
+            }, {
+                where: {
+                    id,
+                    attempts: { [Op.lt]: max },
+                    used_at: { [Op.is]: null },
+                    expires_at: { [Op.gt]: new Date() }
+                }
+            })
+            return { ok: true, affected }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Marca el reto como usado solo si sigue pendiente; `affected` es 0 si ya se había consumido */
+    public async consume(id: number) {
+        try {
+            let [affected] = await MfaChallengeModel.update({
+                used_at: new Date()
+            }, {
+                where: { id, used_at: { [Op.is]: null } }
+            })
+            return { ok: true, affected }
+        } catch {
+            return { ok: false }
+        }
+    }
+}
@@ -0,0 +1,57 @@
+import { MfaRecoveryCodeModel } from '../models/mfa_recovery_code.model'
+import { database } from '../config/database'
+import { Op } from 'sequelize'
+
+export class MfaRecoveryCodeQueries {
+    /** Sustituye todos los códigos del usuario por un nuevo juego */
+    public async replaceForUser(user_id: number, code_hashes: string[]) {
+        try {
+            await database.transaction(async (transaction) => {
+                await MfaRecoveryCodeModel.destroy({ where: { user_id }, transaction })
+                await MfaRecoveryCodeModel.bulkCreate(
+                    code_hashes.map(code_hash => ({ user_id, code_hash })),
+                    { transaction }
+                )
+            })
+            return { ok: true }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Consume un código sin usar; `affected` es 0 si no existe o ya se utilizó */
+    public async consume(user_id: number, code_hash: string) {
+        try {
+            let [affected] = await MfaRecoveryCodeModel.update({
+                used_at: new Date()
+            }, {
+                where: { user_id, code_hash, used_at: { [Op.is]: null } }
+            })
+            return { ok: true, affected }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Cuenta los códigos que aún pueden usarse */
+    public async countRemaining(user_id: number) {
+        try {
+            let remaining = await MfaRecoveryCodeModel.count({
+                where: { user_id, used_at: { [Op.is]: null } }
+            })
+            return { ok: true, remaining }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Elimina todos los códigos del usuario */
+    public async destroyForUser(user_id: number) {
+        try {
+            await MfaRecoveryCodeModel.destroy({ where: { user_id } })
+            return { ok: true }
+        } catch {
+            return { ok: false }
+        }
+    }
+}
@@ -0,0 +1,62 @@
+import { PasswordResetModel } from '../models/password_reset.model'
+import { Op } from 'sequelize'
+
+export class PasswordResetQueries {
+    /** Registra una solicitud de restablecimiento */
+    public async store(data: { user_id: number, token_hash: string, expires_at: Date }) {
+        try {
+            let passwordReset = await PasswordResetModel.create({
+                user_id: data.user_id,
+                token_hash: data.token_hash,
+                expires_at: data.expires_at
+            })
+            return { ok: true, passwordReset }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Obtiene una solicitud vigente (no usada ni expirada) a partir del hash de su token */
+    public async showActiveByHash(token_hash: string) {
+        try {
+            let passwordReset = await PasswordResetModel.findOne({
+                where: {
+                    token_hash,
+                    used_at: { [Op.is]: null },
+                    expires_at: { [Op.gt]: new Date() }
+                }
+            })
+            return { ok: true, passwordReset }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Marca la solicitud como usada solo si sigue pendiente; `affected` es 0 si otra petición la consumió primero */
+    public async consume(id: number) {
+        try {
+            let [affected] = await PasswordResetModel.update({
+                used_at: new Date()
+            }, {
+                where: { id, used_at: { [Op.is]: null } }
+            })
+            return { ok: true, affected }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Marca como usadas todas las solicitudes pendientes del usuario */
+    public async consumeForUser(user_id: number) {
+        try {
+            await PasswordResetModel.update({
+                used_at: new Date()
+            }, {
+                where: { user_id, used_at: { [Op.is]: null } }
+            })
+            return { ok: true }
+        } catch {
+            return { ok: false }
+        }
+    }
+}
@@ -0,0 +1,87 @@
+import { RefreshTokenModel } from '../models/refresh_token.model'
+import { Op } from 'sequelize'
+
+export class RefreshTokenQueries {
+    /** Registra un nuevo refresh token (solo su hash) */
+    public async store(data: { user_id: number, family: string, token_hash: string, expires_at: Date, mfa?: boolean }) {
+        try {
+            let refreshToken = await RefreshTokenModel.create({
+                user_id: data.user_id,
+                family: data.family,
+                token_hash: data.token_hash,
+                expires_at: data.expires_at,
+                mfa: data.mfa || false
+            })
+            return { ok: true, refreshToken }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Obtiene un refresh token a partir de su hash */
+    public async showByHash(token_hash: string) {
+        try {
+            let refreshToken = await RefreshTokenModel.findOne({
+                where: { token_hash }
+            })
+            return { ok: true, refreshToken }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /**
+     * Revoca el token solo si sigue activo. Si `affected` es 0 otro proceso
+     * ya lo consumió, lo que se trata como reutilización.
+     */
+    public async consume(id: number) {
+        try {
+            let [affected] = await RefreshTokenModel.update({
+                revoked_at: new Date()
+            }, {
+                where: { id, revoked_at: { [Op.is]: null } }
+            })
+            return { ok: true, affected }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Enlaza el token consumido con el que lo sustituye */
+    public async replace(id: number, replaced_by: number) {
+        try {
+            await RefreshTokenModel.update({ replaced_by }, { where: { id } })
+            return { ok: true }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Revoca todos los tokens activos de una familia */
+    public async revokeFamily(family: string) {
+        try {
+            let [affected] = await RefreshTokenModel.update({
+                revoked_at: new Date()
+            }, {
+                where: { family, revoked_at: { [Op.is]: null } }
+            })
+            return { ok: true, affected }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Revoca todos los refresh tokens activos de un usuario */
+    public async revokeUser(user_id: number) {
+        try {
+            let [affected] = await RefreshTokenModel.update({
+                revoked_at: new Date()
+            }, {
+                where: { user_id, revoked_at: { [Op.is]: null } }
+            })
+            return { ok: true, affected }
+        } catch {
+            return { ok: false }
+        }
+    }
+}
@@ -0,0 +1,28 @@
+import { UserRoleModel } from '../models/user_role.model'
+import { RoleModel } from '../models/role.model'
+import { PermissionModel } from '../models/permission.model'
+
+export class RoleQueries {
+    /** Obtiene los nombres de roles y permisos asignados a un usuario */
+    public async grantsForUser(user_id: number) {
+        try {
+            let assignments = await UserRoleModel.findAll({
+                where: { user_id },
+                include: [{
+                    model: RoleModel,
+                    as: 'role',
+                    include: [{ model: PermissionModel, as: 'permissions', through: { attributes: [] } }]
+                }]
+            })
+
+            let roles = assignments.map(assignment => assignment.role.name)
+            let permissions = [...new Set(
+                assignments.flatMap(assignment => assignment.role.permissions.map(permission => permission.name))
+            )]
+
+            return { ok: true, roles, permissions }
+        } catch {
+            return { ok: false }
+        }
+    }
+}
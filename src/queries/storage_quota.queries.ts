@@ -0,0 +1,57 @@
+import { StorageQuotaModel } from '../models/storage_quota.model'
+import { DocumentModel } from '../models/document.model'
+import { DocumentVersionModel } from '../models/document_version.model'
+import { Op, Transaction, WhereOptions, col, fn } from 'sequelize'
+
+export class StorageQuotaQueries {
+    /** Límites de los sujetos indicados; dentro de una transacción quedan bloqueados hasta que termine */
+    public async applicable(subjects: { scope: string, subject: string }[], transaction?: Transaction) {
+        try {
+            let quotas = await StorageQuotaModel.findAll({
+                where: { [Op.or]: subjects.map(({ scope, subject }) => ({ scope, subject })) },
+                order: [['id', 'ASC']],
+                ...(transaction ? { transaction, lock: transaction.LOCK.UPDATE } : {})
+            })
+            return { ok: true, quotas }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Documentos y bytes (de todas sus versiones) que cumplen el filtro */
+    public async usage(where: { user_id?: number, client_id?: string, category?: string }, transaction?: Transaction) {
+        try {
+            let files = await DocumentModel.count({ where: where as WhereOptions, transaction })
+            let total = await DocumentVersionModel.findOne({
+                attributes: [[fn('SUM', col('DocumentVersionModel.size')), 'bytes']],
+                include: [{ model: DocumentModel, as: 'document', where: where as WhereOptions, attributes: [] }],
+                raw: true,
+                transaction
+            }) as unknown as { bytes: string | null } | null
+            return { ok: true, files, bytes: Number(total?.bytes) || 0 }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Crea o reemplaza el límite de un sujeto en una sola sentencia, apoyada en el índice único */
+    public async upsert(data: { scope: string, subject: string, max_bytes: number | null, max_files: number | null }) {
+        try {
+            await StorageQuotaModel.upsert(data)
+            let quota = await StorageQuotaModel.findOne({ where: { scope: data.scope, subject: data.subject } })
+            return { ok: true, quota }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Elimina el límite de un sujeto; `affected` es 0 si no existía */
+    public async destroy(scope: string, subject: string) {
+        try {
+            let affected = await StorageQuotaModel.destroy({ where: { scope, subject } })
+            return { ok: true, affected }
+        } catch {
+            return { ok: false }
+        }
+    }
+}
@@ -0,0 +1,93 @@
+import { UploadIntentModel } from '../models/upload_intent.model'
+import { Op } from 'sequelize'
+
+export class UploadIntentQueries {
+    /** Registra una carga directa pendiente */
+    public async store(data: { user_id: number, category: string, key: string, original_name: string | null, mimetype: string, size: number, expires_at: Date }) {
+        try {
+            let intent = await UploadIntentModel.create(data)
+            return { ok: true, intent }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Obtiene una carga pendiente y vigente del usuario */
+    public async showPending(id: number, user_id: number) {
+        try {
+            let intent = await UploadIntentModel.findOne({
+                where: {
+                    id,
+                    user_id,
+                    completed_at: { [Op.is]: null },
+                    expires_at: { [Op.gt]: new Date() }
+                }
+            })
+            return { ok: true, intent }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Marca la carga como confirmada solo si seguía pendiente; `affected` es 0 si otra petición se adelantó */
+    public async complete(id: number, size: number) {
+        try {
+            let [affected] = await UploadIntentModel.update({
+                size,
+                completed_at: new Date()
+            }, {
+                where: { id, completed_at: { [Op.is]: null } }
+            })
+            return { ok: true, affected }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Devuelve una carga confirmada a pendiente cuando el registro del documento falló */
+    public async release(id: number) {
+        try {
+            await UploadIntentModel.update({
+                completed_at: null
+            }, {
+                where: { id }
+            })
+            return { ok: true }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Cargas sin confirmar cuya vigencia terminó antes de `before`, las más antiguas primero */
+    public async expired(before: Date, limit: number) {
+        try {
+            let intents = await UploadIntentModel.findAll({
+                where: {
+                    completed_at: { [Op.is]: null },
+                    expires_at: { [Op.lt]: before }
+                },
+                order: [['id', 'ASC']],
+                limit
+            })
+            return { ok: true, intents }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Elimina una carga vencida solo si sigue sin confirmar; `affected` es 0 si otra petición la reclamó */
+    public async discard(id: number, before: Date) {
+        try {
+            let affected = await UploadIntentModel.destroy({
+                where: {
+                    id,
+                    completed_at: { [Op.is]: null },
+                    expires_at: { [Op.lt]: before }
+                }
+            })
+            return { ok: true, affected }
+        } catch {
+            return { ok: false }
+        }
+    }
+}
@@ -0,0 +1,126 @@
+import { UserModel } from '../models/user.model'
+import { Op } from 'sequelize'
+
+export class UserQueries {
+    /** Obtiene todos los usuarios (sin contraseña) */
+    public async index() {
+        try {
+            let users = await UserModel.findAll({
+                order: [['name', 'ASC']]
+            })
+            return { ok: true, users }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Obtiene un usuario por su id (sin contraseña) */
+    public async show(id: number) {
+        try {
+            let user = await UserModel.findByPk(id)
+            return { ok: true, user }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Obtiene un usuario por correo (sin contraseña) */
+    public async showByEmail(email: string) {
+        try {
+            let user = await UserModel.findOne({
+                where: { email }
+            })
+            return { ok: true, user }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Obtiene un usuario por correo incluyendo el hash de su contraseña */
+    public async showByEmailWithPassword(email: string) {
+        try {
+            let user = await UserModel.scope('withPassword').findOne({
+                where: { email }
+            })
+            return { ok: true, user }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Obtiene un usuario por id incluyendo el hash de su contraseña */
+    public async showWithPassword(id: number) {
+        try {
+            let user = await UserModel.scope('withPassword').findByPk(id)
+            return { ok: true, user }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Crea un nuevo usuario; la contraseña debe llegar ya hasheada */
+    public async store(data: { name: string, email: string, password: string }) {
+        try {
+            let user = await UserModel.create({
+                name: data.name,
+                email: data.email,
+                password: data.password
+            })
+            return { ok: true, user }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Actualiza el hash de la contraseña */
+    public async updatePassword(id: number, password: string) {
+        try {
+            await UserModel.update({ password }, { where: { id } })
+            return { ok: true }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Obtiene un usuario por id incluyendo su secreto TOTP */
+    public async showWithMfa(id: number) {
+        try {
+            let user = await UserModel.scope('withMfa').findByPk(id)
+            return { ok: true, user }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Actualiza el estado del segundo factor */
+    public async updateMfa(id: number, data: { mfa_secret: string | null, mfa_enabled_at: Date | null }) {
+        try {
+            await UserModel.update({
+                mfa_secret: data.mfa_secret,
+                mfa_enabled_at: data.mfa_enabled_at,
+                mfa_last_step: null
+            }, { where: { id } })
+            return { ok: true }
+        } catch {
+            return { ok: false }
+        }
+    }
+
+    /** Registra el paso TOTP aceptado solo si es posterior al último; `affected` es 0 ante un código repetido */
+    public async advanceMfaStep(id: number, step: number) {
+        try {
+            let [affected] = await UserModel.update({ mfa_last_step: step }, {
+                where: {
+                    id,
+                    [Op.or]: [
+                        { mfa_last_step: { [Op.is]: null } },
+                        { mfa_last_step: { [Op.lt]: step } }
+                    ]
+                }
+            })
+            return { ok: true, affected }
+        } catch {
+            return { ok: false }
+        }
+    }
+}
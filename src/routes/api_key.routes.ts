@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { ApiKeyController } from '../controllers/api_key.controller';
+import { CheckHeaders } from '../middlewares/headers';
+import { Authorization } from '../middlewares/permissions';
+
+/**
+ * Rutas de administración de llaves de API.
+ *
+ * Todas requieren un usuario con el permiso `api_keys:manage`.
+ *
+ * @class ApiKeyRoutes
+ * @description Alta, consulta y revocación de llaves para integraciones servidor a servidor
+ * @version 1.0.0
+ * @author OmarGo96
+ */
+export class ApiKeyRoutes {
+    /** Router de Express para manejar las rutas */
+    public router: Router;
+
+    /** Instancia del controlador de llaves de API */
+    private apiKeyController: ApiKeyController;
+
+    /**
+     * Inicializa el router y registra las rutas de llaves de API.
+     *
+     * @constructor
+     */
+    constructor() {
+        this.router = Router();
+        this.apiKeyController = new ApiKeyController();
+
+        /**
+         * GET /api-keys - Lista las llaves registradas
+         * @description Incluye prefijo, permisos, expiración, último uso y revocación; nunca el hash.
+         * @permission api_keys:manage
+         * @returns {object} { ok: true, api_keys: Array<ApiKey> }
+         */
+        this.router.get('/api-keys', CheckHeaders.validateJWT, Authorization.requirePermission('api_keys:manage'), this.apiKeyController.index);
+
+        /**
+         * POST /api-keys - Crea una llave
+         * @description La llave completa (`gsk_<prefix>_<secret>`) solo se devuelve en esta respuesta.
+         * @permission api_keys:manage
+         * @body {string} name
+         * @body {string} client_id - Identificador de la integración
+         * @body {string[]} scopes - Permisos 'recurso:acción'
+         * @body {string} [expires_at] - Fecha ISO 8601
+         * @returns {object} { ok: true, key: string, api_key: ApiKey } (201)
+         */
+        this.router.post('/api-keys', CheckHeaders.validateJWT, Authorization.requirePermission('api_keys:manage'), this.apiKeyController.store);
+
+        /**
+         * DELETE /api-keys/:id - Revoca una llave
+         * @permission api_keys:manage
+         * @returns {object} { ok: true, message: string } | 404 si no existe o ya estaba revocada
+         */
+        this.router.delete('/api-keys/:id', CheckHeaders.validateJWT, Authorization.requirePermission('api_keys:manage'), this.apiKeyController.revoke);
+    }
+}
@@ -0,0 +1,90 @@
+import { Router } from 'express';
+import { AuthController } from '../controllers/auth.controller';
+import { CheckHeaders } from '../middlewares/headers';
+
+/**
+ * Rutas de autenticación y manejo de sesiones.
+ *
+ * @class AuthRoutes
+ * @description Endpoints de inicio de sesión, recuperación de contraseña y manejo de tokens de sesión
+ * @version 1.0.0
+ * @author OmarGo96
+ */
+export class AuthRoutes {
+    /** Router de Express para manejar las rutas */
+    public router: Router;
+
+    /** Instancia del controlador de autenticación */
+    private authController: AuthController;
+
+    /**
+     * Inicializa el router y registra las rutas de autenticación.
+     *
+     * @constructor
+     */
+    constructor() {
+        this.router = Router();
+        this.authController = new AuthController();
+
+        /**
+         * POST /auth/login - Inicia sesión con correo y contraseña
+         * @description Verifica las credenciales con bcrypt y emite un par access/refresh token.
+         * Si la cuenta tiene segundo factor activo no se emiten tokens: se devuelve un
+         * `mfa_token` que debe canjearse en POST /auth/mfa/verify.
+         * @body {string} email
+         * @body {string} password
+         * @returns {object} { ok: true, token: string, refresh_token: string } | { ok: true, mfa_required: true, mfa_token: string }
+         * @status 429 - Retraso progresivo o bloqueo temporal por intentos fallidos (`Retry-After`, `locked`)
+         */
+        this.router.post('/auth/login', this.authController.login);
+
+        /**
+         * POST /auth/unlock - Desbloquea una cuenta bloqueada por intentos fallidos
+         * @description Consume el token del enlace enviado por correo al producirse el bloqueo.
+         * @body {string} token
+         * @returns {object} { ok: true, message: string }
+         */
+        this.router.post('/auth/unlock', this.authController.unlock);
+
+        /**
+         * POST /auth/password/forgot - Solicita el restablecimiento de contraseña
+         * @description Envía por correo un enlace de un solo uso. Responde igual aunque el correo no exista.
+         * @body {string} email
+         * @returns {object} { ok: true, message: string }
+         */
+        this.router.post('/auth/password/forgot', this.authController.forgotPassword);
+
+        /**
+         * POST /auth/password/reset - Establece una nueva contraseña
+         * @description Consume el token recibido por correo y revoca todas las sesiones del usuario.
+         * @body {string} token
+         * @body {string} password
+         * @returns {object} { ok: true, message: string }
+         */
+        this.router.post('/auth/password/reset', this.authController.resetPassword);
+
+        /**
+         * POST /auth/refresh - Rota el refresh token
+         * @description Intercambia un refresh token vigente por un nuevo par access/refresh.
+         * Si el token ya había sido utilizado se revoca toda su familia.
+         * @body {string} refresh_token
+         * @returns {object} { ok: true, token: string, refresh_token: string }
+         */
+        this.router.post('/auth/refresh', this.authController.refresh);
+
+        /**
+         * POST /auth/logout - Cierra la sesión actual
+         * @description Revoca el access token presentado y, si se envía, la familia del refresh token.
+         * @body {string} [refresh_token]
+         * @returns {object} { ok: true, message: string }
+         */
+        this.router.post('/auth/logout', CheckHeaders.validateJWT, this.authController.logout);
+
+        /**
+         * POST /auth/revoke-all - Cierra todas las sesiones del usuario
+         * @description Revoca todos los access tokens emitidos hasta el momento y todos los refresh tokens activos.
+         * @returns {object} { ok: true, message: string }
+         */
+        this.router.post('/auth/revoke-all', CheckHeaders.validateJWT, this.authController.revokeAll);
+    }
+}
@@ -0,0 +1,88 @@
+import { Router } from 'express';
+import { CertificateController } from '../controllers/certificate.controller';
+import { CheckHeaders } from '../middlewares/headers';
+import { Authorization } from '../middlewares/permissions';
+
+/**
+ * Rutas de certificados.
+ *
+ * La verificación por código es pública: la consulta quien recibe un
+ * certificado impreso o en PDF, sin cuenta en el sistema. Emitir, consultar
+ * y revocar requieren permisos.
+ *
+ * @class CertificateRoutes
+ * @description Emisión, consulta, revocación y verificación pública de certificados
+ * @version 1.0.0
+ * @author OmarGo96
+ */
+export class CertificateRoutes {
+    /** Router de Express para manejar las rutas */
+    public router: Router;
+
+    /** Instancia del controlador de certificados */
+    private certificateController: CertificateController;
+
+    /**
+     * Inicializa el router y registra las rutas de certificados.
+     *
+     * @constructor
+     */
+    constructor() {
+        this.router = Router();
+        this.certificateController = new CertificateController();
+
+        /**
+         * GET /certificates/verify/:code - Verifica un certificado (público)
+         * @description Acepta el código con o sin guiones y en minúsculas. No expone el motivo de una revocación.
+         * @returns {object} { ok: true, certificate: { code, status: 'valid' | 'expired' | 'revoked', holder_name, title, issued_at, expires_at, revoked_at, checksum } } | 404 si el código no existe
+         */
+        this.router.get('/certificates/verify/:code', this.certificateController.verify);
+
+        /**
+         * GET /certificates - Busca certificados emitidos
+         * @permission certificates:read
+         * @query {number} [user_id] - Usuario titular
+         * @query {string} [search] - Texto contenido en el nombre del titular
+         * @query {string} [revoked] - 'true' solo revocados, 'false' solo no revocados
+         * @query {number} [page=1]
+         * @query {number} [limit=20] - Máximo 100
+         * @returns {object} { ok: true, certificates: Array<Certificate>, total: number, page: number }
+         */
+        this.router.get('/certificates', CheckHeaders.validateJWT, Authorization.requirePermission('certificates:read'), this.certificateController.index);
+
+        /**
+         * POST /certificates - Emite un certificado y genera su PDF
+         * @permission certificates:issue
+         * @body {string} holder_name - Titular
+         * @body {string} title - Lo que acredita (ej. 'Membresía Platino')
+         * @body {number} [user_id] - Usuario titular, si tiene cuenta
+         * @body {string} [expires_at] - Fin de la vigencia (ISO 8601)
+         * @body {object} [data] - Datos adicionales para la plantilla
+         * @body {string} [template] - Plantilla de `files/templates` (default CERTIFICATE_TEMPLATE)
+         * @returns {object} { ok: true, certificate: Certificate } | 422 si excede la cuota de la categoría
+         */
+        this.router.post('/certificates', CheckHeaders.validateJWT, Authorization.requirePermission('certificates:issue'), this.certificateController.store);
+
+        /**
+         * GET /certificates/:id - Detalle de un certificado, con el motivo de revocación
+         * @permission certificates:read
+         * @returns {object} { ok: true, certificate: Certificate }
+         */
+        this.router.get('/certificates/:id(\\d+)', CheckHeaders.validateJWT, Authorization.requirePermission('certificates:read'), this.certificateController.show);
+
+        /**
+         * GET /certificates/:id/download - Descarga el PDF emitido
+         * @permission certificates:read
+         * @returns {Buffer} PDF con el header X-Checksum-SHA256
+         */
+        this.router.get('/certificates/:id(\\d+)/download', CheckHeaders.validateJWT, Authorization.requirePermission('certificates:read'), this.certificateController.download);
+
+        /**
+         * POST /certificates/:id/revoke - Revoca un certificado
+         * @permission certificates:revoke
+         * @body {string} reason - Motivo (máximo 255 caracteres)
+         * @returns {object} { ok: true, message: string, certificate: Certificate } | 409 si ya estaba revocado
+         */
+        this.router.post('/certificates/:id(\\d+)/revoke', CheckHeaders.validateJWT, Authorization.requirePermission('certificates:revoke'), this.certificateController.revoke);
+    }
+}
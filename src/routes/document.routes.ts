@@ -0,0 +1,247 @@
+import { Router } from 'express';
+import { DocumentController } from '../controllers/document.controller';
+import { CheckHeaders } from '../middlewares/headers';
+import { Authorization } from '../middlewares/permissions';
+import { StreamingUpload } from '../helpers/streaming';
+
+/**
+ * Rutas de documentos.
+ *
+ * Las cargas y descargas usan URLs prefirmadas: el archivo viaja directo
+ * entre el navegador y el almacenamiento, y esta API solo autoriza y valida.
+ *
+ * @class DocumentRoutes
+ * @description Registro de documentos, categorías y cargas/descargas directas al almacenamiento
+ * @version 1.0.0
+ * @author OmarGo96
+ */
+export class DocumentRoutes {
+    /** Router de Express para manejar las rutas */
+    public router: Router;
+
+    /** Instancia del controlador de documentos */
+    private documentController: DocumentController;
+
+    /**
+     * Inicializa el router y registra las rutas de documentos.
+     *
+     * @constructor
+     */
+    constructor() {
+        this.router = Router();
+        this.documentController = new DocumentController();
+
+        /**
+         * GET /documents/categories - Lista las categorías de documentos
+         * @description Código, nombre, tipos MIME aceptados, tamaño máximo y retención de
+         * cada categoría configurada en `DocumentCategories`.
+         * @returns {object} { ok: true, categories: Array<DocumentCategory sin prefix> }
+         */
+        this.router.get('/documents/categories', CheckHeaders.validateJWT, this.documentController.categories);
+
+        /**
+         * POST /documents/uploads - Solicita una URL prefirmada de carga
+         * @description Valida tipo y tamaño declarados contra la categoría. El cliente debe
+         * hacer PUT a `url` con los `headers` indicados y después confirmar la carga.
+         * @permission documents:write
+         * @body {string} category - Código de la categoría
+         * @body {string} filename - Nombre original del archivo
+         * @body {string} mimetype - Tipo MIME
+         * @body {number} size - Tamaño en bytes
+         * @returns {object} { ok: true, upload: { id, method, url, headers, expires_at } } (201) | 501 si el almacenamiento no admite URLs prefirmadas
+         */
+        this.router.post('/documents/uploads', CheckHeaders.validateJWT, Authorization.requirePermission('documents:write'), this.documentController.beginUpload);
+
+        /**
+         * POST /documents/uploads/:id/complete - Confirma una carga directa
+         * @description Verifica que el objeto exista, su tamaño y su tipo real; si no
+         * corresponde con lo declarado se elimina del almacenamiento.
+         * @permission documents:write
+         * @returns {object} { ok: true, document: Document } (201)
+         */
+        this.router.post('/documents/uploads/:id/complete', CheckHeaders.validateJWT, Authorization.requirePermission('documents:write'), this.documentController.completeUpload);
+
+        /**
+         * GET /documents - Busca documentos registrados
+         * @permission documents:read
+         * @query {string} [category] - Código de la categoría
+         * @query {number} [user_id] - Usuario que subió el archivo
+         * @query {string} [search] - Texto contenido en el nombre original
+         * @query {string} [from] - Subidos desde esta fecha (ISO 8601)
+         * @query {string} [to] - Subidos hasta esta fecha (ISO 8601; una fecha sin hora incluye el día completo)
+         * @query {number} [page=1]
+         * @query {number} [limit=20] - Máximo 100
+         * @returns {object} { ok: true, documents: Array<Document>, total: number, page: number }
+         */
+        this.router.get('/documents', CheckHeaders.validateJWT, Authorization.requirePermission('documents:read'), this.documentController.index);
+
+        /**
+         * GET /documents/search - Busca en el texto de los PDFs registrados
+         * @description Búsqueda de texto completo, los más relevantes primero. Solo encuentra PDFs con texto (no escaneos).
+         * @permission documents:read
+         * @query {string} q - Texto a buscar (3 a 200 caracteres)
+         * @query {string} [category] - Código de la categoría
+         * @query {number} [page=1]
+         * @query {number} [limit=20] - Máximo 100
+         * @returns {object} { ok: true, matches: Array<{ document, score, snippet }>, total: number, page: number }
+         */
+        this.router.get('/documents/search', CheckHeaders.validateJWT, Authorization.requirePermission('documents:read'), this.documentController.search);
+
+        /**
+         * POST /documents - Sube un archivo a través de la API y lo registra
+         * @description Para archivos grandes conviene la carga directa (`/documents/uploads`). Acepta
+         * tokens de usuario y de cliente; el documento queda a nombre de quien lo sube.
+         * @permission documents:write
+         * @body {File} file - Archivo (multipart/form-data)
+         * @body {string} category - Código de la categoría
+         * @returns {object} { ok: true, document: Document } (201) | 422 si excede una cuota
+         */
+        this.router.post('/documents', CheckHeaders.authenticate(['user', 'client']), Authorization.requirePermission('documents:write'), this.documentController.store);
+
+        /**
+         * POST /documents/archive - Descarga varios documentos en un ZIP
+         * @description El ZIP se arma al vuelo desde el almacenamiento y cada entrada lleva el nombre
+         * original del archivo. Se indica `ids` o al menos un filtro. La selección se limita a
+         * BULK_DOWNLOAD_MAX_FILES documentos (500) y BULK_DOWNLOAD_MAX_BYTES (2 GB); si un archivo falla
+         * o no coincide con su checksum durante la descarga, la conexión se corta.
+         * @permission documents:read
+         * @body {number[]} [ids] - Documentos a incluir
+         * @body {string} [category] - Código de la categoría
+         * @body {number} [user_id] - Usuario que subió los archivos
+         * @body {string} [search] - Texto contenido en el nombre original
+         * @body {string} [from] - Subidos desde esta fecha (ISO 8601)
+         * @body {string} [to] - Subidos hasta esta fecha (ISO 8601)
+         * @returns {Buffer} application/zip con el header `X-Archive-Files` | 400 si excede los límites | 404
+         */
+        this.router.post('/documents/archive', CheckHeaders.validateJWT, Authorization.requirePermission('documents:read'), this.documentController.archive);
+
+        /**
+         * POST /documents/stream - Sube un archivo grande en streaming y lo registra
+         * @description El archivo pasa directo al almacenamiento (multipart en S3) sin juntarse en
+         * memoria; no aplica el límite global de 100 MB sino el `max_size_bytes` de la categoría.
+         * Con el header `X-Upload-Id` (UUID generado por el cliente) el avance puede consultarse en
+         * `/documents/stream/:upload_id/progress`. Acepta tokens de usuario y de cliente, como `POST /documents`.
+         * @permission documents:write
+         * @query {string} category - Código de la categoría
+         * @body {File} file - Archivo (multipart/form-data)
+         * @returns {object} { ok: true, document: Document } (201)
+         */
+        this.router.post(StreamingUpload.ROUTES.document, CheckHeaders.authenticate(['user', 'client']), Authorization.requirePermission('documents:write'), this.documentController.storeStream);
+
+        /**
+         * GET /documents/stream/:upload_id/progress - Avance de una carga en streaming
+         * @description Con `Accept: text/event-stream` responde con Server-Sent Events (un evento por
+         * cambio, hasta que la carga termina); en otro caso devuelve el estado actual. Solo quien inició
+         * la carga (usuario o cliente) puede consultarla.
+         * @permission documents:write
+         * @returns {object} { ok: true, progress: { id, status, received, total, document_id?, error? } } | 404
+         */
+        this.router.get('/documents/stream/:upload_id/progress', CheckHeaders.authenticate(['user', 'client']), Authorization.requirePermission('documents:write'), this.documentController.uploadProgress);
+
+        /**
+         * GET /documents/:id - Detalle de un documento
+         * @permission documents:read
+         * @returns {object} { ok: true, document: Document & { owner: { id, name, email } } }
+         */
+        this.router.get('/documents/:id(\\d+)', CheckHeaders.validateJWT, Authorization.requirePermission('documents:read'), this.documentController.show);
+
+        /**
+         * GET /documents/:id/download - Descarga el contenido verificando su integridad
+         * @description El SHA-256 del archivo leído debe coincidir con el registrado; si no,
+         * responde 500 sin entregar el contenido. Incluye el header `X-Checksum-SHA256`.
+         * @permission documents:read
+         * @returns {Buffer} Archivo con su Content-Type y Content-Disposition
+         */
+        this.router.get('/documents/:id(\\d+)/download', CheckHeaders.validateJWT, Authorization.requirePermission('documents:read'), this.documentController.download);
+
+        /**
+         * GET /documents/:id/versions - Historial de versiones
+         * @permission documents:read
+         * @returns {object} { ok: true, current: number, versions: Array<DocumentVersion & { uploader }> } (la más reciente primero)
+         */
+        this.router.get('/documents/:id(\\d+)/versions', CheckHeaders.validateJWT, Authorization.requirePermission('documents:read'), this.documentController.versions);
+
+        /**
+         * POST /documents/:id/versions - Sube una nueva versión del documento
+         * @description El archivo debe cumplir las reglas de la categoría del documento. La versión
+         * anterior se conserva; las que excedan `max_versions` (o DOCUMENT_MAX_VERSIONS) se depuran.
+         * Acepta tokens de usuario y de cliente; los bytes cuentan para la cuota del dueño del documento.
+         * @permission documents:write
+         * @body {File} file - Archivo (multipart/form-data)
+         * @returns {object} { ok: true, document: Document } (201) | 422 si excede una cuota
+         */
+        this.router.post('/documents/:id(\\d+)/versions', CheckHeaders.authenticate(['user', 'client']), Authorization.requirePermission('documents:write'), this.documentController.storeVersion);
+
+        /**
+         * POST /documents/:id/versions/stream - Sube una nueva versión en streaming
+         * @description Igual que `POST /documents/stream`, validando contra la categoría del documento.
+         * Acepta tokens de usuario y de cliente.
+         * @permission documents:write
+         * @body {File} file - Archivo (multipart/form-data)
+         * @returns {object} { ok: true, document: Document } (201)
+         */
+        this.router.post(StreamingUpload.ROUTES.version, CheckHeaders.authenticate(['user', 'client']), Authorization.requirePermission('documents:write'), this.documentController.storeStream);
+
+        /**
+         * GET /documents/:id/versions/:version/download - Descarga una versión anterior
+         * @permission documents:read
+         * @returns {Buffer} Archivo de la versión | 404 si la versión fue depurada
+         */
+        this.router.get('/documents/:id(\\d+)/versions/:version(\\d+)/download', CheckHeaders.validateJWT, Authorization.requirePermission('documents:read'), this.documentController.downloadVersion);
+
+        /**
+         * POST /documents/:id/versions/:version/restore - Restaura una versión anterior
+         * @description Agrega una versión nueva con el contenido de la indicada; el historial no se pierde.
+         * @permission documents:write
+         * @returns {object} { ok: true, document: Document } (201) | 400 si ya es la vigente
+         */
+        this.router.post('/documents/:id(\\d+)/versions/:version(\\d+)/restore', CheckHeaders.validateJWT, Authorization.requirePermission('documents:write'), this.documentController.restoreVersion);
+
+        /**
+         * DELETE /documents/:id - Elimina el documento y todas sus versiones del registro y del almacenamiento
+         * @permission documents:write
+         * @returns {object} { ok: true, message: string } | 404 si no existe | 409 si está bajo retención legal
+         */
+        this.router.delete('/documents/:id(\\d+)', CheckHeaders.validateJWT, Authorization.requirePermission('documents:write'), this.documentController.destroy);
+
+        /**
+         * PUT /documents/:id/hold - Activa la retención legal del documento
+         * @description Body: { reason }. Mientras esté activa el documento no puede eliminarse ni depurarse.
+         * @permission documents:hold
+         * @returns {object} { ok: true, document: object } | 404 si no existe
+         */
+        this.router.put('/documents/:id(\\d+)/hold', CheckHeaders.validateJWT, Authorization.requirePermission('documents:hold'), this.documentController.hold);
+
+        /**
+         * DELETE /documents/:id/hold - Retira la retención legal del documento
+         * @permission documents:hold
+         * @returns {object} { ok: true, document: object } | 404 si no existe
+         */
+        this.router.delete('/documents/:id(\\d+)/hold', CheckHeaders.validateJWT, Authorization.requirePermission('documents:hold'), this.documentController.releaseHold);
+
+        /**
+         * GET /documents/retention - Simulación de la depuración por retención
+         * @description Query: category (opcional). Reporta qué documentos vencidos se eliminarían o archivarían, sin tocarlos.
+         * @permission documents:retention
+         * @returns {object} { ok: true, report: { categories: object[], documents: object[], truncated: boolean } }
+         */
+        this.router.get('/documents/retention', CheckHeaders.validateJWT, Authorization.requirePermission('documents:retention'), this.documentController.retentionReport);
+
+        /**
+         * POST /documents/retention/sweep - Ejecuta la depuración por retención
+         * @description Body: { category } (opcional). Elimina o archiva los documentos vencidos que no están bajo retención legal.
+         * @permission documents:retention
+         * @returns {object} { ok: true, report: object } | 409 si ya hay una depuración en curso
+         */
+        this.router.post('/documents/retention/sweep', CheckHeaders.validateJWT, Authorization.requirePermission('documents:retention'), this.documentController.retentionSweep);
+
+        /**
+         * GET /documents/:id/url - URL prefirmada de descarga de la versión vigente
+         * @description La URL vence en PRESIGNED_URL_SECONDS (300 por defecto). Solo se firma la clave
+         * registrada del documento; los vencidos por retención (sin retención legal) no se entregan.
+         * @permission documents:read
+         * @returns {object} { ok: true, url: string, expires_at: string } | 404 si el documento o el archivo no existe | 501 si el almacenamiento no admite URLs prefirmadas
+         */
+        this.router.get('/documents/:id(\\d+)/url', CheckHeaders.validateJWT, Authorization.requirePermission('documents:read'), this.documentController.downloadUrl);
+    }
+}
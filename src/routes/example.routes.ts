@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { ExampleController } from '../controllers/example.controller';
 import { CheckHeaders } from '../middlewares/headers';
+import { Authorization } from '../middlewares/permissions';
 
 /**
  * Clase que encapsula y registra las rutas públicas para el controlador de ejemplos.
@@ -11,7 +12,8 @@ import { CheckHeaders } from '../middlewares/headers';
  * - Encriptación/desencriptación de datos (RSA + AES)
  * 
  * @class ExampleRoutes
- * @description Todas las rutas son públicas y no requieren autenticación JWT
+ * @description Las rutas son públicas, excepto las de AWS S3 que demuestran
+ * autenticación JWT con autorización declarativa por permisos
  * @version 1.0.0
  * @author OmarGo96
  */
@@ -44,20 +46,6 @@ export class ExampleRoutes {
          */
         this.router.get('/example', this.exampleController.example);
 
-        /** 
-         * GET /example - Endpoint de prueba básico
-         * @description Retorna un mensaje de bienvenida y estado del servidor
-         * @returns {object} { ok: true, message: "Hello World!" }
-         */
-        this.router.get('/example/users', this.exampleController.users);
-
-        /** 
-         * GET /example/users - Obtiene lista de usuarios de ejemplo
-         * @description Retorna una lista simulada de usuarios para pruebas
-         * @returns {object} { ok: true, users: Array<User> }
-         */
-        this.router.get('/', this.exampleController.users);
-
         // ========================================
         // RUTAS PARA OPERACIONES CON AWS S3
         // ========================================
@@ -65,16 +53,18 @@ export class ExampleRoutes {
         /** 
          * GET /example/aws/s3/upload - Sube un archivo a S3
          * @description Demuestra la subida de archivos al bucket configurado
+         * @permission documents:write
          * @returns {object} { ok: true, url: string }
          */
-        this.router.get('/example/aws/s3/upload', this.exampleController.awsS3Upload);
+        this.router.get('/example/aws/s3/upload', CheckHeaders.validateJWT, Authorization.requirePermission('documents:write'), this.exampleController.awsS3Upload);
 
         /** 
          * GET /example/aws/s3/download - Descarga un archivo de S3
          * @description Obtiene un archivo desde el bucket S3 configurado
+         * @permission documents:read
          * @returns {object} { ok: true, data: Buffer }
          */
-        this.router.get('/example/aws/s3/download', this.exampleController.awsS3Download);
+        this.router.get('/example/aws/s3/download', CheckHeaders.validateJWT, Authorization.requirePermission('documents:read'), this.exampleController.awsS3Download);
 
         // ========================================
         // RUTAS PARA MANEJO DE ARCHIVOS Y SEGURIDAD
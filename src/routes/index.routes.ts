@@ -1,6 +1,14 @@
 import express from 'express';
 import rateLimit from 'express-rate-limit';
 import { ExampleRoutes } from './example.routes';
+import { AuthRoutes } from './auth.routes';
+import { UserRoutes } from './user.routes';
+import { MfaRoutes } from './mfa.routes';
+import { ApiKeyRoutes } from './api_key.routes';
+import { DocumentRoutes } from './document.routes';
+import { QuotaRoutes } from './quota.routes';
+import { CertificateRoutes } from './certificate.routes';
+import { WellKnownRoutes } from './well_known.routes';
 import { SentryLogs } from '../middlewares/scope_logs';
 
 /**
@@ -14,6 +22,9 @@ import { SentryLogs } from '../middlewares/scope_logs';
  * @author OmarGo96
  */
 export class RouteManager {
+    /** Prefijo bajo el que se monta el router de la API */
+    public static readonly PREFIX = '/api';
+
     /** Router principal que contiene todas las rutas de la aplicación */
     private router: express.Router;
 
@@ -38,6 +49,13 @@ export class RouteManager {
 
         // Registrar todas las rutas de módulos
         this.router.use(new ExampleRoutes().router);
+        this.router.use(new AuthRoutes().router);
+        this.router.use(new MfaRoutes().router);
+        this.router.use(new UserRoutes().router);
+        this.router.use(new ApiKeyRoutes().router);
+        this.router.use(new DocumentRoutes().router);
+        this.router.use(new QuotaRoutes().router);
+        this.router.use(new CertificateRoutes().router);
     }
 
     /**
@@ -67,7 +85,8 @@ export class RouteManager {
 
     /**
      * Registra el router principal en la aplicación Express.
-     * Monta todas las rutas bajo el prefijo '/api'.
+     * Monta todas las rutas bajo el prefijo '/api', excepto las rutas
+     * estándar de `/.well-known` que se montan en la raíz.
      * 
      * @public
      * @method registerRoutes
@@ -82,10 +101,12 @@ export class RouteManager {
      * 
      * // Esto hace que todas las rutas estén disponibles bajo:
      * // http://localhost:3000/api/example
-     * // http://localhost:3000/api/example/users
+     * // http://localhost:3000/api/users
+     * // http://localhost:3000/.well-known/jwks.json
      * // etc.
      */
     public registerRoutes(app: express.Application): void {
-        app.use('/api', this.router);
+        app.use(new WellKnownRoutes().router);
+        app.use(RouteManager.PREFIX, this.router);
     }
 }
\ No newline at end of file
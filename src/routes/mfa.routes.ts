@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import { MfaController } from '../controllers/mfa.controller';
+import { CheckHeaders } from '../middlewares/headers';
+
+/**
+ * Rutas de verificación en dos pasos (TOTP).
+ *
+ * @class MfaRoutes
+ * @description Enrolamiento, canje del reto de login y administración del segundo factor
+ * @version 1.0.0
+ * @author OmarGo96
+ */
+export class MfaRoutes {
+    /** Router de Express para manejar las rutas */
+    public router: Router;
+
+    /** Instancia del controlador de segundo factor */
+    private mfaController: MfaController;
+
+    /**
+     * Inicializa el router y registra las rutas de segundo factor.
+     *
+     * @constructor
+     */
+    constructor() {
+        this.router = Router();
+        this.mfaController = new MfaController();
+
+        /**
+         * POST /auth/mfa/verify - Completa un inicio de sesión con segundo factor
+         * @description Canjea el `mfa_token` devuelto por /auth/login por el par de tokens definitivo.
+         * @body {string} mfa_token
+         * @body {string} [code] - Código TOTP de 6 dígitos
+         * @body {string} [recovery_code] - Alternativa cuando no se dispone de la app
+         * @returns {object} { ok: true, token: string, refresh_token: string }
+         */
+        this.router.post('/auth/mfa/verify', this.mfaController.verify);
+
+        /**
+         * POST /auth/mfa/enroll - Inicia el enrolamiento
+         * @description Genera el secreto TOTP; `otpauth_url` se muestra al usuario como código QR.
+         * @returns {object} { ok: true, secret: string, otpauth_url: string }
+         */
+        this.router.post('/auth/mfa/enroll', CheckHeaders.validateJWT, this.mfaController.enroll);
+
+        /**
+         * POST /auth/mfa/confirm - Activa el segundo factor
+         * @description Valida el primer código de la app, entrega los códigos de recuperación
+         * (solo esta vez) y un par de tokens que ya acredita el segundo factor.
+         * @body {string} code
+         * @returns {object} { ok: true, recovery_codes: string[], token: string, refresh_token: string }
+         */
+        this.router.post('/auth/mfa/confirm', CheckHeaders.validateJWT, this.mfaController.confirm);
+
+        /**
+         * POST /auth/mfa/recovery-codes - Regenera los códigos de recuperación
+         * @description Invalida los códigos anteriores. Requiere una sesión iniciada con segundo factor.
+         * @returns {object} { ok: true, recovery_codes: string[] }
+         */
+        this.router.post('/auth/mfa/recovery-codes', CheckHeaders.validateMfaJWT, this.mfaController.recoveryCodes);
+
+        /**
+         * DELETE /auth/mfa - Desactiva el segundo factor
+         * @description Requiere una sesión iniciada con segundo factor y un código vigente.
+         * @body {string} [code]
+         * @body {string} [recovery_code]
+         * @returns {object} { ok: true, message: string }
+         */
+        this.router.delete('/auth/mfa', CheckHeaders.validateMfaJWT, this.mfaController.disable);
+    }
+}
@@ -0,0 +1,52 @@
+import { Router } from 'express';
+import { QuotaController } from '../controllers/quota.controller';
+import { CheckHeaders } from '../middlewares/headers';
+import { Authorization } from '../middlewares/permissions';
+
+/**
+ * Rutas de cuotas de almacenamiento.
+ *
+ * El consumo lo consulta cualquier usuario o cliente autenticado sobre sí
+ * mismo; definir límites requiere `quotas:manage`.
+ *
+ * @class QuotaRoutes
+ * @description Consumo y límites de almacenamiento por usuario, cliente y categoría
+ * @version 1.0.0
+ * @author OmarGo96
+ */
+export class QuotaRoutes {
+    /** Router de Express para manejar las rutas */
+    public router: Router;
+
+    /** Instancia del controlador de cuotas */
+    private quotaController: QuotaController;
+
+    /**
+     * Inicializa el router y registra las rutas de cuotas.
+     *
+     * @constructor
+     */
+    constructor() {
+        this.router = Router();
+        this.quotaController = new QuotaController();
+
+        /**
+         * GET /quotas/usage - Consumo de quien consulta y de cada categoría frente a sus límites
+         * @description Una entrada por sujeto (`user` o `client`, y cada `category`) con documentos, bytes y límites (null sin límite).
+         * @returns {object} { ok: true, usage: Array<{ scope, subject, files, bytes, max_files, max_bytes }> }
+         */
+        this.router.get('/quotas/usage', CheckHeaders.authenticate(['user', 'client']), this.quotaController.usage);
+
+        /**
+         * PUT /quotas - Define o elimina un límite
+         * @description Sin `subject` se define el límite por defecto del alcance (se devuelve con `subject` '*'); con ambos límites en null se elimina.
+         * @permission quotas:manage
+         * @body {string} scope - 'user', 'client' o 'category'
+         * @body {string} [subject] - Id del usuario, id del cliente o código de categoría
+         * @body {number | null} [max_bytes]
+         * @body {number | null} [max_files]
+         * @returns {object} { ok: true, quota: object | null } | 404 al eliminar un límite inexistente
+         */
+        this.router.put('/quotas', CheckHeaders.validateJWT, Authorization.requirePermission('quotas:manage'), this.quotaController.update);
+    }
+}
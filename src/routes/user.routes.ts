@@ -0,0 +1,56 @@
+import { Router } from 'express';
+import { UserController } from '../controllers/user.controller';
+import { CheckHeaders } from '../middlewares/headers';
+import { Authorization } from '../middlewares/permissions';
+
+/**
+ * Rutas del módulo de usuarios.
+ *
+ * @class UserRoutes
+ * @description Endpoints de registro, consulta de usuarios y cambio de contraseña
+ * @version 1.0.0
+ * @author OmarGo96
+ */
+export class UserRoutes {
+    /** Router de Express para manejar las rutas */
+    public router: Router;
+
+    /** Instancia del controlador de usuarios */
+    private userController: UserController;
+
+    /**
+     * Inicializa el router y registra las rutas de usuarios.
+     *
+     * @constructor
+     */
+    constructor() {
+        this.router = Router();
+        this.userController = new UserController();
+
+        /**
+         * GET /users - Lista los usuarios registrados
+         * @description Nunca incluye el hash de la contraseña.
+         * @permission users:read
+         * @returns {object} { ok: true, users: Array<User> }
+         */
+        this.router.get('/users', CheckHeaders.validateJWT, Authorization.requirePermission('users:read'), this.userController.index);
+
+        /**
+         * POST /users/register - Registra un nuevo usuario
+         * @body {string} name
+         * @body {string} email
+         * @body {string} password - Mínimo 8 caracteres
+         * @returns {object} { ok: true, user: User } (201) | 409 si el correo ya existe
+         */
+        this.router.post('/users/register', this.userController.register);
+
+        /**
+         * PUT /users/password - Cambia la contraseña del usuario autenticado
+         * @description Requiere la contraseña actual y revoca todas las sesiones del usuario.
+         * @body {string} current_password
+         * @body {string} password
+         * @returns {object} { ok: true, message: string }
+         */
+        this.router.put('/users/password', CheckHeaders.validateJWT, this.userController.changePassword);
+    }
+}
@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { AuthController } from '../controllers/auth.controller';
+
+/**
+ * Rutas públicas bajo `/.well-known`, montadas en la raíz del servidor
+ * (fuera del prefijo '/api') para respetar las rutas estándar.
+ *
+ * @class WellKnownRoutes
+ * @description Endpoints de descubrimiento para otros servicios
+ * @version 1.0.0
+ * @author OmarGo96
+ */
+export class WellKnownRoutes {
+    /** Router de Express para manejar las rutas */
+    public router: Router;
+
+    /** Instancia del controlador de autenticación */
+    private authController: AuthController;
+
+    /**
+     * Inicializa el router y registra las rutas de descubrimiento.
+     *
+     * @constructor
+     */
+    constructor() {
+        this.router = Router();
+        this.authController = new AuthController();
+
+        /**
+         * GET /.well-known/jwks.json - Claves públicas para verificar tokens
+         * @description Publica el JWKS con todas las claves del llavero (activa y retiradas),
+         * para que otros servicios validen nuestros JWT seleccionando la clave por `kid`.
+         * @returns {object} { keys: Array<JWK> }
+         */
+        this.router.get('/.well-known/jwks.json', this.authController.jwks);
+    }
+}
@@ -2,6 +2,8 @@ import { createServer } from './config/app';
 import process from 'process';
 import * as Sentry from "@sentry/node";
 import { ServerLogger } from './utils/logger';
+import { RetentionSweeper } from './helpers/retention';
+import { UploadManager } from './helpers/uploads';
 
 /**
  * Módulo principal de arranque y gestión del servidor Express.
@@ -70,6 +72,8 @@ import { ServerLogger } from './utils/logger';
  * - **LISTEN_PORT**: Puerto de escucha del servidor (requerido)
  * - **NODE_ENV**: Entorno de ejecución (development/production)
  * - **SENTRY_DSN**: URL de configuración de Sentry (recomendado)
+ * - **RETENTION_SWEEP_INTERVAL_MINUTES**: Activa la depuración periódica por retención (opcional)
+ * - **UPLOAD_SWEEP_INTERVAL_MINUTES**: Activa la limpieza periódica de cargas directas vencidas (opcional)
  * 
  * @security
  * - Captura segura de errores sin exposición de información sensible
@@ -695,6 +699,24 @@ async function start(): Promise<void> {
             port: Number(PORT), 
             message: 'El servidor está listo para recibir peticiones.' 
         });
+
+        // Depuración periódica de documentos vencidos (RETENTION_SWEEP_INTERVAL_MINUTES)
+        if (RetentionSweeper.schedule()) {
+            ServerLogger.log({
+                type: 'info',
+                port: Number(PORT),
+                message: `Depuración por retención programada cada ${process.env.RETENTION_SWEEP_INTERVAL_MINUTES} minutos.`
+            });
+        }
+
+        // Limpieza periódica de cargas directas vencidas sin confirmar (UPLOAD_SWEEP_INTERVAL_MINUTES)
+        if (UploadManager.schedule()) {
+            ServerLogger.log({
+                type: 'info',
+                port: Number(PORT),
+                message: `Limpieza de cargas vencidas programada cada ${process.env.UPLOAD_SWEEP_INTERVAL_MINUTES} minutos.`
+            });
+        }
     });
 }
 
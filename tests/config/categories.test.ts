@@ -0,0 +1,73 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DocumentCategories } from '../../src/config/categories';
+
+describe('DocumentCategories', () => {
+    let dir: string;
+
+    /** Escribe el catálogo y lo deja configurado en DOCUMENT_CATEGORIES_PATH */
+    function configure(categories: any): void {
+        const file = path.join(dir, 'categories.json');
+        fs.writeFileSync(file, JSON.stringify(categories));
+        process.env.DOCUMENT_CATEGORIES_PATH = file;
+        DocumentCategories.reload();
+    }
+
+    const invoices = { code: 'INVOICE', name: ' Facturas ', prefix: 'invoices/', mime_types: ['application/pdf', 'image/png'], max_size_bytes: 1024, retention_days: 30 };
+
+    beforeAll(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'categories-'));
+    });
+
+    afterEach(() => {
+        delete process.env.DOCUMENT_CATEGORIES_PATH;
+        DocumentCategories.reload();
+    });
+
+    afterAll(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('sin DOCUMENT_CATEGORIES_PATH usa las categorías por defecto', () => {
+        expect(DocumentCategories.all().map(category => category.code)).toEqual(['CONTRACT', 'DOCUMENTATION', 'MEMBERSHIP']);
+        expect(DocumentCategories.find('CONTRACT')).toMatchObject({ prefix: 'contracts/', mime_types: ['application/pdf'] });
+    });
+
+    it('carga el catálogo del archivo y completa los valores por defecto', () => {
+        configure([invoices]);
+
+        expect(DocumentCategories.all()).toEqual([{
+            code: 'INVOICE',
+            name: 'Facturas',
+            description: undefined,
+            prefix: 'invoices/',
+            mime_types: ['application/pdf', 'image/png'],
+            max_size_bytes: 1024,
+            retention_days: 30,
+            retention_action: 'delete',
+            deduplicate: false,
+            max_versions: null
+        }]);
+        expect(DocumentCategories.find('CONTRACT')).toBeUndefined();
+    });
+
+    it('rechaza catálogos inválidos', () => {
+        const cases: [any, string][] = [
+            [[{ ...invoices, code: 'factura' }], 'Código de categoría inválido: factura'],
+            [[{ ...invoices, prefix: '../invoices/' }], 'Prefijo inválido en la categoría INVOICE'],
+            [[{ ...invoices, prefix: 'archive/invoices/' }], 'dentro del archivo de retención'],
+            [[{ ...invoices, mime_types: ['application/x-msdownload'] }], 'Tipos MIME inválidos o no soportados'],
+            [[{ ...invoices, retention_action: 'move' }], "retention_action debe ser 'delete' o 'archive'"],
+            [[invoices, { ...invoices, prefix: 'other/' }], 'Categoría duplicada: INVOICE'],
+            [[invoices, { ...invoices, code: 'RECEIPT' }], 'Prefijo duplicado en la categoría RECEIPT'],
+            [[], 'DOCUMENT_CATEGORIES_PATH debe contener un arreglo de categorías.']
+        ];
+
+        for (const [categories, message] of cases) {
+            configure(categories);
+            expect(() => DocumentCategories.all()).toThrow(message);
+        }
+    });
+});
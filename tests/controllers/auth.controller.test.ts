@@ -0,0 +1,74 @@
+import { Request, Response } from 'express';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { AuthController } from '../../src/controllers/auth.controller';
+import { MfaController } from '../../src/controllers/mfa.controller';
+
+// Los tokens se emiten con dobles; no hace falta cargar las llaves ni el cifrado
+jest.mock('../../src/helpers/payload', () => ({ Payload: class { } }));
+
+/** Respuesta de Express que guarda el estado y el cuerpo */
+function response() {
+    const res = { statusCode: 0, body: null as unknown };
+    return Object.assign(res, {
+        status(code: number) { res.statusCode = code; return this; },
+        set() { return this; },
+        json(body: unknown) { res.body = body; return this; }
+    });
+}
+
+describe('Inicio de sesión con segundo factor y LoginThrottle', () => {
+    const originals = { auth: { ...AuthController }, mfa: { ...MfaController } };
+    const registerSuccess = jest.fn(async (email: string) => ({ ok: true }));
+    const registerFailure = jest.fn(async (email: string, ip?: string) => ({ ok: true }));
+    const throttle = { check: async () => ({ ok: true, allowed: true }), registerSuccess, registerFailure };
+    const session = { issue: async () => ({ ok: true, token: 'access', refresh_token: 'refresh' }) };
+
+    beforeEach(() => {
+        registerSuccess.mockClear();
+        registerFailure.mockClear();
+        Object.assign(AuthController, {
+            throttle,
+            session,
+            accounts: { authenticate: async () => ({ ok: true, user: { id: 1, mfa_enabled_at: new Date() } }) },
+            mfa: { challenge: async () => ({ ok: true, mfa_token: 'reto' }) }
+        });
+        Object.assign(MfaController, { throttle, session });
+    });
+
+    afterEach(() => {
+        Object.assign(AuthController, originals.auth);
+        Object.assign(MfaController, originals.mfa);
+    });
+
+    it('no reinicia el contador con la contraseña mientras el segundo factor está pendiente', async () => {
+        const res = response();
+        await new AuthController().login({ body: { email: 'ana@example.com', password: 'secreta' }, ip: '10.0.0.1' } as Request, res as unknown as Response);
+
+        expect(res.body).toMatchObject({ ok: true, mfa_required: true });
+        expect(registerSuccess).not.toHaveBeenCalled();
+    });
+
+    it('cuenta los códigos incorrectos como intentos fallidos', async () => {
+        Object.assign(MfaController, {
+            mfa: { verifyChallenge: async () => ({ ok: false, reason: 'invalid', email: 'ana@example.com', error: 'El código de verificación no es válido.' }) }
+        });
+        const res = response();
+        await new MfaController().verify({ body: { mfa_token: 'reto', code: '000000' }, ip: '10.0.0.1' } as Request, res as unknown as Response);
+
+        expect(res.statusCode).toBe(401);
+        expect(registerFailure).toHaveBeenCalledWith('ana@example.com', '10.0.0.1');
+        expect(registerSuccess).not.toHaveBeenCalled();
+    });
+
+    it('reinicia el contador al completar el inicio de sesión', async () => {
+        Object.assign(MfaController, {
+            mfa: { verifyChallenge: async () => ({ ok: true, user_id: 1, email: 'ana@example.com' }) }
+        });
+        const res = response();
+        await new MfaController().verify({ body: { mfa_token: 'reto', code: '123456' }, ip: '10.0.0.1' } as Request, res as unknown as Response);
+
+        expect(res.body).toEqual({ ok: true, token: 'access', refresh_token: 'refresh' });
+        expect(registerSuccess).toHaveBeenCalledWith('ana@example.com');
+        expect(registerFailure).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,54 @@
+import bcrypt from 'bcrypt';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { AccountManager } from '../../src/helpers/accounts';
+
+describe('AccountManager.authenticate', () => {
+    let user: { id: number, email: string, password: string, active: boolean } | null;
+    let accounts: AccountManager;
+    let compare: jest.SpiedFunction<(data: string, encrypted: string) => Promise<boolean>>;
+
+    beforeAll(() => {
+        process.env.BCRYPT_ROUNDS = '5';
+        compare = jest.spyOn(bcrypt, 'compare') as unknown as typeof compare;
+    });
+
+    afterAll(() => {
+        delete process.env.BCRYPT_ROUNDS;
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(async () => {
+        user = { id: 1, email: 'ana@example.com', password: await bcrypt.hash('S3creta!', 5), active: true };
+        accounts = new AccountManager();
+        Object.assign(accounts, {
+            queries: { showByEmailWithPassword: async (email: string) => ({ ok: true, user: user && user.email === email ? user : null }) }
+        });
+        compare.mockClear();
+    });
+
+    it('acepta la contraseña correcta con el correo normalizado', async () => {
+        expect(await accounts.authenticate(' Ana@Example.com ', 'S3creta!')).toEqual({ ok: true, user });
+    });
+
+    it('responde igual ante una contraseña incorrecta y un correo inexistente', async () => {
+        const wrong = await accounts.authenticate('ana@example.com', 'otra-clave');
+        const unknown = await accounts.authenticate('nadie@example.com', 'otra-clave');
+
+        expect(wrong).toEqual({ ok: false, reason: 'invalid', error: 'Correo o contraseña incorrectos.' });
+        expect(unknown).toEqual(wrong);
+    });
+
+    it('compara los correos inexistentes contra un hash del mismo costo que los reales', async () => {
+        await accounts.authenticate('nadie@example.com', 'otra-clave');
+
+        const [, dummy] = compare.mock.calls[0];
+        expect(bcrypt.getRounds(dummy)).toBe(bcrypt.getRounds(user.password));
+    });
+
+    it('rechaza cuentas deshabilitadas solo con la contraseña correcta', async () => {
+        user.active = false;
+
+        expect(await accounts.authenticate('ana@example.com', 'S3creta!')).toMatchObject({ ok: false, reason: 'inactive' });
+        expect(await accounts.authenticate('ana@example.com', 'otra-clave')).toMatchObject({ ok: false, reason: 'invalid' });
+    });
+});
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import crypto from 'crypto';
+import { ApiKeyManager } from '../../src/helpers/api_keys';
+
+interface Row {
+    id: number;
+    name: string;
+    client_id: string;
+    prefix: string;
+    key_hash: string;
+    scopes: string[];
+    expires_at: Date | null;
+    revoked_at: Date | null;
+    last_used_at: Date | null;
+    created_by: number | null;
+}
+
+/** Tabla api_keys en memoria; los registros exponen `get({ plain })` como los modelos */
+class MemoryApiKeyQueries {
+    rows: Row[] = [];
+
+    async store(data: Omit<Row, 'id' | 'revoked_at' | 'last_used_at'>) {
+        const row = { id: this.rows.length + 1, revoked_at: null, last_used_at: null, ...data };
+        this.rows.push(row);
+        return { ok: true, apiKey: { get: () => ({ ...row }) } };
+    }
+
+    async showByPrefix(prefix: string) {
+        return { ok: true, apiKey: this.rows.find(row => row.prefix === prefix) ?? null };
+    }
+
+    async touch(id: number) {
+        this.rows[id - 1].last_used_at = new Date();
+        return { ok: true };
+    }
+
+    async revoke(id: number) {
+        const row = this.rows[id - 1];
+        if (!row || row.revoked_at) return { ok: true, affected: 0 };
+        row.revoked_at = new Date();
+        return { ok: true, affected: 1 };
+    }
+}
+
+describe('ApiKeyManager', () => {
+    let queries: MemoryApiKeyQueries;
+    let apiKeys: ApiKeyManager;
+
+    beforeEach(() => {
+        queries = new MemoryApiKeyQueries();
+        apiKeys = new ApiKeyManager();
+        Object.assign(apiKeys, { queries });
+    });
+
+    it('entrega la llave una sola vez y guarda solo su hash', async () => {
+        const created = await apiKeys.create({ name: ' ERP ', client_id: 'erp', scopes: ['documents:read', 'documents:read'] });
+
+        expect(created.ok).toBe(true);
+        expect(created.key).toMatch(/^gsk_[a-f0-9]{12}_[A-Za-z0-9_-]{43}$/);
+        expect(created.apiKey).not.toHaveProperty('key_hash');
+        expect(queries.rows[0]).toMatchObject({ name: 'ERP', scopes: ['documents:read'] });
+        expect(queries.rows[0].key_hash).toBe(crypto.createHash('sha256').update(created.key).digest('hex'));
+    });
+
+    it('verifica la llave y registra su uso', async () => {
+        const { key } = await apiKeys.create({ name: 'ERP', client_id: 'erp', scopes: ['documents:read'] });
+
+        const verified = await apiKeys.verify(key);
+
+        expect(verified).toMatchObject({ ok: true, apiKey: { client_id: 'erp', scopes: ['documents:read'] } });
+        expect(queries.rows[0].last_used_at).toBeInstanceOf(Date);
+    });
+
+    it('rechaza una llave con el prefijo correcto y otro secreto', async () => {
+        const { key } = await apiKeys.create({ name: 'ERP', client_id: 'erp', scopes: ['documents:read'] });
+        const forged = key.slice(0, -1) + (key.endsWith('A') ? 'B' : 'A');
+
+        expect(await apiKeys.verify(forged)).toMatchObject({ ok: false, reason: 'invalid', error: 'La llave de API no es válida.' });
+        expect(await apiKeys.verify('gsk_invalida')).toMatchObject({ ok: false, reason: 'invalid' });
+    });
+
+    it('rechaza las llaves revocadas y las expiradas', async () => {
+        const revoked = await apiKeys.create({ name: 'ERP', client_id: 'erp', scopes: ['documents:read'] });
+        await apiKeys.revoke(revoked.apiKey.id);
+        expect(await apiKeys.verify(revoked.key)).toMatchObject({ ok: false, error: 'La llave de API fue revocada.' });
+
+        const expired = await apiKeys.create({ name: 'CRM', client_id: 'crm', scopes: ['documents:read'] });
+        queries.rows[1].expires_at = new Date(Date.now() - 1000);
+        expect(await apiKeys.verify(expired.key)).toMatchObject({ ok: false, error: 'La llave de API ha expirado.' });
+    });
+
+    it('valida los permisos con formato recurso:acción', async () => {
+        expect(await apiKeys.create({ name: 'ERP', client_id: 'erp', scopes: ['documents'] })).toMatchObject({ ok: false, reason: 'invalid' });
+        expect(queries.rows).toHaveLength(0);
+    });
+});
@@ -0,0 +1,84 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import crypto from 'crypto';
+import { PassThrough } from 'stream';
+import { DocumentArchive } from '../../src/helpers/archive';
+import { FileManager } from '../../src/helpers/files';
+import { MemoryStorageDriver } from '../../src/helpers/storage';
+import { DocumentModel } from '../../src/models/document.model';
+
+/** Nombres de las entradas según el directorio central del ZIP */
+function entries(zip: Buffer): string[] {
+    const names: string[] = [];
+    for (let offset = zip.indexOf('PK\u0001\u0002', 0, 'latin1'); offset !== -1; offset = zip.indexOf('PK\u0001\u0002', offset + 46, 'latin1')) {
+        const length = zip.readUInt16LE(offset + 28);
+        names.push(zip.subarray(offset + 46, offset + 46 + length).toString('utf8'));
+    }
+    return names;
+}
+
+/** Ejecuta `write` y junta el ZIP producido */
+async function zip(archive: DocumentArchive, documents: Partial<DocumentModel>[]): Promise<{ ok: boolean, zip: Buffer }> {
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on('data', chunk => chunks.push(chunk));
+    const result = await archive.write(documents as DocumentModel[], output);
+    return { ...result, zip: Buffer.concat(chunks) };
+}
+
+describe('DocumentArchive', () => {
+    let driver: MemoryStorageDriver;
+    let archive: DocumentArchive;
+
+    /** Guarda un objeto y devuelve el documento que lo registra */
+    async function stored(id: number, original_name: string | null, content: string): Promise<Partial<DocumentModel>> {
+        const key = `contracts/${id}.pdf`;
+        await driver.put(key, Buffer.from(content), 'application/pdf');
+        return {
+            id, key, name: `${id}.pdf`, original_name, mimetype: 'application/pdf', size: content.length,
+            checksum: crypto.createHash('sha256').update(content).digest('hex'), createdAt: new Date()
+        };
+    }
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    beforeEach(() => {
+        driver = new MemoryStorageDriver();
+        archive = new DocumentArchive();
+        Object.assign(archive, { files: new FileManager(driver) });
+    });
+
+    afterEach(() => {
+        delete process.env.BULK_DOWNLOAD_MAX_FILES;
+    });
+
+    it('nombra cada entrada con el nombre original, sin rutas y numerando los repetidos', async () => {
+        const documents = [
+            await stored(1, 'contrato.pdf', 'uno'),
+            await stored(2, 'Contrato.pdf', 'dos'),
+            await stored(3, '../../etc/passwd', 'tres'),
+            await stored(4, null, 'cuatro')
+        ];
+
+        const result = await zip(archive, documents);
+
+        expect(result.ok).toBe(true);
+        expect(entries(result.zip)).toEqual(['contrato.pdf', 'Contrato (2).pdf', '.._.._etc_passwd', '4.pdf']);
+    });
+
+    it('corta el ZIP si un archivo no coincide con su checksum', async () => {
+        const documents = [await stored(1, 'a.pdf', 'uno'), await stored(2, 'b.pdf', 'dos')];
+        await driver.put('contracts/2.pdf', Buffer.from('alterado'), 'application/pdf');
+
+        expect((await zip(archive, documents)).ok).toBe(false);
+    });
+
+    it('rechaza la selección que excede BULK_DOWNLOAD_MAX_FILES antes de leer archivos', async () => {
+        process.env.BULK_DOWNLOAD_MAX_FILES = '2';
+        Object.assign(archive, { documents: { select: async () => ({ ok: true, documents: [{}, {}], total: 3 }) } });
+
+        expect(await archive.prepare({ category: 'CONTRACT' })).toMatchObject({ ok: false, reason: 'invalid' });
+    });
+});
@@ -0,0 +1,112 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { CertificateManager } from '../../src/helpers/certificates';
+
+interface Row {
+    id: number;
+    code: string;
+    template: string;
+    holder_name: string;
+    title: string;
+    data: object | null;
+    expires_at: Date | null;
+    revoked_at: Date | null;
+    document_id: number | null;
+    checksum: string | null;
+    createdAt: Date;
+}
+
+/** Tabla certificates en memoria */
+class MemoryCertificateQueries {
+    rows: Row[] = [];
+
+    async store(data: Omit<Row, 'id' | 'revoked_at' | 'document_id' | 'checksum' | 'createdAt'>) {
+        const certificate = { id: this.rows.length + 1, revoked_at: null, document_id: null, checksum: null, createdAt: new Date(), ...data };
+        this.rows.push(certificate);
+        return { ok: true, certificate: { ...certificate } };
+    }
+
+    async showByCode(code: string) {
+        return { ok: true, certificate: this.rows.find(row => row.code === code) ?? null };
+    }
+
+    async attachDocument(id: number, document_id: number, checksum: string) {
+        Object.assign(this.rows[id - 1], { document_id, checksum });
+        return { ok: true };
+    }
+
+    async destroy(id: number) {
+        this.rows = this.rows.filter(row => row.id !== id);
+        return { ok: true };
+    }
+}
+
+describe('CertificateManager', () => {
+    let queries: MemoryCertificateQueries;
+    let certificates: CertificateManager;
+    let render: jest.Mock<(template: string, context: any, target: any) => Promise<any>>;
+    let hold: jest.Mock<(id: number, user_id: number, reason: string) => Promise<{ ok: boolean }>>;
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    beforeEach(() => {
+        queries = new MemoryCertificateQueries();
+        render = jest.fn<(template: string, context: any, target: any) => Promise<any>>()
+            .mockResolvedValue({ ok: true, document: { id: 40, checksum: 'abc' } });
+        hold = jest.fn<(id: number, user_id: number, reason: string) => Promise<{ ok: boolean }>>().mockResolvedValue({ ok: true });
+
+        certificates = new CertificateManager();
+        Object.assign(certificates, {
+            queries,
+            renderer: { store: render },
+            documents: { hold, remove: async () => ({ ok: true }), releaseHold: async () => ({ ok: true }) }
+        });
+    });
+
+    it('emite el certificado con su PDF bajo retención legal', async () => {
+        const issued = await certificates.issue({ holder_name: ' Ana Pérez ', title: 'Membresía 2025' }, 3);
+
+        expect(issued.ok).toBe(true);
+        expect(issued.certificate).toMatchObject({ holder_name: 'Ana Pérez', document_id: 40, checksum: 'abc' });
+        expect(issued.certificate.code).toMatch(/^[0-9A-HJKMNP-TV-Z]{12}$/);
+
+        const [, context, target] = render.mock.calls[0];
+        expect(context.certificate.code).toMatch(/^.{4}-.{4}-.{4}$/);
+        expect(target).toMatchObject({ owner: { user_id: 3, client_id: null }, category: 'MEMBERSHIP' });
+        expect(hold).toHaveBeenCalledWith(40, 3, `Certificado ${context.certificate.code}`);
+    });
+
+    it('descarta el certificado si no se pudo generar el PDF', async () => {
+        render.mockResolvedValue({ ok: false, reason: 'failed', error: 'No fue posible generar el PDF.' });
+
+        expect(await certificates.issue({ holder_name: 'Ana', title: 'Membresía' }, 3)).toMatchObject({ ok: false, reason: 'failed' });
+        expect(queries.rows).toEqual([]);
+    });
+
+    it('verifica el código sin importar guiones, minúsculas ni letras confundibles', async () => {
+        const { certificate } = await certificates.issue({ holder_name: 'Ana', title: 'Membresía' }, 3);
+        const typed = certificate.code.toLowerCase().replace(/0/g, 'o').replace(/1/g, 'l').replace(/(.{4})(?!$)/g, '$1-');
+
+        const verified = await certificates.verify(typed);
+
+        expect(verified).toMatchObject({ ok: true, verification: { status: 'valid', holder_name: 'Ana', checksum: 'abc' } });
+    });
+
+    it('reporta los certificados vencidos y revocados', async () => {
+        const { certificate } = await certificates.issue({ holder_name: 'Ana', title: 'Membresía' }, 3);
+
+        queries.rows[0].expires_at = new Date(Date.now() - 1000);
+        expect((await certificates.verify(certificate.code)).verification.status).toBe('expired');
+
+        queries.rows[0].revoked_at = new Date();
+        expect((await certificates.verify(certificate.code)).verification.status).toBe('revoked');
+    });
+
+    it('no publica certificados cuyo PDF no está listo ni códigos mal formados', async () => {
+        await queries.store({ code: '0123456789AB', template: 'membership_certificate', holder_name: 'Ana', title: 'Membresía', data: null, expires_at: null });
+
+        expect(await certificates.verify('0123-4567-89AB')).toMatchObject({ ok: false, reason: 'not_found' });
+        expect(await certificates.verify('0123-4567')).toMatchObject({ ok: false, reason: 'invalid' });
+    });
+});
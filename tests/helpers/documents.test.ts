@@ -0,0 +1,155 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { DocumentManager } from '../../src/helpers/documents';
+import { ServerLogger } from '../../src/utils/logger';
+import { DocumentCategories } from '../../src/config/categories';
+
+describe('DocumentManager.remove', () => {
+    let documents: DocumentManager;
+    let destroyed: { ok: boolean, affected?: number, held?: boolean, orphans?: string[] };
+    let storage: jest.Mock<(data: { key: string }) => Promise<{ ok: boolean }>>;
+    let log: jest.SpiedFunction<typeof ServerLogger.log>;
+
+    beforeAll(() => {
+        log = jest.spyOn(ServerLogger, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    beforeEach(() => {
+        log.mockClear();
+        destroyed = { ok: true, affected: 1, held: false, orphans: ['contracts/a.pdf', 'contracts/b.pdf', 'contracts/c.pdf'] };
+        storage = jest.fn<(data: { key: string }) => Promise<{ ok: boolean }>>()
+            .mockImplementation(async ({ key }) => ({ ok: key !== 'contracts/b.pdf' }));
+
+        documents = new DocumentManager();
+        Object.assign(documents, {
+            queries: { destroy: async () => destroyed },
+            files: { destroy: storage }
+        });
+    });
+
+    it('borra los objetos huérfanos después de eliminar el registro y reporta los que fallan', async () => {
+        expect(await documents.remove(7)).toEqual({ ok: true });
+
+        expect(storage.mock.calls.map(([data]) => data.key)).toEqual(['contracts/a.pdf', 'contracts/b.pdf', 'contracts/c.pdf']);
+        expect(log).toHaveBeenCalledTimes(1);
+        expect(log).toHaveBeenCalledWith(expect.objectContaining({ type: 'warn', message: 'Objeto huérfano pendiente de eliminar: contracts/b.pdf' }));
+    });
+
+    it('no toca el almacenamiento si el documento está en retención legal', async () => {
+        destroyed = { ok: true, affected: 0, held: true, orphans: [] };
+
+        expect(await documents.remove(7)).toMatchObject({ ok: false, reason: 'held' });
+        expect(storage).not.toHaveBeenCalled();
+    });
+
+    it('no toca el almacenamiento si la transacción falla', async () => {
+        destroyed = { ok: false };
+
+        expect(await documents.remove(7)).toMatchObject({ ok: false, reason: 'failed' });
+        expect(storage).not.toHaveBeenCalled();
+    });
+});
+
+describe('DocumentManager.downloadUrl', () => {
+    let documents: DocumentManager;
+    let document: { id: number, category: string, key: string, name: string, legal_hold: boolean, createdAt: Date };
+    let presign: jest.Mock<(key: string, filename: string) => Promise<{ ok: boolean, url?: string, expires_at?: Date }>>;
+
+    beforeAll(() => {
+        const contracts = DocumentCategories.find('CONTRACT');
+        jest.spyOn(DocumentCategories, 'find').mockReturnValue({ ...contracts, retention_days: 30 });
+    });
+
+    beforeEach(() => {
+        document = { id: 7, category: 'CONTRACT', key: 'contracts/v2.pdf', name: 'v2.pdf', legal_hold: false, createdAt: new Date() };
+        presign = jest.fn<(key: string, filename: string) => Promise<{ ok: boolean, url?: string, expires_at?: Date }>>()
+            .mockImplementation(async (key) => ({ ok: true, url: `https://bucket/${key}?firma`, expires_at: new Date() }));
+
+        documents = new DocumentManager();
+        Object.assign(documents, {
+            queries: { show: async (id: number) => ({ ok: true, document: id === document.id ? document : null }) },
+            files: { presignDownload: presign }
+        });
+    });
+
+    it('firma la clave registrada de la versión vigente', async () => {
+        expect(await documents.downloadUrl(7)).toMatchObject({ ok: true, url: 'https://bucket/contracts/v2.pdf?firma' });
+        expect(presign).toHaveBeenCalledWith('contracts/v2.pdf', 'v2.pdf');
+    });
+
+    it('no firma nada si el documento no está registrado', async () => {
+        expect(await documents.downloadUrl(8)).toMatchObject({ ok: false, reason: 'not_found' });
+        expect(presign).not.toHaveBeenCalled();
+    });
+
+    it('no entrega documentos vencidos por retención salvo que estén en retención legal', async () => {
+        document.createdAt = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000);
+        expect(await documents.downloadUrl(7)).toMatchObject({ ok: false, reason: 'not_found' });
+        expect(presign).not.toHaveBeenCalled();
+
+        document.legal_hold = true;
+        expect(await documents.downloadUrl(7)).toMatchObject({ ok: true });
+    });
+});
+
+describe('DocumentManager.restore', () => {
+    let documents: DocumentManager;
+    let appended: { document_id: number, data: any }[];
+    let pruned: { document_id: number, keep: number }[];
+    let storage: jest.Mock<(data: { key: string }) => Promise<{ ok: boolean }>>;
+
+    beforeEach(() => {
+        process.env.DOCUMENT_MAX_VERSIONS = '2';
+        appended = [];
+        pruned = [];
+        storage = jest.fn<(data: { key: string }) => Promise<{ ok: boolean }>>().mockResolvedValue({ ok: true });
+
+        const versions = [
+            { version: 1, key: 'contracts/v1.pdf', name: 'v1.pdf', original_name: 'contrato.pdf', mimetype: 'application/pdf', size: 10, checksum: 'a' },
+            { version: 2, key: 'contracts/v2.pdf', name: 'v2.pdf', original_name: 'contrato.pdf', mimetype: 'application/pdf', size: 20, checksum: 'b' }
+        ];
+        documents = new DocumentManager();
+        Object.assign(documents, {
+            queries: {
+                show: async () => ({ ok: true, document: { id: 7, category: 'CONTRACT', version: 2 } }),
+                appendVersion: async (document_id: number, data: any) => {
+                    appended.push({ document_id, data });
+                    return { ok: true, document: { id: document_id, category: 'CONTRACT', version: 3 }, rejected: null };
+                },
+                prune: async (document_id: number, keep: number) => {
+                    pruned.push({ document_id, keep });
+                    return { ok: true, pruned: [1], orphans: [] };
+                }
+            },
+            versionQueries: { show: async (id: number, version: number) => ({ ok: true, documentVersion: versions.find(item => item.version === version) ?? null }) },
+            files: { destroy: storage },
+            analyze: async () => undefined
+        });
+    });
+
+    afterEach(() => {
+        delete process.env.DOCUMENT_MAX_VERSIONS;
+    });
+
+    it('agrega una versión nueva que apunta al objeto de la restaurada, sin copiarlo', async () => {
+        expect(await documents.restore(7, 1, 5)).toMatchObject({ ok: true, document: { version: 3 } });
+
+        expect(appended).toEqual([{
+            document_id: 7,
+            data: expect.objectContaining({ user_id: 5, key: 'contracts/v1.pdf', checksum: 'a', restored_from: 1 })
+        }]);
+        expect(storage).not.toHaveBeenCalled();
+    });
+
+    it('depura las versiones que exceden DOCUMENT_MAX_VERSIONS después de agregar la nueva', async () => {
+        await documents.restore(7, 1, 5);
+
+        expect(pruned).toEqual([{ document_id: 7, keep: 2 }]);
+    });
+
+    it('no restaura la versión vigente ni una depurada', async () => {
+        expect(await documents.restore(7, 2, 5)).toMatchObject({ ok: false, reason: 'invalid' });
+        expect(await documents.restore(7, 9, 5)).toMatchObject({ ok: false, reason: 'not_found' });
+        expect(appended).toEqual([]);
+    });
+});
@@ -0,0 +1,61 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { FileManager } from '../../src/helpers/files';
+import { MemoryStorageDriver } from '../../src/helpers/storage';
+
+const pdf = Buffer.from('%PDF-1.7\n1 0 obj << /Type /Catalog >> endobj\n%%EOF\n');
+
+/** Backend que solo entrega contenido por stream, para comprobar que nada se junta en memoria */
+class StreamOnlyDriver extends MemoryStorageDriver {
+    public async get(key: string): Promise<Uint8Array> {
+        throw new Error(`get no permitido: ${key}`);
+    }
+
+    public async getStream(key: string): Promise<Readable> {
+        const content = Buffer.from(await super.get(key));
+        return Readable.from([content.subarray(0, 10), content.subarray(10)]);
+    }
+}
+
+describe('FileManager', () => {
+    let driver: MemoryStorageDriver;
+    let files: FileManager;
+
+    beforeAll(() => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    beforeEach(() => {
+        driver = new MemoryStorageDriver();
+        files = new FileManager(driver);
+    });
+
+    it('guarda dos cargas del mismo archivo con claves distintas', async () => {
+        const upload = () => files.upload({ files: { file: { name: 'contrato.pdf', data: pdf, size: pdf.length, mimetype: 'application/pdf' } } }, 'CONTRACT');
+        const [first, second] = await Promise.all([upload(), upload()]);
+
+        expect(first).toMatchObject({ ok: true, mimetype: 'application/pdf', checksum: crypto.createHash('sha256').update(pdf).digest('hex') });
+        expect(first.response.key).toMatch(/^contracts\/[0-9a-f-]{36}\.pdf$/);
+        expect(second.response.key).not.toBe(first.response.key);
+        expect(await driver.head(first.response.key)).toEqual({ size: pdf.length });
+        expect(await driver.head(second.response.key)).toEqual({ size: pdf.length });
+    });
+
+    it('calcula el checksum de un objeto leyéndolo como stream', async () => {
+        const streaming = new StreamOnlyDriver();
+        await streaming.put('contracts/grande.pdf', pdf, 'application/pdf');
+
+        expect(await new FileManager(streaming).checksum('contracts/grande.pdf')).toEqual({
+            ok: true,
+            checksum: crypto.createHash('sha256').update(pdf).digest('hex')
+        });
+    });
+
+    it('no entrega un archivo cuyo contenido no coincide con el checksum registrado', async () => {
+        await driver.put('contracts/a.pdf', pdf, 'application/pdf');
+
+        expect(await files.downloadKey('contracts/a.pdf', crypto.createHash('sha256').update('otro').digest('hex'))).toMatchObject({ ok: false, reason: 'corrupted' });
+        expect(await files.downloadKey('contracts/a.pdf', crypto.createHash('sha256').update(pdf).digest('hex'))).toMatchObject({ ok: true, mimetype: 'application/pdf' });
+    });
+});
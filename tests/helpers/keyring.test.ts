@@ -0,0 +1,76 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from '@jest/globals';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import { KeyRing } from '../../src/helpers/keyring';
+
+/** Genera un par RSA en PEM */
+function pair(): { publicKey: string, privateKey: string } {
+    return crypto.generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+    });
+}
+
+describe('KeyRing', () => {
+    let dir: string;
+    const anterior = pair();
+    const nueva = pair();
+
+    beforeAll(() => {
+        // `anterior` ya se retiró: solo conserva la pública
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'keyring-'));
+        fs.writeFileSync(path.join(dir, 'anterior.public.pem'), anterior.publicKey);
+        fs.writeFileSync(path.join(dir, 'nueva.private.pem'), nueva.privateKey);
+        fs.writeFileSync(path.join(dir, 'nueva.public.pem'), nueva.publicKey);
+        process.env.JWT_KEYS_PATH = dir;
+    });
+
+    afterEach(() => {
+        KeyRing.reload();
+    });
+
+    afterAll(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+        delete process.env.JWT_KEYS_PATH;
+        delete process.env.JWT_ACTIVE_KID;
+    });
+
+    it('firma con la clave activa y sigue verificando los tokens de la clave retirada', () => {
+        process.env.JWT_ACTIVE_KID = 'nueva';
+
+        const { kid, privateKey } = KeyRing.signingKey();
+        const token = jwt.sign({ user_id: 'x' }, privateKey, { algorithm: 'RS256', keyid: kid });
+        const previous = jwt.sign({ user_id: 'x' }, anterior.privateKey, { algorithm: 'RS256', keyid: 'anterior' });
+
+        expect(kid).toBe('nueva');
+        expect(jwt.verify(token, KeyRing.publicKey(jwt.decode(token, { complete: true }).header.kid))).toMatchObject({ user_id: 'x' });
+        expect(jwt.verify(previous, KeyRing.publicKey('anterior'))).toMatchObject({ user_id: 'x' });
+        expect(KeyRing.publicKey('desconocida')).toBeUndefined();
+    });
+
+    it('publica en el JWKS todas las claves públicas con su kid', () => {
+        process.env.JWT_ACTIVE_KID = 'nueva';
+
+        const { keys } = KeyRing.jwks() as { keys: (crypto.JsonWebKey & { kid: string, use: string })[] };
+
+        expect(keys.map(key => key.kid).sort()).toEqual(['anterior', 'nueva']);
+        expect(keys.every(key => key.kty === 'RSA' && key.use === 'sig' && key.d === undefined)).toBe(true);
+
+        const published = crypto.createPublicKey({ key: keys.find(key => key.kid === 'nueva'), format: 'jwk' });
+        const token = jwt.sign({ user_id: 'x' }, nueva.privateKey, { algorithm: 'RS256' });
+        expect(jwt.verify(token, published.export({ type: 'spki', format: 'pem' }) as string)).toMatchObject({ user_id: 'x' });
+    });
+
+    it('no permite activar una clave retirada ni una inexistente', () => {
+        process.env.JWT_ACTIVE_KID = 'anterior';
+        expect(() => KeyRing.signingKey()).toThrow("La clave activa 'anterior' no tiene clave privada.");
+
+        KeyRing.reload();
+        process.env.JWT_ACTIVE_KID = 'otra';
+        expect(() => KeyRing.signingKey()).toThrow("La clave activa 'otra' no existe en el llavero.");
+    });
+});
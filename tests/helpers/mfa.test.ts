@@ -0,0 +1,117 @@
+import Cryptr from 'cryptr';
+import { beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { MfaManager } from '../../src/helpers/mfa';
+import { Totp } from '../../src/helpers/totp';
+
+interface Challenge {
+    id: number;
+    user_id: number;
+    token_hash: string;
+    expires_at: Date;
+    attempts: number;
+    used_at: Date | null;
+}
+
+/** Tabla mfa_challenges en memoria; `registerAttempt` y `consume` son condicionales, como sus UPDATE */
+class MemoryChallengeQueries {
+    challenges: Challenge[] = [];
+
+    async store(data: { user_id: number, token_hash: string, expires_at: Date }) {
+        const challenge = { id: this.challenges.length + 1, attempts: 0, used_at: null, ...data };
+        this.challenges.push(challenge);
+        return { ok: true, challenge };
+    }
+
+    async showActiveByHash(token_hash: string) {
+        await new Promise(resolve => setImmediate(resolve));
+        const found = this.challenges.find(c => c.token_hash === token_hash && !c.used_at && c.expires_at.getTime() > Date.now());
+        return { ok: true, challenge: found ? { ...found } : null };
+    }
+
+    async registerAttempt(id: number, max: number) {
+        const challenge = this.challenges[id - 1];
+        if (challenge.attempts >= max || challenge.used_at) return { ok: true, affected: 0 };
+        challenge.attempts++;
+        return { ok: true, affected: 1 };
+    }
+
+    async consume(id: number) {
+        const challenge = this.challenges[id - 1];
+        if (challenge.used_at) return { ok: true, affected: 0 };
+        challenge.used_at = new Date();
+        return { ok: true, affected: 1 };
+    }
+}
+
+describe('MfaManager.verifyChallenge', () => {
+    const secret = Totp.generateSecret();
+    let encrypted: string;
+    let challenges: MemoryChallengeQueries;
+    let mfa: MfaManager;
+    let user: { id: number, email: string, mfa_enabled_at: Date, mfa_secret: string, mfa_last_step: number | null };
+
+    beforeAll(() => {
+        process.env.CRYPTR_KEY = 'clave-de-pruebas';
+        encrypted = new Cryptr(process.env.CRYPTR_KEY).encrypt(secret);
+    });
+
+    beforeEach(() => {
+        user = { id: 1, email: 'ana@example.com', mfa_enabled_at: new Date(), mfa_secret: encrypted, mfa_last_step: null };
+        challenges = new MemoryChallengeQueries();
+        mfa = new MfaManager();
+        Object.assign(mfa, {
+            challengeQueries: challenges,
+            userQueries: {
+                showWithMfa: async () => ({ ok: true, user }),
+                advanceMfaStep: async (id: number, step: number) => {
+                    if (user.mfa_last_step !== null && user.mfa_last_step >= step) return { ok: true, affected: 0 };
+                    user.mfa_last_step = step;
+                    return { ok: true, affected: 1 };
+                }
+            }
+        });
+    });
+
+    /** Código vigente que no coincide con el del secreto */
+    function wrongCode(): string {
+        return String((Number(Totp.generate(secret)) + 1) % 1000000).padStart(6, '0');
+    }
+
+    it('canjea el reto una sola vez con un código TOTP válido', async () => {
+        const { mfa_token } = await mfa.challenge(1);
+
+        expect(await mfa.verifyChallenge(mfa_token, { code: Totp.generate(secret) })).toEqual({ ok: true, user_id: 1, email: 'ana@example.com' });
+        expect(await mfa.verifyChallenge(mfa_token, { code: Totp.generate(secret) })).toMatchObject({ ok: false, reason: 'invalid' });
+    });
+
+    it('devuelve el correo ante un código incorrecto para contarlo como intento fallido', async () => {
+        const { mfa_token } = await mfa.challenge(1);
+
+        expect(await mfa.verifyChallenge(mfa_token, { code: wrongCode() })).toEqual({
+            ok: false,
+            reason: 'invalid',
+            email: 'ana@example.com',
+            error: 'El código de verificación no es válido.'
+        });
+    });
+
+    it('invalida el reto al agotar los intentos, aunque el siguiente código sea correcto', async () => {
+        const { mfa_token } = await mfa.challenge(1);
+        for (let i = 0; i < MfaManager.MAX_ATTEMPTS; i++) {
+            await mfa.verifyChallenge(mfa_token, { code: wrongCode() });
+        }
+
+        expect(await mfa.verifyChallenge(mfa_token, { code: Totp.generate(secret) })).toMatchObject({
+            ok: false,
+            error: 'La verificación expiró, inicie sesión nuevamente.'
+        });
+    });
+
+    it('no evalúa más de MAX_ATTEMPTS códigos enviados en paralelo', async () => {
+        const { mfa_token } = await mfa.challenge(1);
+        const results = await Promise.all(Array.from({ length: 20 }, () => mfa.verifyChallenge(mfa_token, { code: wrongCode() })));
+
+        expect(results.filter(r => r.email)).toHaveLength(MfaManager.MAX_ATTEMPTS);
+        expect(challenges.challenges[0].attempts).toBe(MfaManager.MAX_ATTEMPTS);
+    });
+});
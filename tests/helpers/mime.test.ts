@@ -0,0 +1,40 @@
+import { describe, expect, it } from '@jest/globals';
+import { MimeSniffer } from '../../src/helpers/mime';
+
+const bytes = (...values: (number | string)[]) => Buffer.concat(values.map(value => typeof value === 'string' ? Buffer.from(value, 'latin1') : Buffer.from([value])));
+
+describe('MimeSniffer', () => {
+    it('detecta el tipo por la firma e ignora el tipo declarado', () => {
+        expect(MimeSniffer.detect(bytes('%PDF-1.7\n'), 'foto.png', 'image/png')).toBe('application/pdf');
+        expect(MimeSniffer.detect(bytes(0x89, 'PNG', 0x0D, 0x0A, 0x1A, 0x0A, 0x00), 'contrato.pdf', 'application/pdf')).toBe('image/png');
+        expect(MimeSniffer.detect(bytes(0xFF, 0xD8, 0xFF, 0xE0))).toBe('image/jpeg');
+        expect(MimeSniffer.detect(bytes('GIF89a'))).toBe('image/gif');
+        expect(MimeSniffer.detect(bytes('RIFF', 0, 0, 0, 0, 'WEBPVP8 '))).toBe('image/webp');
+    });
+
+    it('distingue los formatos de Office de un ZIP común', () => {
+        expect(MimeSniffer.detect(bytes('PK', 3, 4, '[Content_Types].xml word/document.xml'))).toBe('application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+        expect(MimeSniffer.detect(bytes('PK', 3, 4, '[Content_Types].xml xl/workbook.xml'))).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        expect(MimeSniffer.detect(bytes('PK', 3, 4, 'fotos/a.jpg'))).toBe('application/zip');
+    });
+
+    it('usa el nombre declarado solo para desempatar formatos sin firma propia', () => {
+        const ole2 = bytes(0xD0, 0xCF, 0x11, 0xE0, 0xA1, 0xB1, 0x1A, 0xE1);
+        expect(MimeSniffer.detect(ole2, 'reporte.xls')).toBe('application/vnd.ms-excel');
+        expect(MimeSniffer.detect(ole2, 'reporte.exe')).toBeNull();
+
+        expect(MimeSniffer.detect(bytes('nombre,monto\nAna,10\n'), 'datos.csv')).toBe('text/csv');
+        expect(MimeSniffer.detect(bytes('nombre,monto\nAna,10\n'), 'datos.pdf')).toBe('text/plain');
+    });
+
+    it('no reconoce binarios desconocidos ni archivos vacíos', () => {
+        expect(MimeSniffer.detect(bytes('MZ', 0x90, 0x00, 0x03), 'programa.pdf', 'application/pdf')).toBeNull();
+        expect(MimeSniffer.detect(Buffer.alloc(0))).toBeNull();
+    });
+
+    it('conserva la extensión original solo si corresponde al tipo detectado', () => {
+        expect(MimeSniffer.extension('image/jpeg', 'foto.JPEG')).toBe('jpeg');
+        expect(MimeSniffer.extension('image/jpeg', 'foto.png')).toBe('jpg');
+        expect(MimeSniffer.describe(['application/pdf', 'image/jpeg'])).toBe('.pdf, .jpg/.jpeg');
+    });
+});
@@ -0,0 +1,59 @@
+import { afterEach, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { PdfInspector } from '../../src/helpers/pdf';
+
+/** Arma un PDF mínimo con una página por texto y el diccionario Info indicado */
+function pdf(pages: string[], info: string): Buffer {
+    const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        `<< /Type /Pages /Kids [${pages.map((_, index) => `${4 + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+    ];
+    for (const [index, text] of pages.entries()) {
+        const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+        objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + index * 2} 0 R >>`);
+        objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    }
+    objects.push(info);
+
+    let body = '%PDF-1.4\n';
+    const offsets = objects.map((object, index) => {
+        const offset = body.length;
+        body += `${index + 1} 0 obj\n${object}\nendobj\n`;
+        return offset;
+    });
+    const xref = body.length;
+    body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')}`;
+    body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return Buffer.from(body, 'latin1');
+}
+
+describe('PdfInspector', () => {
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        delete process.env.PDF_TEXT_MAX_PAGES;
+    });
+
+    it('extrae el número de páginas, los metadatos y el texto de cada página', async () => {
+        const data = pdf(['Contrato de servicios', 'Firma del cliente'], "<< /Title (Contrato 2025) /Author (Ana) /CreationDate (D:20250131120000-06'00') >>");
+
+        const result = await new PdfInspector().inspect(data);
+
+        expect(result).toMatchObject({ ok: true, pages: 2, text: 'Contrato de servicios\n\nFirma del cliente' });
+        expect(result.info).toMatchObject({ title: 'Contrato 2025', author: 'Ana', subject: null, created_at: '2025-01-31T12:00:00.000-06:00', pdf_version: '1.4' });
+    });
+
+    it('limita el texto a PDF_TEXT_MAX_PAGES sin dejar de contar todas las páginas', async () => {
+        process.env.PDF_TEXT_MAX_PAGES = '1';
+
+        const result = await new PdfInspector().inspect(pdf(['Primera', 'Segunda'], '<< >>'));
+
+        expect(result).toMatchObject({ ok: true, pages: 2, text: 'Primera' });
+    });
+
+    it('rechaza un archivo que no es PDF', async () => {
+        expect(await new PdfInspector().inspect(Buffer.from('no es un pdf'))).toEqual({ ok: false, message: 'El archivo no es un PDF válido.' });
+    });
+});
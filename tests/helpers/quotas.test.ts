@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { Transaction } from 'sequelize';
+import { QuotaManager, QuotaResult } from '../../src/helpers/quotas';
+import { DocumentManager } from '../../src/helpers/documents';
+
+interface Quota {
+    scope: string;
+    subject: string;
+    max_bytes: number | null;
+    max_files: number | null;
+}
+
+interface Stored {
+    user_id: number | null;
+    client_id: string | null;
+    category: string;
+    size: number;
+}
+
+/** Tabla storage_quotas y consumo de documents en memoria */
+class MemoryQuotaQueries {
+    quotas: Quota[] = [];
+    documents: Stored[] = [];
+    transactions: (Transaction | undefined)[] = [];
+
+    async applicable(subjects: { scope: string, subject: string }[], transaction?: Transaction) {
+        this.transactions.push(transaction);
+        return { ok: true, quotas: this.quotas.filter(q => subjects.some(s => s.scope === q.scope && s.subject === q.subject)) };
+    }
+
+    async usage(where: { user_id?: number, client_id?: string, category?: string }, transaction?: Transaction) {
+        this.transactions.push(transaction);
+        const matching = this.documents.filter(d => Object.entries(where).every(([column, value]) => d[column as keyof Stored] === value));
+        return { ok: true, files: matching.length, bytes: matching.reduce((total, d) => total + d.size, 0) };
+    }
+
+    async upsert(data: Quota) {
+        this.quotas = this.quotas.filter(q => q.scope !== data.scope || q.subject !== data.subject).concat(data);
+        return { ok: true, quota: data };
+    }
+
+    async destroy(scope: string, subject: string) {
+        const before = this.quotas.length;
+        this.quotas = this.quotas.filter(q => q.scope !== scope || q.subject !== subject);
+        return { ok: true, affected: before - this.quotas.length };
+    }
+}
+
+const owner = { user_id: 1, client_id: null };
+const transaction = { id: 'tx' } as unknown as Transaction;
+
+describe('QuotaManager', () => {
+    let queries: MemoryQuotaQueries;
+    let quotas: QuotaManager;
+
+    beforeEach(() => {
+        queries = new MemoryQuotaQueries();
+        quotas = new QuotaManager();
+        Object.assign(quotas, { queries });
+    });
+
+    it('aplica el límite por defecto del alcance y el específico lo reemplaza', async () => {
+        queries.quotas.push({ scope: 'user', subject: '*', max_bytes: null, max_files: 1 });
+        queries.documents.push({ user_id: 1, client_id: null, category: 'CONTRACT', size: 10 });
+
+        expect(await quotas.check(owner, 'CONTRACT', { bytes: 10, files: 1 })).toMatchObject({ ok: false, reason: 'quota_exceeded' });
+
+        queries.quotas.push({ scope: 'user', subject: '1', max_bytes: null, max_files: 5 });
+        expect(await quotas.check(owner, 'CONTRACT', { bytes: 10, files: 1 })).toEqual({ ok: true });
+    });
+
+    it('rechaza una versión que excede los bytes aunque no sume documentos', async () => {
+        queries.quotas.push({ scope: 'category', subject: 'CONTRACT', max_bytes: 100, max_files: null });
+        queries.documents.push({ user_id: 2, client_id: null, category: 'CONTRACT', size: 90 });
+
+        expect(await quotas.check(owner, 'CONTRACT', { bytes: 10, files: 0 })).toEqual({ ok: true });
+        expect(await quotas.check(owner, 'CONTRACT', { bytes: 11, files: 0 })).toMatchObject({ ok: false, reason: 'quota_exceeded' });
+    });
+
+    it('consulta límites y consumo dentro de la transacción recibida', async () => {
+        await quotas.check(owner, 'CONTRACT', { bytes: 1, files: 1 }, transaction);
+
+        expect(queries.transactions.length).toBeGreaterThan(0);
+        expect(queries.transactions.every(t => t === transaction)).toBe(true);
+    });
+
+    it('guarda el límite por defecto con el sujeto "*"', async () => {
+        expect(await quotas.setLimit({ scope: 'client', max_files: 3 })).toMatchObject({ ok: true });
+        expect(queries.quotas).toEqual([{ scope: 'client', subject: '*', max_bytes: null, max_files: 3 }]);
+
+        await quotas.setLimit({ scope: 'client', max_files: 4 });
+        expect(queries.quotas).toEqual([{ scope: 'client', subject: '*', max_bytes: null, max_files: 4 }]);
+
+        expect(await quotas.setLimit({ scope: 'client', max_bytes: null, max_files: null })).toEqual({ ok: true });
+        expect(queries.quotas).toEqual([]);
+    });
+});
+
+describe('DocumentManager.register', () => {
+    let queries: MemoryQuotaQueries;
+    let documents: DocumentManager;
+
+    beforeEach(() => {
+        queries = new MemoryQuotaQueries();
+        queries.quotas.push({ scope: 'user', subject: '*', max_bytes: null, max_files: 1 });
+
+        const quotas = new QuotaManager();
+        Object.assign(quotas, { queries });
+
+        // Las transacciones se ejecutan una tras otra, como con los límites bloqueados
+        let queue: Promise<unknown> = Promise.resolve();
+        const store = (data: Stored, guard: (transaction: Transaction) => Promise<QuotaResult>) => {
+            const run = queue.then(async () => {
+                const allowed = await guard(transaction);
+                if (!allowed.ok) return { ok: true, document: null, rejected: allowed };
+                queries.documents.push(data);
+                return { ok: true, document: { id: queries.documents.length, version: 1, ...data }, rejected: null };
+            });
+            queue = run;
+            return run;
+        };
+
+        documents = new DocumentManager();
+        Object.assign(documents, { quotas, queries: { store } });
+    });
+
+    /** Registra un archivo de texto del usuario 1 */
+    function register(name: string) {
+        return documents.register({
+            user_id: 1,
+            category: 'CONTRACT',
+            key: `contracts/${name}`,
+            name,
+            original_name: name,
+            mimetype: 'text/plain',
+            size: 10,
+            checksum: name
+        });
+    }
+
+    it('verifica la cuota dentro del registro para que dos cargas simultáneas no la rebasen', async () => {
+        const [first, second] = await Promise.all([register('a.txt'), register('b.txt')]);
+
+        expect(first).toMatchObject({ ok: true });
+        expect(second).toMatchObject({ ok: false, reason: 'quota_exceeded' });
+        expect(queries.documents).toHaveLength(1);
+    });
+});
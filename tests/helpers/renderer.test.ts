@@ -0,0 +1,41 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { PdfRenderer } from '../../src/helpers/renderer';
+
+describe('PdfRenderer', () => {
+    let renderer: PdfRenderer;
+
+    beforeEach(() => {
+        renderer = new PdfRenderer();
+    });
+
+    it('llena la plantilla escapando el contexto y con el helper de fechas', async () => {
+        const result = await renderer.html('membership_certificate', {
+            certificate: { code: 'ABC-123', holder_name: '<b>Ana</b>', title: 'Membresía', issued_at: '2025-01-31T12:00:00Z' }
+        });
+
+        expect(result.ok).toBe(true);
+        expect(result.html).toContain('&lt;b&gt;Ana&lt;/b&gt;');
+        expect(result.html).toContain('Emitido el 31 de enero de 2025');
+        expect(result.html).not.toContain('Vigente hasta');
+    });
+
+    it('solo acepta nombres de plantillas existentes dentro del directorio', async () => {
+        expect(await renderer.html('../package')).toMatchObject({ ok: false, reason: 'invalid' });
+        expect(await renderer.html('no_existe')).toMatchObject({ ok: false, reason: 'not_found' });
+    });
+
+    it('registra el PDF generado como documento del dueño indicado', async () => {
+        const pdf = Buffer.from('%PDF-1.4\n%%EOF\n');
+        const upload = jest.fn(async (owner: object, data: any, category: string, document_id?: number) => ({ ok: true, document: { id: 9 } }));
+        Object.assign(renderer, {
+            render: async () => ({ ok: true, pdf }),
+            documents: { upload }
+        });
+
+        const owner = { user_id: 7, client_id: null };
+        const stored = await renderer.store('membership_certificate', {}, { owner, category: 'MEMBERSHIP', filename: 'certificado.pdf' });
+
+        expect(stored).toMatchObject({ ok: true, document: { id: 9 }, pdf });
+        expect(upload).toHaveBeenCalledWith(owner, { files: { file: { name: 'certificado.pdf', data: pdf, mimetype: 'application/pdf', size: pdf.length } } }, 'MEMBERSHIP', undefined);
+    });
+});
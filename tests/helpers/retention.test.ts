@@ -0,0 +1,87 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { RetentionSweeper } from '../../src/helpers/retention';
+import { DocumentCategories } from '../../src/config/categories';
+import { ServerLogger } from '../../src/utils/logger';
+
+interface Expired {
+    id: number;
+    category: string;
+    original_name: string;
+    size: number;
+    createdAt: Date;
+    legal_hold: boolean;
+}
+
+describe('RetentionSweeper', () => {
+    const catalog = path.join(os.tmpdir(), `categories-${process.pid}.json`);
+    let expired: Expired[];
+    let remove: jest.Mock<(id: number) => Promise<{ ok: boolean, reason?: string, error?: string }>>;
+    let sweeper: RetentionSweeper;
+
+    beforeAll(() => {
+        fs.writeFileSync(catalog, JSON.stringify([
+            { code: 'INVOICE', name: 'Facturas', prefix: 'invoices/', mime_types: ['application/pdf'], max_size_bytes: 1024, retention_days: 30 },
+            { code: 'CONTRACT', name: 'Contratos', prefix: 'contracts/', mime_types: ['application/pdf'], max_size_bytes: 1024 }
+        ]));
+        process.env.DOCUMENT_CATEGORIES_PATH = catalog;
+        DocumentCategories.reload();
+        jest.spyOn(ServerLogger, 'log').mockImplementation(() => undefined);
+    });
+
+    afterAll(() => {
+        delete process.env.DOCUMENT_CATEGORIES_PATH;
+        DocumentCategories.reload();
+        fs.rmSync(catalog, { force: true });
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        expired = [1, 2, 3, 4].map(id => ({ id, category: 'INVOICE', original_name: `factura-${id}.pdf`, size: 100, createdAt: new Date(2020, 0, id), legal_hold: id === 2 }));
+        // El documento 3 queda en retención legal después de leerse el lote
+        remove = jest.fn<(id: number) => Promise<{ ok: boolean, reason?: string, error?: string }>>()
+            .mockImplementation(async (id) => id === 3 ? { ok: false, reason: 'held', error: 'El documento está en retención legal.' } : { ok: true });
+
+        sweeper = new RetentionSweeper();
+        Object.assign(sweeper, {
+            queries: {
+                expired: async (category: string, cutoff: Date, after_id: number, limit: number) => {
+                    await new Promise(resolve => setImmediate(resolve));
+                    return { ok: true, documents: expired.filter(d => d.category === category && d.id > after_id).slice(0, limit) };
+                }
+            },
+            documents: { remove }
+        });
+    });
+
+    it('en simulación reporta sin eliminar nada', async () => {
+        const result = await sweeper.run({ dry_run: true });
+
+        expect(result.ok).toBe(true);
+        expect(remove).not.toHaveBeenCalled();
+        expect(result.report.categories).toEqual([expect.objectContaining({ category: 'INVOICE', expired: 4, held: 1, processed: 3, bytes: 300 })]);
+        expect(result.report.documents.map(d => d.outcome)).toEqual(['delete', 'held', 'delete', 'delete']);
+    });
+
+    it('elimina los vencidos y respeta la retención legal aunque se active durante la pasada', async () => {
+        const result = await sweeper.run({ dry_run: false });
+
+        expect(remove.mock.calls.map(([id]) => id)).toEqual([1, 3, 4]);
+        expect(result.report.categories).toEqual([expect.objectContaining({ expired: 4, held: 2, processed: 2, failed: 0, bytes: 200 })]);
+        expect(result.report.documents.map(d => d.outcome)).toEqual(['delete', 'held', 'held', 'delete']);
+    });
+
+    it('no inicia una pasada mientras otra sigue en curso', async () => {
+        const [first, second] = await Promise.all([sweeper.run({ dry_run: false }), sweeper.run({ dry_run: false })]);
+
+        expect(first.ok).toBe(true);
+        expect(second).toMatchObject({ ok: false, reason: 'busy' });
+        expect(remove).toHaveBeenCalledTimes(3);
+    });
+
+    it('rechaza categorías sin retención configurada', async () => {
+        expect(await sweeper.run({ dry_run: true, category: 'CONTRACT' })).toMatchObject({ ok: false, reason: 'invalid' });
+    });
+});
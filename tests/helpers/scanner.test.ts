@@ -0,0 +1,159 @@
+import net from 'net';
+import { Readable } from 'stream';
+import { afterAll, afterEach, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { ClamAvScanner, EicarScanner, MalwareScanner, NoopScanner, Scanner } from '../../src/helpers/scanner';
+import { MemoryStorageDriver } from '../../src/helpers/storage';
+import { FileManager } from '../../src/helpers/files';
+import { ServerLogger } from '../../src/utils/logger';
+
+const EICAR = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+/** clamd mínimo: recibe INSTREAM, guarda el tamaño de cada bloque y responde según el contenido */
+function fakeClamd(): Promise<{ server: net.Server, port: number, chunks: number[][] }> {
+    const chunks: number[][] = [];
+    const server = net.createServer((socket) => {
+        const received: number[] = [];
+        chunks.push(received);
+        let buffer = Buffer.alloc(0);
+        let content = Buffer.alloc(0);
+        let started = false;
+        socket.on('data', (data) => {
+            buffer = Buffer.concat([buffer, data]);
+            if (!started) {
+                const command = buffer.indexOf(0);
+                if (command < 0) return;
+                buffer = buffer.subarray(command + 1);
+                started = true;
+            }
+            while (buffer.length >= 4) {
+                const length = buffer.readUInt32BE(0);
+                if (buffer.length < 4 + length) return;
+                content = Buffer.concat([content, buffer.subarray(4, 4 + length)]);
+                buffer = buffer.subarray(4 + length);
+                if (length === 0) {
+                    const infected = content.includes('EICAR-STANDARD-ANTIVIRUS-TEST-FILE');
+                    socket.end(infected ? 'stream: Eicar-Signature FOUND\0' : 'stream: OK\0');
+                    return;
+                }
+                received.push(length);
+            }
+        });
+    });
+    return new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+        resolve({ server, port: (server.address() as net.AddressInfo).port, chunks });
+    }));
+}
+
+describe('EicarScanner', () => {
+    it('detecta la firma aunque llegue partida entre bloques', async () => {
+        const scanner = new EicarScanner();
+        const result = await scanner.scan(Readable.from([Buffer.from('inicio ' + EICAR.slice(0, 30)), Buffer.from(EICAR.slice(30) + ' fin')]));
+
+        expect(result).toEqual({ clean: false, signature: 'Eicar-Test-Signature' });
+    });
+
+    it('acepta contenido sin la firma', async () => {
+        const result = await new EicarScanner().scan(Readable.from([Buffer.from('contrato firmado')]));
+
+        expect(result).toEqual({ clean: true });
+    });
+});
+
+describe('ClamAvScanner', () => {
+    let clamd: { server: net.Server, port: number, chunks: number[][] };
+
+    beforeAll(async () => {
+        clamd = await fakeClamd();
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => clamd.server.close(resolve));
+    });
+
+    it('omite los bloques vacíos para no terminar el stream antes de tiempo', async () => {
+        const scanner = new ClamAvScanner(undefined, '127.0.0.1', clamd.port, 5000);
+        const result = await scanner.scan(Readable.from([Buffer.from('parte 1'), Buffer.alloc(0), Buffer.from(EICAR)]));
+
+        expect(result).toEqual({ clean: false, signature: 'Eicar-Signature' });
+        expect(clamd.chunks.at(-1)).toEqual([7, EICAR.length]);
+    });
+
+    it('interpreta la respuesta OK como archivo limpio', async () => {
+        const scanner = new ClamAvScanner(undefined, '127.0.0.1', clamd.port, 5000);
+
+        await expect(scanner.scan(Readable.from([Buffer.from('sin malware')]))).resolves.toEqual({ clean: true });
+    });
+});
+
+describe('FileManager.release', () => {
+    const key = 'contracts/contrato.pdf';
+    let driver: MemoryStorageDriver;
+    let files: FileManager;
+    let store: jest.Mock<(data: object) => Promise<{ ok: boolean }>>;
+
+    beforeAll(() => {
+        jest.spyOn(ServerLogger, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    afterEach(() => {
+        Scanner.configure({ engine: new NoopScanner() });
+    });
+
+    /** Escribe el contenido en cuarentena con el motor indicado */
+    async function quarantined(engine: MalwareScanner, content: string): Promise<string> {
+        Scanner.configure({ engine });
+        driver = new MemoryStorageDriver();
+        files = new FileManager(driver);
+        store = jest.fn<(data: object) => Promise<{ ok: boolean }>>().mockResolvedValue({ ok: true });
+        Object.assign(files, { detections: { store } });
+
+        const target = Scanner.quarantine(key);
+        await driver.put(target, Buffer.from(content), 'application/pdf');
+        return target;
+    }
+
+    it('mueve un archivo limpio fuera de la cuarentena', async () => {
+        const target = await quarantined(new EicarScanner(), '%PDF-1.7 contrato');
+
+        const released = await files.release(target, 'CONTRACT', { user_id: 1, size: 17 });
+
+        expect(released).toEqual({ ok: true, key });
+        expect(await driver.head(target)).toBeNull();
+        expect(await driver.head(key)).toEqual({ size: 17 });
+        expect(store).not.toHaveBeenCalled();
+    });
+
+    it('elimina un archivo infectado y registra la detección', async () => {
+        const target = await quarantined(new EicarScanner(), EICAR);
+
+        const released = await files.release(target, 'CONTRACT', { user_id: 1, original_name: 'eicar.txt', size: EICAR.length });
+
+        expect(released).toMatchObject({ ok: false, reason: 'infected' });
+        expect(await driver.head(target)).toBeNull();
+        expect(await driver.head(key)).toBeNull();
+        expect(store).toHaveBeenCalledWith(expect.objectContaining({
+            user_id: 1,
+            category: 'CONTRACT',
+            key: target,
+            original_name: 'eicar.txt',
+            scanner: 'eicar',
+            signature: 'Eicar-Test-Signature'
+        }));
+    });
+
+    it('deja el archivo en cuarentena si el motor no emite veredicto', async () => {
+        const broken: MalwareScanner = { name: 'clamav', scan: async () => { throw new Error('clamd caído'); } };
+        const target = await quarantined(broken, '%PDF-1.7 contrato');
+
+        const released = await files.release(target, 'CONTRACT', { size: 17 });
+
+        expect(released).toMatchObject({ ok: false, reason: 'failed' });
+        expect(await driver.head(target)).toEqual({ size: 17 });
+        expect(await driver.head(key)).toBeNull();
+    });
+});
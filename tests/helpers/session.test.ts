@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { SessionManager } from '../../src/helpers/session';
+
+// Los access tokens se sustituyen en cada prueba; no hace falta cargar las llaves ni el cifrado
+jest.mock('../../src/helpers/payload', () => ({ Payload: class { } }));
+
+interface Row {
+    id: number;
+    user_id: number;
+    family: string;
+    token_hash: string;
+    expires_at: Date;
+    mfa: boolean;
+    revoked_at: Date | null;
+    replaced_by: number | null;
+}
+
+/** Tabla refresh_tokens en memoria; `consume` solo revoca tokens activos, como el UPDATE condicional */
+class MemoryRefreshTokenQueries {
+    rows: Row[] = [];
+
+    async store(data: { user_id: number, family: string, token_hash: string, expires_at: Date, mfa?: boolean }) {
+        const refreshToken = { id: this.rows.length + 1, mfa: false, revoked_at: null, replaced_by: null, ...data };
+        this.rows.push(refreshToken);
+        return { ok: true, refreshToken };
+    }
+
+    async showByHash(token_hash: string) {
+        await new Promise(resolve => setImmediate(resolve));
+        const found = this.rows.find(row => row.token_hash === token_hash);
+        return { ok: true, refreshToken: found ? { ...found } : null };
+    }
+
+    async consume(id: number) {
+        const row = this.rows[id - 1];
+        if (row.revoked_at) return { ok: true, affected: 0 };
+        row.revoked_at = new Date();
+        return { ok: true, affected: 1 };
+    }
+
+    async replace(id: number, replaced_by: number) {
+        this.rows[id - 1].replaced_by = replaced_by;
+        return { ok: true };
+    }
+
+    async revokeFamily(family: string) {
+        const active = this.rows.filter(row => row.family === family && !row.revoked_at);
+        active.forEach(row => row.revoked_at = new Date());
+        return { ok: true, affected: active.length };
+    }
+}
+
+describe('SessionManager', () => {
+    let queries: MemoryRefreshTokenQueries;
+    let sessions: SessionManager;
+    let user: { id: number, active: boolean } | null;
+
+    beforeEach(() => {
+        queries = new MemoryRefreshTokenQueries();
+        user = { id: 1, active: true };
+        sessions = new SessionManager();
+        Object.assign(sessions, {
+            queries,
+            payload: { createToken: () => ({ ok: true, token: 'access-token' }) },
+            roleQueries: { grantsForUser: async () => ({ ok: true, roles: ['admin'], permissions: ['documents:read'] }) },
+            userQueries: { show: async () => ({ ok: true, user }) }
+        });
+    });
+
+    /** Filas de la familia del primer token, activas o no */
+    function family(): Row[] {
+        return queries.rows.filter(row => row.family === queries.rows[0].family);
+    }
+
+    it('rota el refresh token dentro de la misma familia', async () => {
+        const issued = await sessions.issue(1, { mfa: true });
+        const rotated = await sessions.rotate(issued.refresh_token);
+
+        expect(rotated).toMatchObject({ ok: true, token: 'access-token' });
+        expect(rotated.refresh_token).not.toBe(issued.refresh_token);
+        expect(family()).toHaveLength(2);
+        expect(queries.rows[0]).toMatchObject({ replaced_by: 2 });
+        expect(queries.rows[0].revoked_at).not.toBeNull();
+        expect(queries.rows[1]).toMatchObject({ revoked_at: null, mfa: true });
+    });
+
+    it('revoca la familia al reutilizar un token ya rotado', async () => {
+        const issued = await sessions.issue(1);
+        const rotated = await sessions.rotate(issued.refresh_token);
+
+        expect(await sessions.rotate(issued.refresh_token)).toMatchObject({ ok: false, reused: true });
+        expect(family().every(row => row.revoked_at)).toBe(true);
+        expect(await sessions.rotate(rotated.refresh_token)).toMatchObject({ ok: false, reused: true });
+    });
+
+    it('solo una de dos rotaciones simultáneas del mismo token tiene éxito', async () => {
+        const issued = await sessions.issue(1);
+        const results = await Promise.all([sessions.rotate(issued.refresh_token), sessions.rotate(issued.refresh_token)]);
+
+        expect(results.filter(r => r.ok)).toHaveLength(1);
+        expect(results.filter(r => r.reused)).toHaveLength(1);
+        expect(family().every(row => row.revoked_at)).toBe(true);
+    });
+
+    it('rechaza un token expirado sin revocar la familia', async () => {
+        const issued = await sessions.issue(1);
+        queries.rows[0].expires_at = new Date(Date.now() - 1000);
+
+        expect(await sessions.rotate(issued.refresh_token)).toMatchObject({ ok: false, error: 'El refresh token ha expirado, inicie sesión nuevamente.' });
+        expect(queries.rows[0].revoked_at).toBeNull();
+    });
+
+    it('no renueva la sesión de una cuenta deshabilitada y revoca su familia', async () => {
+        const issued = await sessions.issue(1);
+        user.active = false;
+
+        expect(await sessions.rotate(issued.refresh_token)).toEqual({ ok: false, error: 'La cuenta no existe o está deshabilitada.' });
+        expect(family().every(row => row.revoked_at)).toBe(true);
+        expect(family()).toHaveLength(1);
+    });
+
+    it('no renueva la sesión de una cuenta eliminada', async () => {
+        const issued = await sessions.issue(1);
+        user = null;
+
+        expect(await sessions.rotate(issued.refresh_token)).toMatchObject({ ok: false });
+        expect(queries.rows[0].revoked_at).not.toBeNull();
+    });
+});
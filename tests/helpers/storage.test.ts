@@ -0,0 +1,86 @@
+import { afterAll, afterEach, describe, expect, it } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { LocalStorageDriver, MemoryStorageDriver, Storage, StorageDriver } from '../../src/helpers/storage';
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-'));
+
+/** Lee un stream completo */
+async function read(stream: Readable): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return Buffer.concat(chunks).toString();
+}
+
+afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+// Los backends son intercambiables: todos deben cumplir el mismo contrato
+describe.each([
+    ['LocalStorageDriver', () => new LocalStorageDriver(root)],
+    ['MemoryStorageDriver', () => new MemoryStorageDriver()]
+])('%s', (name, create: () => StorageDriver) => {
+    it('guarda, consulta y elimina objetos', async () => {
+        const driver = create();
+        await driver.put('contracts/a.txt', Buffer.from('contenido'), 'text/plain');
+
+        expect(Buffer.from(await driver.get('contracts/a.txt')).toString()).toBe('contenido');
+        expect(await driver.head('contracts/a.txt')).toEqual({ size: 9 });
+        expect(Buffer.from(await driver.peek('contracts/a.txt', 4)).toString()).toBe('cont');
+        expect(await read(await driver.getStream('contracts/a.txt'))).toBe('contenido');
+
+        await driver.delete('contracts/a.txt');
+        expect(await driver.head('contracts/a.txt')).toBeNull();
+    });
+
+    it('recibe objetos por stream y los mueve de clave', async () => {
+        const driver = create();
+        await driver.putStream('quarantine/b.txt', Readable.from([Buffer.from('por '), Buffer.from('partes')]), 'text/plain');
+        await driver.move('quarantine/b.txt', 'contracts/b.txt');
+
+        expect(await driver.head('quarantine/b.txt')).toBeNull();
+        expect(Buffer.from(await driver.get('contracts/b.txt')).toString()).toBe('por partes');
+    });
+
+    it('falla al leer una clave inexistente', async () => {
+        await expect(create().get('contracts/no-existe.txt')).rejects.toThrow();
+    });
+});
+
+describe('LocalStorageDriver', () => {
+    it('rechaza claves fuera del directorio raíz', async () => {
+        const driver = new LocalStorageDriver(root);
+
+        await expect(driver.put('../fuera.txt', Buffer.from('x'), 'text/plain')).rejects.toThrow('Clave de almacenamiento inválida');
+        await expect(driver.get('contracts/../../fuera.txt')).rejects.toThrow('Clave de almacenamiento inválida');
+    });
+
+    it('no deja el objeto a medias si el stream falla', async () => {
+        const driver = new LocalStorageDriver(root);
+        const failing = new Readable({ read() { this.destroy(new Error('conexión cortada')); } });
+
+        await expect(driver.putStream('contracts/c.txt', failing, 'text/plain')).rejects.toThrow('conexión cortada');
+        expect(await driver.head('contracts/c.txt')).toBeNull();
+        expect(fs.readdirSync(path.join(root, 'contracts')).filter(file => file.startsWith('c.txt'))).toEqual([]);
+    });
+});
+
+describe('Storage.fromEnv', () => {
+    afterEach(() => {
+        process.env.STORAGE_DRIVER = 'memory';
+    });
+
+    it('elige el backend según STORAGE_DRIVER', () => {
+        process.env.STORAGE_DRIVER = 'local';
+        expect(Storage.fromEnv().name).toBe('local');
+
+        process.env.STORAGE_DRIVER = 'memory';
+        expect(Storage.fromEnv().name).toBe('memory');
+
+        process.env.STORAGE_DRIVER = 'ftp';
+        expect(() => Storage.fromEnv()).toThrow('STORAGE_DRIVER desconocido: ftp');
+    });
+});
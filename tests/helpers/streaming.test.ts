@@ -0,0 +1,66 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { StreamingUpload } from '../../src/helpers/streaming';
+import { UploadProgress } from '../../src/helpers/progress';
+import { RouteManager } from '../../src/routes/index.routes';
+
+// Los controladores de las rutas no se ejecutan; no hace falta cargar las llaves ni el cifrado
+jest.mock('../../src/helpers/payload', () => ({ Payload: class { } }));
+
+describe('StreamingUpload.bypass', () => {
+    let server: Server;
+    let base: string;
+
+    beforeAll(async () => {
+        // `uploads` marca la petición en lugar de leer el cuerpo, como haría express-fileupload
+        const app = express();
+        app.use(RouteManager.PREFIX, StreamingUpload.bypass((req, res, next) => {
+            res.locals.uploads = true;
+            next();
+        }));
+        app.use((req, res) => { res.json({ uploads: res.locals.uploads === true }); });
+
+        server = app.listen(0);
+        await new Promise(resolve => server.once('listening', resolve));
+        base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    async function uploads(method: string, path: string): Promise<boolean> {
+        const response = await fetch(`${base}${path}`, { method });
+        return ((await response.json()) as { uploads: boolean }).uploads;
+    }
+
+    it('omite express-fileupload en las rutas de streaming montadas bajo el prefijo de la API', async () => {
+        expect(await uploads('POST', `${RouteManager.PREFIX}/documents/stream`)).toBe(false);
+        expect(await uploads('POST', `${RouteManager.PREFIX}/documents/stream/`)).toBe(false);
+        expect(await uploads('POST', `${RouteManager.PREFIX}/documents/15/versions/stream`)).toBe(false);
+    });
+
+    it('aplica express-fileupload en las demás cargas', async () => {
+        expect(await uploads('POST', `${RouteManager.PREFIX}/documents`)).toBe(true);
+        expect(await uploads('POST', `${RouteManager.PREFIX}/documents/abc/versions/stream`)).toBe(true);
+        expect(await uploads('GET', `${RouteManager.PREFIX}/documents/stream`)).toBe(true);
+    });
+
+    it('no aplica fuera del prefijo de la API', async () => {
+        expect(await uploads('POST', '/documents')).toBe(false);
+    });
+});
+
+describe('UploadProgress', () => {
+    it('solo entrega el avance al usuario o cliente que inició la carga', () => {
+        const id = '1b4e28ba-2fa1-41d2-883f-0016d3cca427';
+        UploadProgress.start(id, { user_id: null, client_id: '7' }, 100);
+        UploadProgress.update(id, 40);
+
+        expect(UploadProgress.get(id, { user_id: null, client_id: '7' })).toEqual({ id, status: 'receiving', received: 40, total: 100 });
+        expect(UploadProgress.get(id, { user_id: 7, client_id: null })).toBeNull();
+        expect(UploadProgress.get(id, { user_id: null, client_id: '8' })).toBeNull();
+    });
+});
@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { LoginThrottle } from '../../src/helpers/throttle';
+import { Mailer } from '../../src/helpers/mailer';
+import { ServerLogger } from '../../src/utils/logger';
+
+type Scope = 'account' | 'ip';
+
+interface Row {
+    id: number;
+    scope: Scope;
+    key: string;
+    failures: number;
+    last_failure_at: Date | null;
+    next_attempt_at: Date | null;
+    locked_until: Date | null;
+    unlock_token_hash: string | null;
+}
+
+/**
+ * Tabla login_throttles en memoria. `registerFailure` suma de forma atómica,
+ * como la transacción con bloqueo, pero cede el turno antes de responder para
+ * que los intentos simultáneos escalen con su propia copia del registro.
+ */
+class MemoryThrottleQueries {
+    rows: Row[] = [];
+
+    private find(scope: Scope, key: string): Row | undefined {
+        return this.rows.find(row => row.scope === scope && row.key === key);
+    }
+
+    async showMany(entries: { scope: Scope, key: string }[]) {
+        return { ok: true, throttles: entries.map(e => this.find(e.scope, e.key)).filter(Boolean).map(row => ({ ...row })) };
+    }
+
+    async registerFailure(scope: Scope, key: string, since: Date) {
+        let row = this.find(scope, key);
+        if (!row) {
+            row = { id: this.rows.length + 1, scope, key, failures: 0, last_failure_at: null, next_attempt_at: null, locked_until: null, unlock_token_hash: null };
+            this.rows.push(row);
+        }
+        const expired = !row.last_failure_at || row.last_failure_at.getTime() < since.getTime();
+        row.failures = expired ? 1 : row.failures + 1;
+        row.last_failure_at = new Date();
+        const throttle = { ...row };
+        await new Promise(resolve => setImmediate(resolve));
+        return { ok: true, throttle };
+    }
+
+    async update(id: number, data: { next_attempt_at: Date | null }) {
+        Object.assign(this.rows[id - 1], data);
+        return { ok: true };
+    }
+
+    async lock(id: number, data: { locked_until: Date, unlock_token_hash: string | null }) {
+        const row = this.rows[id - 1];
+        if (row.locked_until && row.locked_until.getTime() > Date.now()) return { ok: true, locked: false };
+        Object.assign(row, data, { next_attempt_at: null });
+        return { ok: true, locked: true };
+    }
+
+    async showLockedByUnlockHash(unlock_token_hash: string) {
+        const throttle = this.rows.find(row => row.scope === 'account' && row.unlock_token_hash === unlock_token_hash && row.locked_until && row.locked_until.getTime() > Date.now());
+        return { ok: true, throttle };
+    }
+
+    async reset(scope: Scope, key: string) {
+        const row = this.find(scope, key);
+        if (row) Object.assign(row, { failures: 0, last_failure_at: null, next_attempt_at: null, locked_until: null, unlock_token_hash: null });
+        return { ok: true };
+    }
+}
+
+describe('LoginThrottle', () => {
+    let queries: MemoryThrottleQueries;
+    let throttle: LoginThrottle;
+    let send: jest.SpiedFunction<Mailer['send']>;
+
+    beforeAll(() => {
+        jest.spyOn(ServerLogger, 'log').mockImplementation(() => undefined);
+    });
+
+    beforeEach(() => {
+        queries = new MemoryThrottleQueries();
+        throttle = new LoginThrottle();
+        Object.assign(throttle, {
+            queries,
+            userQueries: {
+                showByEmail: async (email: string) => ({ ok: true, user: { id: 7, email, name: 'Ana', active: true } })
+            }
+        });
+        send = jest.spyOn(Mailer.prototype, 'send').mockResolvedValue({ ok: true });
+    });
+
+    afterEach(() => {
+        send.mockRestore();
+    });
+
+    /** Registra `count` fallos seguidos */
+    async function fail(count: number, email: string, ip?: string): Promise<void> {
+        for (let i = 0; i < count; i++) {
+            expect(await throttle.registerFailure(email, ip)).toEqual({ ok: true });
+        }
+    }
+
+    it('retrasa la cuenta a partir de LOGIN_DELAY_AFTER fallos', async () => {
+        await fail(2, 'Ana@Example.com', '10.0.0.1');
+        expect(await throttle.check('ana@example.com', '10.0.0.1')).toEqual({ ok: true, allowed: true });
+
+        await fail(1, 'ana@example.com', '10.0.0.1');
+        expect(await throttle.check('ana@example.com', '10.0.0.1')).toMatchObject({ ok: true, allowed: false, retry_after: 1 });
+    });
+
+    it('no retrasa una IP compartida por debajo de IP_DELAY_AFTER', async () => {
+        for (let i = 0; i < 19; i++) {
+            await fail(1, `usuario${i}@example.com`, '10.0.0.1');
+        }
+        expect(await throttle.check('nuevo@example.com', '10.0.0.1')).toEqual({ ok: true, allowed: true });
+
+        await fail(1, 'usuario19@example.com', '10.0.0.1');
+        expect(await throttle.check('nuevo@example.com', '10.0.0.1')).toMatchObject({ ok: true, allowed: false, retry_after: 1 });
+    });
+
+    it('cuenta todos los fallos simultáneos y bloquea una sola vez', async () => {
+        const results = await Promise.all(Array.from({ length: 12 }, () => throttle.registerFailure('ana@example.com', '10.0.0.1')));
+
+        expect(results.every(r => r.ok)).toBe(true);
+        expect(queries.rows.map(row => [row.scope, row.failures])).toEqual([['account', 12], ['ip', 12]]);
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(await throttle.check('ana@example.com')).toMatchObject({ ok: true, allowed: false, locked: true });
+    });
+
+    it('desbloquea la cuenta con el enlace enviado por correo', async () => {
+        await fail(10, 'ana@example.com');
+        const url: string = send.mock.calls[0][0].context.data.url;
+        const token = url.split('token=')[1];
+
+        expect(queries.rows[0].unlock_token_hash).toBe(crypto.createHash('sha256').update(token).digest('hex'));
+        expect(await throttle.unlock(token)).toEqual({ ok: true });
+        expect(await throttle.check('ana@example.com')).toEqual({ ok: true, allowed: true });
+        expect(await throttle.unlock(token)).toMatchObject({ ok: false, reason: 'invalid' });
+    });
+
+    it('sin IP conocida solo usa el contador de la cuenta', async () => {
+        await fail(1, 'ana@example.com');
+        await fail(1, 'ana@example.com', '');
+
+        expect(queries.rows).toHaveLength(1);
+        expect(queries.rows[0]).toMatchObject({ scope: 'account', failures: 2 });
+    });
+});
@@ -0,0 +1,91 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { UploadManager } from '../../src/helpers/uploads';
+import { FileManager } from '../../src/helpers/files';
+import { MemoryStorageDriver } from '../../src/helpers/storage';
+import { ServerLogger } from '../../src/utils/logger';
+
+interface Intent {
+    id: number;
+    key: string;
+    expires_at: Date;
+    completed_at: Date | null;
+}
+
+/** Tabla upload_intents en memoria; `discard` solo borra cargas que siguen vencidas sin confirmar */
+class MemoryIntentQueries {
+    intents: Intent[] = [];
+    /** Cargas que se confirman entre la lectura del lote y su eliminación */
+    completing = new Set<number>();
+
+    async expired(before: Date, limit: number) {
+        return { ok: true, intents: this.intents.filter(i => !i.completed_at && i.expires_at < before).slice(0, limit) };
+    }
+
+    async discard(id: number, before: Date) {
+        const intent = this.intents.find(i => i.id === id);
+        if (intent && this.completing.has(id)) intent.completed_at = new Date();
+        if (!intent || intent.completed_at || intent.expires_at >= before) return { ok: true, affected: 0 };
+        this.intents = this.intents.filter(i => i !== intent);
+        return { ok: true, affected: 1 };
+    }
+}
+
+describe('UploadManager.sweep', () => {
+    let queries: MemoryIntentQueries;
+    let driver: MemoryStorageDriver;
+    let uploads: UploadManager;
+
+    beforeAll(() => {
+        jest.spyOn(ServerLogger, 'log').mockImplementation(() => undefined);
+    });
+
+    beforeEach(async () => {
+        queries = new MemoryIntentQueries();
+        driver = new MemoryStorageDriver();
+        uploads = new UploadManager();
+        Object.assign(uploads, { queries, files: new FileManager(driver) });
+
+        const past = new Date(Date.now() - 60 * 1000);
+        for (let id = 1; id <= 150; id++) {
+            queries.intents.push({ id, key: `contracts/${id}.pdf`, expires_at: past, completed_at: null });
+            await driver.put(`contracts/${id}.pdf`, Buffer.from('%PDF'), 'application/pdf');
+        }
+    });
+
+    it('elimina objetos y registros vencidos en varios lotes', async () => {
+        queries.intents.push({ id: 151, key: 'contracts/151.pdf', expires_at: new Date(Date.now() + 60 * 1000), completed_at: null });
+        await driver.put('contracts/151.pdf', Buffer.from('%PDF'), 'application/pdf');
+
+        expect(await uploads.sweep()).toEqual({ ok: true, removed: 150, failed: 0 });
+        expect(queries.intents.map(i => i.id)).toEqual([151]);
+        expect(await driver.head('contracts/1.pdf')).toBeNull();
+        expect(await driver.head('contracts/151.pdf')).not.toBeNull();
+    });
+
+    it('conserva el archivo de una carga confirmada durante la depuración', async () => {
+        queries.completing.add(42);
+
+        expect(await uploads.sweep()).toEqual({ ok: true, removed: 149, failed: 0 });
+        expect(queries.intents.map(i => i.id)).toEqual([42]);
+        expect(await driver.head('contracts/42.pdf')).toEqual({ size: 4 });
+    });
+});
+
+describe('UploadManager.schedule', () => {
+    afterEach(() => {
+        clearInterval(Reflect.get(UploadManager, 'timer'));
+        Object.assign(UploadManager, { timer: null });
+        delete process.env.UPLOAD_SWEEP_INTERVAL_MINUTES;
+    });
+
+    it('no programa la limpieza si UPLOAD_SWEEP_INTERVAL_MINUTES no tiene valor', () => {
+        expect(UploadManager.schedule()).toBe(false);
+    });
+
+    it('programa la limpieza con el intervalo configurado', () => {
+        process.env.UPLOAD_SWEEP_INTERVAL_MINUTES = '15';
+
+        expect(UploadManager.schedule()).toBe(true);
+        expect(UploadManager.schedule()).toBe(false);
+    });
+});
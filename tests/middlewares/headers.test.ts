@@ -0,0 +1,184 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import Cryptr from 'cryptr';
+import { Request, Response } from 'express';
+import { CheckHeaders, AuthenticatedRequest } from '../../src/middlewares/headers';
+import { KeyRing } from '../../src/helpers/keyring';
+import { MemoryRevocationStore, TokenRevocation } from '../../src/helpers/revocation';
+import { JwtConfig } from '../../src/config/jwt';
+
+const CRYPTR_KEY = 'clave-de-pruebas';
+const cryptr = new Cryptr(CRYPTR_KEY);
+
+let dir: string;
+let privateKey: string;
+
+/** Firma un token como `Payload.createToken`, con la clave activa del llavero */
+function sign(payload: object, options: jwt.SignOptions = {}): string {
+    return jwt.sign(payload, privateKey, { ...JwtConfig.signOptions(), algorithm: 'RS256', keyid: 'actual', expiresIn: 300, jwtid: crypto.randomUUID(), ...options });
+}
+
+/** Token de usuario válido: user_id cifrado y sub derivado del id */
+function userToken(id: number, options: jwt.SignOptions = {}): string {
+    return sign({ user_id: cryptr.encrypt(String(id)) }, { subject: JwtConfig.subject('user', id), ...options });
+}
+
+/** Token de cliente válido: client_id cifrado y sub derivado del id */
+function clientToken(id: string): string {
+    return sign({ client_id: cryptr.encrypt(id) }, { subject: JwtConfig.subject('client', id) });
+}
+
+/** Ejecuta el middleware y devuelve el status, el cuerpo y si llegó a `next` */
+async function run(middleware: (req: Request, res: Response, next: () => void) => unknown, token?: string) {
+    const outcome: { status?: number, body?: any, next: boolean, req: AuthenticatedRequest } = { next: false, req: undefined };
+    const header = middleware === CheckHeaders.validateApiKey ? 'x-api-key' : 'authorization';
+    const req = { get: (name: string) => name.toLowerCase() === header && token ? (header === 'authorization' ? `Bearer ${token}` : token) : undefined } as unknown as Request;
+    const res = {
+        status(code: number) { outcome.status = code; return this; },
+        json(body: any) { outcome.body = body; return this; }
+    } as unknown as Response;
+    outcome.req = req as AuthenticatedRequest;
+    await middleware(req, res, () => { outcome.next = true; });
+    return outcome;
+}
+
+describe('CheckHeaders', () => {
+    beforeAll(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'keys-'));
+        privateKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey.export({ type: 'pkcs8', format: 'pem' }) as string;
+        fs.writeFileSync(path.join(dir, 'actual.private.pem'), privateKey);
+
+        process.env.JWT_KEYS_PATH = dir;
+        process.env.JWT_ACTIVE_KID = 'actual';
+        process.env.CRYPTR_KEY = CRYPTR_KEY;
+        KeyRing.reload();
+    });
+
+    afterAll(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+        delete process.env.JWT_KEYS_PATH;
+        delete process.env.JWT_ACTIVE_KID;
+        delete process.env.CRYPTR_KEY;
+        KeyRing.reload();
+    });
+
+    beforeEach(() => {
+        TokenRevocation.configure({ store: new MemoryRevocationStore() });
+    });
+
+    describe('revocación', () => {
+        it('rechaza con 401 el token cuyo jti fue revocado', async () => {
+            await TokenRevocation.store.revoke('revocado', new Date(Date.now() + 60000));
+
+            const outcome = await run(CheckHeaders.validateJWT, userToken(7, { jwtid: 'revocado' }));
+
+            expect(outcome.next).toBe(false);
+            expect(outcome.status).toBe(401);
+        });
+
+        it('rechaza los tokens emitidos antes de revocar al usuario y acepta los de otros usuarios', async () => {
+            const token = userToken(7);
+            await TokenRevocation.store.revokeUser(7, new Date());
+
+            expect((await run(CheckHeaders.validateJWT, token)).status).toBe(401);
+            expect((await run(CheckHeaders.validateJWT, userToken(8))).next).toBe(true);
+        });
+
+        it('responde 500 sin dejar pasar el token si la lista de revocación no responde', async () => {
+            const store = new MemoryRevocationStore();
+            jest.spyOn(store, 'isRevoked').mockRejectedValue(new Error('sin conexión'));
+            TokenRevocation.configure({ store });
+
+            const outcome = await run(CheckHeaders.validateJWT, userToken(7));
+
+            expect(outcome.next).toBe(false);
+            expect(outcome.status).toBe(500);
+        });
+    });
+
+    describe('tokens de cliente', () => {
+        it('validateClientJWT acepta el token de cliente y anexa su id', async () => {
+            const outcome = await run(CheckHeaders.validateClientJWT, clientToken('erp'));
+
+            expect(outcome.next).toBe(true);
+            expect(outcome.req.tokenType).toBe('client');
+            expect(outcome.req.clientId).toBe('erp');
+            expect(outcome.req.userId).toBeUndefined();
+        });
+
+        it('cada middleware rechaza con 403 el tipo de token que no admite', async () => {
+            expect((await run(CheckHeaders.validateJWT, clientToken('erp'))).status).toBe(403);
+            expect((await run(CheckHeaders.validateClientJWT, userToken(7))).status).toBe(403);
+        });
+
+        it("authenticate(['user', 'client']) acepta ambos tipos", async () => {
+            const both = CheckHeaders.authenticate(['user', 'client']);
+
+            expect((await run(both, userToken(7))).req.tokenType).toBe('user');
+            expect((await run(both, clientToken('erp'))).req.tokenType).toBe('client');
+        });
+    });
+
+    describe('kid', () => {
+        it('rechaza el token cuyo kid no está en el llavero', async () => {
+            const outcome = await run(CheckHeaders.validateJWT, userToken(7, { keyid: 'desconocida' }));
+
+            expect(outcome.next).toBe(false);
+            expect(outcome.status).toBe(403);
+        });
+    });
+
+    describe('llaves de API', () => {
+        const original = Reflect.get(CheckHeaders, 'apiKeys');
+
+        afterEach(() => {
+            Object.assign(CheckHeaders, { apiKeys: original });
+        });
+
+        it('anexa el cliente y los permisos de la llave', async () => {
+            Object.assign(CheckHeaders, { apiKeys: { verify: async () => ({ ok: true, apiKey: { id: 3, client_id: 'erp', scopes: ['documents:read'] } }) } });
+
+            const outcome = await run(CheckHeaders.validateApiKey, 'gsk_llave');
+
+            expect(outcome.next).toBe(true);
+            expect(outcome.req).toMatchObject({ tokenType: 'client', clientId: 'erp', apiKeyId: 3, scopes: ['documents:read'], roles: [] });
+        });
+
+        it('responde 401 sin llave o con una llave rechazada', async () => {
+            Object.assign(CheckHeaders, { apiKeys: { verify: async () => ({ ok: false, reason: 'invalid', error: 'La llave de API fue revocada.' }) } });
+
+            expect((await run(CheckHeaders.validateApiKey)).status).toBe(401);
+
+            const rejected = await run(CheckHeaders.validateApiKey, 'gsk_llave');
+            expect(rejected.status).toBe(401);
+            expect(rejected.body.errors[0].message).toBe('La llave de API fue revocada.');
+        });
+    });
+
+    describe('claim sub', () => {
+        it('acepta el token cuyo sub corresponde al usuario', async () => {
+            const outcome = await run(CheckHeaders.validateJWT, userToken(7));
+
+            expect(outcome.next).toBe(true);
+            expect(outcome.req.userId).toBe(7);
+        });
+
+        it('rechaza el token emitido sin sub', async () => {
+            const outcome = await run(CheckHeaders.validateJWT, sign({ user_id: cryptr.encrypt('7') }));
+
+            expect(outcome.next).toBe(false);
+            expect(outcome.status).toBe(403);
+        });
+
+        it('rechaza el token cuyo sub pertenece a otro usuario', async () => {
+            const outcome = await run(CheckHeaders.validateJWT, sign({ user_id: cryptr.encrypt('7') }, { subject: JwtConfig.subject('user', 8) }));
+
+            expect(outcome.next).toBe(false);
+            expect(outcome.status).toBe(403);
+        });
+    });
+});
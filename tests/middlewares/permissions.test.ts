@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Request, RequestHandler, Response } from 'express';
+import { Authorization } from '../../src/middlewares/permissions';
+import { AuthenticatedRequest } from '../../src/middlewares/headers';
+
+type Grants = { ok: boolean, roles?: string[], permissions?: string[] };
+
+/** Ejecuta el middleware con los datos que dejaría `CheckHeaders` y devuelve el status, el cuerpo y si llegó a `next` */
+async function run(middleware: RequestHandler, auth: Partial<AuthenticatedRequest>) {
+    const outcome: { status?: number, body?: any, next: boolean } = { next: false };
+    const res = {
+        status(code: number) { outcome.status = code; return this; },
+        json(body: any) { outcome.body = body; return this; }
+    } as unknown as Response;
+    await middleware({ ...auth } as Request, res, () => { outcome.next = true; });
+    return outcome;
+}
+
+describe('Authorization', () => {
+    const original = Reflect.get(Authorization, 'roleQueries');
+    let grantsForUser: jest.Mock<(user_id: number) => Promise<Grants>>;
+
+    beforeEach(() => {
+        grantsForUser = jest.fn<(user_id: number) => Promise<Grants>>()
+            .mockResolvedValue({ ok: true, roles: ['editor'], permissions: ['documents:*', 'users:read'] });
+        Object.assign(Authorization, { roleQueries: { grantsForUser } });
+    });
+
+    afterEach(() => {
+        Object.assign(Authorization, { roleQueries: original });
+    });
+
+    it('can reconoce el permiso exacto, el comodín del recurso y el comodín global', () => {
+        expect(Authorization.can(['documents:read'], 'documents:read')).toBe(true);
+        expect(Authorization.can(['documents:*'], 'documents:write')).toBe(true);
+        expect(Authorization.can(['*'], 'users:delete')).toBe(true);
+        expect(Authorization.can(['documents:read'], 'documents:write')).toBe(false);
+        expect(Authorization.can(['users:*'], 'documents:read')).toBe(false);
+    });
+
+    it('requirePermission consulta los permisos de los roles del usuario', async () => {
+        expect((await run(Authorization.requirePermission('documents:write', 'users:read'), { tokenType: 'user', userId: 7 })).next).toBe(true);
+        expect(grantsForUser).toHaveBeenCalledWith(7);
+
+        const denied = await run(Authorization.requirePermission('users:write'), { tokenType: 'user', userId: 7 });
+        expect(denied.status).toBe(403);
+        expect(denied.body.errors[0].required).toEqual(['users:write']);
+    });
+
+    it('requirePermission usa los scopes del token de cliente sin consultar roles', async () => {
+        const client = { tokenType: 'client' as const, clientId: 'erp', scopes: ['documents:read'] };
+
+        expect((await run(Authorization.requirePermission('documents:read'), client)).next).toBe(true);
+        expect((await run(Authorization.requirePermission('documents:write'), client)).status).toBe(403);
+        expect(grantsForUser).not.toHaveBeenCalled();
+    });
+
+    it('responde 401 sin autenticación y 500 si no se pueden leer los permisos', async () => {
+        expect((await run(Authorization.requirePermission('documents:read'), {})).status).toBe(401);
+
+        grantsForUser.mockResolvedValue({ ok: false });
+        expect((await run(Authorization.requirePermission('documents:read'), { tokenType: 'user', userId: 7 })).status).toBe(500);
+    });
+
+    it('requireRole acepta cualquiera de los roles indicados', async () => {
+        expect((await run(Authorization.requireRole('admin', 'editor'), { tokenType: 'user', userId: 7 })).next).toBe(true);
+        expect((await run(Authorization.requireRole('admin'), { tokenType: 'user', userId: 7 })).status).toBe(403);
+    });
+});
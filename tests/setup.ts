@@ -0,0 +1,15 @@
+/**
+ * Entorno mínimo para importar los módulos sin servicios externos.
+ *
+ * `Database` exige las variables de conexión al cargarse, pero Sequelize no
+ * abre la conexión hasta la primera consulta; las pruebas sustituyen las
+ * consultas por dobles en memoria, así que nunca llega a conectarse.
+ */
+for (const mode of ['DEVELOPMENT', 'TESTING', 'PRODUCTION']) {
+    for (const key of ['HOST', 'NAME', 'USER', 'PASS']) {
+        process.env[`DB_${key}_${mode}`] ??= 'test';
+    }
+    process.env[`DB_PORT_${mode}`] ??= '3306';
+}
+process.env.MODE ??= 'testing';
+process.env.STORAGE_DRIVER ??= 'memory';